@@ -60,6 +60,8 @@ const BINARY_EXTENSIONS = new Set([
   '.zst'
 ]);
 
+const SPLIT_ZIP_SEGMENT = /^\.z\d{2,}$/;
+
 const SKIP_DIRECTORIES = new Set(['.bytefold_meta', '.git', 'node_modules']);
 
 const options = parseArgs(process.argv.slice(2));
@@ -167,6 +169,8 @@ async function walk(dir, output) {
 function shouldSkipFile(relativePath) {
   const ext = path.extname(relativePath).toLowerCase();
   if (BINARY_EXTENSIONS.has(ext)) return true;
+  // Split ZIP segments (.z01, .z02, ...) carry raw archive bytes.
+  if (SPLIT_ZIP_SEGMENT.test(ext)) return true;
   if (relativePath.startsWith('test/fixtures/')) {
     // Fixtures may contain binary corpus bytes. Text fixtures are still scanned.
     if (BINARY_EXTENSIONS.has(ext)) return true;
@@ -0,0 +1,80 @@
+import { decodeNullTerminatedUtf8 } from '../binary.js';
+import type { ArchiveFormat } from './types.js';
+
+const ZSTD_MAGIC = new Uint8Array([0x28, 0xb5, 0x2f, 0xfd]);
+const XZ_MAGIC = new Uint8Array([0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00]);
+
+function isZstdHeader(data: Uint8Array): boolean {
+  if (data.length < ZSTD_MAGIC.length) return false;
+  for (let i = 0; i < ZSTD_MAGIC.length; i += 1) {
+    if (data[i] !== ZSTD_MAGIC[i]) return false;
+  }
+  return true;
+}
+
+export function isXzHeader(data: Uint8Array): boolean {
+  if (data.length < XZ_MAGIC.length) return false;
+  for (let i = 0; i < XZ_MAGIC.length; i += 1) {
+    if (data[i] !== XZ_MAGIC[i]) return false;
+  }
+  return true;
+}
+
+/** Detect an archive or compressed-stream format from leading magic bytes. */
+export function detectFormat(data: Uint8Array): ArchiveFormat | undefined {
+  if (data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b) {
+    return 'gz';
+  }
+  if (data.length >= 4 && data[0] === 0x42 && data[1] === 0x5a && data[2] === 0x68) {
+    const level = data[3] ?? 0;
+    if (level >= 0x31 && level <= 0x39) return 'bz2';
+  }
+  if (data.length >= 4 && isZstdHeader(data)) {
+    return 'zst';
+  }
+  if (data.length >= 6 && isXzHeader(data)) {
+    return 'xz';
+  }
+  if (data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b) {
+    const sig = ((data[2] ?? 0) << 8) | (data[3] ?? 0);
+    if (sig === 0x0304 || sig === 0x0506 || sig === 0x0708) {
+      return 'zip';
+    }
+  }
+  if (data.length >= 512 && isTarHeader(data.subarray(0, 512))) {
+    return 'tar';
+  }
+  return undefined;
+}
+
+function isTarHeader(block: Uint8Array): boolean {
+  const checksumStored = parseOctal(block.subarray(148, 156));
+  const checksumActual = computeChecksum(block);
+  if (checksumStored !== undefined && checksumStored !== checksumActual) return false;
+  const magic = readString(block, 257, 6);
+  return magic === 'ustar' || magic === 'ustar\0' || magic === '';
+}
+
+function readString(buffer: Uint8Array, start: number, length: number): string {
+  let end = start;
+  for (; end < start + length; end += 1) {
+    if (buffer[end] === 0) break;
+  }
+  return new TextDecoder('utf-8').decode(buffer.subarray(start, end)).trim();
+}
+
+function parseOctal(buffer: Uint8Array): number | undefined {
+  const text = decodeNullTerminatedUtf8(buffer).trim();
+  if (!text) return undefined;
+  const value = parseInt(text, 8);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function computeChecksum(header: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < header.length; i += 1) {
+    if (i >= 148 && i < 156) sum += 0x20;
+    else sum += header[i]!;
+  }
+  return sum;
+}
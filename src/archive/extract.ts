@@ -0,0 +1,473 @@
+import { throwIfAborted } from '../abort.js';
+import { BYTEFOLD_REPORT_SCHEMA_VERSION } from '../reportSchema.js';
+import { readAllBytes } from '../streams/buffer.js';
+import { normalizePathForCollision, toCollisionKey } from '../text/caseFold.js';
+import { ArchiveError } from './errors.js';
+import type { ArchiveReader } from './index.js';
+import type {
+  ArchiveEntry,
+  ArchiveExtractPreserveOptions,
+  ArchiveExtractReport,
+  ArchiveExtractSkippedEntry,
+  ArchiveExtractTargetOptions,
+  ArchiveFormat,
+  ExtractTarget,
+  ExtractTargetStat
+} from './types.js';
+
+const DEFAULT_UMASK = 0o022;
+const SPECIAL_BITS = 0o7000;
+
+/** @internal */
+export type ExtractPreserveSettings = {
+  mode: boolean;
+  times: boolean;
+  owner: boolean;
+  umask: number;
+  shouldKeepSpecialBits: boolean;
+};
+
+/**
+ * Resolve `preserve` options; returns undefined when nothing is restored.
+ *
+ * @throws {RangeError} When `umask` is not an integer in `0..0o777`.
+ * @internal
+ */
+export function resolvePreserveSettings(
+  preserve?: { [K in keyof ArchiveExtractPreserveOptions]?: ArchiveExtractPreserveOptions[K] | undefined }
+): ExtractPreserveSettings | undefined {
+  if (!preserve) return undefined;
+  const umask = preserve.umask ?? DEFAULT_UMASK;
+  if (!Number.isInteger(umask) || umask < 0 || umask > 0o777) {
+    throw new RangeError('preserve.umask must be an integer between 0 and 0o777');
+  }
+  const settings: ExtractPreserveSettings = {
+    mode: preserve.mode ?? false,
+    times: preserve.times ?? false,
+    owner: preserve.owner ?? false,
+    umask,
+    shouldKeepSpecialBits: preserve.shouldKeepSpecialBits ?? false
+  };
+  return settings.mode || settings.times || settings.owner ? settings : undefined;
+}
+
+/**
+ * Mode bits to restore for an entry mode: masked by `umask`, without setuid/setgid/sticky unless kept.
+ * @internal
+ */
+export function resolveExtractMode(mode: number, settings: ExtractPreserveSettings): number {
+  const specialMask = settings.shouldKeepSpecialBits ? 0 : SPECIAL_BITS;
+  return mode & 0o7777 & ~settings.umask & ~specialMask;
+}
+
+/** Map-backed target created by `createMemoryTarget`. */
+export type MemoryExtractTarget = ExtractTarget & {
+  /** Extracted paths keyed by relative `/`-separated path. */
+  readonly entries: Map<string, MemoryTargetEntry>;
+};
+
+/** Path stored by a memory target. */
+export type MemoryTargetEntry = {
+  /** Path kind. */
+  type: 'file' | 'directory' | 'symlink';
+  /** File contents (files only). */
+  data?: Uint8Array;
+  /** Link target (symlinks only). */
+  linkTarget?: string;
+  /** Modification time (set on write, or restored by `preserve.times`). */
+  mtime?: Date;
+  /** Access time restored by `preserve.times`. */
+  atime?: Date;
+  /** Permission bits restored by `preserve.mode`. */
+  mode?: number;
+  /** Owner uid restored by `preserve.owner`. */
+  uid?: number;
+  /** Owner gid restored by `preserve.owner`. */
+  gid?: number;
+};
+
+/**
+ * Extract every entry of an opened archive into an `ExtractTarget` and report what was written.
+ *
+ * Entry names (after `filter`/`mapPath`) and symlink targets are checked lexically against the target
+ * root, parent paths must be real directories rather than symlinks, and existing paths are resolved
+ * through `onExisting` before anything is written, so every target gets the same containment and
+ * collision rules. Two extracted entries that map to the same path, or to paths differing only in
+ * Unicode normalization or case, throw `ARCHIVE_NAME_COLLISION` whatever the format. Symlinks are skipped unless `shouldAllowSymlinks` is set and the target supports
+ * them; device/FIFO/hard-link entries are always skipped. Directory metadata from `preserve` is applied
+ * after all entries so restrictive modes and child writes cannot interfere.
+ *
+ * @example
+ * ```ts
+ * import { createMemoryTarget, extractArchive, openArchive } from "../../mod.ts";
+ *
+ * const target = createMemoryTarget();
+ * const report = await extractArchive(await openArchive(bytes), target);
+ * console.log(report.summary.files, target.entries.get("docs/readme.txt")?.data);
+ * ```
+ */
+export async function extractArchive(
+  reader: ArchiveReader,
+  target: ExtractTarget,
+  options?: ArchiveExtractTargetOptions
+): Promise<ArchiveExtractReport> {
+  const { shouldAllowSymlinks = false, filter, mapPath, onExisting = 'error', preserve, signal } = options ?? {};
+  const preserveSettings = resolvePreserveSettings(preserve);
+  const format = reader.format;
+  const report: ArchiveExtractReport = {
+    schemaVersion: BYTEFOLD_REPORT_SCHEMA_VERSION,
+    format,
+    summary: { entries: 0, files: 0, directories: 0, symlinks: 0, skipped: 0, bytesWritten: 0 },
+    written: [],
+    skipped: []
+  };
+  const skip = (entry: ArchiveExtractSkippedEntry): void => {
+    report.skipped.push(entry);
+    report.summary.skipped += 1;
+  };
+  const displayPath = (relativePath: string): string =>
+    target.resolvePath ? target.resolvePath(relativePath) : relativePath;
+  const knownDirectories = new Set<string>(['']);
+  const ensureParentDirectories = async (parts: string[], entryName: string): Promise<void> => {
+    for (let depth = 1; depth < parts.length; depth += 1) {
+      const parentPath = parts.slice(0, depth).join('/');
+      if (knownDirectories.has(parentPath)) continue;
+      const stat = await target.exists(parentPath);
+      if (!stat) {
+        await target.mkdir(parentPath);
+      } else if (stat.type === 'symlink') {
+        throw traversalError('Parent path is a symbolic link', entryName, { path: parentPath });
+      } else if (stat.type !== 'directory') {
+        throw collisionError(entryName, displayPath(parentPath), format);
+      }
+      knownDirectories.add(parentPath);
+    }
+  };
+  const directories: Array<{ path: string; entry: ArchiveEntry }> = [];
+  const assertDistinctName = createCollisionGuard(format);
+
+  for await (const entry of reader.entries()) {
+    throwIfAborted(signal);
+    report.summary.entries += 1;
+    const outputName = await selectOutputName(entry, filter, mapPath);
+    if (outputName === null) {
+      skip({ name: entry.name, reason: 'filtered' });
+      continue;
+    }
+    const entryType = unsupportedEntryType(entry);
+    if (entryType !== undefined) {
+      skip({ name: entry.name, reason: 'unsupported-type', entryType });
+      continue;
+    }
+    if (entry.isSymlink && (!shouldAllowSymlinks || !target.symlink)) {
+      skip({ name: entry.name, reason: 'symlink' });
+      continue;
+    }
+
+    const parts = splitEntryPath(outputName, entry.name);
+    assertDistinctName(outputName, entry);
+    const relativePath = parts.join('/');
+    if (entry.isDirectory) {
+      if (parts.length > 0) {
+        await ensureParentDirectories(parts, entry.name);
+        const stat = await target.exists(relativePath);
+        if (!stat) {
+          await target.mkdir(relativePath);
+        } else {
+          assertExistingDirectory(stat, entry.name, displayPath(relativePath), format);
+        }
+        knownDirectories.add(relativePath);
+      }
+      if (preserveSettings) directories.push({ path: relativePath, entry });
+      report.written.push({ name: entry.name, path: displayPath(relativePath), type: 'directory', bytes: 0 });
+      report.summary.directories += 1;
+      continue;
+    }
+
+    if (parts.length === 0) throw collisionError(entry.name, displayPath(relativePath), format);
+    await ensureParentDirectories(parts, entry.name);
+    const existing = await target.exists(relativePath);
+    if (existing && shouldKeepExisting(onExisting, existing, entry.mtime)) {
+      skip({ name: entry.name, reason: 'existing' });
+      continue;
+    }
+    if (existing && (onExisting === 'error' || existing.type === 'directory')) {
+      throw collisionError(entry.name, displayPath(relativePath), format);
+    }
+    const overwrite = existing !== null;
+
+    if (entry.isSymlink) {
+      const linkTarget = entry.linkName ?? new TextDecoder('utf-8').decode(await readAllBytes(await entry.open()));
+      assertSymlinkTargetContained(parts.slice(0, -1), linkTarget, entry.name);
+      await target.symlink!(linkTarget, relativePath, { overwrite });
+      if (preserveSettings) await applyTargetMetadata(target, relativePath, 'symlink', entry, preserveSettings);
+      report.written.push({ name: entry.name, path: displayPath(relativePath), type: 'symlink', bytes: 0 });
+      report.summary.symlinks += 1;
+      continue;
+    }
+
+    const source = await entry.open();
+    let writable: WritableStream<Uint8Array>;
+    try {
+      writable = await target.writeFile(relativePath, { overwrite });
+    } catch (err) {
+      await source.cancel(err).catch(() => {});
+      throw err;
+    }
+    let bytes = 0;
+    const counter = new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytes += chunk.length;
+        controller.enqueue(chunk);
+      }
+    });
+    await source.pipeThrough(counter).pipeTo(writable, signal ? { signal } : {});
+    if (preserveSettings) await applyTargetMetadata(target, relativePath, 'file', entry, preserveSettings);
+    report.written.push({ name: entry.name, path: displayPath(relativePath), type: 'file', bytes });
+    report.summary.files += 1;
+    report.summary.bytesWritten += bytes;
+  }
+
+  if (preserveSettings) {
+    for (const directory of directories.reverse()) {
+      await applyTargetMetadata(target, directory.path, 'directory', directory.entry, preserveSettings);
+    }
+  }
+  return report;
+}
+
+/**
+ * Create an extraction target backed by a `Map` of relative paths.
+ *
+ * Useful for tests, previews, and runtimes without a filesystem; pass an existing map to extract on
+ * top of earlier content.
+ */
+export function createMemoryTarget(entries: Map<string, MemoryTargetEntry> = new Map()): MemoryExtractTarget {
+  const assertAvailable = (path: string, overwrite: boolean): void => {
+    const existing = entries.get(path);
+    if (!existing) return;
+    if (!overwrite || existing.type === 'directory') {
+      throw new ArchiveError('ARCHIVE_NAME_COLLISION', 'Destination path already exists', { context: { path } });
+    }
+  };
+  const update = (path: string, patch: Partial<MemoryTargetEntry>): void => {
+    const existing = entries.get(path);
+    if (existing) entries.set(path, { ...existing, ...patch });
+  };
+  return {
+    entries,
+    async exists(path) {
+      if (path === '') return { type: 'directory' };
+      const existing = entries.get(path);
+      if (!existing) return null;
+      return { type: existing.type, ...(existing.mtime ? { mtime: existing.mtime } : {}) };
+    },
+    async mkdir(path) {
+      const existing = entries.get(path);
+      if (existing?.type === 'directory') return;
+      assertAvailable(path, false);
+      entries.set(path, { type: 'directory', mtime: new Date() });
+    },
+    async writeFile(path, options) {
+      assertAvailable(path, options.overwrite);
+      const chunks: Uint8Array[] = [];
+      return new WritableStream<Uint8Array>({
+        write(chunk) {
+          chunks.push(chunk.slice());
+        },
+        close() {
+          assertAvailable(path, options.overwrite);
+          entries.set(path, { type: 'file', data: concatChunks(chunks), mtime: new Date() });
+        }
+      });
+    },
+    async symlink(linkTarget, path, options) {
+      assertAvailable(path, options.overwrite);
+      entries.set(path, { type: 'symlink', linkTarget, mtime: new Date() });
+    },
+    async utimes(path, atime, mtime) {
+      update(path, { atime, mtime });
+    },
+    async chmod(path, mode) {
+      update(path, { mode });
+    },
+    async chown(path, uid, gid) {
+      update(path, { ...(uid !== undefined ? { uid } : {}), ...(gid !== undefined ? { gid } : {}) });
+    }
+  };
+}
+
+async function selectOutputName(
+  entry: ArchiveEntry,
+  filter: ArchiveExtractTargetOptions['filter'],
+  mapPath: ArchiveExtractTargetOptions['mapPath']
+): Promise<string | null> {
+  if (filter && !(await filter(entry))) return null;
+  if (!mapPath) return entry.name;
+  const mapped = await mapPath(entry);
+  return mapped ? mapped : null;
+}
+
+function unsupportedEntryType(entry: ArchiveEntry): string | undefined {
+  if (entry.format === 'zip' || entry.isDirectory || entry.isSymlink) return undefined;
+  const type = (entry.raw as { type?: unknown } | undefined)?.type;
+  return typeof type === 'string' && type !== 'file' ? type : undefined;
+}
+
+function splitEntryPath(outputName: string, entryName: string): string[] {
+  if (outputName.includes('\u0000')) {
+    throw traversalError('Entry name contains NUL byte', entryName);
+  }
+  const normalized = outputName.replace(/\\/g, '/');
+  if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) {
+    throw traversalError('Absolute paths are not allowed in archive entries', entryName);
+  }
+  const parts = normalized.split('/').filter((part) => part.length > 0 && part !== '.');
+  if (parts.some((part) => part === '..')) {
+    throw traversalError('Path traversal detected in archive entry', entryName);
+  }
+  return parts;
+}
+
+/**
+ * Track extracted paths and throw on a duplicate, on a Unicode NFC variant, or on a case-folded match
+ * of an earlier one, which would overwrite each other on normalizing or case-insensitive filesystems.
+ */
+function createCollisionGuard(format: ArchiveFormat): (outputName: string, entry: ArchiveEntry) => void {
+  const seenNames = new Map<string, string>();
+  const seenNfc = new Map<string, { original: string; normalized: string }>();
+  const seenCase = new Map<string, { original: string; nfc: string }>();
+  return (outputName, entry) => {
+    const normalizedName = normalizePathForCollision(outputName, entry.isDirectory);
+    if (!normalizedName) return;
+    const existing = seenNames.get(normalizedName);
+    if (existing !== undefined) {
+      throw nameCollisionError('duplicate', existing, entry.name, normalizedName, format);
+    }
+    const nfcName = normalizedName.normalize('NFC');
+    const existingNfc = seenNfc.get(nfcName);
+    if (existingNfc && existingNfc.normalized !== normalizedName) {
+      throw nameCollisionError('unicode_nfc', existingNfc.original, entry.name, nfcName, format);
+    }
+    const caseKey = toCollisionKey(normalizedName, entry.isDirectory);
+    const existingCase = seenCase.get(caseKey);
+    if (existingCase && existingCase.nfc !== nfcName) {
+      throw nameCollisionError('case', existingCase.original, entry.name, caseKey, format);
+    }
+    seenNames.set(normalizedName, entry.name);
+    seenNfc.set(nfcName, { original: entry.name, normalized: normalizedName });
+    seenCase.set(caseKey, { original: entry.name, nfc: nfcName });
+  };
+}
+
+function assertSymlinkTargetContained(parentParts: string[], linkTarget: string, entryName: string): void {
+  if (linkTarget.includes('\u0000')) {
+    throw traversalError('Symlink target contains NUL byte', entryName);
+  }
+  const normalized = linkTarget.replace(/\\/g, '/');
+  if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) {
+    throw traversalError('Absolute symlink targets are not allowed during extraction', entryName, {
+      symlinkTarget: linkTarget
+    });
+  }
+  let depth = parentParts.length;
+  for (const part of normalized.split('/')) {
+    if (part.length === 0 || part === '.') continue;
+    depth += part === '..' ? -1 : 1;
+    if (depth < 0) {
+      throw traversalError('Symlink target escapes destination directory', entryName, { symlinkTarget: linkTarget });
+    }
+  }
+}
+
+function assertExistingDirectory(stat: ExtractTargetStat, entryName: string, path: string, format: ArchiveFormat): void {
+  if (stat.type === 'symlink') {
+    throw traversalError('Extraction target is an existing symbolic link', entryName);
+  }
+  if (stat.type !== 'directory') throw collisionError(entryName, path, format);
+}
+
+function shouldKeepExisting(
+  policy: NonNullable<ArchiveExtractTargetOptions['onExisting']>,
+  existing: ExtractTargetStat,
+  mtime: Date | undefined
+): boolean {
+  if (policy === 'skip') return true;
+  if (policy !== 'newer') return false;
+  return !mtime || !existing.mtime || mtime.getTime() <= existing.mtime.getTime();
+}
+
+async function applyTargetMetadata(
+  target: ExtractTarget,
+  path: string,
+  kind: 'file' | 'directory' | 'symlink',
+  entry: ArchiveEntry,
+  settings: ExtractPreserveSettings
+): Promise<void> {
+  // Ownership goes first so a chown cannot clear restored setuid/setgid bits.
+  if (settings.owner && target.chown && (entry.uid !== undefined || entry.gid !== undefined)) {
+    await target.chown(path, entry.uid, entry.gid);
+  }
+  if (settings.mode && kind !== 'symlink' && target.chmod && entry.mode !== undefined) {
+    await target.chmod(path, resolveExtractMode(entry.mode, settings));
+  }
+  if (settings.times && target.utimes && entry.mtime) {
+    await target.utimes(path, entry.atime ?? entry.mtime, entry.mtime);
+  }
+}
+
+function traversalError(message: string, entryName: string, context?: Record<string, string>): ArchiveError {
+  return new ArchiveError('ARCHIVE_PATH_TRAVERSAL', message, { entryName, ...(context ? { context } : {}) });
+}
+
+function collisionError(entryName: string, path: string, format: ArchiveFormat): ArchiveError {
+  return new ArchiveError(
+    'ARCHIVE_NAME_COLLISION',
+    'Destination already contains the extracted entry. Rename or remove the existing path first.',
+    {
+      entryName,
+      context: {
+        collisionType: 'existing',
+        collisionKind: 'existing',
+        nameA: path,
+        nameB: entryName,
+        key: entryName,
+        format
+      }
+    }
+  );
+}
+
+function nameCollisionError(
+  collisionType: 'duplicate' | 'case' | 'unicode_nfc',
+  nameA: string,
+  nameB: string,
+  key: string,
+  format: ArchiveFormat
+): ArchiveError {
+  return new ArchiveError(
+    'ARCHIVE_NAME_COLLISION',
+    `Name collision detected (${collisionType}). Rename entries to avoid collisions.`,
+    {
+      entryName: nameB,
+      context: {
+        collisionType,
+        collisionKind: collisionType === 'case' ? 'casefold' : collisionType,
+        nameA,
+        nameB,
+        key,
+        format
+      }
+    }
+  );
+}
+
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
@@ -0,0 +1,296 @@
+import { readUint16LE, readUint32LE, writeUint16LE, writeUint32LE } from '../binary.js';
+import { CompressionError } from '../compress/errors.js';
+import { measureDeflateStream } from '../compression/deflate64.js';
+import { createCompressTransform } from '../compression/streams.js';
+import { Crc32, crc32 } from '../crc32.js';
+import type { GzipExtraSubfield, GzipHeader } from './types.js';
+
+const FLAG_HCRC = 0x02;
+const FLAG_EXTRA = 0x04;
+const FLAG_NAME = 0x08;
+const FLAG_COMMENT = 0x10;
+const GZIP_TRAILER_BYTES = 8;
+
+/** Header fields `buildGzipHeader` writes; MTIME is zero and XFL/OS default to 0/255 when unset. */
+export type GzipHeaderFields = {
+  name?: string;
+  comment?: string;
+  mtime?: Date;
+  extra?: GzipExtraSubfield[];
+  os?: number;
+};
+
+/** Where one member of a (possibly multi-member) gzip file sits in the compressed and decompressed bytes. */
+export type GzipMember = {
+  header: GzipHeader;
+  /** Offset of the member header in the compressed input. */
+  offset: number;
+  /** Offset of the member payload in the joined decompressed output. */
+  start: number;
+  /** Decompressed payload length. */
+  size: number;
+};
+
+/**
+ * Parse the gzip member header at the start of `data`.
+ *
+ * Returns undefined when fewer than 10 bytes are available, leaving the error to the decoder.
+ *
+ * @throws {CompressionError} `COMPRESSION_GZIP_BAD_HEADER` for truncated optional fields or an FHCRC mismatch.
+ */
+export function parseGzipHeader(data: Uint8Array): GzipHeader | undefined {
+  if (data.length < 10) return undefined;
+  const flags = data[3]!;
+  const mtime = readUint32LE(data, 4);
+  const header: GzipHeader = { flags, extraFlags: data[8]!, os: data[9]!, headerBytes: 10 };
+  if (mtime) header.mtime = new Date(mtime * 1000);
+  let offset = 10;
+  if (flags & FLAG_EXTRA) {
+    if (offset + 2 > data.length) throw truncatedHeader();
+    const end = offset + 2 + readUint16LE(data, offset);
+    if (end > data.length) throw truncatedHeader();
+    header.extra = data.slice(offset + 2, end);
+    const fields = splitExtraSubfields(header.extra);
+    if (fields) header.extraFields = fields;
+    offset = end;
+  }
+  if (flags & FLAG_NAME) {
+    const end = findNul(data, offset);
+    header.name = decodeLatin1(data.subarray(offset, end));
+    offset = end + 1;
+  }
+  if (flags & FLAG_COMMENT) {
+    const end = findNul(data, offset);
+    header.comment = decodeLatin1(data.subarray(offset, end));
+    offset = end + 1;
+  }
+  if (flags & FLAG_HCRC) {
+    if (offset + 2 > data.length) throw truncatedHeader();
+    const stored = readUint16LE(data, offset);
+    const computed = (crc32(data.subarray(0, offset)) ^ 0xffffffff) & 0xffff;
+    if (stored !== computed) {
+      throw new CompressionError('COMPRESSION_GZIP_BAD_HEADER', 'Gzip header CRC mismatch', {
+        algorithm: 'gzip',
+        context: { stored: String(stored), expected: String(computed) }
+      });
+    }
+    offset += 2;
+  }
+  header.headerBytes = offset;
+  return header;
+}
+
+/**
+ * Encode a gzip member header for deflate data.
+ *
+ * @throws {RangeError} When the name or comment is not NUL-free Latin-1, the mtime does not fit
+ * MTIME, or the extra subfields are malformed or exceed 65535 bytes.
+ */
+export function buildGzipHeader(fields: GzipHeaderFields): Uint8Array {
+  const name = fields.name !== undefined ? latin1Bytes('name', fields.name) : undefined;
+  const comment = fields.comment !== undefined ? latin1Bytes('comment', fields.comment) : undefined;
+  const extra = fields.extra !== undefined ? encodeExtraSubfields(fields.extra) : undefined;
+  const seconds = fields.mtime !== undefined ? Math.floor(fields.mtime.getTime() / 1000) : 0;
+  if (!Number.isInteger(seconds) || seconds < 0 || seconds > 0xffffffff) {
+    throw new RangeError('Gzip mtime must fall between 1970-01-01 and 2106-02-07');
+  }
+  const strings = (name ? name.length + 1 : 0) + (comment ? comment.length + 1 : 0);
+  const header = new Uint8Array(10 + (extra ? extra.length + 2 : 0) + strings);
+  header.set([0x1f, 0x8b, 0x08]);
+  header[3] = (extra ? FLAG_EXTRA : 0) | (name ? FLAG_NAME : 0) | (comment ? FLAG_COMMENT : 0);
+  writeUint32LE(header, 4, seconds);
+  header[9] = fields.os ?? 255;
+  let offset = 10;
+  if (extra) {
+    writeUint16LE(header, offset, extra.length);
+    header.set(extra, offset + 2);
+    offset += extra.length + 2;
+  }
+  // The buffer is zero-filled, so skipping one byte after each string writes its NUL terminator.
+  if (name) {
+    header.set(name, offset);
+    offset += name.length + 1;
+  }
+  if (comment) header.set(comment, offset);
+  return header;
+}
+
+/**
+ * Write `source` as one gzip member: `header`, raw deflate data, then the CRC32/ISIZE trailer.
+ */
+export async function writeGzipMember(
+  writable: WritableStream<Uint8Array>,
+  source: ReadableStream<Uint8Array>,
+  header: Uint8Array,
+  level?: number,
+  signal?: AbortSignal
+): Promise<void> {
+  const crc = new Crc32();
+  let size = 0;
+  const measured = source.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        crc.update(chunk);
+        size = (size + chunk.length) % 0x1_0000_0000;
+        controller.enqueue(chunk);
+      }
+    })
+  );
+  const transform = await createCompressTransform({
+    algorithm: 'deflate-raw',
+    ...(signal ? { signal } : {}),
+    ...(level !== undefined ? { level } : {})
+  });
+  const body = measured.pipeThrough(transform).getReader();
+  const writer = writable.getWriter();
+  try {
+    await writer.write(header);
+    while (true) {
+      const { value, done } = await body.read();
+      if (done) break;
+      await writer.write(value);
+    }
+    const trailer = new Uint8Array(GZIP_TRAILER_BYTES);
+    writeUint32LE(trailer, 0, crc.digest());
+    writeUint32LE(trailer, 4, size);
+    await writer.write(trailer);
+    await writer.close();
+  } catch (err) {
+    await body.cancel(err).catch(() => {});
+    await writer.abort(err).catch(() => {});
+    throw err;
+  }
+}
+
+/**
+ * Locate each member of a gzip file whose joined payload is `decompressed`.
+ *
+ * Each member's deflate data is inflated to find where it ends, so the trailer position never
+ * depends on guessing; the trailer's CRC32 and ISIZE must then match that member's payload. Trailing
+ * zero bytes after the last member are padding.
+ *
+ * @throws {CompressionError} `COMPRESSION_GZIP_BAD_HEADER` when a member header or deflate stream is
+ * malformed or a trailer does not match its payload.
+ */
+export function splitGzipMembers(
+  compressed: Uint8Array,
+  decompressed: Uint8Array,
+  signal?: AbortSignal
+): GzipMember[] {
+  const members: GzipMember[] = [];
+  let offset = 0;
+  let start = 0;
+  while (offset < compressed.length) {
+    // Zero padding after the last member (tape blocking) is ignored, as gzip -d and the joined path do.
+    if (compressed.subarray(offset).every((byte) => byte === 0)) break;
+    const header = parseGzipHeader(compressed.subarray(offset));
+    if (!header || compressed[offset] !== 0x1f || compressed[offset + 1] !== 0x8b) {
+      throw new CompressionError('COMPRESSION_GZIP_BAD_HEADER', 'Gzip member header expected', {
+        algorithm: 'gzip',
+        context: { offset: String(offset) }
+      });
+    }
+    const { end, size } = measureMember(compressed, offset + header.headerBytes, offset, signal);
+    const crc = new Crc32();
+    crc.update(decompressed.subarray(start, start + size));
+    if (
+      end > compressed.length ||
+      start + size > decompressed.length ||
+      readUint32LE(compressed, end - 4) !== size % 0x1_0000_0000 ||
+      readUint32LE(compressed, end - GZIP_TRAILER_BYTES) !== crc.digest()
+    ) {
+      throw new CompressionError('COMPRESSION_GZIP_BAD_HEADER', 'Gzip member trailer does not match its payload', {
+        algorithm: 'gzip',
+        context: { offset: String(offset) }
+      });
+    }
+    members.push({ header, offset, start, size });
+    offset = end;
+    start += size;
+  }
+  return members;
+}
+
+function measureMember(
+  compressed: Uint8Array,
+  dataOffset: number,
+  offset: number,
+  signal?: AbortSignal
+): { end: number; size: number } {
+  try {
+    const stream = measureDeflateStream(compressed.subarray(dataOffset), signal);
+    return { end: dataOffset + stream.compressedSize + GZIP_TRAILER_BYTES, size: stream.size };
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    throw new CompressionError('COMPRESSION_GZIP_BAD_HEADER', 'Gzip member deflate data is invalid', {
+      algorithm: 'gzip',
+      context: { offset: String(offset) },
+      cause: err
+    });
+  }
+}
+
+function splitExtraSubfields(extra: Uint8Array): GzipExtraSubfield[] | undefined {
+  const fields: GzipExtraSubfield[] = [];
+  let offset = 0;
+  while (offset < extra.length) {
+    if (offset + 4 > extra.length) return undefined;
+    const end = offset + 4 + readUint16LE(extra, offset + 2);
+    if (end > extra.length) return undefined;
+    fields.push({
+      id: String.fromCharCode(extra[offset]!, extra[offset + 1]!),
+      data: extra.slice(offset + 4, end)
+    });
+    offset = end;
+  }
+  return fields;
+}
+
+function encodeExtraSubfields(fields: GzipExtraSubfield[]): Uint8Array {
+  const length = fields.reduce((total, field) => total + 4 + field.data.length, 0);
+  if (length > 0xffff) {
+    throw new RangeError(`Gzip extra field must be at most 65535 bytes (got ${length})`);
+  }
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const field of fields) {
+    if (field.id.length !== 2 || field.id.charCodeAt(0) > 0xff || field.id.charCodeAt(1) > 0xff) {
+      throw new RangeError(`Gzip extra subfield id must be two Latin-1 characters (got ${JSON.stringify(field.id)})`);
+    }
+    out[offset] = field.id.charCodeAt(0);
+    out[offset + 1] = field.id.charCodeAt(1);
+    writeUint16LE(out, offset + 2, field.data.length);
+    out.set(field.data, offset + 4);
+    offset += 4 + field.data.length;
+  }
+  return out;
+}
+
+function latin1Bytes(label: 'name' | 'comment', value: string): Uint8Array {
+  const out = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i += 1) {
+    const code = value.charCodeAt(i);
+    if (code === 0 || code > 0xff) {
+      throw new RangeError(`Gzip ${label} must be Latin-1 without NUL characters`);
+    }
+    out[i] = code;
+  }
+  return out;
+}
+
+function findNul(data: Uint8Array, offset: number): number {
+  const end = data.indexOf(0, offset);
+  if (end < 0) throw truncatedHeader();
+  return end;
+}
+
+// RFC 1952 strings are ISO 8859-1; TextDecoder('latin1') would decode them as windows-1252.
+function decodeLatin1(bytes: Uint8Array): string {
+  let out = '';
+  for (const byte of bytes) out += String.fromCharCode(byte);
+  return out;
+}
+
+function truncatedHeader(): CompressionError {
+  return new CompressionError('COMPRESSION_GZIP_BAD_HEADER', 'Gzip header truncated', { algorithm: 'gzip' });
+}
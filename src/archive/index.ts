@@ -9,9 +9,12 @@ import type {
   ArchiveLimits,
   ArchiveNormalizeReport,
   ArchiveOpenOptions,
-  ArchiveProfile
+  ArchiveProfile,
+  GzipExtraSubfield,
+  GzipHeader
 } from './types.js';
 import { throwIfAborted } from '../abort.js';
+import { concatBytes } from '../binary.js';
 import { readAllBytes } from '../streams/buffer.js';
 import { readableFromAsyncIterable, readableFromBytes } from '../streams/web.js';
 import { createCompressTransform } from '../compression/streams.js';
@@ -19,7 +22,6 @@ import { readBzip2BlockSize } from '../compression/bzip2.js';
 import { scanXzResourceRequirements } from '../compression/xzScan.js';
 import { createDecompressor, getCompressionCapabilities } from '../compress/index.js';
 import { CompressionError } from '../compress/errors.js';
-import { crc32 } from '../crc32.js';
 import { BlobRandomAccess } from '../reader/RandomAccess.js';
 import { ZipReader } from '../reader/ZipReader.js';
 import { ZipWriter } from '../writer/ZipWriter.js';
@@ -41,11 +43,20 @@ import type {
   TarWriterAddOptions,
   TarWriterOptions
 } from '../tar/types.js';
-import type { CompressionAlgorithm } from '../compress/types.js';
+import type { CompressionAlgorithm, XzCheck } from '../compress/types.js';
 import { AGENT_RESOURCE_LIMITS, DEFAULT_RESOURCE_LIMITS } from '../limits.js';
 import { resolveXzDictionaryLimit, resolveXzIndexLimits } from './xzPreflight.js';
 import { isZipSignature, preflightZip, resolveZipPreflightLimits, shouldPreflightZip } from './zipPreflight.js';
-import { decodeNullTerminatedUtf8 } from '../binary.js';
+import { detectFormat, isXzHeader } from './detect.js';
+import { buildGzipHeader, parseGzipHeader, splitGzipMembers, writeGzipMember, type GzipMember } from './gzip.js';
+import { type CanonicalGzipHeader, writeCanonicalCompressed, writeCanonicalGzip } from './singleFileNormalize.js';
+import { collectBytes, conversionIssues, copyEntries, intermediateLimitError } from './normalizeConversion.js';
+import { limitStreamBytes, mapStreamErrors, peekStream, type PeekedStream } from './streamInput.js';
+
+/** Runtime-neutral extraction into an `ExtractTarget`, plus the in-memory target. */
+export { createMemoryTarget, extractArchive } from './extract.js';
+/** Memory extraction target types. */
+export type { MemoryExtractTarget, MemoryTargetEntry } from './extract.js';
 
 /** Unified archive reader API returned by openArchive(). */
 export type ArchiveReader = {
@@ -90,7 +101,13 @@ export type ArchiveWriterOptions = {
   /** TAR writer passthrough options for `format=tar` and layered tar codecs. */
   tar?: TarWriterOptions;
   /** Compression settings for layered output formats. */
-  compression?: { level?: number; quality?: number };
+  compression?: { level?: number; quality?: number; xzCheck?: XzCheck };
+  /**
+   * Gzip member header fields for `format=gz`; strings must be Latin-1 without NUL.
+   *
+   * Without these the runtime's gzip encoder writes its own header.
+   */
+  gzip?: { name?: string; comment?: string; mtime?: Date; extra?: GzipExtraSubfield[] };
 };
 
 type PreflightResourceInfo = {
@@ -135,6 +152,23 @@ export type ArchiveAuditOptions = {
 export type ArchiveNormalizeOptions = {
   /** Enable deterministic output ordering/metadata normalization. */
   isDeterministic?: boolean;
+  /** Compression settings for re-emitted single-file and layered TAR streams. */
+  compression?: ArchiveWriterOptions['compression'];
+  /**
+   * Writable format to emit instead of the reader's own (TAR layers otherwise come out as plain `tar`).
+   * Metadata an output cannot hold is reported as `ARCHIVE_METADATA_LOST`.
+   */
+  outputFormat?: ArchiveFormat;
+  /**
+   * Symlink policy for ZIP and TAR sources and outputs (default `error`); `keep` writes them unchanged,
+   * which `outputFormat` conversions need to carry symlinks across.
+   */
+  onSymlink?: 'error' | 'drop' | 'keep';
+  /**
+   * Keep ZIP NTFS and Info-ZIP Unix extra fields (times, owners) when `isDeterministic` is false. Defaults to
+   * `true` for `outputFormat` conversions with `isDeterministic: false` and `false` otherwise.
+   */
+  shouldPreservePlatformMetadata?: boolean;
   /** Resource ceilings for normalize read/write phases. */
   limits?: ArchiveLimits;
   /** Abort signal for normalization pipelines. */
@@ -147,6 +181,12 @@ export type ArchiveInput = Uint8Array | ArrayBuffer | ReadableStream<Uint8Array>
 /**
  * Open an archive with auto-detection (or a forced format).
  *
+ * Inputs are buffered by default; ZIP `Blob` inputs are read through random access instead. With
+ * `{ tar: { isStreaming: true } }`, `ReadableStream` and other `Blob` inputs are detected from a peeked
+ * prefix and TAR layers, bare or compressed, are decoded forward-only without buffering, so `entries()`
+ * or `audit()` can run once per reader; ZIP streams (which need random access) and single-file compressed
+ * payloads are still buffered. `detection.notes` records the mode used.
+ *
  * @example
  * ```ts
  * import { openArchive } from "../../mod.ts";
@@ -181,7 +221,9 @@ export async function openArchive(input: ArchiveInput, options?: ArchiveOpenOpti
     if (openedZip) return openedZip;
   }
   const inputKind = resolveInputKind(input, options?.inputKind);
-  const data = await resolveInput(input, options);
+  const source = forwardOnlySource(input, options);
+  const streamed = source ? await peekInputStream(source, options) : undefined;
+  const data = streamed ? streamed.prefix : await resolveInput(input, options);
   const notes: string[] = [];
   let confidence: ArchiveDetectionReport['confidence'] = 'high';
 
@@ -198,13 +240,17 @@ export async function openArchive(input: ArchiveInput, options?: ArchiveOpenOpti
     } else {
       format = detectFormat(data);
       if (!format) {
+        await streamed?.stream.cancel().catch(() => {});
         throw new ArchiveError('ARCHIVE_UNSUPPORTED_FORMAT', 'Unable to detect archive format');
       }
       notes.push('Format inferred from magic bytes');
     }
   }
 
-  const result = await openWithFormat(format, data, options);
+  if (!streamed) notes.push(bufferedInputNote(input));
+  const result = streamed
+    ? await openStreamWithFormat(format, streamed, options)
+    : await openWithFormat(format, data, options);
   const report = buildDetectionReport(inputKind, result.format, confidence, [...notes, ...result.notes]);
   const reader = result.reader;
   reader.detection = report;
@@ -346,7 +392,7 @@ async function openZipFromRandomAccess(
     return openArchive(new Uint8Array(0), {
       ...options,
       __zipReader: zipReader,
-      __zipDetection: detection,
+      __zipDetection: { ...detection, notes: [...detection.notes, 'Blob input read through random access'] },
       ...(options?.inputKind ? {} : { inputKind: detection.inputKind }),
       ...(options?.filename ? {} : filename ? { filename } : {})
     } as ArchiveOpenOptionsInternal);
@@ -383,7 +429,9 @@ export function createArchiveWriter(
           source as Parameters<typeof writer.add>[1],
           addOptions as Parameters<typeof writer.add>[2]
         ),
-      close: () => writer.close()
+      close: async () => {
+        await writer.close();
+      }
     };
   }
   if (format === 'tar') {
@@ -411,13 +459,19 @@ export function createArchiveWriter(
     ensureCompressionWriteSupported('brotli');
     return createCompressedTarWriter('tar.br', 'brotli', writable, options);
   }
-  if (format === 'tar.bz2' || format === 'bz2') {
-    throw new ArchiveError('ARCHIVE_UNSUPPORTED_FORMAT', 'BZip2 compression is not supported for writing');
+  if (format === 'tar.bz2') {
+    ensureCompressionWriteSupported('bzip2');
+    return createCompressedTarWriter('tar.bz2', 'bzip2', writable, options);
   }
-  if (format === 'tar.xz' || format === 'xz') {
-    throw new ArchiveError('ARCHIVE_UNSUPPORTED_FORMAT', 'XZ compression is not supported for writing');
+  if (format === 'tar.xz') {
+    ensureCompressionWriteSupported('xz');
+    return createCompressedTarWriter('tar.xz', 'xz', writable, options);
   }
   if (format === 'gz') {
+    if (options?.gzip) {
+      ensureCompressionWriteSupported('deflate-raw');
+      return createCompressedStreamWriter('gz', 'gzip', writable, options, buildGzipHeader(options.gzip));
+    }
     ensureCompressionWriteSupported('gzip');
     return createCompressedStreamWriter('gz', 'gzip', writable, options);
   }
@@ -429,6 +483,14 @@ export function createArchiveWriter(
     ensureCompressionWriteSupported('brotli');
     return createCompressedStreamWriter('br', 'brotli', writable, options);
   }
+  if (format === 'bz2') {
+    ensureCompressionWriteSupported('bzip2');
+    return createCompressedStreamWriter('bz2', 'bzip2', writable, options);
+  }
+  if (format === 'xz') {
+    ensureCompressionWriteSupported('xz');
+    return createCompressedStreamWriter('xz', 'xz', writable, options);
+  }
   throw new ArchiveError('ARCHIVE_UNSUPPORTED_FORMAT', `Unsupported writer format: ${format}`);
 }
 
@@ -461,7 +523,8 @@ function createCompressedTarWriter(
           algorithm,
           ...(options?.tar?.signal ? { signal: options.tar.signal } : {}),
           ...(options?.compression?.level !== undefined ? { level: options.compression.level } : {}),
-          ...(options?.compression?.quality !== undefined ? { quality: options.compression.quality } : {})
+          ...(options?.compression?.quality !== undefined ? { quality: options.compression.quality } : {}),
+          ...(options?.compression?.xzCheck !== undefined ? { xzCheck: options.compression.xzCheck } : {})
         });
         const pipe = transform.readable.pipeTo(writable, {
           ...(options?.tar?.signal ? { signal: options.tar.signal } : {})
@@ -495,17 +558,23 @@ function createCompressedStreamWriter(
   format: ArchiveFormat,
   algorithm: CompressionAlgorithm,
   writable: WritableStream<Uint8Array>,
-  options?: ArchiveWriterOptions
+  options?: ArchiveWriterOptions,
+  gzipHeader?: Uint8Array
 ): ArchiveWriter {
   let started = false;
   let done: Promise<void> | null = null;
 
   const run = async (source?: Uint8Array | ArrayBuffer | ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>) => {
     const input = sourceToReadable(source);
+    if (gzipHeader) {
+      await writeGzipMember(writable, input, gzipHeader, options?.compression?.level);
+      return;
+    }
     const transform = await createCompressTransform({
       algorithm,
       ...(options?.compression?.level !== undefined ? { level: options.compression.level } : {}),
-      ...(options?.compression?.quality !== undefined ? { quality: options.compression.quality } : {})
+      ...(options?.compression?.quality !== undefined ? { quality: options.compression.quality } : {}),
+      ...(options?.compression?.xzCheck !== undefined ? { xzCheck: options.compression.xzCheck } : {})
     });
     const outputPipe = transform.readable.pipeTo(writable);
     const inputPipe = input.pipeTo(transform.writable);
@@ -593,6 +662,13 @@ async function openWithFormat(
       isStrict: resolved.strict,
       limits: resolved.limits
     };
+    if (format !== 'gz' && isTarStreamingRequested(options)) {
+      return {
+        reader: await openStreamingTarLayer(data, 'gzip', 'tgz', gzipOptions, options, notes),
+        format: 'tgz',
+        notes
+      };
+    }
     const decompressed = await gunzipToBytes(data, gzipOptions);
     if (format !== 'gz' || detectFormat(decompressed) === 'tar') {
       if (format === 'gz') {
@@ -616,17 +692,27 @@ async function openWithFormat(
       };
     }
     const name = inferGzipEntryName(header, options?.filename);
+    const members = options?.gzip?.shouldSplitMembers ? splitGzipMembers(data, decompressed, options?.signal) : undefined;
     return {
-      reader: new GzipArchiveReader(decompressed, header, name, {
-        profile: resolved.profile,
-        strict: resolved.strict,
-        limits: resolved.limits
-      }),
+      reader: new GzipArchiveReader(
+        decompressed,
+        header,
+        name,
+        { profile: resolved.profile, strict: resolved.strict, limits: resolved.limits },
+        members
+      ),
       format: 'gz',
       notes
     };
   }
   if (format === 'zst' || format === 'tar.zst') {
+    if (format === 'tar.zst' && isTarStreamingRequested(options)) {
+      return {
+        reader: await openStreamingTarLayer(data, 'zstd', 'tar.zst', options, options, notes),
+        format: 'tar.zst',
+        notes
+      };
+    }
     const decompressed = await decompressToBytes(data, 'zstd', options);
     if (format === 'tar.zst' || detectFormat(decompressed) === 'tar') {
       if (format !== 'tar.zst') {
@@ -661,6 +747,13 @@ async function openWithFormat(
     };
   }
   if (format === 'br' || format === 'tar.br') {
+    if (format === 'tar.br' && isTarStreamingRequested(options)) {
+      return {
+        reader: await openStreamingTarLayer(data, 'brotli', 'tar.br', options, options, notes),
+        format: 'tar.br',
+        notes
+      };
+    }
     const decompressed = await decompressToBytes(data, 'brotli', options);
     if (format === 'tar.br' || detectFormat(decompressed) === 'tar') {
       if (format !== 'tar.br') {
@@ -706,6 +799,13 @@ async function openWithFormat(
         : undefined;
     })();
     enforceResourceLimits(preflight, resolved.limits, resolved.profile);
+    if (format === 'tar.bz2' && isTarStreamingRequested(options)) {
+      return {
+        reader: await openStreamingTarLayer(data, 'bzip2', 'tar.bz2', options, options, notes, preflight),
+        format: 'tar.bz2',
+        notes
+      };
+    }
     const decompressed = await decompressToBytes(data, 'bzip2', options);
     if (format === 'tar.bz2' || detectFormat(decompressed) === 'tar') {
       if (format !== 'tar.bz2') {
@@ -775,6 +875,13 @@ async function openWithFormat(
       return seekablePreflight;
     })();
     enforceResourceLimits(preflight, resolved.limits, profile);
+    if (format === 'tar.xz' && isTarStreamingRequested(options)) {
+      return {
+        reader: await openStreamingTarLayer(data, 'xz', 'tar.xz', options, options, notes, preflight),
+        format: 'tar.xz',
+        notes
+      };
+    }
     const decompressed = await decompressToBytes(data, 'xz', options);
     if (format === 'tar.xz' || detectFormat(decompressed) === 'tar') {
       if (format !== 'tar.xz') {
@@ -829,6 +936,166 @@ async function resolveInput(input: ArchiveInput, options?: ArchiveOpenOptions):
   return readAllBytes(input, readOptions);
 }
 
+// Enough for a TAR header block, and for gzip headers with long FNAME/FCOMMENT fields.
+const STREAM_PEEK_BYTES = 64 * 1024;
+const TAR_HEADER_BYTES = 512;
+
+type CompressedLayer = {
+  algorithm: 'gzip' | 'zstd' | 'brotli' | 'bzip2' | 'xz';
+  /** Format reported for a bare compressed payload. */
+  single: ArchiveFormat;
+  /** Format reported when the payload is a TAR archive. */
+  tar: ArchiveFormat;
+};
+
+const GZIP_LAYER: CompressedLayer = { algorithm: 'gzip', single: 'gz', tar: 'tgz' };
+const ZSTD_LAYER: CompressedLayer = { algorithm: 'zstd', single: 'zst', tar: 'tar.zst' };
+const BROTLI_LAYER: CompressedLayer = { algorithm: 'brotli', single: 'br', tar: 'tar.br' };
+const BZIP2_LAYER: CompressedLayer = { algorithm: 'bzip2', single: 'bz2', tar: 'tar.bz2' };
+const XZ_LAYER: CompressedLayer = { algorithm: 'xz', single: 'xz', tar: 'tar.xz' };
+
+const COMPRESSED_LAYERS: Partial<Record<ArchiveFormat, CompressedLayer>> = {
+  gz: GZIP_LAYER,
+  tgz: GZIP_LAYER,
+  'tar.gz': GZIP_LAYER,
+  zst: ZSTD_LAYER,
+  'tar.zst': ZSTD_LAYER,
+  br: BROTLI_LAYER,
+  'tar.br': BROTLI_LAYER,
+  bz2: BZIP2_LAYER,
+  'tar.bz2': BZIP2_LAYER,
+  xz: XZ_LAYER,
+  'tar.xz': XZ_LAYER
+};
+
+/** The stream `tar.isStreaming` opens forward-only: a stream input, or the contents of a non-ZIP Blob. */
+function forwardOnlySource(input: ArchiveInput, options?: ArchiveOpenOptions): ReadableStream<Uint8Array> | undefined {
+  if (!isTarStreamingRequested(options) || options?.gzip?.shouldSplitMembers === true) return undefined;
+  if (isBlobInput(input)) return input.stream();
+  return isReadableStream(input) ? input : undefined;
+}
+
+function bufferedInputNote(input: ArchiveInput): string {
+  if (isBlobInput(input)) return 'Blob input buffered in memory';
+  if (isReadableStream(input)) return 'Stream input buffered in memory';
+  return 'Bytes input opened in memory';
+}
+
+async function peekInputStream(input: ReadableStream<Uint8Array>, options?: ArchiveOpenOptions): Promise<PeekedStream> {
+  const maxBytes = resolveInputMaxBytes(options);
+  const source = maxBytes !== undefined ? limitStreamBytes(input, maxBytes) : input;
+  return peekStream(source, STREAM_PEEK_BYTES, options?.signal);
+}
+
+/**
+ * Open a peeked stream input: TAR layers are read forward-only behind a streaming decompressor,
+ * while ZIP archives and single-file payloads are buffered as `openWithFormat` expects.
+ */
+async function openStreamWithFormat(
+  format: ArchiveFormat,
+  input: PeekedStream,
+  options?: ArchiveOpenOptions
+): Promise<{ reader: ArchiveReader; format: ArchiveFormat; notes: string[] }> {
+  const notes: string[] = [];
+  const signalOptions = options?.signal ? { signal: options.signal } : {};
+  if (format === 'zip') {
+    const data = await readAllBytes(input.stream, signalOptions);
+    notes.push('Stream input buffered: ZIP needs random access');
+    const result = await openWithFormat('zip', data, options);
+    return { ...result, notes: [...notes, ...result.notes] };
+  }
+  if (format === 'tar') {
+    const tarOptions: TarReaderOptions = {
+      ...(options?.tar ?? {}),
+      ...(options?.profile !== undefined ? { profile: options.profile } : {}),
+      ...(options?.isStrict !== undefined ? { isStrict: options.isStrict } : {}),
+      ...(options?.limits !== undefined ? { limits: options.limits } : {})
+    };
+    return {
+      reader: await openForwardOnlyTar(input.stream, 'tar', tarOptions, options, notes),
+      format: 'tar',
+      notes
+    };
+  }
+  const layer = COMPRESSED_LAYERS[format];
+  if (!layer) {
+    await input.stream.cancel().catch(() => {});
+    throw new ArchiveError('ARCHIVE_UNSUPPORTED_FORMAT', `Unsupported format: ${format}`);
+  }
+
+  const resolved = resolveArchiveReaderSettings(options);
+  let preflight: PreflightResourceInfo | undefined;
+  let gzipHeader: GzipHeader | undefined;
+  try {
+    if (layer.algorithm === 'gzip') {
+      gzipHeader = parseGzipHeader(input.prefix);
+    } else if (layer.algorithm === 'bzip2') {
+      const size = readBzip2BlockSize(input.prefix);
+      if (size !== undefined) preflight = { algorithm: 'bzip2', requiredBlockSize: size, preflightComplete: false };
+    } else if (layer.algorithm === 'xz') {
+      const checkType = readXzCheckType(input.prefix);
+      if (checkType !== undefined && !isSupportedXzCheck(checkType) && resolved.profile === 'compat') {
+        notes.push(`XZ check type ${formatXzCheck(checkType)} is not verified in compat profile`);
+      }
+      // The index sits at the end of the stream; the decoder enforces the dictionary limit as blocks arrive.
+      preflight = { algorithm: 'xz', preflightComplete: false };
+    }
+    enforceResourceLimits(preflight, resolved.limits, resolved.profile);
+  } catch (err) {
+    await input.stream.cancel().catch(() => {});
+    throw err;
+  }
+
+  const decompressed = await peekStream(
+    mapStreamErrors(input.stream.pipeThrough(createArchiveDecompressor(layer.algorithm, options)), (err) =>
+      toDecompressionError(layer.algorithm, err)
+    ),
+    TAR_HEADER_BYTES,
+    options?.signal
+  );
+  if (format === layer.tar || detectFormat(decompressed.prefix) === 'tar') {
+    if (format !== layer.tar) {
+      notes.push(`TAR layer detected inside ${layer.algorithm} payload`);
+    }
+    const tarOptions: TarReaderOptions = {
+      ...(options?.tar ?? {}),
+      ...(options?.profile !== undefined ? { profile: options.profile } : {}),
+      ...(options?.isStrict !== undefined ? { isStrict: options.isStrict } : {}),
+      ...(options?.limits !== undefined ? { limits: options.limits } : {})
+    };
+    return {
+      reader: await openForwardOnlyTar(decompressed.stream, layer.tar, tarOptions, options, notes, preflight),
+      format: layer.tar,
+      notes
+    };
+  }
+
+  const data = await readDecompressedBytes(decompressed.stream, layer.algorithm, options);
+  notes.push('Stream input buffered: single-file payloads are held decompressed');
+  const auditDefaults = { profile: resolved.profile, strict: resolved.strict, limits: resolved.limits };
+  if (layer.algorithm === 'gzip') {
+    const name = inferGzipEntryName(gzipHeader, options?.filename);
+    return {
+      reader: new GzipArchiveReader(data, gzipHeader, name, auditDefaults),
+      format: 'gz',
+      notes
+    };
+  }
+  const name =
+    layer.algorithm === 'zstd'
+      ? inferZstdEntryName(options?.filename)
+      : layer.algorithm === 'brotli'
+        ? inferBrotliEntryName(options?.filename)
+        : layer.algorithm === 'bzip2'
+          ? inferBzip2EntryName(options?.filename)
+          : inferXzEntryName(options?.filename);
+  return {
+    reader: new CompressedArchiveReader(data, layer.algorithm, name, preflight, auditDefaults),
+    format: layer.single,
+    notes
+  };
+}
+
 function resolveInputMaxBytes(options?: ArchiveOpenOptions): bigint | number | undefined {
   if (options?.limits?.maxInputBytes !== undefined) {
     return options.limits.maxInputBytes;
@@ -1013,32 +1280,6 @@ function appendResourcePreflightIssue(
   return report;
 }
 
-function detectFormat(data: Uint8Array): ArchiveFormat | undefined {
-  if (data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b) {
-    return 'gz';
-  }
-  if (data.length >= 4 && data[0] === 0x42 && data[1] === 0x5a && data[2] === 0x68) {
-    const level = data[3] ?? 0;
-    if (level >= 0x31 && level <= 0x39) return 'bz2';
-  }
-  if (data.length >= 4 && isZstdHeader(data)) {
-    return 'zst';
-  }
-  if (data.length >= 6 && isXzHeader(data)) {
-    return 'xz';
-  }
-  if (data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b) {
-    const sig = ((data[2] ?? 0) << 8) | (data[3] ?? 0);
-    if (sig === 0x0304 || sig === 0x0506 || sig === 0x0708) {
-      return 'zip';
-    }
-  }
-  if (data.length >= 512 && isTarHeader(data.subarray(0, 512))) {
-    return 'tar';
-  }
-  return undefined;
-}
-
 function formatFromFilename(filename?: string): ArchiveFormat | undefined {
   if (!filename) return undefined;
   const lower = filename.toLowerCase();
@@ -1067,22 +1308,22 @@ function sanitizeSingleFileName(name?: string): string | undefined {
   return trimmed;
 }
 
-function inferGzipEntryName(header: GzipHeader, filename?: string): string {
-  const headerName = sanitizeSingleFileName(header.name);
+function inferGzipEntryName(header: GzipHeader | undefined, filename?: string): string {
+  const headerName = sanitizeSingleFileName(header?.name);
   if (headerName) return headerName;
   const base = sanitizeSingleFileName(filename);
   if (!base) return 'data';
   const lower = base.toLowerCase();
   if (lower.endsWith('.tar.gz')) {
-    const stem = base.slice(0, -7);
+    const stem = sanitizeSingleFileName(base.slice(0, -7));
     return stem ? `${stem}.tar` : 'data';
   }
   if (lower.endsWith('.tgz')) {
-    const stem = base.slice(0, -4);
+    const stem = sanitizeSingleFileName(base.slice(0, -4));
     return stem ? `${stem}.tar` : 'data';
   }
   if (lower.endsWith('.gz')) {
-    const stem = base.slice(0, -3);
+    const stem = sanitizeSingleFileName(base.slice(0, -3));
     return stem || 'data';
   }
   return 'data';
@@ -1093,15 +1334,15 @@ function inferBrotliEntryName(filename?: string): string {
   if (!base) return 'data';
   const lower = base.toLowerCase();
   if (lower.endsWith('.tar.br')) {
-    const stem = base.slice(0, -7);
+    const stem = sanitizeSingleFileName(base.slice(0, -7));
     return stem ? `${stem}.tar` : 'data';
   }
   if (lower.endsWith('.tbr')) {
-    const stem = base.slice(0, -4);
+    const stem = sanitizeSingleFileName(base.slice(0, -4));
     return stem ? `${stem}.tar` : 'data';
   }
   if (lower.endsWith('.br')) {
-    const stem = base.slice(0, -3);
+    const stem = sanitizeSingleFileName(base.slice(0, -3));
     return stem || 'data';
   }
   return 'data';
@@ -1112,15 +1353,15 @@ function inferZstdEntryName(filename?: string): string {
   if (!base) return 'data';
   const lower = base.toLowerCase();
   if (lower.endsWith('.tar.zst')) {
-    const stem = base.slice(0, -8);
+    const stem = sanitizeSingleFileName(base.slice(0, -8));
     return stem ? `${stem}.tar` : 'data';
   }
   if (lower.endsWith('.tzst')) {
-    const stem = base.slice(0, -5);
+    const stem = sanitizeSingleFileName(base.slice(0, -5));
     return stem ? `${stem}.tar` : 'data';
   }
   if (lower.endsWith('.zst')) {
-    const stem = base.slice(0, -4);
+    const stem = sanitizeSingleFileName(base.slice(0, -4));
     return stem || 'data';
   }
   return 'data';
@@ -1131,23 +1372,23 @@ function inferBzip2EntryName(filename?: string): string {
   if (!base) return 'data';
   const lower = base.toLowerCase();
   if (lower.endsWith('.tar.bz2')) {
-    const stem = base.slice(0, -8);
+    const stem = sanitizeSingleFileName(base.slice(0, -8));
     return stem ? `${stem}.tar` : 'data';
   }
   if (lower.endsWith('.tbz2')) {
-    const stem = base.slice(0, -5);
+    const stem = sanitizeSingleFileName(base.slice(0, -5));
     return stem ? `${stem}.tar` : 'data';
   }
   if (lower.endsWith('.tbz')) {
-    const stem = base.slice(0, -4);
+    const stem = sanitizeSingleFileName(base.slice(0, -4));
     return stem ? `${stem}.tar` : 'data';
   }
   if (lower.endsWith('.bz2')) {
-    const stem = base.slice(0, -4);
+    const stem = sanitizeSingleFileName(base.slice(0, -4));
     return stem || 'data';
   }
   if (lower.endsWith('.bz')) {
-    const stem = base.slice(0, -3);
+    const stem = sanitizeSingleFileName(base.slice(0, -3));
     return stem || 'data';
   }
   return 'data';
@@ -1158,15 +1399,15 @@ function inferXzEntryName(filename?: string): string {
   if (!base) return 'data';
   const lower = base.toLowerCase();
   if (lower.endsWith('.tar.xz')) {
-    const stem = base.slice(0, -7);
+    const stem = sanitizeSingleFileName(base.slice(0, -7));
     return stem ? `${stem}.tar` : 'data';
   }
   if (lower.endsWith('.txz')) {
-    const stem = base.slice(0, -4);
+    const stem = sanitizeSingleFileName(base.slice(0, -4));
     return stem ? `${stem}.tar` : 'data';
   }
   if (lower.endsWith('.xz')) {
-    const stem = base.slice(0, -3);
+    const stem = sanitizeSingleFileName(base.slice(0, -3));
     return stem || 'data';
   }
   return 'data';
@@ -1263,25 +1504,6 @@ function buildDetectionReport(
   };
 }
 
-const ZSTD_MAGIC = new Uint8Array([0x28, 0xb5, 0x2f, 0xfd]);
-const XZ_MAGIC = new Uint8Array([0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00]);
-
-function isZstdHeader(data: Uint8Array): boolean {
-  if (data.length < ZSTD_MAGIC.length) return false;
-  for (let i = 0; i < ZSTD_MAGIC.length; i += 1) {
-    if (data[i] !== ZSTD_MAGIC[i]) return false;
-  }
-  return true;
-}
-
-function isXzHeader(data: Uint8Array): boolean {
-  if (data.length < XZ_MAGIC.length) return false;
-  for (let i = 0; i < XZ_MAGIC.length; i += 1) {
-    if (data[i] !== XZ_MAGIC[i]) return false;
-  }
-  return true;
-}
-
 function readXzCheckType(data: Uint8Array): number | undefined {
   if (!isXzHeader(data) || data.length < 12) return undefined;
   const flags0 = data[6]!;
@@ -1302,50 +1524,61 @@ function formatXzCheck(checkType: number): string {
   return `0x${checkType.toString(16)}`;
 }
 
-function isTarHeader(block: Uint8Array): boolean {
-  const checksumStored = parseOctal(block.subarray(148, 156));
-  const checksumActual = computeChecksum(block);
-  if (checksumStored !== undefined && checksumStored !== checksumActual) return false;
-  const magic = readString(block, 257, 6);
-  return magic === 'ustar' || magic === 'ustar\0' || magic === '';
+function isTarStreamingRequested(options?: ArchiveOpenOptions): boolean {
+  return options?.tar?.isStreaming === true;
 }
 
-function readString(buffer: Uint8Array, start: number, length: number): string {
-  let end = start;
-  for (; end < start + length; end += 1) {
-    if (buffer[end] === 0) break;
-  }
-  return new TextDecoder('utf-8').decode(buffer.subarray(start, end)).trim();
+async function gunzipToBytes(data: Uint8Array, options?: ArchiveOpenOptions): Promise<Uint8Array> {
+  return decompressToBytes(data, 'gzip', options);
 }
 
-function parseOctal(buffer: Uint8Array): number | undefined {
-  const text = decodeNullTerminatedUtf8(buffer).trim();
-  if (!text) return undefined;
-  const value = parseInt(text, 8);
-  return Number.isFinite(value) ? value : undefined;
+async function decompressToBytes(
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm,
+  options?: ArchiveOpenOptions
+): Promise<Uint8Array> {
+  const stream = readableFromBytes(data).pipeThrough(createArchiveDecompressor(algorithm, options));
+  return readDecompressedBytes(stream, algorithm, options);
 }
 
-function computeChecksum(header: Uint8Array): number {
-  let sum = 0;
-  for (let i = 0; i < header.length; i += 1) {
-    if (i >= 148 && i < 156) sum += 0x20;
-    else sum += header[i]!;
+async function readDecompressedBytes(
+  stream: ReadableStream<Uint8Array>,
+  algorithm: CompressionAlgorithm,
+  options?: ArchiveOpenOptions
+): Promise<Uint8Array> {
+  const limits = resolveArchiveReaderSettings(options).limits;
+  const readOptions: { signal?: AbortSignal; maxBytes?: bigint | number } = {};
+  if (options?.signal) readOptions.signal = options.signal;
+  if (limits?.maxTotalDecompressedBytes !== undefined) {
+    readOptions.maxBytes = limits.maxTotalDecompressedBytes;
+  } else if (limits?.maxTotalUncompressedBytes !== undefined) {
+    readOptions.maxBytes = limits.maxTotalUncompressedBytes;
+  }
+  try {
+    return await readAllBytes(stream, readOptions);
+  } catch (err) {
+    throw toDecompressionError(algorithm, err);
   }
-  return sum;
 }
 
-async function gunzipToBytes(data: Uint8Array, options?: ArchiveOpenOptions): Promise<Uint8Array> {
-  return decompressToBytes(data, 'gzip', options);
+/** Keep typed, limit, and abort errors; report anything else as a backend failure. */
+function toDecompressionError(algorithm: CompressionAlgorithm, err: unknown): unknown {
+  if (err instanceof CompressionError) return err;
+  if (err instanceof RangeError) return err;
+  if (err && typeof err === 'object' && (err as { name?: string }).name === 'AbortError') return err;
+  return new CompressionError('COMPRESSION_BACKEND_UNAVAILABLE', 'Compression backend failed', {
+    algorithm,
+    cause: err
+  });
 }
 
-async function decompressToBytes(
-  data: Uint8Array,
+function createArchiveDecompressor(
   algorithm: CompressionAlgorithm,
   options?: ArchiveOpenOptions
-): Promise<Uint8Array> {
+): TransformStream<Uint8Array, Uint8Array> {
   const settings = resolveArchiveReaderSettings(options);
   const limits = settings.limits;
-  const transform = createDecompressor({
+  return createDecompressor({
     algorithm,
     ...(options?.signal ? { signal: options.signal } : {}),
     ...(limits?.maxTotalDecompressedBytes !== undefined
@@ -1364,101 +1597,56 @@ async function decompressToBytes(
     ...(limits ? { limits } : {}),
     profile: settings.profile
   });
-  const stream = readableFromBytes(data).pipeThrough(transform);
-  const readOptions: { signal?: AbortSignal; maxBytes?: bigint | number } = {};
-  if (options?.signal) readOptions.signal = options.signal;
-  if (limits?.maxTotalDecompressedBytes !== undefined) {
-    readOptions.maxBytes = limits.maxTotalDecompressedBytes;
-  } else if (limits?.maxTotalUncompressedBytes !== undefined) {
-    readOptions.maxBytes = limits.maxTotalUncompressedBytes;
-  }
-  try {
-    return await readAllBytes(stream, readOptions);
-  } catch (err) {
-    if (err instanceof CompressionError) throw err;
-    if (err instanceof RangeError) throw err;
-    if (err && typeof err === 'object' && (err as { name?: string }).name === 'AbortError') throw err;
-    throw new CompressionError('COMPRESSION_BACKEND_UNAVAILABLE', 'Compression backend failed', {
-      algorithm,
-      cause: err
-    });
-  }
 }
 
-type GzipHeader = { name?: string; mtime?: Date };
-
-function parseGzipHeader(data: Uint8Array): GzipHeader {
-  if (data.length < 10) return {};
-  const flags = data[3]!;
-  const mtime = readUint32LE(data, 4);
-  let offset = 10;
-  if (flags & 0x04) {
-    if (offset + 2 > data.length) {
-      throw new CompressionError('COMPRESSION_GZIP_BAD_HEADER', 'Gzip header truncated', {
-        algorithm: 'gzip'
-      });
-    }
-    const xlen = data[offset]! | (data[offset + 1]! << 8);
-    if (offset + 2 + xlen > data.length) {
-      throw new CompressionError('COMPRESSION_GZIP_BAD_HEADER', 'Gzip header truncated', {
-        algorithm: 'gzip'
-      });
-    }
-    offset += 2 + xlen;
-  }
-  let name: string | undefined;
-  if (flags & 0x08) {
-    const start = offset;
-    while (offset < data.length && data[offset] !== 0) offset += 1;
-    if (offset >= data.length) {
-      throw new CompressionError('COMPRESSION_GZIP_BAD_HEADER', 'Gzip header truncated', {
-        algorithm: 'gzip'
-      });
-    }
-    name = decodeLatin1(data.subarray(start, offset));
-    offset += 1;
-  }
-  if (flags & 0x10) {
-    while (offset < data.length && data[offset] !== 0) offset += 1;
-    if (offset >= data.length) {
-      throw new CompressionError('COMPRESSION_GZIP_BAD_HEADER', 'Gzip header truncated', {
-        algorithm: 'gzip'
-      });
-    }
-    offset += 1;
-  }
-  if (flags & 0x02) {
-    if (offset + 2 > data.length) {
-      throw new CompressionError('COMPRESSION_GZIP_BAD_HEADER', 'Gzip header truncated', {
-        algorithm: 'gzip'
-      });
-    }
-    const stored = data[offset]! | (data[offset + 1]! << 8);
-    const computed = (crc32(data.subarray(0, offset)) ^ 0xffffffff) & 0xffff;
-    if (stored !== computed) {
-      throw new CompressionError('COMPRESSION_GZIP_BAD_HEADER', 'Gzip header CRC mismatch', {
-        algorithm: 'gzip',
-        context: { stored: String(stored), expected: String(computed) }
-      });
-    }
-    offset += 2;
-  }
-  const header: GzipHeader = {};
-  if (name !== undefined) header.name = name;
-  if (mtime) header.mtime = new Date(mtime * 1000);
-  return header;
-}
-
-function decodeLatin1(bytes: Uint8Array): string {
-  try {
-    return new TextDecoder('latin1').decode(bytes);
-  } catch {
-    return new TextDecoder('utf-8').decode(bytes);
-  }
+/**
+ * Open a compressed TAR layer forward-only: the decompressor output feeds a
+ * streaming TarReader, so entry payloads are never buffered as a whole.
+ */
+async function openStreamingTarLayer(
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm,
+  format: ArchiveFormat,
+  decompressOptions: ArchiveOpenOptions | undefined,
+  options: ArchiveOpenOptions | undefined,
+  notes: string[],
+  preflight?: PreflightResourceInfo
+): Promise<ArchiveReader> {
+  const tarOptions: TarReaderOptions = {
+    ...(options?.tar ?? {}),
+    ...(options?.profile !== undefined ? { profile: options.profile } : {}),
+    ...(options?.isStrict !== undefined ? { isStrict: options.isStrict } : {}),
+    ...(options?.limits !== undefined ? { limits: options.limits } : {})
+  };
+  const stream = readableFromBytes(data).pipeThrough(createArchiveDecompressor(algorithm, decompressOptions));
+  return openForwardOnlyTar(stream, format, tarOptions, options, notes, preflight);
 }
 
-function readUint32LE(data: Uint8Array, offset: number): number {
-  return (data[offset]! | (data[offset + 1]! << 8) | (data[offset + 2]! << 16) | (data[offset + 3]! << 24)) >>> 0;
+async function openForwardOnlyTar(
+  stream: ReadableStream<Uint8Array>,
+  format: ArchiveFormat,
+  tarOptions: TarReaderOptions,
+  options: ArchiveOpenOptions | undefined,
+  notes: string[],
+  preflight?: PreflightResourceInfo
+): Promise<ArchiveReader> {
+  const tarReader = await TarReader.fromStream(stream, {
+    ...tarOptions,
+    isStreaming: true,
+    ...(options?.signal ? { signal: options.signal } : {})
+  });
+  notes.push('TAR layer opened in forward-only streaming mode');
+  const auditDefaults: TarAuditOptions = {
+    ...(tarOptions.profile !== undefined ? { profile: tarOptions.profile } : {}),
+    ...(tarOptions.isStrict !== undefined ? { isStrict: tarOptions.isStrict } : {}),
+    ...(tarOptions.limits !== undefined ? { limits: tarOptions.limits } : {})
+  };
+  return new TarArchiveReader(
+    tarReader,
+    Object.keys(auditDefaults).length > 0 ? auditDefaults : undefined,
+    format,
+    preflight
+  );
 }
 
 class ZipArchiveReader implements ArchiveReader {
@@ -1475,6 +1663,10 @@ class ZipArchiveReader implements ArchiveReader {
         isDirectory: entry.isDirectory,
         isSymlink: entry.isSymlink,
         mtime: entry.mtime,
+        ...(entry.atime ? { atime: entry.atime } : {}),
+        ...(entry.mode !== undefined ? { mode: entry.mode } : {}),
+        ...(entry.uid !== undefined ? { uid: entry.uid } : {}),
+        ...(entry.gid !== undefined ? { gid: entry.gid } : {}),
         open: () => this.reader.open(entry, this.openOptions),
         raw: entry
       };
@@ -1536,8 +1728,15 @@ class ZipArchiveReader implements ArchiveReader {
     writable: WritableStream<Uint8Array>,
     options?: ArchiveNormalizeOptions
   ): Promise<ArchiveNormalizeReport> {
+    if (options?.outputFormat !== undefined && options.outputFormat !== 'zip') {
+      return normalizeToFormat(this, 'zip', writable, { ...options, outputFormat: options.outputFormat });
+    }
     const normalizeOptions = {
       ...(options?.isDeterministic !== undefined ? { isDeterministic: options.isDeterministic } : {}),
+      ...(options?.onSymlink !== undefined ? { onSymlink: options.onSymlink } : {}),
+      ...(options?.shouldPreservePlatformMetadata !== undefined
+        ? { shouldPreservePlatformMetadata: options.shouldPreservePlatformMetadata }
+        : {}),
       ...(options?.signal ? { signal: options.signal } : {})
     };
     const report = await this.reader.normalizeToWritable(writable, normalizeOptions);
@@ -1592,6 +1791,8 @@ class TarArchiveReader implements ArchiveReader {
         raw: entry
       };
       if (entry.mtime) archiveEntry.mtime = entry.mtime;
+      const atime = entry.pax?.atime !== undefined ? new Date(Number(entry.pax.atime) * 1000) : undefined;
+      if (atime && !Number.isNaN(atime.getTime())) archiveEntry.atime = atime;
       if (entry.mode !== undefined) archiveEntry.mode = entry.mode;
       if (entry.uid !== undefined) archiveEntry.uid = entry.uid;
       if (entry.gid !== undefined) archiveEntry.gid = entry.gid;
@@ -1626,10 +1827,14 @@ class TarArchiveReader implements ArchiveReader {
     writable: WritableStream<Uint8Array>,
     options?: ArchiveNormalizeOptions
   ): Promise<ArchiveNormalizeReport> {
+    if (options?.outputFormat !== undefined && options.outputFormat !== 'tar') {
+      return normalizeToFormat(this, 'tar', writable, { ...options, outputFormat: options.outputFormat });
+    }
     const limits = options?.limits ?? this.auditDefaults?.limits;
     enforceResourceLimits(this.preflight, limits, this.auditDefaults?.profile);
     const tarOptions: TarNormalizeOptions = {
       ...(options?.isDeterministic !== undefined ? { isDeterministic: options.isDeterministic } : {}),
+      ...(options?.onSymlink !== undefined ? { onSymlink: options.onSymlink } : {}),
       ...(options?.signal ? { signal: options.signal } : {}),
       ...(options?.limits !== undefined ? { limits: options.limits } : {})
     };
@@ -1640,32 +1845,54 @@ class TarArchiveReader implements ArchiveReader {
 class GzipArchiveReader implements ArchiveReader {
   format: ArchiveFormat = 'gz';
   detection?: ArchiveDetectionReport;
-  private readonly entry: ArchiveEntry;
+  private readonly entryList: ArchiveEntry[];
 
+  /**
+   * With `members`, each gzip member becomes its own entry named from its FNAME (else `name`),
+   * suffixed with its index when the name repeats.
+   */
   constructor(
     private readonly data: Uint8Array,
-    header: GzipHeader,
+    private readonly header: GzipHeader | undefined,
     name: string,
     private readonly auditDefaults?: {
       profile: ArchiveProfile;
       strict: boolean;
       limits: Required<ArchiveLimits>;
-    }
+    },
+    members?: GzipMember[]
   ) {
+    if (!members) {
+      this.entryList = [this.createEntry(name, data, header)];
+      return;
+    }
+    const seen = new Set<string>();
+    this.entryList = members.map((member, index) => {
+      let memberName = sanitizeSingleFileName(member.header.name) ?? name;
+      if (seen.has(memberName)) memberName = `${memberName}.${index}`;
+      seen.add(memberName);
+      return this.createEntry(memberName, data.subarray(member.start, member.start + member.size), member.header);
+    });
+  }
+
+  private createEntry(name: string, payload: Uint8Array, header: GzipHeader | undefined): ArchiveEntry {
     const entry: ArchiveEntry = {
       format: 'gz',
       name,
-      size: BigInt(data.length),
+      size: BigInt(payload.length),
       isDirectory: false,
       isSymlink: false,
-      open: async () => readableFromBytes(this.data)
+      open: async () => readableFromBytes(payload)
     };
-    if (header.mtime) entry.mtime = header.mtime;
-    this.entry = entry;
+    if (header) {
+      entry.raw = header;
+      if (header.mtime) entry.mtime = header.mtime;
+    }
+    return entry;
   }
 
   async *entries(): AsyncGenerator<ArchiveEntry> {
-    yield this.entry;
+    yield* this.entryList;
   }
 
   private resolveAuditSettings(options?: ArchiveAuditOptions): {
@@ -1689,27 +1916,29 @@ class GzipArchiveReader implements ArchiveReader {
     const settings = this.resolveAuditSettings(options);
     const issues: ArchiveAuditReport['issues'] = [];
     const summary: ArchiveAuditReport['summary'] = {
-      entries: 1,
+      entries: this.entryList.length,
       warnings: 0,
       errors: 0
     };
-    const totalBytes = this.entry.size > BigInt(Number.MAX_SAFE_INTEGER) ? undefined : Number(this.entry.size);
+    const size = BigInt(this.data.length);
+    const totalBytes = size > BigInt(Number.MAX_SAFE_INTEGER) ? undefined : Number(size);
     if (totalBytes !== undefined) summary.totalBytes = totalBytes;
     const maxTotal = settings.limits.maxTotalDecompressedBytes;
-    if (maxTotal !== undefined && this.entry.size > BigInt(maxTotal)) {
+    if (maxTotal !== undefined && size > BigInt(maxTotal)) {
       issues.push({
         code: 'GZIP_LIMIT_EXCEEDED',
         severity: 'error',
         message: 'Uncompressed size exceeds limit',
-        entryName: this.entry.name
+        entryName: this.entryList[0]!.name
       });
       summary.errors += 1;
     }
-    const pathIssues = entryPathIssues(this.entry.name);
-    for (const issue of pathIssues) {
-      issues.push(issue);
-      if (issue.severity === 'warning') summary.warnings += 1;
-      if (issue.severity === 'error') summary.errors += 1;
+    for (const entry of this.entryList) {
+      for (const issue of entryPathIssues(entry.name)) {
+        issues.push(issue);
+        if (issue.severity === 'warning') summary.warnings += 1;
+        if (issue.severity === 'error') summary.errors += 1;
+      }
     }
     return {
       schemaVersion: BYTEFOLD_REPORT_SCHEMA_VERSION,
@@ -1727,11 +1956,41 @@ class GzipArchiveReader implements ArchiveReader {
     }
   }
 
-  async normalizeToWritable(): Promise<ArchiveNormalizeReport> {
-    throw new ArchiveError(
-      'ARCHIVE_UNSUPPORTED_FEATURE',
-      'Normalization is not supported for single-file compressed formats'
-    );
+  /**
+   * Re-emit the payload as one gzip member with zero XFL/OS bytes; concatenated (or split) members are merged.
+   *
+   * Deterministic output also zeroes MTIME and drops FNAME; otherwise both are kept, FNAME sanitized
+   * to a bare file name.
+   */
+  async normalizeToWritable(
+    writable: WritableStream<Uint8Array>,
+    options?: ArchiveNormalizeOptions
+  ): Promise<ArchiveNormalizeReport> {
+    if (options?.outputFormat !== undefined && options.outputFormat !== 'gz') {
+      return normalizeToFormat(this, undefined, writable, { ...options, outputFormat: options.outputFormat });
+    }
+    throwIfAborted(options?.signal);
+    ensureCompressionWriteSupported('deflate-raw');
+    const issues: ArchiveNormalizeReport['issues'] = [];
+    let header: CanonicalGzipHeader = {};
+    let renamed = false;
+    if (options?.isDeterministic === false) {
+      const stored = this.header?.name;
+      const name = sanitizeSingleFileName(stored);
+      if (stored !== undefined && name !== stored) {
+        renamed = true;
+        issues.push({
+          code: 'GZIP_NAME_SANITIZED',
+          severity: 'info',
+          message: name ? 'Gzip FNAME reduced to a bare file name' : 'Gzip FNAME dropped',
+          entryName: this.entryList[0]!.name,
+          details: { from: stored, ...(name ? { to: name } : {}) }
+        });
+      }
+      header = { ...(name ? { name } : {}), ...(this.header?.mtime ? { mtime: this.header.mtime } : {}) };
+    }
+    await writeCanonicalGzip(writable, this.data, header, options?.compression, options?.signal);
+    return buildSingleFileNormalizeReport(issues, renamed);
   }
 }
 
@@ -1841,12 +2100,192 @@ class CompressedArchiveReader implements ArchiveReader {
     }
   }
 
-  async normalizeToWritable(): Promise<ArchiveNormalizeReport> {
-    throw new ArchiveError(
-      'ARCHIVE_UNSUPPORTED_FEATURE',
-      'Normalization is not supported for single-file compressed formats'
+  /**
+   * Re-compress the payload as a single stream with `options.compression`; concatenated streams
+   * are merged and xz output is one block with the chosen check.
+   */
+  async normalizeToWritable(
+    writable: WritableStream<Uint8Array>,
+    options?: ArchiveNormalizeOptions
+  ): Promise<ArchiveNormalizeReport> {
+    if (options?.outputFormat !== undefined && options.outputFormat !== this.format) {
+      return normalizeToFormat(this, undefined, writable, { ...options, outputFormat: options.outputFormat });
+    }
+    throwIfAborted(options?.signal);
+    ensureCompressionWriteSupported(this.algorithm);
+    await writeCanonicalCompressed(writable, this.data, this.algorithm, options?.compression, options?.signal);
+    return buildSingleFileNormalizeReport([], false);
+  }
+}
+
+function buildSingleFileNormalizeReport(
+  issues: ArchiveNormalizeReport['issues'],
+  renamed: boolean
+): ArchiveNormalizeReport {
+  const summary: ArchiveNormalizeReport['summary'] = {
+    entries: 1,
+    outputEntries: 1,
+    droppedEntries: 0,
+    renamedEntries: renamed ? 1 : 0,
+    warnings: issues.filter((issue) => issue.severity === 'warning').length,
+    errors: issues.filter((issue) => issue.severity === 'error').length
+  };
+  const ok = summary.errors === 0;
+  return {
+    schemaVersion: BYTEFOLD_REPORT_SCHEMA_VERSION,
+    ok,
+    summary,
+    issues,
+    toJSON: () => ({ schemaVersion: BYTEFOLD_REPORT_SCHEMA_VERSION, ok, summary, issues })
+  };
+}
+
+type NormalizeTarget = {
+  /** Container written before any compression layer; absent for single-file outputs. */
+  container?: 'zip' | 'tar';
+  algorithm?: CompressedLayer['algorithm'];
+};
+
+function resolveNormalizeTarget(format: ArchiveFormat): NormalizeTarget {
+  if (format === 'zip' || format === 'tar') return { container: format };
+  const layer = COMPRESSED_LAYERS[format];
+  if (!layer) {
+    throw new ArchiveError('ARCHIVE_UNSUPPORTED_FORMAT', `Unsupported normalize output format: ${format}`);
+  }
+  return format === layer.single ? { algorithm: layer.algorithm } : { container: 'tar', algorithm: layer.algorithm };
+}
+
+/**
+ * Normalize `reader` and emit the result as `options.outputFormat`.
+ *
+ * ZIP and TAR sources are first normalized in their own container, so name, collision and link
+ * policies apply as they do without `outputFormat`. When the target container differs, entries are
+ * copied into it and that archive is normalized in turn, making the output what normalizing it
+ * directly would produce. Compression layers are then written as one canonical stream.
+ *
+ * Each pass is held in memory, so a conversion can keep up to three copies of the archive at once
+ * (the source normalize, the copy, and its normalize); each copy, like a single-file payload, is
+ * capped at `limits.maxTotalUncompressedBytes` and fails with `ARCHIVE_LIMIT_EXCEEDED` beyond it.
+ */
+async function normalizeToFormat(
+  reader: ArchiveReader & Required<Pick<ArchiveReader, 'normalizeToWritable'>>,
+  source: 'zip' | 'tar' | undefined,
+  writable: WritableStream<Uint8Array>,
+  options: ArchiveNormalizeOptions & { outputFormat: ArchiveFormat }
+): Promise<ArchiveNormalizeReport> {
+  const { outputFormat, ...rest } = options;
+  // Owners and times the copy carries would otherwise be dropped by the ZIP passes and reported as lost.
+  const nativeOptions: ArchiveNormalizeOptions = {
+    ...rest,
+    shouldPreservePlatformMetadata: options.shouldPreservePlatformMetadata ?? options.isDeterministic === false
+  };
+  const signal = options.signal;
+  throwIfAborted(signal);
+  const maxBytes = normalizeArchiveLimits(options.limits).maxTotalUncompressedBytes;
+  const target = resolveNormalizeTarget(outputFormat);
+  if (target.algorithm) ensureCompressionWriteSupported(target.algorithm === 'gzip' ? 'deflate-raw' : target.algorithm);
+  const openOptions: ArchiveOpenOptions = {
+    ...(options.limits !== undefined ? { limits: options.limits } : {}),
+    ...(signal ? { signal } : {})
+  };
+
+  if (!target.container) {
+    if (source) {
+      throw new ArchiveError(
+        'ARCHIVE_UNSUPPORTED_FEATURE',
+        `Cannot normalize ${reader.format} into single-file format ${outputFormat}`
+      );
+    }
+    // Split gzip members are joined again, as a gzip normalize would.
+    const parts: Uint8Array[] = [];
+    let total = 0n;
+    for await (const entry of reader.entries()) {
+      const part = await readAllBytes(await entry.open(), signal ? { signal } : undefined);
+      total += BigInt(part.length);
+      if (total > BigInt(maxBytes)) throw intermediateLimitError();
+      parts.push(part);
+    }
+    const data = concatBytes(parts);
+    await writeNormalizedLayer(writable, data, target.algorithm!, options);
+    return buildSingleFileNormalizeReport([], false);
+  }
+
+  const reports: ArchiveNormalizeReport[] = [];
+  const issues: ArchiveNormalizeReport['issues'] = [];
+  let bytes: Uint8Array = new Uint8Array(0);
+  if (source) {
+    const normalized = collectBytes(maxBytes);
+    reports.push(await reader.normalizeToWritable(normalized.writable, nativeOptions));
+    bytes = normalized.bytes();
+  }
+  if (source !== target.container) {
+    const entries = source ? (await openArchive(bytes, { ...openOptions, format: source })).entries() : reader.entries();
+    const converted = collectBytes(maxBytes);
+    const writer = createArchiveWriter(
+      target.container,
+      converted.writable,
+      target.container === 'zip' ? { zip: { defaultMethod: 0 } } : undefined
     );
+    const copied = await copyEntries(entries, writer, signal);
+    const normalized = collectBytes(maxBytes);
+    const convertedReader = await openArchive(converted.bytes(), { ...openOptions, format: target.container });
+    reports.push(await convertedReader.normalizeToWritable!(normalized.writable, nativeOptions));
+    bytes = normalized.bytes();
+    const output: ArchiveEntry[] = [];
+    for await (const entry of (await openArchive(bytes, { ...openOptions, format: target.container })).entries()) {
+      output.push(entry);
+    }
+    issues.push(...conversionIssues(copied, output, outputFormat, options.isDeterministic ?? true));
+  }
+
+  if (target.algorithm) {
+    await writeNormalizedLayer(writable, bytes, target.algorithm, options);
+  } else {
+    const out = writable.getWriter();
+    try {
+      await out.write(bytes);
+      await out.close();
+    } catch (err) {
+      await out.abort(err).catch(() => {});
+      throw err;
+    }
   }
+  return mergeNormalizeReports(reports, issues);
+}
+
+function writeNormalizedLayer(
+  writable: WritableStream<Uint8Array>,
+  data: Uint8Array,
+  algorithm: CompressedLayer['algorithm'],
+  options: ArchiveNormalizeOptions
+): Promise<void> {
+  return algorithm === 'gzip'
+    ? writeCanonicalGzip(writable, data, {}, options.compression, options.signal)
+    : writeCanonicalCompressed(writable, data, algorithm, options.compression, options.signal);
+}
+
+/** Combine the reports of each normalize pass with conversion issues; counts come from the first and last pass. */
+function mergeNormalizeReports(
+  reports: ArchiveNormalizeReport[],
+  conversion: ArchiveNormalizeReport['issues']
+): ArchiveNormalizeReport {
+  const issues = [...reports.flatMap((report) => report.issues), ...conversion];
+  const summary: ArchiveNormalizeReport['summary'] = {
+    entries: reports[0]!.summary.entries,
+    outputEntries: reports[reports.length - 1]!.summary.outputEntries,
+    droppedEntries: reports.reduce((total, report) => total + report.summary.droppedEntries, 0),
+    renamedEntries: reports.reduce((total, report) => total + report.summary.renamedEntries, 0),
+    warnings: issues.filter((issue) => issue.severity === 'warning').length,
+    errors: issues.filter((issue) => issue.severity === 'error').length
+  };
+  const ok = summary.errors === 0;
+  return {
+    schemaVersion: BYTEFOLD_REPORT_SCHEMA_VERSION,
+    ok,
+    summary,
+    issues,
+    toJSON: () => ({ schemaVersion: BYTEFOLD_REPORT_SCHEMA_VERSION, ok, summary, issues })
+  };
 }
 
 function sanitizeDetails(value: unknown): unknown {
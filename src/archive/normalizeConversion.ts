@@ -0,0 +1,165 @@
+import { throwIfAborted } from '../abort.js';
+import { decodeUtf8 } from '../binary.js';
+import { readAllBytes } from '../streams/buffer.js';
+import type { TarEntry, TarWriterAddOptions } from '../tar/types.js';
+import type { ZipWriterAddOptions } from '../types.js';
+import { ArchiveError } from './errors.js';
+import type { ArchiveWriter } from './index.js';
+import type { ArchiveEntry, ArchiveFormat, ArchiveIssue } from './types.js';
+
+/** Metadata of one copied entry, compared against the converted output to report losses. */
+export type CopiedEntry = {
+  name: string;
+  mtime?: Date;
+  mode?: number;
+  uid?: number;
+  gid?: number;
+  /** PAX records a ZIP output has no place for. */
+  paxKeys?: string[];
+};
+
+/** In-memory sink for an intermediate archive. */
+export type CollectedBytes = {
+  writable: WritableStream<Uint8Array>;
+  bytes(): Uint8Array;
+};
+
+const EPOCH = new Date(0);
+// PAX records that only restate fields compared directly (name, link target, size, mtime, owner ids).
+const MAPPED_PAX_KEYS = new Set(['path', 'linkpath', 'size', 'mtime', 'uid', 'gid']);
+
+/** Collect everything written to the returned writable; more than `maxBytes` fails with `ARCHIVE_LIMIT_EXCEEDED`. */
+export function collectBytes(maxBytes?: bigint | number): CollectedBytes {
+  const chunks: Uint8Array[] = [];
+  let received = 0n;
+  return {
+    writable: new WritableStream<Uint8Array>({
+      write(chunk) {
+        received += BigInt(chunk.length);
+        if (maxBytes !== undefined && received > BigInt(maxBytes)) throw intermediateLimitError();
+        chunks.push(chunk.slice());
+      }
+    }),
+    bytes: () => {
+      const out = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+      let offset = 0;
+      for (const chunk of chunks) {
+        out.set(chunk, offset);
+        offset += chunk.length;
+      }
+      return out;
+    }
+  };
+}
+
+/** Error for an in-memory normalize intermediate that outgrows `maxTotalUncompressedBytes`. */
+export function intermediateLimitError(): ArchiveError {
+  return new ArchiveError('ARCHIVE_LIMIT_EXCEEDED', 'Normalize intermediate exceeds maxTotalUncompressedBytes');
+}
+
+/**
+ * Copy `entries` into a ZIP or TAR writer, mapping directory and symlink kinds, modes, owners and mtimes.
+ *
+ * Entries without an mtime get the Unix epoch so the copy itself never reads the clock. TAR device,
+ * FIFO and unknown entries have no ZIP form and fail with `ARCHIVE_UNSUPPORTED_FEATURE`.
+ */
+export async function copyEntries(
+  entries: AsyncIterable<ArchiveEntry>,
+  writer: ArchiveWriter,
+  signal?: AbortSignal
+): Promise<CopiedEntry[]> {
+  const copied: CopiedEntry[] = [];
+  for await (const entry of entries) {
+    throwIfAborted(signal);
+    const tar = isTarFormat(entry.format) ? (entry.raw as TarEntry | undefined) : undefined;
+    const linkTarget = entry.isSymlink
+      ? (entry.linkName ?? decodeUtf8(await readAllBytes(await entry.open(), signal ? { signal } : undefined)))
+      : undefined;
+    const mtime = entry.mtime ?? EPOCH;
+    const mode = entry.mode !== undefined ? entry.mode & 0o7777 : undefined;
+    const owner = {
+      ...(entry.uid !== undefined ? { uid: entry.uid } : {}),
+      ...(entry.gid !== undefined ? { gid: entry.gid } : {})
+    };
+    const source = entry.isDirectory || linkTarget !== undefined ? new Uint8Array(0) : await entry.open();
+    const record: CopiedEntry = { name: entry.name, ...(entry.mtime ? { mtime: entry.mtime } : {}), ...owner };
+    if (mode !== undefined) record.mode = mode;
+
+    if (writer.format === 'zip') {
+      if (tar && !['file', 'directory', 'symlink'].includes(tar.type)) {
+        if (source instanceof ReadableStream) await source.cancel().catch(() => {});
+        throw new ArchiveError('ARCHIVE_UNSUPPORTED_FEATURE', `TAR ${tar.type} entries cannot be written to ZIP`, {
+          entryName: entry.name
+        });
+      }
+      const paxKeys = Object.keys(tar?.pax ?? {}).filter((key) => !MAPPED_PAX_KEYS.has(key));
+      if (paxKeys.length > 0) record.paxKeys = paxKeys;
+      const options: ZipWriterAddOptions = {
+        mtime,
+        ...(mode !== undefined ? { mode } : {}),
+        // ZIP stores both ids or neither; a lone id is reported as lost instead.
+        ...(owner.uid !== undefined && owner.gid !== undefined ? owner : {}),
+        ...(entry.isDirectory ? { type: 'directory' } : {}),
+        ...(linkTarget !== undefined ? { type: 'symlink', symlinkTarget: linkTarget } : {})
+      };
+      await writer.add(entry.name, source, options);
+    } else {
+      const options: TarWriterAddOptions = {
+        type: entry.isDirectory ? 'directory' : linkTarget !== undefined ? 'symlink' : 'file',
+        mtime,
+        ...(mode !== undefined ? { mode } : {}),
+        ...owner,
+        ...(linkTarget !== undefined ? { linkName: linkTarget } : {}),
+        ...(source instanceof ReadableStream ? { size: entry.size } : {})
+      };
+      await writer.add(entry.name, source, options);
+    }
+    copied.push(record);
+  }
+  await writer.close();
+  return copied;
+}
+
+/**
+ * Report metadata the converted output lost, as `ARCHIVE_METADATA_LOST` warnings.
+ *
+ * Deterministic output resets mtimes, modes and owners on purpose, so those are only compared when
+ * `isDeterministic` is false; PAX records dropped by a ZIP output are always reported.
+ */
+export function conversionIssues(
+  copied: CopiedEntry[],
+  output: ArchiveEntry[],
+  outputFormat: ArchiveFormat,
+  isDeterministic: boolean
+): ArchiveIssue[] {
+  const byName = new Map(output.map((entry) => [trimSlash(entry.name), entry]));
+  const issues: ArchiveIssue[] = [];
+  for (const source of copied) {
+    const target = byName.get(trimSlash(source.name));
+    const fields: string[] = [];
+    if (!isDeterministic && target) {
+      if (source.mtime && target.mtime?.getTime() !== source.mtime.getTime()) fields.push('mtime');
+      if (source.mode !== undefined && ((target.mode ?? 0) & 0o7777) !== source.mode) fields.push('mode');
+      if (source.uid !== undefined && target.uid !== source.uid) fields.push('uid');
+      if (source.gid !== undefined && target.gid !== source.gid) fields.push('gid');
+    }
+    if (source.paxKeys) fields.push('pax');
+    if (fields.length === 0) continue;
+    issues.push({
+      code: 'ARCHIVE_METADATA_LOST',
+      severity: 'warning',
+      message: `${outputFormat} output cannot keep ${fields.join(', ')}`,
+      entryName: source.name,
+      details: { outputFormat, fields, ...(source.paxKeys ? { paxKeys: source.paxKeys } : {}) }
+    });
+  }
+  return issues;
+}
+
+function isTarFormat(format: ArchiveFormat): boolean {
+  return format === 'tar' || format === 'tgz' || format.startsWith('tar.');
+}
+
+function trimSlash(name: string): string {
+  return name.endsWith('/') ? name.slice(0, -1) : name;
+}
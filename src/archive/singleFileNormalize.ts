@@ -0,0 +1,55 @@
+import { createCompressTransform } from '../compression/streams.js';
+import type { XzCheck } from '../compress/types.js';
+import { readableFromBytes } from '../streams/web.js';
+import { buildGzipHeader, writeGzipMember } from './gzip.js';
+
+/** Header fields a non-deterministic gzip normalize carries over. */
+export type CanonicalGzipHeader = {
+  /** FNAME, already sanitized. */
+  name?: string;
+  mtime?: Date;
+};
+
+/** Compression settings for a re-emitted single-file stream. */
+export type CanonicalCompression = {
+  level?: number;
+  quality?: number;
+  xzCheck?: XzCheck;
+};
+
+/**
+ * Write `data` as one canonical gzip member.
+ *
+ * The header is built here rather than by the backend so that XFL and OS are always zero and
+ * MTIME/FNAME appear only when given; the body is raw deflate with the usual CRC32/ISIZE trailer.
+ */
+export async function writeCanonicalGzip(
+  writable: WritableStream<Uint8Array>,
+  data: Uint8Array,
+  header: CanonicalGzipHeader,
+  compression?: CanonicalCompression,
+  signal?: AbortSignal
+): Promise<void> {
+  const head = buildGzipHeader({ ...header, os: 0 });
+  await writeGzipMember(writable, readableFromBytes(data), head, compression?.level, signal);
+}
+
+/** Re-compress `data` as a single stream (one xz block, one zstd frame, one bzip2 stream). */
+export async function writeCanonicalCompressed(
+  writable: WritableStream<Uint8Array>,
+  data: Uint8Array,
+  algorithm: 'zstd' | 'brotli' | 'bzip2' | 'xz',
+  compression?: CanonicalCompression,
+  signal?: AbortSignal
+): Promise<void> {
+  const transform = await createCompressTransform({
+    algorithm,
+    ...(signal ? { signal } : {}),
+    ...(compression?.level !== undefined ? { level: compression.level } : {}),
+    ...(compression?.quality !== undefined ? { quality: compression.quality } : {}),
+    ...(compression?.xzCheck !== undefined ? { xzCheck: compression.xzCheck } : {})
+  });
+  await readableFromBytes(data)
+    .pipeThrough(transform)
+    .pipeTo(writable, signal ? { signal } : undefined);
+}
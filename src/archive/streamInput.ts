@@ -0,0 +1,99 @@
+import { throwIfAborted } from '../abort.js';
+import { replayThenRead } from '../streams/replay.js';
+
+/** Leading bytes of a stream, plus a stream that yields them again before the rest. */
+export type PeekedStream = {
+  prefix: Uint8Array;
+  stream: ReadableStream<Uint8Array>;
+};
+
+/**
+ * Read at least `minBytes` (or the whole stream, if shorter) without consuming them.
+ *
+ * Only the chunks needed to reach `minBytes` are held; the returned stream replays them and then
+ * pulls from the source.
+ */
+export async function peekStream(
+  source: ReadableStream<Uint8Array>,
+  minBytes: number,
+  signal?: AbortSignal
+): Promise<PeekedStream> {
+  const reader = source.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  try {
+    while (total < minBytes) {
+      throwIfAborted(signal);
+      const { value, done } = await reader.read();
+      if (done) break;
+      if (value.length === 0) continue;
+      chunks.push(value);
+      total += value.length;
+    }
+  } catch (err) {
+    await reader.cancel(err).catch(() => {});
+    reader.releaseLock();
+    throw err;
+  }
+  const prefix = chunks.length === 1 ? chunks[0]! : concatChunks(chunks, total);
+  return { prefix, stream: replayThenRead(chunks, reader) };
+}
+
+/** Fail with the same `RangeError` as `readAllBytes` once more than `maxBytes` have passed through. */
+export function limitStreamBytes(
+  source: ReadableStream<Uint8Array>,
+  maxBytes: bigint | number
+): ReadableStream<Uint8Array> {
+  const limit = typeof maxBytes === 'bigint' ? maxBytes : BigInt(maxBytes);
+  let total = 0n;
+  return source.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        total += BigInt(chunk.length);
+        if (total > limit) {
+          throw new RangeError('Stream exceeds maximum allowed size');
+        }
+        controller.enqueue(chunk);
+      }
+    })
+  );
+}
+
+/** Re-throw read errors from `source` through `mapError`, so forward-only consumers see typed errors. */
+export function mapStreamErrors(
+  source: ReadableStream<Uint8Array>,
+  mapError: (err: unknown) => unknown
+): ReadableStream<Uint8Array> {
+  const reader = source.getReader();
+  return new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        let result: ReadableStreamReadResult<Uint8Array>;
+        try {
+          result = await reader.read();
+        } catch (err) {
+          throw mapError(err);
+        }
+        if (result.done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(result.value);
+      },
+      async cancel(reason) {
+        await reader.cancel(reason);
+      }
+    },
+    { highWaterMark: 0 }
+  );
+}
+
+function concatChunks(chunks: Uint8Array[], total: number): Uint8Array {
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
@@ -111,6 +111,133 @@ export type ArchiveNormalizeReport = {
   toJSON?: () => unknown;
 };
 
+/** Options for extracting an archive into a destination directory. */
+export type ArchiveExtractOptions = ArchiveOpenOptions & ArchiveExtractTargetOptions;
+
+/** Extraction policy applied by `extractArchive` to any `ExtractTarget`. */
+export type ArchiveExtractTargetOptions = {
+  /** Materialize symlinks whose targets stay under the destination root (default: skip them). */
+  shouldAllowSymlinks?: boolean;
+  /** Return false to leave an entry out of extraction (reported as `filtered`). */
+  filter?: (entry: ArchiveEntry) => boolean | Promise<boolean>;
+  /**
+   * Destination path relative to the extraction root (for example with leading components stripped),
+   * or `null`/empty to skip the entry. Containment checks apply to the mapped path.
+   */
+  mapPath?: (entry: ArchiveEntry) => string | null | Promise<string | null>;
+  /**
+   * What to do when a file or symlink destination already exists: throw (`error`, default), keep it
+   * (`skip`), replace it (`overwrite`), or replace it only when the entry mtime is newer (`newer`).
+   * Existing directories are never replaced.
+   */
+  onExisting?: 'error' | 'skip' | 'overwrite' | 'newer';
+  /** Restore entry metadata on extracted paths (nothing is restored by default). */
+  preserve?: ArchiveExtractPreserveOptions;
+  /** Abort signal checked between entries and while payloads are written. */
+  signal?: AbortSignal;
+};
+
+/** Existing destination path as seen by `ExtractTarget.exists()`; a final symlink is not followed. */
+export type ExtractTargetStat = {
+  /** Path kind. */
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  /** Modification time, compared by `onExisting: 'newer'` (unknown times keep the existing path). */
+  mtime?: Date;
+};
+
+/**
+ * Destination backend for `extractArchive`.
+ *
+ * Paths are relative to the target root, `/`-separated, and already checked for containment;
+ * `extractArchive` creates parents through `mkdir` before their children and never passes `..`.
+ * The empty path names the root itself.
+ */
+export interface ExtractTarget {
+  /** Describe an existing path without following a final symlink, or return null when it is absent. */
+  exists(path: string): Promise<ExtractTargetStat | null>;
+  /** Create one directory whose parent exists; succeed when it already is a directory. */
+  mkdir(path: string): Promise<void>;
+  /**
+   * Open a file for writing. Content becomes visible only when the stream closes and an aborted stream
+   * leaves nothing behind. Without `overwrite` the call fails when the path exists; with it, an existing
+   * file or symlink is replaced, never followed.
+   */
+  writeFile(path: string, options: { overwrite: boolean }): Promise<WritableStream<Uint8Array>>;
+  /** Create a symlink at `path`; targets without symlinks omit this and symlink entries are skipped. */
+  symlink?(target: string, path: string, options: { overwrite: boolean }): Promise<void>;
+  /** Set access and modification times without following a final symlink. */
+  utimes?(path: string, atime: Date, mtime: Date): Promise<void>;
+  /** Set permission bits; never called for symlinks. */
+  chmod?(path: string, mode: number): Promise<void>;
+  /** Set ownership without following a final symlink; an undefined id is left unchanged. */
+  chown?(path: string, uid: number | undefined, gid: number | undefined): Promise<void>;
+  /** Path reported in `ArchiveExtractedEntry.path` for a relative path (default: the relative path). */
+  resolvePath?(path: string): string;
+}
+
+/** Entry metadata restored by extraction; every field is opt-in. */
+export type ArchiveExtractPreserveOptions = {
+  /** Apply entry permission bits (`ArchiveEntry.mode`), masked by `umask`. */
+  mode?: boolean;
+  /** Apply entry modification times. */
+  times?: boolean;
+  /** Apply entry uid/gid when recorded; usually requires elevated privileges. */
+  owner?: boolean;
+  /** Permission bits cleared from restored modes (default `0o022`). */
+  umask?: number;
+  /** Keep setuid/setgid/sticky bits instead of stripping them (default false). */
+  shouldKeepSpecialBits?: boolean;
+};
+
+/** Entry written to the destination by extraction. */
+export type ArchiveExtractedEntry = {
+  /** Archive entry name. */
+  name: string;
+  /** Destination path after `mapPath`, as reported by the target (absolute for filesystem targets). */
+  path: string;
+  /** Materialized entry kind. */
+  type: 'file' | 'directory' | 'symlink';
+  /** Payload bytes written (0 for directories and symlinks). */
+  bytes: number;
+};
+
+/** Entry left out of the destination by extraction. */
+export type ArchiveExtractSkippedEntry = {
+  /** Archive entry name. */
+  name: string;
+  /** Why the entry was not materialized. */
+  reason: 'filtered' | 'existing' | 'symlink' | 'unsupported-type';
+  /** Format-specific entry type when `reason` is `unsupported-type` (for example TAR `fifo`). */
+  entryType?: string;
+};
+
+/** Extraction summary returned by `extractArchive` and `extractAll`. */
+export type ArchiveExtractReport = {
+  /** Stable schema version for JSON consumers. */
+  schemaVersion: string;
+  /** Detected or forced archive format that was extracted. */
+  format: ArchiveFormat;
+  /** Aggregate counts from the extraction pass. */
+  summary: {
+    /** Number of archive entries visited. */
+    entries: number;
+    /** Regular files written. */
+    files: number;
+    /** Directories created. */
+    directories: number;
+    /** Symlinks created. */
+    symlinks: number;
+    /** Entries skipped. */
+    skipped: number;
+    /** Total payload bytes written to regular files. */
+    bytesWritten: number;
+  };
+  /** Entries written to the destination, in archive order. */
+  written: ArchiveExtractedEntry[];
+  /** Entries skipped, in archive order. */
+  skipped: ArchiveExtractSkippedEntry[];
+};
+
 /** Limits for archive processing and validation. */
 export type ArchiveLimits = ResourceLimits;
 
@@ -128,6 +255,8 @@ export type ArchiveEntry = {
   isSymlink: boolean;
   /** Entry modified time when present in source metadata. */
   mtime?: Date;
+  /** Entry access time when the source records one (ZIP time extra fields, PAX `atime`). */
+  atime?: Date;
   /** Entry mode bits when present. */
   mode?: number;
   /** Entry uid when present. */
@@ -142,6 +271,36 @@ export type ArchiveEntry = {
   raw?: unknown;
 };
 
+/** One FEXTRA subfield of a gzip header. */
+export type GzipExtraSubfield = {
+  /** Two-character subfield id (SI1 SI2), for example `BC` for BGZF block sizes. */
+  id: string;
+  /** Subfield payload. */
+  data: Uint8Array;
+};
+
+/** Header of one gzip member (RFC 1952), exposed as `ArchiveEntry.raw` for `gz` entries. */
+export type GzipHeader = {
+  /** FLG byte as stored. */
+  flags: number;
+  /** MTIME when non-zero. */
+  mtime?: Date;
+  /** XFL byte (2 = slowest/best, 4 = fastest for deflate). */
+  extraFlags: number;
+  /** OS byte (0 FAT, 3 Unix, 11 NTFS, 255 unknown, ...). */
+  os: number;
+  /** Raw FEXTRA payload. */
+  extra?: Uint8Array;
+  /** FEXTRA split into subfields; absent when the payload does not parse as subfields. */
+  extraFields?: GzipExtraSubfield[];
+  /** FNAME, decoded as Latin-1. */
+  name?: string;
+  /** FCOMMENT, decoded as Latin-1. */
+  comment?: string;
+  /** Header length in bytes, including a verified FHCRC. */
+  headerBytes: number;
+};
+
 /** Options for opening/detecting archives. */
 export type ArchiveOpenOptions = {
   /** Force format or use `auto` detection (default). */
@@ -169,4 +328,13 @@ export type ArchiveOpenOptions = {
   zip?: Record<string, unknown>;
   /** TAR-reader specific passthrough options. */
   tar?: Record<string, unknown>;
+  /** Single-file gzip options. */
+  gzip?: {
+    /**
+     * Yield one entry per member of a multi-member file (as pigz or bgzip write) instead of one joined entry.
+     *
+     * Stream inputs are buffered when set, since members are located in the compressed bytes.
+     */
+    shouldSplitMembers?: boolean;
+  };
 };
@@ -1,8 +1,9 @@
-import type { ArchiveDetectionReport, ArchiveInputKind, ArchiveOpenOptions } from '../archive/types.js';
+import type { ArchiveDetectionReport, ArchiveInputKind, ArchiveOpenOptions, ExtractTarget } from '../archive/types.js';
 import { openArchive as openArchiveCore, type ArchiveReader } from '../archive/index.js';
 import { CompressionError } from '../compress/errors.js';
 import { ArchiveError } from '../archive/errors.js';
 import { ZipError } from '../errors.js';
+import { createNodeFsTarget } from '../node/extractTarget.js';
 import { preflightXzIndexLimits } from '../compression/xzIndexPreflight.js';
 import { HttpRandomAccess, type RandomAccess } from '../reader/RandomAccess.js';
 import { mapHttpErrorToZipError, wrapRandomAccessForZip } from '../reader/httpZipErrors.js';
@@ -30,6 +31,11 @@ export type {
   ArchiveAuditReport,
   ArchiveDetectionReport,
   ArchiveEntry,
+  ArchiveExtractedEntry,
+  ArchiveExtractPreserveOptions,
+  ArchiveExtractReport,
+  ArchiveExtractSkippedEntry,
+  ArchiveExtractTargetOptions,
   ArchiveFormat,
   ArchiveInputKind,
   ArchiveIssue,
@@ -37,13 +43,22 @@ export type {
   ArchiveLimits,
   ArchiveNormalizeReport,
   ArchiveOpenOptions,
-  ArchiveProfile
+  ArchiveProfile,
+  ExtractTarget,
+  ExtractTargetStat,
+  GzipExtraSubfield,
+  GzipHeader
 } from '../archive/types.js';
 /** Unified archive reader/writer types. */
 export type { ArchiveReader, ArchiveWriter } from '../archive/index.js';
 /** Create archive writers from Bun runtime entrypoint. */
 export { createArchiveWriter } from '../archive/index.js';
 
+/** Runtime-neutral extraction and the in-memory target from Bun runtime entrypoint. */
+export { createMemoryTarget, extractArchive } from '../archive/extract.js';
+/** Memory extraction target types. */
+export type { MemoryExtractTarget, MemoryTargetEntry } from '../archive/extract.js';
+
 /** ZIP APIs and ZIP-domain types from Bun runtime entrypoint. */
 export * from '../zip/index.js';
 /** TAR APIs and TAR-domain types from Bun runtime entrypoint. */
@@ -58,6 +73,14 @@ function requireBun(): BunApi {
   return BunGlobal;
 }
 
+/**
+ * Create an `extractArchive` target rooted at `destDir`. Bun implements `node:fs`, so this is the
+ * Node filesystem target with the same temp-file installs and `realpath` parent checks.
+ */
+export function createBunFsTarget(destDir: string | URL): ExtractTarget {
+  return createNodeFsTarget(destDir);
+}
+
 /** Inputs accepted by the Bun runtime adapter. */
 export type BunArchiveInput = Uint8Array | ArrayBuffer | Blob | ReadableStream<Uint8Array> | string | URL;
 
@@ -224,7 +247,7 @@ export async function zipToFile(
   const writer = ZipWriter.toWritable(writable, options);
   const close = writer.close.bind(writer);
   writer.close = async (...args: Parameters<typeof close>) => {
-    await close(...args);
+    const summary = await close(...args);
     const size = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
     const out = new Uint8Array(size);
     let offset = 0;
@@ -233,6 +256,7 @@ export async function zipToFile(
       offset += chunk.length;
     }
     await requireBun().write(path, out);
+    return summary;
   };
   return writer;
 }
@@ -552,7 +576,7 @@ export async function tarToFile(
   const writer = TarWriter.toWritable(writable, options);
   const close = writer.close.bind(writer);
   writer.close = async (...args: Parameters<typeof close>) => {
-    await close(...args);
+    const summary = await close(...args);
     const size = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
     const out = new Uint8Array(size);
     let offset = 0;
@@ -561,6 +585,7 @@ export async function tarToFile(
       offset += chunk.length;
     }
     await requireBun().write(path, out);
+    return summary;
   };
   return writer;
 }
@@ -7,6 +7,8 @@ export type CompressionErrorCode =
   | 'COMPRESSION_BACKEND_UNAVAILABLE'
   | 'COMPRESSION_RESOURCE_LIMIT'
   | 'COMPRESSION_GZIP_BAD_HEADER'
+  | 'COMPRESSION_BGZF_BAD_BLOCK'
+  | 'COMPRESSION_BGZF_BAD_INDEX'
   | 'COMPRESSION_BZIP2_BAD_DATA'
   | 'COMPRESSION_BZIP2_CRC_MISMATCH'
   | 'COMPRESSION_XZ_BAD_DATA'
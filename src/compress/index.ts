@@ -1,4 +1,7 @@
 import { createCompressTransform, createDecompressTransform, type CompressionProgress } from '../compression/streams.js';
+import { createBgzfCompressStream } from '../compression/bgzf.js';
+import { resolveBzip2BlockSize } from '../compression/bzip2Encoder.js';
+import { resolveLzmaPreset } from '../compression/lzmaEncoder.js';
 import { ZipError } from '../errors.js';
 import { CompressionError } from './errors.js';
 import type { CompressionAlgorithm, CompressionCapabilities, CompressionOptions } from './types.js';
@@ -7,8 +10,14 @@ import type { ResourceLimits } from '../limits.js';
 
 /** Compression algorithm/options/capabilities/profile types. */
 export type { CompressionAlgorithm, CompressionCapabilities, CompressionOptions, CompressionProfile } from './types.js';
+/** XZ integrity-check selector for the pure-JS compressor. */
+export type { XzCheck } from './types.js';
 /** Compression backend and progress-event contract types. */
 export type { CompressionBackend, CompressionProgressEvent } from './types.js';
+/** BGZF (blocked gzip) random-access reader and `.gzi` index parser. */
+export { BgzfReader, parseGziIndex } from '../compression/bgzf.js';
+/** BGZF block, index and reader option types. */
+export type { BgzfBlock, BgzfIndexEntry, BgzfReaderOptions } from './types.js';
 /** Typed compression-domain error class. */
 export { CompressionError } from './errors.js';
 /** Stable compression error code union. */
@@ -35,8 +44,8 @@ export function getCompressionCapabilities(): CompressionCapabilities {
     'deflate-raw': { compress: false, decompress: false, backend: 'none' },
     brotli: { compress: false, decompress: false, backend: 'none' },
     zstd: { compress: false, decompress: false, backend: 'none' },
-    bzip2: { compress: false, decompress: true, backend: 'pure-js' },
-    xz: { compress: false, decompress: true, backend: 'pure-js' }
+    bzip2: { compress: true, decompress: true, backend: 'pure-js' },
+    xz: { compress: true, decompress: true, backend: 'pure-js' }
   } as CompressionCapabilities['algorithms'];
 
   for (const algorithm of Object.keys(algorithms) as CompressionAlgorithm[]) {
@@ -85,15 +94,41 @@ export function getCompressionCapabilities(): CompressionCapabilities {
   return { schemaVersion: BYTEFOLD_REPORT_SCHEMA_VERSION, runtime, algorithms, notes };
 }
 
-/** Create a TransformStream that compresses chunks with the selected algorithm. */
+/**
+ * Create a TransformStream that compresses chunks with the selected algorithm.
+ *
+ * @throws {RangeError} When `level` is outside the algorithm's range (xz presets 0-9, bzip2 block sizes 1-9).
+ */
 export function createCompressor(options: CompressionOptions): TransformStream<Uint8Array, Uint8Array> {
+  if (options.algorithm === 'gzip' && options.gzipFormat === 'bgzf') {
+    ensureSupported('deflate-raw', 'compress');
+    return createBgzfCompressStream({
+      ...(options.level !== undefined ? { level: options.level } : {}),
+      ...(options.signal ? { signal: options.signal } : {}),
+      ...(options.onProgress
+        ? {
+            onProgress: (event: CompressionProgress) =>
+              options.onProgress?.({
+                kind: 'compress',
+                algorithm: 'gzip',
+                bytesIn: event.bytesIn,
+                bytesOut: event.bytesOut
+              })
+          }
+        : {})
+    });
+  }
   ensureSupported(options.algorithm, 'compress');
+  // Checked here so a bad level is not reported as a backend failure once the transform starts.
+  if (options.algorithm === 'xz') resolveLzmaPreset(options.level);
+  if (options.algorithm === 'bzip2') resolveBzip2BlockSize(options.level);
   const resolved = resolveCompressionLimits(options);
   const transformPromise = createCompressTransform({
     algorithm: options.algorithm,
     ...(options.signal ? { signal: options.signal } : {}),
     ...(options.level !== undefined ? { level: options.level } : {}),
     ...(options.quality !== undefined ? { quality: options.quality } : {}),
+    ...(options.xzCheck !== undefined ? { xzCheck: options.xzCheck } : {}),
     ...(resolved.maxOutputBytes !== undefined ? { maxOutputBytes: resolved.maxOutputBytes } : {}),
     ...(resolved.maxCompressionRatio !== undefined ? { maxCompressionRatio: resolved.maxCompressionRatio } : {}),
     ...(resolved.maxDictionaryBytes !== undefined ? { maxDictionaryBytes: resolved.maxDictionaryBytes } : {}),
@@ -310,7 +345,8 @@ type CompressionMode = 'compress' | 'decompress';
 
 function ensureSupported(algorithm: CompressionAlgorithm, mode: CompressionMode): void {
   const caps = getCompressionCapabilities();
-  const supported = mode === 'compress' ? caps.algorithms[algorithm].compress : caps.algorithms[algorithm].decompress;
+  const support = (caps.algorithms as Partial<CompressionCapabilities['algorithms']>)[algorithm];
+  const supported = mode === 'compress' ? support?.compress : support?.decompress;
   if (!supported) {
     throw new CompressionError(
       'COMPRESSION_UNSUPPORTED_ALGORITHM',
@@ -19,6 +19,9 @@ export type CompressionProgressEvent = {
   bytesOut: bigint;
 };
 
+/** Integrity check stored in XZ output. */
+export type XzCheck = 'none' | 'crc32' | 'crc64' | 'sha256';
+
 /** Safety profile for compression checks. */
 export type CompressionProfile = 'compat' | 'strict' | 'agent';
 
@@ -34,6 +37,13 @@ export type CompressionOptions = {
   level?: number;
   /** Quality hint used by codecs that expose quality knobs. */
   quality?: number;
+  /** Integrity check written by the XZ compressor (default `crc64`). */
+  xzCheck?: XzCheck;
+  /**
+   * Container written by the gzip compressor: one member (`gzip`, default) or `bgzf` blocks of at
+   * most 65280 input bytes, each its own member with a `BC` block-size subfield, ending in the BGZF EOF block.
+   */
+  gzipFormat?: 'gzip' | 'bgzf';
   /** Maximum output bytes allowed from the transform. */
   maxOutputBytes?: bigint | number;
   /** Maximum permitted output/input expansion ratio. */
@@ -69,3 +79,29 @@ export type CompressionCapabilities = {
   /** Supplemental notes describing gating/compatibility details. */
   notes: string[];
 };
+
+/** One `.gzi` record: where a BGZF block starts in the compressed file and in the uncompressed data. */
+export type BgzfIndexEntry = {
+  /** Byte offset of the block in the compressed file. */
+  compressedOffset: bigint;
+  /** Offset of the block's first payload byte in the uncompressed data. */
+  uncompressedOffset: bigint;
+};
+
+/** One decoded BGZF block. */
+export type BgzfBlock = {
+  /** Byte offset of the block in the compressed file. */
+  offset: bigint;
+  /** Block length in the compressed file (BSIZE + 1). */
+  compressedSize: number;
+  /** Decompressed payload. */
+  data: Uint8Array;
+};
+
+/** Options for `BgzfReader` factories. */
+export type BgzfReaderOptions = {
+  /** Parsed `.gzi` index used by `readAt`; without one, the first `readAt` scans every block header. */
+  index?: BgzfIndexEntry[];
+  /** Abort signal applied to every read. */
+  signal?: AbortSignal;
+};
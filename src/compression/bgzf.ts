@@ -0,0 +1,395 @@
+import { mergeSignals, throwIfAborted } from '../abort.js';
+import { concatBytes, readUint16LE, readUint32LE, readUint64LE, writeUint16LE, writeUint32LE } from '../binary.js';
+import { CompressionError } from '../compress/errors.js';
+import type { BgzfBlock, BgzfIndexEntry, BgzfReaderOptions } from '../compress/types.js';
+import { Crc32 } from '../crc32.js';
+import { BufferRandomAccess, HttpRandomAccess, type RandomAccess } from '../reader/RandomAccess.js';
+import { readAllBytes } from '../streams/buffer.js';
+import { readableFromBytes } from '../streams/web.js';
+import { createCompressTransform, createDecompressTransform, type CompressionProgress } from './streams.js';
+
+// Input bytes per written block, as in htslib: small enough that stored deflate still fits BSIZE.
+const BLOCK_DATA_BYTES = 0xff00;
+const MAX_BLOCK_BYTES = 0x10000;
+const HEADER_BYTES = 18;
+const TRAILER_BYTES = 8;
+const CACHED_BLOCKS = 4;
+const FIRST_BLOCK: BgzfIndexEntry = { compressedOffset: 0n, uncompressedOffset: 0n };
+// The empty block bgzip appends so readers can tell a complete file from a truncated one.
+const EOF_BLOCK = new Uint8Array([
+  0x1f, 0x8b, 0x08, 0x04, 0x00, 0x00, 0x00, 0x00, 0x00, 0xff, 0x06, 0x00, 0x42, 0x43, 0x02, 0x00, 0x1b, 0x00, 0x03,
+  0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00
+]);
+
+/**
+ * Random-access reader for BGZF (blocked gzip) files such as BAM, `.vcf.gz` and tabix-indexed data.
+ *
+ * Virtual offsets follow the SAM/BAM convention: the block's compressed offset shifted left by
+ * 16 bits, OR'd with the offset inside its decompressed payload.
+ */
+export class BgzfReader {
+  private readonly reader: RandomAccess;
+  private readonly signal: AbortSignal | undefined;
+  private readonly cache = new Map<bigint, BgzfBlock>();
+  private index: BgzfIndexEntry[] | undefined;
+
+  private constructor(reader: RandomAccess, options?: BgzfReaderOptions) {
+    this.reader = reader;
+    this.signal = options?.signal;
+    this.index = options?.index ? [...options.index].sort(compareIndexEntries) : undefined;
+  }
+
+  /**
+   * Create a reader from a random-access source.
+   *
+   * @throws {CompressionError} `COMPRESSION_BGZF_BAD_BLOCK` when the first block is not BGZF.
+   */
+  static async fromRandomAccess(reader: RandomAccess, options?: BgzfReaderOptions): Promise<BgzfReader> {
+    const instance = new BgzfReader(reader, options);
+    await instance.readBlockHeader(0n, instance.signal);
+    return instance;
+  }
+
+  /** Create a reader from in-memory bytes. */
+  static async fromUint8Array(data: Uint8Array, options?: BgzfReaderOptions): Promise<BgzfReader> {
+    return BgzfReader.fromRandomAccess(new BufferRandomAccess(data), options);
+  }
+
+  /** Create a reader from a URL using HTTP range requests. */
+  static async fromUrl(
+    url: string | URL,
+    options?: BgzfReaderOptions & {
+      http?: {
+        headers?: Record<string, string>;
+        cache?: { blockSize?: number; maxBlocks?: number };
+        signal?: AbortSignal;
+        snapshotPolicy?: 'require-strong-etag' | 'best-effort';
+      };
+    }
+  ): Promise<BgzfReader> {
+    const httpSignal = mergeSignals(options?.signal, options?.http?.signal);
+    const httpOptions: {
+      headers?: Record<string, string>;
+      cache?: { blockSize?: number; maxBlocks?: number };
+      signal?: AbortSignal;
+      snapshotPolicy?: 'require-strong-etag' | 'best-effort';
+    } = options?.http ? { ...options.http } : {};
+    if (httpSignal) {
+      httpOptions.signal = httpSignal;
+    }
+    const reader = new HttpRandomAccess(url, Object.keys(httpOptions).length > 0 ? httpOptions : undefined);
+    return BgzfReader.fromRandomAccess(reader, options);
+  }
+
+  /**
+   * Read and decompress the block starting at `offset` in the compressed file.
+   *
+   * @throws {CompressionError} `COMPRESSION_BGZF_BAD_BLOCK` for a malformed or truncated block, corrupt
+   * deflate data, or a CRC32/ISIZE mismatch.
+   */
+  async readBlock(offset: bigint, options?: { signal?: AbortSignal }): Promise<BgzfBlock> {
+    const signal = mergeSignals(this.signal, options?.signal);
+    const cached = this.cache.get(offset);
+    if (cached) {
+      this.cache.delete(offset);
+      this.cache.set(offset, cached);
+      return cached;
+    }
+    const { headerBytes, blockSize } = await this.readBlockHeader(offset, signal);
+    const bytes = await this.reader.read(offset, blockSize, signal);
+    if (bytes.length < blockSize) throw badBlock('BGZF block truncated', offset);
+    const block: BgzfBlock = {
+      offset,
+      compressedSize: blockSize,
+      data: await inflateBlock(bytes, headerBytes, offset, signal)
+    };
+    this.cache.set(offset, block);
+    if (this.cache.size > CACHED_BLOCKS) this.cache.delete(this.cache.keys().next().value!);
+    return block;
+  }
+
+  /**
+   * Read up to `length` decompressed bytes starting at `virtualOffset`, continuing across blocks.
+   *
+   * Fewer bytes are returned only at the end of the file.
+   *
+   * @throws {RangeError} When the offset inside the block lies past the block's payload.
+   */
+  async read(virtualOffset: bigint, length: number, options?: { signal?: AbortSignal }): Promise<Uint8Array> {
+    if (virtualOffset < 0n) throw new RangeError('BGZF virtual offset must not be negative');
+    const signal = mergeSignals(this.signal, options?.signal);
+    const within = Number(virtualOffset & 0xffffn);
+    const first = await this.readBlock(virtualOffset >> 16n, signal ? { signal } : undefined);
+    if (within > first.data.length) {
+      throw new RangeError(`BGZF virtual offset points past its block (${within} > ${first.data.length})`);
+    }
+    return this.readFrom(first.offset, within, length, signal);
+  }
+
+  /**
+   * Read up to `length` bytes at `offset` in the uncompressed data.
+   *
+   * Uses the `.gzi` index given to the factory; without one, the first call walks every block
+   * header and trailer to build it.
+   */
+  async readAt(offset: bigint, length: number, options?: { signal?: AbortSignal }): Promise<Uint8Array> {
+    if (offset < 0n) throw new RangeError('BGZF uncompressed offset must not be negative');
+    const signal = mergeSignals(this.signal, options?.signal);
+    this.index ??= await this.scanBlocks(signal);
+    const index = this.index;
+    let low = 0;
+    let high = index.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (index[mid]!.uncompressedOffset <= offset) low = mid;
+      else high = mid - 1;
+    }
+    const found = index[low];
+    const entry = found && found.uncompressedOffset <= offset ? found : FIRST_BLOCK;
+    return this.readFrom(entry.compressedOffset, Number(offset - entry.uncompressedOffset), length, signal);
+  }
+
+  /** True when the file ends with the 28-byte BGZF EOF block. */
+  async hasEofMarker(options?: { signal?: AbortSignal }): Promise<boolean> {
+    const signal = mergeSignals(this.signal, options?.signal);
+    const size = await this.reader.size(signal);
+    if (size < BigInt(EOF_BLOCK.length)) return false;
+    const tail = await this.reader.read(size - BigInt(EOF_BLOCK.length), EOF_BLOCK.length, signal);
+    return tail.length === EOF_BLOCK.length && tail.every((byte, index) => byte === EOF_BLOCK[index]);
+  }
+
+  /** Release underlying resources held by the reader. */
+  async close(): Promise<void> {
+    this.cache.clear();
+    await this.reader.close();
+  }
+
+  /** Async dispose hook for using with `using` in supported runtimes. */
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.close();
+  }
+
+  private async readFrom(
+    blockOffset: bigint,
+    skip: number,
+    length: number,
+    signal: AbortSignal | undefined
+  ): Promise<Uint8Array> {
+    if (!Number.isSafeInteger(length) || length < 0) {
+      throw new RangeError('BGZF read length must be a non-negative integer');
+    }
+    const size = await this.reader.size(signal);
+    const parts: Uint8Array[] = [];
+    let remaining = length;
+    let offset = blockOffset;
+    while (remaining > 0 && offset < size) {
+      throwIfAborted(signal);
+      const block = await this.readBlock(offset, signal ? { signal } : undefined);
+      if (skip >= block.data.length) {
+        skip -= block.data.length;
+      } else {
+        const part = block.data.subarray(skip, skip + remaining);
+        parts.push(part);
+        remaining -= part.length;
+        skip = 0;
+      }
+      offset += BigInt(block.compressedSize);
+    }
+    return parts.length === 1 ? parts[0]! : concatBytes(parts);
+  }
+
+  private async readBlockHeader(
+    offset: bigint,
+    signal: AbortSignal | undefined
+  ): Promise<{ headerBytes: number; blockSize: number }> {
+    let header = await this.reader.read(offset, HEADER_BYTES, signal);
+    if (header.length >= 12 && HEADER_BYTES < 12 + readUint16LE(header, 10)) {
+      header = await this.reader.read(offset, 12 + readUint16LE(header, 10), signal);
+    }
+    return parseBlockHeader(header, offset);
+  }
+
+  private async scanBlocks(signal: AbortSignal | undefined): Promise<BgzfIndexEntry[]> {
+    const size = await this.reader.size(signal);
+    const entries: BgzfIndexEntry[] = [];
+    let compressedOffset = 0n;
+    let uncompressedOffset = 0n;
+    while (compressedOffset < size) {
+      throwIfAborted(signal);
+      const { blockSize } = await this.readBlockHeader(compressedOffset, signal);
+      const trailer = await this.reader.read(compressedOffset + BigInt(blockSize - 4), 4, signal);
+      if (trailer.length < 4) throw badBlock('BGZF block truncated', compressedOffset);
+      entries.push({ compressedOffset, uncompressedOffset });
+      compressedOffset += BigInt(blockSize);
+      uncompressedOffset += BigInt(readUint32LE(trailer, 0));
+    }
+    return entries;
+  }
+}
+
+/**
+ * Parse a `.gzi` index (as written by `bgzip -i`): a little-endian uint64 count followed by
+ * (compressed offset, uncompressed offset) uint64 pairs.
+ *
+ * The first block is implicit in the file; the returned entries start with it at offset 0/0.
+ *
+ * @throws {CompressionError} `COMPRESSION_BGZF_BAD_INDEX` when the length does not match the count
+ * or offsets decrease.
+ */
+export function parseGziIndex(data: Uint8Array): BgzfIndexEntry[] {
+  if (data.length < 8) throw badIndex('BGZF index truncated');
+  const count = readUint64LE(data, 0);
+  if (BigInt(data.length - 8) !== count * 16n) {
+    throw new CompressionError('COMPRESSION_BGZF_BAD_INDEX', 'BGZF index length does not match its entry count', {
+      algorithm: 'gzip',
+      context: { count: count.toString(), bytes: String(data.length) }
+    });
+  }
+  const entries: BgzfIndexEntry[] = [FIRST_BLOCK];
+  for (let offset = 8; offset < data.length; offset += 16) {
+    const entry = { compressedOffset: readUint64LE(data, offset), uncompressedOffset: readUint64LE(data, offset + 8) };
+    const previous = entries[entries.length - 1]!;
+    if (entry.compressedOffset < previous.compressedOffset || entry.uncompressedOffset < previous.uncompressedOffset) {
+      throw badIndex('BGZF index offsets must not decrease');
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/** Compress chunks into BGZF blocks, finishing with the EOF block. */
+export function createBgzfCompressStream(options?: {
+  level?: number;
+  signal?: AbortSignal;
+  onProgress?: (event: CompressionProgress) => void;
+}): TransformStream<Uint8Array, Uint8Array> {
+  const pending = new Uint8Array(BLOCK_DATA_BYTES);
+  let filled = 0;
+  let bytesIn = 0n;
+  let bytesOut = 0n;
+  const emit = async (data: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>) => {
+    const block = await encodeBlock(data, options?.level, options?.signal);
+    bytesIn += BigInt(data.length);
+    bytesOut += BigInt(block.length);
+    controller.enqueue(block);
+    options?.onProgress?.({ bytesIn, bytesOut });
+  };
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      let offset = 0;
+      while (offset < chunk.length) {
+        const take = Math.min(chunk.length - offset, BLOCK_DATA_BYTES - filled);
+        pending.set(chunk.subarray(offset, offset + take), filled);
+        filled += take;
+        offset += take;
+        if (filled === BLOCK_DATA_BYTES) {
+          await emit(pending, controller);
+          filled = 0;
+        }
+      }
+    },
+    async flush(controller) {
+      if (filled > 0) await emit(pending.subarray(0, filled), controller);
+      controller.enqueue(EOF_BLOCK.slice());
+    }
+  });
+}
+
+async function encodeBlock(data: Uint8Array, level: number | undefined, signal?: AbortSignal): Promise<Uint8Array> {
+  let deflated = await deflateRaw(data, level, signal);
+  if (HEADER_BYTES + deflated.length + TRAILER_BYTES > MAX_BLOCK_BYTES) {
+    deflated = await deflateRaw(data, 0, signal);
+  }
+  const size = HEADER_BYTES + deflated.length + TRAILER_BYTES;
+  if (size > MAX_BLOCK_BYTES) {
+    throw new CompressionError('COMPRESSION_BGZF_BAD_BLOCK', 'Deflated BGZF block exceeds 65536 bytes', {
+      algorithm: 'gzip',
+      context: { size: String(size) }
+    });
+  }
+  const block = new Uint8Array(size);
+  block.set(EOF_BLOCK.subarray(0, 16));
+  writeUint16LE(block, 16, size - 1);
+  block.set(deflated, HEADER_BYTES);
+  const crc = new Crc32();
+  crc.update(data);
+  writeUint32LE(block, size - 8, crc.digest());
+  writeUint32LE(block, size - 4, data.length);
+  return block;
+}
+
+async function deflateRaw(data: Uint8Array, level: number | undefined, signal?: AbortSignal): Promise<Uint8Array> {
+  const transform = await createCompressTransform({
+    algorithm: 'deflate-raw',
+    ...(signal ? { signal } : {}),
+    ...(level !== undefined ? { level } : {})
+  });
+  return readAllBytes(readableFromBytes(data).pipeThrough(transform), signal ? { signal } : undefined);
+}
+
+function parseBlockHeader(header: Uint8Array, offset: bigint): { headerBytes: number; blockSize: number } {
+  if (header.length < 12) throw badBlock('BGZF block truncated', offset);
+  if (header[0] !== 0x1f || header[1] !== 0x8b || header[2] !== 0x08 || header[3] !== 0x04) {
+    throw badBlock('Not a BGZF block: expected a gzip member with only FEXTRA set', offset);
+  }
+  const headerBytes = 12 + readUint16LE(header, 10);
+  if (header.length < headerBytes) throw badBlock('BGZF block truncated', offset);
+  for (let field = 12; field + 4 <= headerBytes; field += 4 + readUint16LE(header, field + 2)) {
+    if (header[field] === 0x42 && header[field + 1] === 0x43 && readUint16LE(header, field + 2) === 2) {
+      const blockSize = readUint16LE(header, field + 4) + 1;
+      if (blockSize < headerBytes + TRAILER_BYTES) throw badBlock('BGZF block size is smaller than its header', offset);
+      return { headerBytes, blockSize };
+    }
+  }
+  throw badBlock('BGZF block has no BC subfield', offset);
+}
+
+async function inflateBlock(
+  bytes: Uint8Array,
+  headerBytes: number,
+  offset: bigint,
+  signal: AbortSignal | undefined
+): Promise<Uint8Array> {
+  const expectedSize = readUint32LE(bytes, bytes.length - 4);
+  if (expectedSize > MAX_BLOCK_BYTES) throw badBlock('BGZF block ISIZE exceeds 65536 bytes', offset);
+  let data: Uint8Array;
+  try {
+    const transform = await createDecompressTransform({
+      algorithm: 'deflate-raw',
+      ...(signal ? { signal } : {}),
+      maxOutputBytes: MAX_BLOCK_BYTES
+    });
+    data = await readAllBytes(
+      readableFromBytes(bytes.subarray(headerBytes, bytes.length - TRAILER_BYTES)).pipeThrough(transform),
+      signal ? { signal } : undefined
+    );
+  } catch (err) {
+    throwIfAborted(signal);
+    throw new CompressionError('COMPRESSION_BGZF_BAD_BLOCK', 'BGZF block deflate data is corrupt', {
+      algorithm: 'gzip',
+      context: { offset: offset.toString() },
+      cause: err
+    });
+  }
+  const crc = new Crc32();
+  crc.update(data);
+  if (data.length !== expectedSize || crc.digest() !== readUint32LE(bytes, bytes.length - TRAILER_BYTES)) {
+    throw badBlock('BGZF block CRC32 or ISIZE mismatch', offset);
+  }
+  return data;
+}
+
+function compareIndexEntries(a: BgzfIndexEntry, b: BgzfIndexEntry): number {
+  return a.uncompressedOffset < b.uncompressedOffset ? -1 : a.uncompressedOffset > b.uncompressedOffset ? 1 : 0;
+}
+
+function badBlock(message: string, offset: bigint): CompressionError {
+  return new CompressionError('COMPRESSION_BGZF_BAD_BLOCK', message, {
+    algorithm: 'gzip',
+    context: { offset: offset.toString() }
+  });
+}
+
+function badIndex(message: string): CompressionError {
+  return new CompressionError('COMPRESSION_BGZF_BAD_INDEX', message, { algorithm: 'gzip' });
+}
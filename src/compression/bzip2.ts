@@ -562,6 +562,11 @@ function decodeRle1(data: Uint8Array, signal?: AbortSignal): Uint8Array {
   return Uint8Array.from(out);
 }
 
+/** Advance a bzip2 (MSB-first CRC-32) block checksum by one byte. */
+export function updateBzip2Crc(crc: number, value: number): number {
+  return ((crc << 8) ^ BZIP2_CRC_TABLE[((crc >>> 24) ^ value) & 0xff]!) >>> 0;
+}
+
 function computeCrc(data: Uint8Array): number {
   let crc = 0xffffffff;
   for (let i = 0; i < data.length; i += 1) {
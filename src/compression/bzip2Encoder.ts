@@ -0,0 +1,514 @@
+import { throwIfAborted } from '../abort.js';
+import { emitStable } from '../streams/emit.js';
+import { updateBzip2Crc } from './bzip2.js';
+
+export type Bzip2CompressOptions = {
+  signal?: AbortSignal;
+  /** Block size level 1-9 (units of 100k bytes, default 9). */
+  blockSize?: number;
+};
+
+const BLOCK_MAGIC_HIGH = 0x314159;
+const BLOCK_MAGIC_LOW = 0x265359;
+const END_MAGIC_HIGH = 0x177245;
+const END_MAGIC_LOW = 0x385090;
+const DEFAULT_BLOCK_SIZE = 9;
+const BLOCK_SIZE_UNIT = 100000;
+// Room for the longest RLE1 run (4 bytes + count) once the block is nominally full.
+const BLOCK_SLACK_BYTES = 19;
+const GROUP_SIZE = 50;
+const MAX_CODE_LENGTH = 17;
+const TABLE_ITERATIONS = 4;
+const RUNA = 0;
+const RUNB = 1;
+const MAX_RUN_LENGTH = 255;
+
+/** Validate a bzip2 block-size level (1-9), defaulting to 9. */
+export function resolveBzip2BlockSize(level?: number): number {
+  const resolved = level ?? DEFAULT_BLOCK_SIZE;
+  if (!Number.isInteger(resolved) || resolved < 1 || resolved > 9) {
+    throw new RangeError(`BZip2 block size must be an integer between 1 and 9 (got ${String(level)})`);
+  }
+  return resolved;
+}
+
+/**
+ * Create a pure-JS bzip2 compressor (RLE1, BWT, MTF/RLE2, multi-table Huffman).
+ *
+ * Output is deterministic for identical input and block size.
+ */
+export function createBzip2CompressStream(
+  options: Bzip2CompressOptions = {}
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+  const blockSize = resolveBzip2BlockSize(options.blockSize);
+  let encoder: Bzip2StreamEncoder | null = null;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    start(controller) {
+      encoder = new Bzip2StreamEncoder(blockSize, (part) => emitStable(controller, part, { transfer: true }), options.signal);
+    },
+    transform(chunk) {
+      if (options.signal) throwIfAborted(options.signal);
+      if (!chunk || chunk.length === 0) return;
+      encoder?.push(chunk);
+    },
+    flush() {
+      if (options.signal) throwIfAborted(options.signal);
+      encoder?.finish();
+    }
+  });
+}
+
+class Bzip2StreamEncoder {
+  private readonly block: Uint8Array;
+  private readonly blockLimit: number;
+  private readonly bits = new BitWriter();
+  private blockLength = 0;
+  private blockCrc = 0xffffffff;
+  private combinedCrc = 0;
+  private runByte = -1;
+  private runLength = 0;
+
+  constructor(
+    blockSize: number,
+    private readonly emit: (chunk: Uint8Array) => void,
+    private readonly signal?: AbortSignal
+  ) {
+    this.block = new Uint8Array(blockSize * BLOCK_SIZE_UNIT);
+    this.blockLimit = this.block.length - BLOCK_SLACK_BYTES;
+    for (const byte of [0x42, 0x5a, 0x68, 0x30 + blockSize]) this.bits.writeBits(8, byte);
+  }
+
+  push(chunk: Uint8Array): void {
+    for (let i = 0; i < chunk.length; i += 1) {
+      const value = chunk[i]!;
+      if (value === this.runByte && this.runLength < MAX_RUN_LENGTH) {
+        this.runLength += 1;
+        continue;
+      }
+      if (this.runLength > 0) this.flushRun();
+      this.runByte = value;
+      this.runLength = 1;
+    }
+    this.emitPending();
+  }
+
+  finish(): void {
+    if (this.runLength > 0) this.flushRun();
+    if (this.blockLength > 0) this.encodeBlock();
+    this.bits.writeBits(24, END_MAGIC_HIGH);
+    this.bits.writeBits(24, END_MAGIC_LOW);
+    this.bits.writeUint32(this.combinedCrc);
+    this.bits.alignToByte();
+    this.emitPending();
+  }
+
+  private flushRun(): void {
+    const value = this.runByte;
+    const length = this.runLength;
+    let crc = this.blockCrc;
+    for (let i = 0; i < length; i += 1) crc = updateBzip2Crc(crc, value);
+    this.blockCrc = crc;
+    const block = this.block;
+    const literal = Math.min(length, 4);
+    for (let i = 0; i < literal; i += 1) block[this.blockLength++] = value;
+    if (length >= 4) block[this.blockLength++] = length - 4;
+    this.runByte = -1;
+    this.runLength = 0;
+    if (this.blockLength >= this.blockLimit) this.encodeBlock();
+  }
+
+  private emitPending(): void {
+    const bytes = this.bits.take();
+    if (bytes.length > 0) this.emit(bytes);
+  }
+
+  private encodeBlock(): void {
+    if (this.signal) throwIfAborted(this.signal);
+    const data = this.block.subarray(0, this.blockLength);
+    const crc = (this.blockCrc ^ 0xffffffff) >>> 0;
+    this.combinedCrc = (((this.combinedCrc << 1) | (this.combinedCrc >>> 31)) ^ crc) >>> 0;
+
+    const { last, origPtr } = burrowsWheeler(data, this.signal);
+    const inUse = new Uint8Array(256);
+    for (let i = 0; i < data.length; i += 1) inUse[data[i]!] = 1;
+    const { symbols, count, alphaSize } = mtfEncode(last, inUse);
+    const { tables, selectors, lengths } = buildTables(symbols, count, alphaSize);
+
+    const bits = this.bits;
+    bits.writeBits(24, BLOCK_MAGIC_HIGH);
+    bits.writeBits(24, BLOCK_MAGIC_LOW);
+    bits.writeUint32(crc);
+    bits.writeBits(1, 0);
+    bits.writeBits(24, origPtr);
+
+    let inUse16 = 0;
+    for (let i = 0; i < 16; i += 1) {
+      for (let j = 0; j < 16; j += 1) {
+        if (inUse[i * 16 + j]) {
+          inUse16 |= 1 << (15 - i);
+          break;
+        }
+      }
+    }
+    bits.writeBits(16, inUse16);
+    for (let i = 0; i < 16; i += 1) {
+      if ((inUse16 & (1 << (15 - i))) === 0) continue;
+      let mask = 0;
+      for (let j = 0; j < 16; j += 1) {
+        if (inUse[i * 16 + j]) mask |= 1 << (15 - j);
+      }
+      bits.writeBits(16, mask);
+    }
+
+    bits.writeBits(3, tables);
+    bits.writeBits(15, selectors.length);
+    const order = Array.from({ length: tables }, (_, i) => i);
+    for (const selector of selectors) {
+      const index = order.indexOf(selector);
+      order.splice(index, 1);
+      order.unshift(selector);
+      bits.writeBits(index + 1, ((1 << index) - 1) << 1);
+    }
+
+    const codes: Int32Array[] = [];
+    for (const tableLengths of lengths) {
+      let current = tableLengths[0]!;
+      bits.writeBits(5, current);
+      for (let i = 0; i < alphaSize; i += 1) {
+        const target = tableLengths[i]!;
+        while (current < target) {
+          bits.writeBits(2, 2);
+          current += 1;
+        }
+        while (current > target) {
+          bits.writeBits(2, 3);
+          current -= 1;
+        }
+        bits.writeBits(1, 0);
+      }
+      codes.push(assignCodes(tableLengths));
+    }
+
+    for (let group = 0; group < selectors.length; group += 1) {
+      const table = selectors[group]!;
+      const tableLengths = lengths[table]!;
+      const tableCodes = codes[table]!;
+      const end = Math.min(count, (group + 1) * GROUP_SIZE);
+      for (let i = group * GROUP_SIZE; i < end; i += 1) {
+        const symbol = symbols[i]!;
+        bits.writeBits(tableLengths[symbol]!, tableCodes[symbol]!);
+      }
+    }
+
+    this.blockLength = 0;
+    this.blockCrc = 0xffffffff;
+    this.emitPending();
+  }
+}
+
+/**
+ * Sort cyclic rotations by prefix doubling and return the last column.
+ * Ties between identical rotations keep index order, so output is deterministic.
+ */
+function burrowsWheeler(data: Uint8Array, signal?: AbortSignal): { last: Uint8Array; origPtr: number } {
+  const n = data.length;
+  const sa = new Int32Array(n);
+  let rank = new Int32Array(n);
+  let scratch = new Int32Array(n);
+  const bucket = new Int32Array(Math.max(256, n) + 1);
+
+  for (let i = 0; i < n; i += 1) bucket[data[i]!]! += 1;
+  let sum = 0;
+  for (let value = 0; value < 256; value += 1) {
+    const count = bucket[value]!;
+    bucket[value] = sum;
+    sum += count;
+  }
+  for (let i = 0; i < n; i += 1) sa[bucket[data[i]!]!++] = i;
+  let classes = 0;
+  rank[sa[0]!] = 0;
+  for (let j = 1; j < n; j += 1) {
+    if (data[sa[j]!] !== data[sa[j - 1]!]) classes += 1;
+    rank[sa[j]!] = classes;
+  }
+  classes += 1;
+
+  for (let k = 1; classes < n && k < n; k *= 2) {
+    if (signal) throwIfAborted(signal);
+    for (let j = 0; j < n; j += 1) {
+      const p = sa[j]! - k;
+      scratch[j] = p < 0 ? p + n : p;
+    }
+    bucket.fill(0, 0, classes + 1);
+    for (let i = 0; i < n; i += 1) bucket[rank[i]!]! += 1;
+    sum = 0;
+    for (let c = 0; c < classes; c += 1) {
+      const count = bucket[c]!;
+      bucket[c] = sum;
+      sum += count;
+    }
+    for (let j = 0; j < n; j += 1) {
+      const p = scratch[j]!;
+      sa[bucket[rank[p]!]!++] = p;
+    }
+    const nextRank = scratch;
+    let current = 0;
+    nextRank[sa[0]!] = 0;
+    for (let j = 1; j < n; j += 1) {
+      const a = sa[j]!;
+      const b = sa[j - 1]!;
+      if (rank[a] !== rank[b]) {
+        current += 1;
+      } else {
+        const ak = a + k < n ? a + k : a + k - n;
+        const bk = b + k < n ? b + k : b + k - n;
+        if (rank[ak] !== rank[bk]) current += 1;
+      }
+      nextRank[a] = current;
+    }
+    scratch = rank;
+    rank = nextRank;
+    classes = current + 1;
+  }
+
+  const last = new Uint8Array(n);
+  let origPtr = 0;
+  for (let j = 0; j < n; j += 1) {
+    const start = sa[j]!;
+    if (start === 0) {
+      origPtr = j;
+      last[j] = data[n - 1]!;
+    } else {
+      last[j] = data[start - 1]!;
+    }
+  }
+  return { last, origPtr };
+}
+
+/** Move-to-front over in-use bytes with RUNA/RUNB zero-run coding; ends with EOB. */
+function mtfEncode(
+  last: Uint8Array,
+  inUse: Uint8Array
+): { symbols: Uint16Array; count: number; alphaSize: number } {
+  const toSequence = new Int32Array(256);
+  let inUseCount = 0;
+  for (let value = 0; value < 256; value += 1) {
+    if (inUse[value]) toSequence[value] = inUseCount++;
+  }
+  const alphaSize = inUseCount + 2;
+  const order = new Uint8Array(inUseCount);
+  for (let i = 0; i < inUseCount; i += 1) order[i] = i;
+
+  const symbols = new Uint16Array(last.length + 1);
+  let count = 0;
+  let zeros = 0;
+  const flushZeros = () => {
+    zeros -= 1;
+    while (true) {
+      symbols[count++] = (zeros & 1) === 1 ? RUNB : RUNA;
+      if (zeros < 2) break;
+      zeros = (zeros - 2) >>> 1;
+    }
+    zeros = 0;
+  };
+
+  for (let i = 0; i < last.length; i += 1) {
+    const value = toSequence[last[i]!]!;
+    if (order[0] === value) {
+      zeros += 1;
+      continue;
+    }
+    if (zeros > 0) flushZeros();
+    let index = 1;
+    let previous = order[0]!;
+    while (order[index] !== value) {
+      const next = order[index]!;
+      order[index] = previous;
+      previous = next;
+      index += 1;
+    }
+    order[index] = previous;
+    order[0] = value;
+    symbols[count++] = index + 1;
+  }
+  if (zeros > 0) flushZeros();
+  symbols[count++] = inUseCount + 1;
+  return { symbols, count, alphaSize };
+}
+
+/** Choose 2-6 Huffman tables and per-50-symbol selectors by iterative refinement. */
+function buildTables(
+  symbols: Uint16Array,
+  count: number,
+  alphaSize: number
+): { tables: number; selectors: Uint8Array; lengths: Uint8Array[] } {
+  const tables = count < 200 ? 2 : count < 600 ? 3 : count < 1200 ? 4 : count < 2400 ? 5 : 6;
+  const frequencies = new Int32Array(alphaSize);
+  for (let i = 0; i < count; i += 1) frequencies[symbols[i]!]! += 1;
+
+  const lengths: Uint8Array[] = [];
+  for (let t = 0; t < tables; t += 1) lengths.push(new Uint8Array(alphaSize));
+  // Seed each table with a contiguous symbol range holding ~1/tables of the frequency mass.
+  let remaining = count;
+  let start = 0;
+  for (let part = tables; part > 0; part -= 1) {
+    const target = Math.floor(remaining / part);
+    let end = start - 1;
+    let mass = 0;
+    while (mass < target && end < alphaSize - 1) {
+      end += 1;
+      mass += frequencies[end]!;
+    }
+    if (end > start && part !== tables && part !== 1 && (tables - part) % 2 === 1) {
+      mass -= frequencies[end]!;
+      end -= 1;
+    }
+    const table = lengths[part - 1]!;
+    for (let v = 0; v < alphaSize; v += 1) table[v] = v >= start && v <= end ? 0 : 15;
+    start = end + 1;
+    remaining -= mass;
+  }
+
+  const selectors = new Uint8Array(Math.ceil(count / GROUP_SIZE));
+  for (let iteration = 0; iteration < TABLE_ITERATIONS; iteration += 1) {
+    const groupFrequencies: Int32Array[] = [];
+    for (let t = 0; t < tables; t += 1) groupFrequencies.push(new Int32Array(alphaSize));
+    for (let group = 0; group < selectors.length; group += 1) {
+      const from = group * GROUP_SIZE;
+      const to = Math.min(count, from + GROUP_SIZE);
+      let best = 0;
+      let bestCost = Infinity;
+      for (let t = 0; t < tables; t += 1) {
+        const table = lengths[t]!;
+        let cost = 0;
+        for (let i = from; i < to; i += 1) cost += table[symbols[i]!]!;
+        if (cost < bestCost) {
+          bestCost = cost;
+          best = t;
+        }
+      }
+      selectors[group] = best;
+      const target = groupFrequencies[best]!;
+      for (let i = from; i < to; i += 1) target[symbols[i]!]! += 1;
+    }
+    for (let t = 0; t < tables; t += 1) {
+      lengths[t] = makeCodeLengths(groupFrequencies[t]!, MAX_CODE_LENGTH);
+    }
+  }
+  return { tables, selectors, lengths };
+}
+
+/** Length-limited Huffman code lengths (unused symbols still get a code, as bzip2 requires). */
+function makeCodeLengths(frequencies: Int32Array, maxLength: number): Uint8Array {
+  const size = frequencies.length;
+  const weights = Array.from(frequencies, (value) => (value === 0 ? 1 : value));
+  while (true) {
+    const lengths = huffmanLengths(weights);
+    let longest = 0;
+    for (let i = 0; i < size; i += 1) longest = Math.max(longest, lengths[i]!);
+    if (longest <= maxLength) return lengths;
+    for (let i = 0; i < size; i += 1) weights[i] = 1 + Math.floor(weights[i]! / 2);
+  }
+}
+
+function huffmanLengths(weights: number[]): Uint8Array {
+  const size = weights.length;
+  const nodeWeights = weights.slice();
+  const parents = new Int32Array(size * 2).fill(-1);
+  const active: number[] = [];
+  for (let i = 0; i < size; i += 1) active.push(i);
+  while (active.length > 1) {
+    let first = 0;
+    let second = 1;
+    if (nodeWeights[active[second]!]! < nodeWeights[active[first]!]!) {
+      first = 1;
+      second = 0;
+    }
+    for (let i = 2; i < active.length; i += 1) {
+      const weight = nodeWeights[active[i]!]!;
+      if (weight < nodeWeights[active[first]!]!) {
+        second = first;
+        first = i;
+      } else if (weight < nodeWeights[active[second]!]!) {
+        second = i;
+      }
+    }
+    const a = active[first]!;
+    const b = active[second]!;
+    const node = nodeWeights.length;
+    nodeWeights.push(nodeWeights[a]! + nodeWeights[b]!);
+    parents[a] = node;
+    parents[b] = node;
+    active.splice(Math.max(first, second), 1);
+    active.splice(Math.min(first, second), 1);
+    active.push(node);
+  }
+  const lengths = new Uint8Array(size);
+  for (let i = 0; i < size; i += 1) {
+    let depth = 0;
+    for (let node = i; parents[node]! >= 0; node = parents[node]!) depth += 1;
+    lengths[i] = depth;
+  }
+  return lengths;
+}
+
+/** Canonical codes ordered by length, then symbol (matches the decoder's table build). */
+function assignCodes(lengths: Uint8Array): Int32Array {
+  let minLength = MAX_CODE_LENGTH;
+  let maxLength = 0;
+  for (const length of lengths) {
+    minLength = Math.min(minLength, length);
+    maxLength = Math.max(maxLength, length);
+  }
+  const codes = new Int32Array(lengths.length);
+  let code = 0;
+  for (let length = minLength; length <= maxLength; length += 1) {
+    for (let i = 0; i < lengths.length; i += 1) {
+      if (lengths[i] === length) codes[i] = code++;
+    }
+    code <<= 1;
+  }
+  return codes;
+}
+
+class BitWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private length = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  writeBits(count: number, value: number): void {
+    this.bitBuffer = (this.bitBuffer << count) | value;
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      this.bitCount -= 8;
+      this.pushByte((this.bitBuffer >>> this.bitCount) & 0xff);
+    }
+    this.bitBuffer &= (1 << this.bitCount) - 1;
+  }
+
+  writeUint32(value: number): void {
+    this.writeBits(16, value >>> 16);
+    this.writeBits(16, value & 0xffff);
+  }
+
+  alignToByte(): void {
+    if (this.bitCount > 0) this.writeBits(8 - this.bitCount, 0);
+  }
+
+  /** Return completed bytes and reset the output buffer (partial bits stay pending). */
+  take(): Uint8Array {
+    const out = this.buffer.slice(0, this.length);
+    this.length = 0;
+    return out;
+  }
+
+  private pushByte(value: number): void {
+    if (this.length === this.buffer.length) {
+      const next = new Uint8Array(this.buffer.length * 2);
+      next.set(this.buffer);
+      this.buffer = next;
+    }
+    this.buffer[this.length++] = value;
+  }
+}
@@ -1,7 +1,13 @@
 import { ZipError } from '../errors.js';
 import type { ZipCompressionCodec, ZipCompressionOptions, ZipCompressionStream, ZipDecompressionOptions } from './types.js';
+import { createBzip2DecompressStream } from './bzip2.js';
+import { createBzip2CompressStream } from './bzip2Encoder.js';
 import { createDeflate64DecompressStream } from './deflate64.js';
-import { createCompressTransform, createDecompressTransform } from './streams.js';
+import { createDeflate64CompressStream } from './deflate64Encoder.js';
+import { createZipLzmaCompressStream, createZipLzmaDecompressStream } from './lzma.js';
+import { createXzDecompressStream } from './xz.js';
+import { createXzCompressStream } from './xzEncoder.js';
+import { createCompressTransform, createDecompressTransform, supportsCompressionLevel } from './streams.js';
 
 function passthroughStream(): ZipCompressionStream {
   return new TransformStream<Uint8Array, Uint8Array>({
@@ -37,12 +43,26 @@ export const DEFLATE_CODEC: ZipCompressionCodec = {
   async createCompressStream(options?: ZipCompressionOptions) {
     const opts = {
       algorithm: 'deflate-raw' as const,
+      ...(options?.level !== undefined ? { level: options.level } : {}),
+      ...(options?.strategy !== undefined ? { strategy: options.strategy } : {}),
       ...(options?.signal ? { signal: options.signal } : {})
     };
     return createCompressTransform(opts);
+  },
+  async generalPurposeFlags(options?: ZipCompressionOptions) {
+    // The Web backend compresses at its own fixed level, so there is no chosen level to record.
+    return (await supportsCompressionLevel('deflate-raw')) ? deflateLevelFlags(options?.level) : 0;
   }
 };
 
+// APPNOTE 4.4.4: for methods 8 and 9, bits 1-2 record the option used (normal, maximum, fast, super fast).
+function deflateLevelFlags(level: number | undefined): number {
+  if (level === 8 || level === 9) return 0x02;
+  if (level === 2) return 0x04;
+  if (level === 0 || level === 1) return 0x06;
+  return 0;
+}
+
 export const ZSTD_CODEC: ZipCompressionCodec = {
   methodId: 93,
   name: 'zstd',
@@ -51,6 +71,7 @@ export const ZSTD_CODEC: ZipCompressionCodec = {
     try {
       const opts = {
         algorithm: 'zstd' as const,
+        ...(options?.dictionary ? { dictionary: options.dictionary } : {}),
         ...(options?.signal ? { signal: options.signal } : {})
       };
       return await createDecompressTransform(opts);
@@ -64,6 +85,9 @@ export const ZSTD_CODEC: ZipCompressionCodec = {
     try {
       const opts = {
         algorithm: 'zstd' as const,
+        ...(options?.level !== undefined ? { level: options.level } : {}),
+        ...(options?.windowLog !== undefined ? { windowLog: options.windowLog } : {}),
+        ...(options?.dictionary ? { dictionary: options.dictionary } : {}),
         ...(options?.signal ? { signal: options.signal } : {})
       };
       return await createCompressTransform(opts);
@@ -81,5 +105,69 @@ export const DEFLATE64_CODEC: ZipCompressionCodec = {
   supportsStreaming: true,
   createDecompressStream(options?: ZipDecompressionOptions) {
     return createDeflate64DecompressStream(options);
+  },
+  createCompressStream(options?: ZipCompressionOptions) {
+    return createDeflate64CompressStream({
+      ...(options?.level !== undefined ? { level: options.level } : {}),
+      ...(options?.signal ? { signal: options.signal } : {})
+    });
+  },
+  generalPurposeFlags(options?: ZipCompressionOptions) {
+    return deflateLevelFlags(options?.level);
+  }
+};
+
+export const BZIP2_CODEC: ZipCompressionCodec = {
+  methodId: 12,
+  name: 'bzip2',
+  supportsStreaming: false,
+  createDecompressStream(options?: ZipDecompressionOptions) {
+    return createBzip2DecompressStream(options?.signal ? { signal: options.signal } : {});
+  },
+  createCompressStream(options?: ZipCompressionOptions) {
+    return createBzip2CompressStream({
+      ...(options?.level !== undefined ? { blockSize: options.level } : {}),
+      ...(options?.signal ? { signal: options.signal } : {})
+    });
+  }
+};
+
+// APPNOTE 4.4.4: bit 1 marks an LZMA payload terminated by an end-of-stream marker.
+const LZMA_EOS_FLAG = 0x02;
+
+export const LZMA_CODEC: ZipCompressionCodec = {
+  methodId: 14,
+  name: 'lzma',
+  supportsStreaming: true,
+  createDecompressStream(options?: ZipDecompressionOptions) {
+    return createZipLzmaDecompressStream({
+      hasEndMarker: ((options?.flags ?? 0) & LZMA_EOS_FLAG) !== 0,
+      ...(options?.uncompressedSize !== undefined ? { uncompressedSize: options.uncompressedSize } : {}),
+      ...(options?.signal ? { signal: options.signal } : {})
+    });
+  },
+  createCompressStream(options?: ZipCompressionOptions) {
+    return createZipLzmaCompressStream({
+      ...(options?.level !== undefined ? { level: options.level } : {}),
+      ...(options?.signal ? { signal: options.signal } : {})
+    });
+  },
+  generalPurposeFlags() {
+    return LZMA_EOS_FLAG;
+  }
+};
+
+export const XZ_CODEC: ZipCompressionCodec = {
+  methodId: 95,
+  name: 'xz',
+  supportsStreaming: true,
+  createDecompressStream(options?: ZipDecompressionOptions) {
+    return createXzDecompressStream(options?.signal ? { signal: options.signal } : {});
+  },
+  createCompressStream(options?: ZipCompressionOptions) {
+    return createXzCompressStream({
+      ...(options?.level !== undefined ? { level: options.level } : {}),
+      ...(options?.signal ? { signal: options.signal } : {})
+    });
   }
 };
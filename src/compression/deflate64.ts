@@ -9,33 +9,34 @@ type HuffmanTable = {
 };
 
 const WINDOW_SIZE = 65536;
+const DEFLATE_WINDOW_SIZE = 32768;
 const MAX_BITS = 15;
 const OUTPUT_CHUNK_SIZE = 32 * 1024;
 
-const CODE_LENGTH_ORDER = [
+export const CODE_LENGTH_ORDER = [
   16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15
 ];
 
-const LENGTH_BASE = [
+export const LENGTH_BASE = [
   3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163,
   195, 227
 ];
 
-const LENGTH_EXTRA = [
+export const LENGTH_EXTRA = [
   0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5
 ];
 
-const DIST_BASE = [
+export const DIST_BASE = [
   1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073,
   4097, 6145, 8193, 12289, 16385, 24577, 32769, 49153
 ];
 
-const DIST_EXTRA = [
+export const DIST_EXTRA = [
   0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
   14, 14
 ];
 
-const FIXED_LIT_LENGTHS = (() => {
+export const FIXED_LIT_LENGTHS = (() => {
   const lengths = new Array<number>(288).fill(0);
   for (let i = 0; i <= 143; i += 1) lengths[i] = 8;
   for (let i = 144; i <= 255; i += 1) lengths[i] = 9;
@@ -44,7 +45,7 @@ const FIXED_LIT_LENGTHS = (() => {
   return lengths;
 })();
 
-const FIXED_DIST_LENGTHS = new Array<number>(32).fill(5);
+export const FIXED_DIST_LENGTHS = new Array<number>(32).fill(5);
 
 const FIXED_LIT_TABLE = buildHuffmanTable(FIXED_LIT_LENGTHS);
 const FIXED_DIST_TABLE = buildHuffmanTable(FIXED_DIST_LENGTHS);
@@ -61,6 +62,25 @@ export function createDeflate64DecompressStream(options?: ZipDecompressionOption
   });
 }
 
+/**
+ * Inflate the raw deflate stream at the start of `data` and report where it ends.
+ *
+ * The output is discarded; bytes after the final block are never read, so trailing data such as a
+ * gzip trailer and the next member is left alone.
+ *
+ * @returns The compressed length including the final partial byte, and the decompressed length.
+ * @throws {ZipError} `ZIP_DEFLATE64_BAD_DATA` for invalid deflate data, `ZIP_TRUNCATED` when the final
+ * block is missing.
+ */
+export function measureDeflateStream(data: Uint8Array, signal?: AbortSignal): { compressedSize: number; size: number } {
+  const inflater = new Deflate64Inflater(signal, false);
+  const discard = { enqueue() {} } as unknown as TransformStreamDefaultController<Uint8Array>;
+  inflater.push(data, discard);
+  inflater.finish(discard);
+  return { compressedSize: inflater.consumedBytes, size: Number(inflater.outputSize) };
+}
+
+/** Streaming inflater for Deflate64 and, with `isDeflate64` false, plain deflate. */
 class Deflate64Inflater {
   private readonly reader = new BitReader();
   private readonly window = new Uint8Array(WINDOW_SIZE);
@@ -85,7 +105,19 @@ class Deflate64Inflater {
   private pendingDistanceExtra = 0;
   private pendingDistance = 0;
 
-  constructor(private readonly signal?: AbortSignal) {}
+  constructor(
+    private readonly signal?: AbortSignal,
+    private readonly isDeflate64 = true
+  ) {}
+
+  /** Input bytes the stream has used so far; buffered bits past the final block are not counted. */
+  get consumedBytes(): number {
+    return this.reader.consumedBytes;
+  }
+
+  get outputSize(): bigint {
+    return this.outputBytes;
+  }
 
   push(chunk: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>): void {
     if (chunk.length > 0) {
@@ -212,6 +244,7 @@ class Deflate64Inflater {
         codeIndex: 0,
         lengths: [],
         prevLength: 0,
+        repeatSymbol: null,
         table: null
       };
     }
@@ -257,8 +290,9 @@ class Deflate64Inflater {
           }
           const total = dyn.hlit + dyn.hdist;
           while (dyn.lengths.length < total) {
-            const sym = this.decodeSymbol(dyn.table);
+            const sym = dyn.repeatSymbol ?? this.decodeSymbol(dyn.table);
             if (sym === null) return false;
+            dyn.repeatSymbol = null;
             if (sym <= 15) {
               dyn.lengths.push(sym);
               dyn.prevLength = sym;
@@ -266,7 +300,10 @@ class Deflate64Inflater {
             }
             if (sym === 16) {
               const repeatBits = this.reader.readBits(2);
-              if (repeatBits === null) return false;
+              if (repeatBits === null) {
+                dyn.repeatSymbol = sym;
+                return false;
+              }
               const repeat = 3 + repeatBits;
               if (dyn.lengths.length === 0) {
                 throw new ZipError('ZIP_DEFLATE64_BAD_DATA', 'Invalid repeat in Huffman lengths');
@@ -278,7 +315,10 @@ class Deflate64Inflater {
             }
             if (sym === 17) {
               const repeatBits = this.reader.readBits(3);
-              if (repeatBits === null) return false;
+              if (repeatBits === null) {
+                dyn.repeatSymbol = sym;
+                return false;
+              }
               const repeat = 3 + repeatBits;
               for (let i = 0; i < repeat; i += 1) {
                 dyn.lengths.push(0);
@@ -288,7 +328,10 @@ class Deflate64Inflater {
             }
             if (sym === 18) {
               const repeatBits = this.reader.readBits(7);
-              if (repeatBits === null) return false;
+              if (repeatBits === null) {
+                dyn.repeatSymbol = sym;
+                return false;
+              }
               const repeat = 11 + repeatBits;
               for (let i = 0; i < repeat; i += 1) {
                 dyn.lengths.push(0);
@@ -328,7 +371,7 @@ class Deflate64Inflater {
       if (this.pendingStage === 'distanceSymbol') {
         const sym = this.decodeSymbol(this.distTable);
         if (sym === null) return false;
-        const distInfo = decodeDistance(sym);
+        const distInfo = decodeDistance(sym, this.isDeflate64);
         this.pendingDistanceBase = distInfo.base;
         this.pendingDistanceExtra = distInfo.extraBits;
         if (distInfo.extraBits === 0) {
@@ -364,7 +407,7 @@ class Deflate64Inflater {
         return true;
       }
 
-      const lenInfo = decodeLength(symbol);
+      const lenInfo = decodeLength(symbol, this.isDeflate64);
       if (lenInfo.extraBits === 0) {
         this.pendingLength = lenInfo.base;
         this.pendingStage = 'distanceSymbol';
@@ -377,16 +420,17 @@ class Deflate64Inflater {
   }
 
   private decodeSymbol(table: HuffmanTable): number | null {
-    if (!this.reader.ensureBits(table.maxBits)) {
+    if (!this.reader.ensureBits(table.maxBits) && !this.reader.isFinished) {
       return null;
     }
-    const bits = this.reader.peekBits(table.maxBits);
-    if (bits === null) return null;
+    // At end of input the final code may be shorter than the table width; missing bits read as zero.
+    const bits = this.reader.peekAvailableBits(table.maxBits);
     const entry = table.table[bits] ?? 0;
     const len = entry >>> 16;
     if (len === 0) {
       throw new ZipError('ZIP_DEFLATE64_BAD_DATA', 'Invalid Huffman code');
     }
+    if (len > this.reader.availableBits) return null;
     this.reader.dropBits(len);
     return entry & 0xffff;
   }
@@ -409,7 +453,7 @@ class Deflate64Inflater {
   }
 
   private copyFromDistance(length: number, distance: number, controller: TransformStreamDefaultController<Uint8Array>): void {
-    if (distance <= 0 || distance > WINDOW_SIZE) {
+    if (distance <= 0 || distance > (this.isDeflate64 ? WINDOW_SIZE : DEFLATE_WINDOW_SIZE)) {
       throw new ZipError('ZIP_DEFLATE64_BAD_DATA', 'Invalid distance');
     }
     if (this.outputBytes < BigInt(distance)) {
@@ -432,6 +476,8 @@ type DynamicState = {
   codeIndex: number;
   lengths: number[];
   prevLength: number;
+  /** Repeat code (16-18) whose extra bits have not arrived yet. */
+  repeatSymbol: number | null;
   table: HuffmanTable | null;
 };
 
@@ -445,6 +491,7 @@ class BitReader {
   private bitBuffer = 0;
   private bitCount = 0;
   private finished = false;
+  private bytesRead = 0;
 
   push(chunk: Uint8Array): void {
     if (chunk.length === 0) return;
@@ -455,6 +502,18 @@ class BitReader {
     this.finished = true;
   }
 
+  get isFinished(): boolean {
+    return this.finished;
+  }
+
+  get availableBits(): number {
+    return this.bitCount;
+  }
+
+  get consumedBytes(): number {
+    return this.bytesRead - (this.bitCount >>> 3);
+  }
+
   ensureBits(count: number): boolean {
     while (this.bitCount < count) {
       const next = this.readByte();
@@ -476,10 +535,9 @@ class BitReader {
     return value;
   }
 
-  peekBits(count: number): number | null {
-    if (!this.ensureBits(count)) return null;
-    const mask = count === 32 ? 0xffffffff : (1 << count) - 1;
-    return this.bitBuffer & mask;
+  /** Peek up to `count` buffered bits without requiring them all to be present. */
+  peekAvailableBits(count: number): number {
+    return this.bitBuffer & ((1 << count) - 1);
   }
 
   dropBits(count: number): void {
@@ -504,6 +562,7 @@ class BitReader {
       }
       const value = chunk[this.chunkOffset]!;
       this.chunkOffset += 1;
+      this.bytesRead += 1;
       if (this.chunkOffset >= chunk.length) {
         this.releaseConsumedChunk();
       }
@@ -523,19 +582,21 @@ class BitReader {
   }
 }
 
-function decodeLength(symbol: number): { base: number; extraBits: number } {
+function decodeLength(symbol: number, isDeflate64: boolean): { base: number; extraBits: number } {
   if (symbol >= 257 && symbol <= 284) {
     const idx = symbol - 257;
     return { base: LENGTH_BASE[idx]!, extraBits: LENGTH_EXTRA[idx]! };
   }
   if (symbol === 285) {
-    return { base: 3, extraBits: 16 };
+    // Deflate64 reuses the fixed length 258 code for 3 + a 16-bit extra.
+    return isDeflate64 ? { base: 3, extraBits: 16 } : { base: 258, extraBits: 0 };
   }
   throw new ZipError('ZIP_DEFLATE64_BAD_DATA', 'Invalid length code');
 }
 
-function decodeDistance(symbol: number): { base: number; extraBits: number } {
-  if (symbol < 0 || symbol >= DIST_BASE.length) {
+function decodeDistance(symbol: number, isDeflate64: boolean): { base: number; extraBits: number } {
+  // Distance codes 30 and 31 only exist in Deflate64's 64 KiB window.
+  if (symbol < 0 || symbol >= (isDeflate64 ? DIST_BASE.length : 30)) {
     throw new ZipError('ZIP_DEFLATE64_BAD_DATA', 'Invalid distance code');
   }
   return { base: DIST_BASE[symbol]!, extraBits: DIST_EXTRA[symbol]! };
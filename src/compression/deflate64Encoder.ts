@@ -0,0 +1,529 @@
+import { throwIfAborted } from '../abort.js';
+import { emitStable } from '../streams/emit.js';
+import {
+  CODE_LENGTH_ORDER,
+  DIST_BASE,
+  DIST_EXTRA,
+  FIXED_DIST_LENGTHS,
+  FIXED_LIT_LENGTHS,
+  LENGTH_BASE,
+  LENGTH_EXTRA
+} from './deflate64.js';
+
+export type Deflate64CompressOptions = {
+  /** 0-9 like zlib; bounds the hash chain searched per match, 0 emits literals only. */
+  level?: number;
+  signal?: AbortSignal;
+};
+
+const WINDOW_SIZE = 65536;
+const MIN_MATCH = 3;
+// Length code 285 carries 16 extra bits on top of base 3.
+const MAX_MATCH = 65538;
+const NICE_LENGTH = 258;
+const MAX_CHAIN = 64;
+// Hash chain length per level, following zlib's max_chain; no level keeps MAX_CHAIN.
+const CHAIN_BY_LEVEL = [0, 4, 8, 32, 16, 32, 128, 256, 1024, 4096];
+// Three-byte matches this far back rarely beat two literals.
+const MIN_MATCH_MAX_DISTANCE = 4096;
+const HASH_BITS = 15;
+const HASH_SIZE = 1 << HASH_BITS;
+const BLOCK_SYMBOLS = 16384;
+const BLOCK_SPAN_BYTES = 1 << 18;
+const MAX_STORED = 65535;
+const END_OF_BLOCK = 256;
+const LENGTH_CODE_285 = 285;
+const LIT_SYMBOLS = 286;
+const DIST_SYMBOLS = 32;
+const MAX_CODE_LENGTH = 15;
+const MAX_CODE_LENGTH_CODE_LENGTH = 7;
+const ABORT_CHECK_MASK = 0xffff;
+
+const LENGTH_CODES = (() => {
+  const codes = new Uint8Array(NICE_LENGTH + 1);
+  for (let index = 0; index < LENGTH_BASE.length; index += 1) {
+    const base = LENGTH_BASE[index]!;
+    for (let extra = 0; extra < 1 << LENGTH_EXTRA[index]!; extra += 1) {
+      if (base + extra <= NICE_LENGTH) codes[base + extra] = index;
+    }
+  }
+  return codes;
+})();
+
+const FIXED_LIT_CODE_LENGTHS = Uint8Array.from(FIXED_LIT_LENGTHS);
+const FIXED_DIST_CODE_LENGTHS = Uint8Array.from(FIXED_DIST_LENGTHS);
+const FIXED_LIT_CODES = canonicalCodes(FIXED_LIT_CODE_LENGTHS);
+const FIXED_DIST_CODES = canonicalCodes(FIXED_DIST_CODE_LENGTHS);
+
+/**
+ * Create a pure-JS Deflate64 compressor (ZIP method 9): 64 KiB window, matches up to
+ * 65538 bytes via length code 285, and per-block choice of stored, fixed, or dynamic Huffman coding.
+ *
+ * Output is deterministic for identical input and level.
+ *
+ * @throws {RangeError} When `level` is not an integer between 0 and 9.
+ */
+export function createDeflate64CompressStream(
+  options: Deflate64CompressOptions = {}
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+  const { level } = options;
+  if (level !== undefined && (!Number.isInteger(level) || level < 0 || level > 9)) {
+    throw new RangeError(`Deflate64 level must be an integer between 0 and 9 (got ${String(level)})`);
+  }
+  const maxChain = level !== undefined ? CHAIN_BY_LEVEL[level]! : MAX_CHAIN;
+  let encoder: Deflate64StreamEncoder | null = null;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    start(controller) {
+      encoder = new Deflate64StreamEncoder(
+        (part) => emitStable(controller, part, { transfer: true }),
+        maxChain,
+        options.signal
+      );
+    },
+    transform(chunk) {
+      if (options.signal) throwIfAborted(options.signal);
+      if (!chunk || chunk.length === 0) return;
+      encoder?.push(chunk);
+    },
+    flush() {
+      if (options.signal) throwIfAborted(options.signal);
+      encoder?.finish();
+    }
+  });
+}
+
+class Deflate64StreamEncoder {
+  private readonly bits = new BitWriter();
+  private readonly head = new Float64Array(HASH_SIZE).fill(-1);
+  private readonly prev = new Float64Array(WINDOW_SIZE).fill(-1);
+  private buffer = new Uint8Array(WINDOW_SIZE * 2);
+  // Absolute stream positions: buffer[0] holds byte `bufferStart`.
+  private bufferStart = 0;
+  private end = 0;
+  private pos = 0;
+  private blockStart = 0;
+  private readonly symbolLengths = new Uint32Array(BLOCK_SYMBOLS);
+  private readonly symbolValues = new Uint32Array(BLOCK_SYMBOLS);
+  private symbolCount = 0;
+  private sinceAbortCheck = 0;
+  private matchDistance = 0;
+
+  constructor(
+    private readonly emit: (chunk: Uint8Array) => void,
+    private readonly maxChain: number,
+    private readonly signal?: AbortSignal
+  ) {}
+
+  push(chunk: Uint8Array): void {
+    this.append(chunk);
+    this.deflate(false);
+    this.emitPending();
+  }
+
+  finish(): void {
+    this.deflate(true);
+    this.encodeBlock(true);
+    this.bits.alignToByte();
+    this.emitPending();
+  }
+
+  private append(chunk: Uint8Array): void {
+    const used = this.end - this.bufferStart;
+    if (used + chunk.length > this.buffer.length) {
+      const keepFrom = Math.max(this.bufferStart, Math.min(this.blockStart, this.pos - WINDOW_SIZE));
+      const drop = keepFrom - this.bufferStart;
+      const retained = used - drop;
+      let target = this.buffer;
+      while (retained + chunk.length > target.length) {
+        target = new Uint8Array(target.length * 2);
+      }
+      target.set(this.buffer.subarray(drop, used), 0);
+      this.buffer = target;
+      this.bufferStart = keepFrom;
+    }
+    this.buffer.set(chunk, this.end - this.bufferStart);
+    this.end += chunk.length;
+  }
+
+  private deflate(isFinishing: boolean): void {
+    while (this.pos < this.end) {
+      if (!isFinishing && this.end - this.pos < MAX_MATCH) return;
+      const pos = this.pos;
+      let length = this.findMatch(pos);
+      const distance = this.matchDistance;
+      this.insert(pos);
+      if (length >= MIN_MATCH && length < NICE_LENGTH && this.findMatch(pos + 1) > length) {
+        length = 0;
+      }
+      if (length >= MIN_MATCH) {
+        this.addSymbol(length, distance);
+        for (let i = pos + 1; i < pos + length; i += 1) this.insert(i);
+        this.pos += length;
+      } else {
+        this.addSymbol(0, this.buffer[pos - this.bufferStart]!);
+        this.pos += 1;
+      }
+      this.sinceAbortCheck += 1;
+      if (this.signal && this.sinceAbortCheck > ABORT_CHECK_MASK) {
+        this.sinceAbortCheck = 0;
+        throwIfAborted(this.signal);
+      }
+      if (this.symbolCount === BLOCK_SYMBOLS || this.pos - this.blockStart >= BLOCK_SPAN_BYTES) {
+        this.encodeBlock(false);
+      }
+    }
+  }
+
+  private hash(pos: number): number {
+    const offset = pos - this.bufferStart;
+    const buffer = this.buffer;
+    return ((buffer[offset]! << 10) ^ (buffer[offset + 1]! << 5) ^ buffer[offset + 2]!) & (HASH_SIZE - 1);
+  }
+
+  private insert(pos: number): void {
+    if (pos + MIN_MATCH > this.end) return;
+    const hash = this.hash(pos);
+    this.prev[pos & (WINDOW_SIZE - 1)] = this.head[hash]!;
+    this.head[hash] = pos;
+  }
+
+  /** Longest earlier match for `pos` (length, with the distance in `matchDistance`). */
+  private findMatch(pos: number): number {
+    const maxLength = Math.min(MAX_MATCH, this.end - pos);
+    if (maxLength < MIN_MATCH) return 0;
+    const buffer = this.buffer;
+    const base = this.bufferStart;
+    const current = pos - base;
+    let bestLength = 0;
+    let bestDistance = 0;
+    let candidate = this.head[this.hash(pos)]!;
+    for (let chain = this.maxChain; candidate >= 0 && pos - candidate <= WINDOW_SIZE && chain > 0; chain -= 1) {
+      const offset = candidate - base;
+      if (buffer[offset + bestLength] === buffer[current + bestLength]) {
+        let length = 0;
+        while (length < maxLength && buffer[offset + length] === buffer[current + length]) length += 1;
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = pos - candidate;
+          if (length >= NICE_LENGTH) break;
+        }
+      }
+      candidate = this.prev[candidate & (WINDOW_SIZE - 1)]!;
+    }
+    if (bestLength < MIN_MATCH || (bestLength === MIN_MATCH && bestDistance > MIN_MATCH_MAX_DISTANCE)) return 0;
+    this.matchDistance = bestDistance;
+    return bestLength;
+  }
+
+  private addSymbol(length: number, value: number): void {
+    this.symbolLengths[this.symbolCount] = length;
+    this.symbolValues[this.symbolCount] = value;
+    this.symbolCount += 1;
+  }
+
+  private encodeBlock(isFinal: boolean): void {
+    if (this.signal) throwIfAborted(this.signal);
+    const litFrequencies = new Int32Array(LIT_SYMBOLS);
+    const distFrequencies = new Int32Array(DIST_SYMBOLS);
+    let extraBits = 0;
+    for (let i = 0; i < this.symbolCount; i += 1) {
+      const length = this.symbolLengths[i]!;
+      if (length === 0) {
+        litFrequencies[this.symbolValues[i]!]! += 1;
+        continue;
+      }
+      const lengthCode = lengthCodeFor(length);
+      const distCode = distanceCodeFor(this.symbolValues[i]!);
+      litFrequencies[257 + lengthCode]! += 1;
+      distFrequencies[distCode]! += 1;
+      extraBits += (lengthCode === LENGTH_CODE_285 - 257 ? 16 : LENGTH_EXTRA[lengthCode]!) + DIST_EXTRA[distCode]!;
+    }
+    litFrequencies[END_OF_BLOCK] = 1;
+    ensureTwoSymbols(litFrequencies);
+    ensureTwoSymbols(distFrequencies);
+
+    const litLengths = buildCodeLengths(litFrequencies, MAX_CODE_LENGTH);
+    const distLengths = buildCodeLengths(distFrequencies, MAX_CODE_LENGTH);
+    const header = buildDynamicHeader(litLengths, distLengths);
+    const dynamicBits =
+      3 + header.bits + weightedBits(litFrequencies, litLengths) + weightedBits(distFrequencies, distLengths) + extraBits;
+    const fixedBits =
+      3 +
+      weightedBits(litFrequencies, FIXED_LIT_CODE_LENGTHS) +
+      weightedBits(distFrequencies, FIXED_DIST_CODE_LENGTHS) +
+      extraBits;
+    const storedLength = this.pos - this.blockStart;
+    const storedBits = Math.max(1, Math.ceil(storedLength / MAX_STORED)) * (3 + 7 + 32) + storedLength * 8;
+
+    if (storedBits < fixedBits && storedBits < dynamicBits) {
+      this.writeStored(isFinal);
+    } else if (fixedBits <= dynamicBits) {
+      this.bits.writeBits(isFinal ? 1 : 0, 1);
+      this.bits.writeBits(1, 2);
+      this.writeSymbols(FIXED_LIT_CODES, FIXED_LIT_CODE_LENGTHS, FIXED_DIST_CODES, FIXED_DIST_CODE_LENGTHS);
+    } else {
+      this.bits.writeBits(isFinal ? 1 : 0, 1);
+      this.bits.writeBits(2, 2);
+      this.writeDynamicHeader(header);
+      this.writeSymbols(canonicalCodes(litLengths), litLengths, canonicalCodes(distLengths), distLengths);
+    }
+    this.symbolCount = 0;
+    this.blockStart = this.pos;
+  }
+
+  private writeStored(isFinal: boolean): void {
+    const data = this.buffer.subarray(this.blockStart - this.bufferStart, this.pos - this.bufferStart);
+    let offset = 0;
+    do {
+      const piece = data.subarray(offset, Math.min(data.length, offset + MAX_STORED));
+      offset += piece.length;
+      this.bits.writeBits(isFinal && offset >= data.length ? 1 : 0, 1);
+      this.bits.writeBits(0, 2);
+      this.bits.alignToByte();
+      this.bits.writeBits(piece.length, 16);
+      this.bits.writeBits(~piece.length & 0xffff, 16);
+      this.bits.writeBytes(piece);
+    } while (offset < data.length);
+  }
+
+  private writeDynamicHeader(header: DynamicHeader): void {
+    const bits = this.bits;
+    bits.writeBits(header.litCount - 257, 5);
+    bits.writeBits(header.distCount - 1, 5);
+    bits.writeBits(header.codeLengthCount - 4, 4);
+    for (let i = 0; i < header.codeLengthCount; i += 1) {
+      bits.writeBits(header.codeLengthLengths[CODE_LENGTH_ORDER[i]!]!, 3);
+    }
+    const codes = canonicalCodes(header.codeLengthLengths);
+    for (const [symbol, extra, extraCount] of header.runs) {
+      bits.writeBits(codes[symbol]!, header.codeLengthLengths[symbol]!);
+      bits.writeBits(extra, extraCount);
+    }
+  }
+
+  private writeSymbols(litCodes: Int32Array, litLengths: Uint8Array, distCodes: Int32Array, distLengths: Uint8Array): void {
+    const bits = this.bits;
+    for (let i = 0; i < this.symbolCount; i += 1) {
+      const length = this.symbolLengths[i]!;
+      const value = this.symbolValues[i]!;
+      if (length === 0) {
+        bits.writeBits(litCodes[value]!, litLengths[value]!);
+        continue;
+      }
+      const lengthCode = lengthCodeFor(length);
+      bits.writeBits(litCodes[257 + lengthCode]!, litLengths[257 + lengthCode]!);
+      if (lengthCode === LENGTH_CODE_285 - 257) {
+        bits.writeBits(length - MIN_MATCH, 16);
+      } else {
+        bits.writeBits(length - LENGTH_BASE[lengthCode]!, LENGTH_EXTRA[lengthCode]!);
+      }
+      const distCode = distanceCodeFor(value);
+      bits.writeBits(distCodes[distCode]!, distLengths[distCode]!);
+      bits.writeBits(value - DIST_BASE[distCode]!, DIST_EXTRA[distCode]!);
+    }
+    bits.writeBits(litCodes[END_OF_BLOCK]!, litLengths[END_OF_BLOCK]!);
+  }
+
+  private emitPending(): void {
+    const bytes = this.bits.take();
+    if (bytes.length > 0) this.emit(bytes);
+  }
+}
+
+type DynamicHeader = {
+  litCount: number;
+  distCount: number;
+  codeLengthCount: number;
+  codeLengthLengths: Uint8Array;
+  /** Code-length symbols with their extra-bit payloads (RLE codes 16-18). */
+  runs: Array<[symbol: number, extra: number, extraCount: number]>;
+  bits: number;
+};
+
+function buildDynamicHeader(litLengths: Uint8Array, distLengths: Uint8Array): DynamicHeader {
+  let litCount = LIT_SYMBOLS;
+  while (litCount > 257 && litLengths[litCount - 1] === 0) litCount -= 1;
+  let distCount = DIST_SYMBOLS;
+  while (distCount > 1 && distLengths[distCount - 1] === 0) distCount -= 1;
+  const lengths = new Uint8Array(litCount + distCount);
+  lengths.set(litLengths.subarray(0, litCount), 0);
+  lengths.set(distLengths.subarray(0, distCount), litCount);
+
+  const runs: DynamicHeader['runs'] = [];
+  for (let i = 0; i < lengths.length; ) {
+    const value = lengths[i]!;
+    let run = 1;
+    while (i + run < lengths.length && lengths[i + run] === value) run += 1;
+    i += run;
+    if (value === 0) {
+      while (run >= 11) {
+        const take = Math.min(run, 138);
+        runs.push([18, take - 11, 7]);
+        run -= take;
+      }
+      if (run >= 3) {
+        runs.push([17, run - 3, 3]);
+        run = 0;
+      }
+    } else {
+      runs.push([value, 0, 0]);
+      run -= 1;
+      while (run >= 3) {
+        const take = Math.min(run, 6);
+        runs.push([16, take - 3, 2]);
+        run -= take;
+      }
+    }
+    for (; run > 0; run -= 1) runs.push([value, 0, 0]);
+  }
+
+  const frequencies = new Int32Array(19);
+  for (const [symbol] of runs) frequencies[symbol]! += 1;
+  ensureTwoSymbols(frequencies);
+  const codeLengthLengths = buildCodeLengths(frequencies, MAX_CODE_LENGTH_CODE_LENGTH);
+  let codeLengthCount = 19;
+  while (codeLengthCount > 4 && codeLengthLengths[CODE_LENGTH_ORDER[codeLengthCount - 1]!] === 0) codeLengthCount -= 1;
+  let bits = 5 + 5 + 4 + codeLengthCount * 3;
+  for (const [symbol, , extraCount] of runs) bits += codeLengthLengths[symbol]! + extraCount;
+  return { litCount, distCount, codeLengthCount, codeLengthLengths, runs, bits };
+}
+
+function lengthCodeFor(length: number): number {
+  return length <= NICE_LENGTH ? LENGTH_CODES[length]! : LENGTH_CODE_285 - 257;
+}
+
+function distanceCodeFor(distance: number): number {
+  if (distance <= 4) return distance - 1;
+  const value = distance - 1;
+  const bitLength = 31 - Math.clz32(value);
+  return 2 * bitLength + ((value >>> (bitLength - 1)) & 1);
+}
+
+function weightedBits(frequencies: Int32Array, lengths: ArrayLike<number>): number {
+  let total = 0;
+  for (let i = 0; i < frequencies.length; i += 1) total += frequencies[i]! * lengths[i]!;
+  return total;
+}
+
+/** Give single-symbol alphabets a second code so every table is a complete prefix code. */
+function ensureTwoSymbols(frequencies: Int32Array): void {
+  let used = 0;
+  for (const value of frequencies) if (value > 0) used += 1;
+  for (let i = 0; used < 2 && i < frequencies.length; i += 1) {
+    if (frequencies[i] === 0) {
+      frequencies[i] = 1;
+      used += 1;
+    }
+  }
+}
+
+/** Length-limited Huffman code lengths; unused symbols keep length 0. */
+function buildCodeLengths(frequencies: Int32Array, maxLength: number): Uint8Array {
+  const symbols: number[] = [];
+  const weights: number[] = [];
+  for (let i = 0; i < frequencies.length; i += 1) {
+    if (frequencies[i]! > 0) {
+      symbols.push(i);
+      weights.push(frequencies[i]!);
+    }
+  }
+  while (true) {
+    const depths = huffmanDepths(weights);
+    if (depths.every((depth) => depth <= maxLength)) {
+      const lengths = new Uint8Array(frequencies.length);
+      symbols.forEach((symbol, index) => (lengths[symbol] = depths[index]!));
+      return lengths;
+    }
+    for (let i = 0; i < weights.length; i += 1) weights[i] = 1 + Math.floor(weights[i]! / 2);
+  }
+}
+
+function huffmanDepths(weights: number[]): number[] {
+  const nodeWeights = weights.slice();
+  const parents: number[] = new Array<number>(weights.length * 2).fill(-1);
+  // Ties break on node index so code lengths are deterministic.
+  let active = weights.map((_, index) => index);
+  while (active.length > 1) {
+    active.sort((a, b) => nodeWeights[a]! - nodeWeights[b]! || a - b);
+    const [first, second] = active as [number, number];
+    const node = nodeWeights.length;
+    nodeWeights.push(nodeWeights[first]! + nodeWeights[second]!);
+    parents[first] = node;
+    parents[second] = node;
+    active = [node, ...active.slice(2)];
+  }
+  return weights.map((_, index) => {
+    let depth = 0;
+    for (let node = index; parents[node]! >= 0; node = parents[node]!) depth += 1;
+    return depth;
+  });
+}
+
+/** Canonical Huffman codes (RFC 1951 section 3.2.2), bit-reversed for LSB-first output. */
+function canonicalCodes(lengths: Uint8Array): Int32Array {
+  const counts = new Int32Array(MAX_CODE_LENGTH + 1);
+  for (const length of lengths) if (length > 0) counts[length]! += 1;
+  const next = new Int32Array(MAX_CODE_LENGTH + 1);
+  let code = 0;
+  for (let bits = 1; bits <= MAX_CODE_LENGTH; bits += 1) {
+    code = (code + counts[bits - 1]!) << 1;
+    next[bits] = code;
+  }
+  const codes = new Int32Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol += 1) {
+    const length = lengths[symbol]!;
+    if (length === 0) continue;
+    let value = next[length]!;
+    next[length] = value + 1;
+    let reversed = 0;
+    for (let i = 0; i < length; i += 1) {
+      reversed = (reversed << 1) | (value & 1);
+      value >>>= 1;
+    }
+    codes[symbol] = reversed;
+  }
+  return codes;
+}
+
+/** LSB-first bit writer (RFC 1951 bit order). */
+class BitWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private length = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  writeBits(value: number, count: number): void {
+    this.bitBuffer |= value << this.bitCount;
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      this.pushByte(this.bitBuffer & 0xff);
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  alignToByte(): void {
+    if (this.bitCount > 0) this.writeBits(0, 8 - this.bitCount);
+  }
+
+  /** Append raw bytes; the writer must be byte-aligned. */
+  writeBytes(bytes: Uint8Array): void {
+    for (let i = 0; i < bytes.length; i += 1) this.pushByte(bytes[i]!);
+  }
+
+  /** Return completed bytes and reset the output buffer (partial bits stay pending). */
+  take(): Uint8Array {
+    const out = this.buffer.slice(0, this.length);
+    this.length = 0;
+    return out;
+  }
+
+  private pushByte(value: number): void {
+    if (this.length === this.buffer.length) {
+      const next = new Uint8Array(this.buffer.length * 2);
+      next.set(this.buffer);
+      this.buffer = next;
+    }
+    this.buffer[this.length++] = value;
+  }
+}
@@ -0,0 +1,259 @@
+import { throwIfAborted } from '../abort.js';
+import { CompressionError } from '../compress/errors.js';
+import { emitStable } from '../streams/emit.js';
+import {
+  LZMA_PROPERTIES_BYTE,
+  LzmaEncoder,
+  RangeEncoder,
+  resolveLzmaPreset,
+  type LzmaEncoderConfig
+} from './lzmaEncoder.js';
+import { Dictionary, LzmaDecoder, RangeDecoder, lzmaBadData, resolveXzLimits } from './xz.js';
+import type { ByteSink } from './xzFilters.js';
+
+export type ZipLzmaDecompressOptions = {
+  signal?: AbortSignal;
+  /** General-purpose bit 1: the payload ends with an end-of-stream marker. */
+  hasEndMarker?: boolean;
+  /** Entry size; bounds the payload when there is no end marker and caps the dictionary. */
+  uncompressedSize?: bigint;
+  maxDictionaryBytes?: bigint | number;
+};
+
+export type ZipLzmaCompressOptions = {
+  signal?: AbortSignal;
+  level?: number;
+};
+
+// APPNOTE 5.8.8: LZMA SDK version (2 bytes), properties size (2 bytes LE), then the properties.
+const HEADER_BYTES = 4;
+const PROPERTIES_BYTES = 5;
+const HEADER_VERSION = [9, 20];
+const MIN_DICTIONARY_BYTES = 4096;
+// Upper bound on input bits one LZMA symbol can consume, rounded up to bytes.
+const SYMBOL_INPUT_RESERVE = 21;
+const OUTPUT_CHUNK_SIZE = 32 * 1024;
+
+/**
+ * Create a decoder for ZIP method 14 (LZMA with the 4-byte ZIP properties header).
+ *
+ * Input is decoded incrementally; the payload ends at the end marker when
+ * `hasEndMarker` is set, otherwise after `uncompressedSize` bytes.
+ */
+export function createZipLzmaDecompressStream(
+  options: ZipLzmaDecompressOptions = {}
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+  const hasEndMarker = options.hasEndMarker ?? false;
+  if (!hasEndMarker && options.uncompressedSize === undefined) {
+    throw new RangeError('LZMA entries without an end marker require uncompressedSize');
+  }
+  const maxDictionaryBytes = resolveXzLimits(
+    options.maxDictionaryBytes !== undefined ? { maxDictionaryBytes: options.maxDictionaryBytes } : {}
+  ).maxDictionaryBytes;
+  let decoder: ZipLzmaDecoder | null = null;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    start(controller) {
+      decoder = new ZipLzmaDecoder(
+        (part) => emitStable(controller, part),
+        hasEndMarker,
+        options.uncompressedSize,
+        maxDictionaryBytes,
+        options.signal
+      );
+    },
+    transform(chunk) {
+      if (options.signal) throwIfAborted(options.signal);
+      if (!chunk || chunk.length === 0) return;
+      decoder?.push(chunk);
+    },
+    flush() {
+      if (options.signal) throwIfAborted(options.signal);
+      decoder?.finish();
+    }
+  });
+}
+
+/**
+ * Create an encoder for ZIP method 14. The payload always ends with an end marker,
+ * so entries must set general-purpose bit 1.
+ *
+ * Output is deterministic for identical input and level.
+ */
+export function createZipLzmaCompressStream(
+  options: ZipLzmaCompressOptions = {}
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+  const config = resolveLzmaPreset(options.level);
+  let encoder: ZipLzmaEncoder | null = null;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    start(controller) {
+      encoder = new ZipLzmaEncoder(config, (part) => emitStable(controller, part, { transfer: true }), options.signal);
+    },
+    transform(chunk) {
+      if (options.signal) throwIfAborted(options.signal);
+      if (!chunk || chunk.length === 0) return;
+      encoder?.push(chunk);
+    },
+    flush() {
+      if (options.signal) throwIfAborted(options.signal);
+      encoder?.finish();
+    }
+  });
+}
+
+class ZipLzmaDecoder {
+  private pending: Uint8Array = new Uint8Array(0);
+  private sink: ChunkSink | null = null;
+  private lzma: LzmaDecoder | null = null;
+  private dict: Dictionary | null = null;
+  private range: RangeDecoder | null = null;
+  private isDone = false;
+
+  constructor(
+    private readonly emit: (chunk: Uint8Array) => void,
+    private readonly hasEndMarker: boolean,
+    private readonly uncompressedSize: bigint | undefined,
+    private readonly maxDictionaryBytes: bigint,
+    private readonly signal?: AbortSignal
+  ) {}
+
+  push(chunk: Uint8Array): void {
+    if (this.isDone) return;
+    if (this.range) {
+      this.range.append(chunk);
+    } else {
+      this.pending = concat(this.pending, chunk);
+      if (!this.start()) return;
+    }
+    this.decode(SYMBOL_INPUT_RESERVE);
+  }
+
+  finish(): void {
+    if (!this.isDone) {
+      if (!this.range && !this.start()) throw lzmaBadData('Truncated LZMA stream');
+      this.decode(0);
+    }
+    if (this.hasEndMarker && !this.isDone) throw lzmaBadData('LZMA end marker missing');
+    this.sink?.flush();
+  }
+
+  private start(): boolean {
+    const pending = this.pending;
+    if (pending.length < HEADER_BYTES) return false;
+    const propertiesSize = pending[2]! | (pending[3]! << 8);
+    if (propertiesSize !== PROPERTIES_BYTES) {
+      throw lzmaBadData(`Unsupported LZMA properties size ${propertiesSize}`);
+    }
+    const dataStart = HEADER_BYTES + PROPERTIES_BYTES;
+    // The range decoder primes itself with five bytes.
+    if (pending.length < dataStart + 5) return false;
+    const props = pending[HEADER_BYTES]!;
+    const declaredSize =
+      (pending[HEADER_BYTES + 1]! |
+        (pending[HEADER_BYTES + 2]! << 8) |
+        (pending[HEADER_BYTES + 3]! << 16) |
+        (pending[HEADER_BYTES + 4]! << 24)) >>>
+      0;
+    let dictionarySize = Math.max(declaredSize, MIN_DICTIONARY_BYTES);
+    if (this.uncompressedSize !== undefined && this.uncompressedSize < BigInt(dictionarySize)) {
+      // Matches never reach further back than the entry's own output.
+      dictionarySize = Math.max(1, Number(this.uncompressedSize));
+    }
+    if (BigInt(dictionarySize) > this.maxDictionaryBytes) {
+      throw new CompressionError('COMPRESSION_RESOURCE_LIMIT', `LZMA dictionary size ${dictionarySize} exceeds limit`, {
+        algorithm: 'lzma',
+        context: {
+          requiredDictionaryBytes: String(dictionarySize),
+          limitDictionaryBytes: this.maxDictionaryBytes.toString()
+        }
+      });
+    }
+    this.sink = new ChunkSink(this.emit);
+    this.dict = new Dictionary(dictionarySize, this.sink, this.signal);
+    this.lzma = new LzmaDecoder(this.dict, this.signal);
+    this.lzma.resetProperties(props);
+    this.range = new RangeDecoder(pending, dataStart, pending.length - dataStart);
+    this.pending = new Uint8Array(0);
+    return true;
+  }
+
+  private decode(inputReserve: number): void {
+    const dict = this.dict!;
+    const total = this.hasEndMarker ? Number.POSITIVE_INFINITY : Number(this.uncompressedSize);
+    const sawEndMarker = this.lzma!.decode(this.range!, total - dict.written, {
+      allowEndMarker: this.hasEndMarker,
+      inputReserve
+    });
+    this.isDone = sawEndMarker || dict.written === total;
+    this.sink!.flush();
+  }
+}
+
+class ZipLzmaEncoder {
+  private readonly lzma: LzmaEncoder;
+  private readonly rc = new RangeEncoder();
+
+  constructor(
+    config: LzmaEncoderConfig,
+    private readonly emit: (chunk: Uint8Array) => void,
+    signal?: AbortSignal
+  ) {
+    this.lzma = new LzmaEncoder(config, signal);
+    const header = new Uint8Array(HEADER_BYTES + PROPERTIES_BYTES);
+    header[0] = HEADER_VERSION[0]!;
+    header[1] = HEADER_VERSION[1]!;
+    header[2] = PROPERTIES_BYTES;
+    header[4] = LZMA_PROPERTIES_BYTE;
+    header[5] = config.dictionarySize & 0xff;
+    header[6] = (config.dictionarySize >>> 8) & 0xff;
+    header[7] = (config.dictionarySize >>> 16) & 0xff;
+    header[8] = (config.dictionarySize >>> 24) & 0xff;
+    this.emit(header);
+  }
+
+  push(chunk: Uint8Array): void {
+    let offset = 0;
+    while (offset < chunk.length) {
+      offset += this.lzma.write(chunk.subarray(offset));
+      this.encode(false);
+    }
+  }
+
+  finish(): void {
+    this.encode(true);
+    this.lzma.encodeEndMarker(this.rc);
+    this.emit(this.rc.finish());
+  }
+
+  private encode(isFinishing: boolean): void {
+    this.lzma.encode(this.rc, isFinishing, Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY);
+    // Raw LZMA never re-reads encoded bytes, so the window may slide past them.
+    this.lzma.pin(this.lzma.position);
+    const settled = this.rc.drain();
+    if (settled.length > 0) this.emit(settled);
+  }
+}
+
+class ChunkSink implements ByteSink {
+  private readonly buffer = new Uint8Array(OUTPUT_CHUNK_SIZE);
+  private length = 0;
+
+  constructor(private readonly emit: (chunk: Uint8Array) => void) {}
+
+  writeByte(value: number): void {
+    this.buffer[this.length++] = value;
+    if (this.length === this.buffer.length) this.flush();
+  }
+
+  flush(): void {
+    if (this.length === 0) return;
+    this.emit(this.buffer.subarray(0, this.length));
+    this.length = 0;
+  }
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a, 0);
+  out.set(b, a.length);
+  return out;
+}
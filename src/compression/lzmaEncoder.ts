@@ -0,0 +1,599 @@
+import { throwIfAborted } from '../abort.js';
+
+/** Match-finder and dictionary settings for one compression level. */
+export type LzmaEncoderConfig = {
+  dictionarySize: number;
+  niceLength: number;
+  depth: number;
+};
+
+const K_NUM_POS_BITS_MAX = 4;
+const K_NUM_POS_STATES_MAX = 1 << K_NUM_POS_BITS_MAX;
+const K_LEN_NUM_LOW_BITS = 3;
+const K_LEN_NUM_LOW_SYMBOLS = 1 << K_LEN_NUM_LOW_BITS;
+const K_LEN_NUM_HIGH_BITS = 8;
+const K_LEN_NUM_HIGH_SYMBOLS = 1 << K_LEN_NUM_HIGH_BITS;
+const K_NUM_STATES = 12;
+const K_NUM_LIT_STATES = 7;
+const K_END_POS_MODEL_INDEX = 14;
+const K_NUM_FULL_DISTANCES = 1 << (K_END_POS_MODEL_INDEX >> 1);
+const K_NUM_POS_SLOT_BITS = 6;
+const K_NUM_LEN_TO_POS_STATES = 4;
+const K_NUM_ALIGN_BITS = 4;
+const K_MATCH_MIN_LEN = 2;
+
+/** Longest match LZMA can encode in one symbol. */
+export const LZMA_MATCH_LEN_MAX = 273;
+
+/** Fixed literal/position properties (lc=3, lp=0, pb=2), matching xz-utils presets. */
+export const LZMA_LC = 3;
+export const LZMA_LP = 0;
+export const LZMA_PB = 2;
+export const LZMA_PROPERTIES_BYTE = (LZMA_PB * 5 + LZMA_LP) * 9 + LZMA_LC;
+
+const HASH_BITS = 18;
+const HASH_SIZE = 1 << HASH_BITS;
+const INITIAL_WINDOW_BYTES = 64 * 1024;
+const MIN_WINDOW_SLACK_BYTES = 1024 * 1024;
+const ABORT_CHECK_MASK = 0xffff;
+
+const LZMA_PRESETS: readonly LzmaEncoderConfig[] = [
+  { dictionarySize: 1 << 18, niceLength: 32, depth: 4 },
+  { dictionarySize: 1 << 20, niceLength: 32, depth: 8 },
+  { dictionarySize: 1 << 21, niceLength: 48, depth: 12 },
+  { dictionarySize: 1 << 22, niceLength: 64, depth: 16 },
+  { dictionarySize: 1 << 22, niceLength: 64, depth: 24 },
+  { dictionarySize: 1 << 23, niceLength: 64, depth: 32 },
+  { dictionarySize: 1 << 23, niceLength: 64, depth: 48 },
+  { dictionarySize: 1 << 24, niceLength: 128, depth: 64 },
+  { dictionarySize: 1 << 25, niceLength: 192, depth: 96 },
+  { dictionarySize: 1 << 26, niceLength: LZMA_MATCH_LEN_MAX, depth: 128 }
+];
+
+/** Default preset level (xz-utils `-6`). */
+export const LZMA_DEFAULT_LEVEL = 6;
+
+/**
+ * Resolve a 0-9 preset level into encoder settings.
+ * Dictionary sizes follow xz-utils presets so decoders budget the same memory.
+ */
+export function resolveLzmaPreset(level?: number): LzmaEncoderConfig {
+  const resolved = level ?? LZMA_DEFAULT_LEVEL;
+  if (!Number.isInteger(resolved) || resolved < 0 || resolved > 9) {
+    throw new RangeError(`LZMA preset level must be an integer between 0 and 9 (got ${String(level)})`);
+  }
+  return LZMA_PRESETS[resolved]!;
+}
+
+/** Smallest LZMA2 dictionary-size property byte whose decoded size covers `size`. */
+export function encodeLzma2DictionarySize(size: number): number {
+  for (let bits = 0; bits < 40; bits += 1) {
+    const base = 2 | (bits & 1);
+    const decoded = base * 2 ** ((bits >> 1) + 11);
+    if (decoded >= size) return bits;
+  }
+  return 40;
+}
+
+/**
+ * Range encoder matching the LZMA range decoder bit-for-bit.
+ * `low` is kept as a double so the 33rd (carry) bit survives without BigInt.
+ */
+export class RangeEncoder {
+  private low = 0;
+  private range = 0xffffffff;
+  private cache = 0;
+  private cacheSize = 1;
+  private buffer = new Uint8Array(INITIAL_WINDOW_BYTES);
+  private length = 0;
+
+  /** Bytes this coder will occupy once flushed. */
+  get pendingBytes(): number {
+    return this.length + this.cacheSize + 4;
+  }
+
+  encodeBit(probs: Uint16Array, index: number, bit: number): void {
+    const prob = probs[index]!;
+    const bound = (this.range >>> 11) * prob;
+    if (bit === 0) {
+      this.range = bound;
+      probs[index] = prob + ((2048 - prob) >>> 5);
+    } else {
+      this.low += bound;
+      this.range -= bound;
+      probs[index] = prob - (prob >>> 5);
+    }
+    while (this.range < 0x01000000) {
+      this.range = (this.range * 256) >>> 0;
+      this.shiftLow();
+    }
+  }
+
+  encodeDirectBits(value: number, count: number): void {
+    for (let i = count - 1; i >= 0; i -= 1) {
+      this.range >>>= 1;
+      if (((value >>> i) & 1) === 1) this.low += this.range;
+      while (this.range < 0x01000000) {
+        this.range = (this.range * 256) >>> 0;
+        this.shiftLow();
+      }
+    }
+  }
+
+  /** Return the bytes settled so far (no carry can reach them) without ending the stream. */
+  drain(): Uint8Array {
+    const out = this.buffer.slice(0, this.length);
+    this.length = 0;
+    return out;
+  }
+
+  /** Flush pending state, return the encoded bytes, and reset for the next chunk. */
+  finish(): Uint8Array {
+    for (let i = 0; i < 5; i += 1) this.shiftLow();
+    const out = this.buffer.slice(0, this.length);
+    this.low = 0;
+    this.range = 0xffffffff;
+    this.cache = 0;
+    this.cacheSize = 1;
+    this.length = 0;
+    return out;
+  }
+
+  private shiftLow(): void {
+    if (this.low < 0xff000000 || this.low >= 0x100000000) {
+      const carry = this.low >= 0x100000000 ? 1 : 0;
+      let temp = this.cache;
+      do {
+        this.writeByte((temp + carry) & 0xff);
+        temp = 0xff;
+        this.cacheSize -= 1;
+      } while (this.cacheSize !== 0);
+      this.cache = (this.low >>> 24) & 0xff;
+    }
+    this.cacheSize += 1;
+    this.low = (this.low & 0x00ffffff) * 256;
+  }
+
+  private writeByte(value: number): void {
+    if (this.length === this.buffer.length) {
+      const next = new Uint8Array(this.buffer.length * 2);
+      next.set(this.buffer);
+      this.buffer = next;
+    }
+    this.buffer[this.length++] = value;
+  }
+}
+
+/**
+ * Streaming LZMA symbol encoder with a hash-chain match finder.
+ *
+ * Positions are tracked relative to the start of the current dictionary (one xz
+ * Block or one raw LZMA stream). Callers feed bytes with `write()` and drain them
+ * with `encode()`, which stops at the caller-supplied uncompressed/compressed
+ * bounds so container framing (LZMA2 chunks) can cut on exact symbol boundaries.
+ */
+export class LzmaEncoder {
+  private readonly dictionarySize: number;
+  private readonly niceLength: number;
+  private readonly depth: number;
+  private readonly maxWindowBytes: number;
+  private window = new Uint8Array(INITIAL_WINDOW_BYTES);
+  private chain = new Int32Array(INITIAL_WINDOW_BYTES);
+  private readonly head = new Int32Array(HASH_SIZE).fill(-1);
+  private windowOffset = 0;
+  private pos = 0;
+  private end = 0;
+  private pinned = 0;
+  private encodedSinceAbortCheck = 0;
+  private matchLength = 0;
+  private matchDistance = 0;
+
+  private state = 0;
+  private reps: [number, number, number, number] = [0, 0, 0, 0];
+  private readonly isMatch = new Uint16Array(K_NUM_STATES * K_NUM_POS_STATES_MAX);
+  private readonly isRep = new Uint16Array(K_NUM_STATES);
+  private readonly isRepG0 = new Uint16Array(K_NUM_STATES);
+  private readonly isRepG1 = new Uint16Array(K_NUM_STATES);
+  private readonly isRepG2 = new Uint16Array(K_NUM_STATES);
+  private readonly isRep0Long = new Uint16Array(K_NUM_STATES * K_NUM_POS_STATES_MAX);
+  private readonly posSlot = new Uint16Array(K_NUM_LEN_TO_POS_STATES * (1 << K_NUM_POS_SLOT_BITS));
+  private readonly posEncoders = new Uint16Array(K_NUM_FULL_DISTANCES);
+  private readonly align = new Uint16Array(1 << K_NUM_ALIGN_BITS);
+  private readonly lenEncoder = new LenEncoder();
+  private readonly repLenEncoder = new LenEncoder();
+  private readonly literalProbs = new Uint16Array(0x300 << (LZMA_LC + LZMA_LP));
+
+  constructor(
+    config: LzmaEncoderConfig,
+    private readonly signal?: AbortSignal,
+    chunkBytes = 0
+  ) {
+    this.dictionarySize = config.dictionarySize;
+    this.niceLength = Math.min(config.niceLength, LZMA_MATCH_LEN_MAX);
+    this.depth = Math.max(1, config.depth);
+    const retained = Math.max(this.dictionarySize, chunkBytes);
+    this.maxWindowBytes = retained + Math.max(this.dictionarySize >>> 1, MIN_WINDOW_SLACK_BYTES);
+    this.resetModel();
+  }
+
+  /** Uncompressed bytes encoded since the dictionary start. */
+  get position(): number {
+    return this.windowOffset + this.pos;
+  }
+
+  /** Bytes written but not yet encoded. */
+  get buffered(): number {
+    return this.end - this.pos;
+  }
+
+  /** Reset probabilities, state, and rep distances (LZMA2 state reset + new properties). */
+  resetModel(): void {
+    this.state = 0;
+    this.reps = [0, 0, 0, 0];
+    initProbs(this.isMatch);
+    initProbs(this.isRep);
+    initProbs(this.isRepG0);
+    initProbs(this.isRepG1);
+    initProbs(this.isRepG2);
+    initProbs(this.isRep0Long);
+    initProbs(this.posSlot);
+    initProbs(this.posEncoders);
+    initProbs(this.align);
+    initProbs(this.literalProbs);
+    this.lenEncoder.reset();
+    this.repLenEncoder.reset();
+  }
+
+  /** Keep bytes from absolute position `position` onward available to `copy()`. */
+  pin(position: number): void {
+    this.pinned = position;
+  }
+
+  /** Copy already-written bytes in `[start, end)` (absolute positions). */
+  copy(start: number, end: number): Uint8Array {
+    return this.window.slice(start - this.windowOffset, end - this.windowOffset);
+  }
+
+  /** Buffer as much of `chunk` as fits; returns the number of bytes accepted. */
+  write(chunk: Uint8Array): number {
+    if (this.end === this.window.length) this.makeRoom();
+    const take = Math.min(chunk.length, this.window.length - this.end);
+    this.window.set(chunk.subarray(0, take), this.end);
+    this.end += take;
+    return take;
+  }
+
+  /**
+   * Encode buffered bytes into `rc`.
+   * Stops before `limitPosition`, once `rc` reaches `maxCompressedBytes`, or when
+   * lookahead is short of a full match and `isFinishing` is false.
+   */
+  encode(rc: RangeEncoder, isFinishing: boolean, limitPosition: number, maxCompressedBytes: number): void {
+    while (this.pos < this.end) {
+      const available = this.end - this.pos;
+      if (!isFinishing && available < LZMA_MATCH_LEN_MAX) return;
+      const remaining = limitPosition - this.position;
+      if (remaining <= 0) return;
+      if (rc.pendingBytes >= maxCompressedBytes) return;
+      const maxLength = Math.min(available, LZMA_MATCH_LEN_MAX, remaining);
+      const consumed = this.encodeNext(rc, maxLength);
+      this.encodedSinceAbortCheck += consumed;
+      if (this.signal && this.encodedSinceAbortCheck > ABORT_CHECK_MASK) {
+        this.encodedSinceAbortCheck = 0;
+        throwIfAborted(this.signal);
+      }
+    }
+  }
+
+  /** Encode the LZMA end-of-payload marker (distance 0xFFFFFFFF). */
+  encodeEndMarker(rc: RangeEncoder): void {
+    const posState = this.position & ((1 << LZMA_PB) - 1);
+    rc.encodeBit(this.isMatch, (this.state << K_NUM_POS_BITS_MAX) + posState, 1);
+    rc.encodeBit(this.isRep, this.state, 0);
+    this.lenEncoder.encode(rc, 0, posState);
+    this.encodeDistance(rc, 0xffffffff, 0);
+  }
+
+  private encodeNext(rc: RangeEncoder, maxLength: number): number {
+    const pos = this.pos;
+    const window = this.window;
+    const absolute = this.position;
+    const posState = absolute & ((1 << LZMA_PB) - 1);
+
+    let repLength = 0;
+    let repIndex = 0;
+    if (maxLength >= K_MATCH_MIN_LEN) {
+      for (let i = 0; i < 4; i += 1) {
+        const distance = this.reps[i]! + 1;
+        if (distance > absolute) continue;
+        const src = pos - distance;
+        if (window[src] !== window[pos] || window[src + 1] !== window[pos + 1]) continue;
+        const length = this.matchLengthAt(src, pos, maxLength);
+        if (length > repLength) {
+          repLength = length;
+          repIndex = i;
+        }
+      }
+    }
+
+    this.findMatch(pos, maxLength);
+    const mainLength = this.matchLength;
+    const mainDistance = this.matchDistance;
+    this.insert(pos);
+
+    if (
+      repLength >= K_MATCH_MIN_LEN &&
+      (repLength + 1 >= mainLength ||
+        (repLength + 2 >= mainLength && mainLength > 9) ||
+        (repLength + 3 >= mainLength && mainLength > 15))
+    ) {
+      this.encodeRepMatch(rc, repIndex, repLength, posState);
+      this.skip(repLength);
+      return repLength;
+    }
+
+    if (mainLength >= 3 && !(mainLength === 3 && mainDistance > 0x4000)) {
+      let isLazyLiteral = false;
+      if (mainLength < this.niceLength && maxLength > mainLength) {
+        this.findMatch(pos + 1, maxLength - 1);
+        if (
+          this.matchLength > mainLength ||
+          (this.matchLength === mainLength && this.matchDistance < mainDistance >>> 7)
+        ) {
+          isLazyLiteral = true;
+        }
+      }
+      if (!isLazyLiteral) {
+        this.encodeMatch(rc, mainDistance - 1, mainLength, posState);
+        this.skip(mainLength);
+        return mainLength;
+      }
+    }
+
+    const current = window[pos]!;
+    const rep0 = this.reps[0] + 1;
+    if (rep0 <= absolute && window[pos - rep0] === current) {
+      rc.encodeBit(this.isMatch, (this.state << K_NUM_POS_BITS_MAX) + posState, 1);
+      rc.encodeBit(this.isRep, this.state, 1);
+      rc.encodeBit(this.isRepG0, this.state, 0);
+      rc.encodeBit(this.isRep0Long, (this.state << K_NUM_POS_BITS_MAX) + posState, 0);
+      this.state = this.state < K_NUM_LIT_STATES ? 9 : 11;
+    } else {
+      this.encodeLiteral(rc, current, absolute, posState);
+    }
+    this.skip(1);
+    return 1;
+  }
+
+  private encodeLiteral(rc: RangeEncoder, symbol: number, absolute: number, posState: number): void {
+    rc.encodeBit(this.isMatch, (this.state << K_NUM_POS_BITS_MAX) + posState, 0);
+    const prevByte = absolute > 0 ? this.window[this.pos - 1]! : 0;
+    const context = ((absolute & ((1 << LZMA_LP) - 1)) << LZMA_LC) + (prevByte >> (8 - LZMA_LC));
+    const base = context * 0x300;
+    const probs = this.literalProbs;
+    let m = 1;
+    if (this.state < K_NUM_LIT_STATES) {
+      for (let i = 7; i >= 0; i -= 1) {
+        const bit = (symbol >>> i) & 1;
+        rc.encodeBit(probs, base + m, bit);
+        m = (m << 1) | bit;
+      }
+    } else {
+      const matchByte = this.window[this.pos - this.reps[0] - 1]!;
+      let isMatched = true;
+      for (let i = 7; i >= 0; i -= 1) {
+        const bit = (symbol >>> i) & 1;
+        if (isMatched) {
+          const matchBit = (matchByte >>> i) & 1;
+          rc.encodeBit(probs, base + 0x100 + (matchBit << 8) + m, bit);
+          isMatched = matchBit === bit;
+        } else {
+          rc.encodeBit(probs, base + m, bit);
+        }
+        m = (m << 1) | bit;
+      }
+    }
+    this.state = this.state < 4 ? 0 : this.state < 10 ? this.state - 3 : this.state - 6;
+  }
+
+  private encodeMatch(rc: RangeEncoder, distance: number, length: number, posState: number): void {
+    rc.encodeBit(this.isMatch, (this.state << K_NUM_POS_BITS_MAX) + posState, 1);
+    rc.encodeBit(this.isRep, this.state, 0);
+    const lengthSymbol = length - K_MATCH_MIN_LEN;
+    this.lenEncoder.encode(rc, lengthSymbol, posState);
+    this.encodeDistance(rc, distance, lengthSymbol);
+    this.reps = [distance, this.reps[0], this.reps[1], this.reps[2]];
+    this.state = this.state < K_NUM_LIT_STATES ? 7 : 10;
+  }
+
+  private encodeDistance(rc: RangeEncoder, distance: number, lengthSymbol: number): void {
+    const lenToPosState = lengthSymbol < K_NUM_LEN_TO_POS_STATES ? lengthSymbol : K_NUM_LEN_TO_POS_STATES - 1;
+    const slot = getPosSlot(distance);
+    encodeBitTree(rc, this.posSlot, lenToPosState << K_NUM_POS_SLOT_BITS, K_NUM_POS_SLOT_BITS, slot);
+    if (slot < 4) return;
+    const footerBits = (slot >>> 1) - 1;
+    const base = (2 | (slot & 1)) * 2 ** footerBits;
+    const reduced = distance - base;
+    if (slot < K_END_POS_MODEL_INDEX) {
+      encodeReverseBitTree(rc, this.posEncoders, base - slot, footerBits, reduced);
+    } else {
+      rc.encodeDirectBits(reduced >>> K_NUM_ALIGN_BITS, footerBits - K_NUM_ALIGN_BITS);
+      encodeReverseBitTree(rc, this.align, 0, K_NUM_ALIGN_BITS, reduced & ((1 << K_NUM_ALIGN_BITS) - 1));
+    }
+  }
+
+  private encodeRepMatch(rc: RangeEncoder, repIndex: number, length: number, posState: number): void {
+    rc.encodeBit(this.isMatch, (this.state << K_NUM_POS_BITS_MAX) + posState, 1);
+    rc.encodeBit(this.isRep, this.state, 1);
+    const [rep0, rep1, rep2, rep3] = this.reps;
+    if (repIndex === 0) {
+      rc.encodeBit(this.isRepG0, this.state, 0);
+      rc.encodeBit(this.isRep0Long, (this.state << K_NUM_POS_BITS_MAX) + posState, 1);
+    } else {
+      rc.encodeBit(this.isRepG0, this.state, 1);
+      if (repIndex === 1) {
+        rc.encodeBit(this.isRepG1, this.state, 0);
+        this.reps = [rep1, rep0, rep2, rep3];
+      } else {
+        rc.encodeBit(this.isRepG1, this.state, 1);
+        if (repIndex === 2) {
+          rc.encodeBit(this.isRepG2, this.state, 0);
+          this.reps = [rep2, rep0, rep1, rep3];
+        } else {
+          rc.encodeBit(this.isRepG2, this.state, 1);
+          this.reps = [rep3, rep0, rep1, rep2];
+        }
+      }
+    }
+    this.repLenEncoder.encode(rc, length - K_MATCH_MIN_LEN, posState);
+    this.state = this.state < K_NUM_LIT_STATES ? 8 : 11;
+  }
+
+  private findMatch(pos: number, maxLength: number): void {
+    this.matchLength = 0;
+    this.matchDistance = 0;
+    if (maxLength < 3 || pos + 3 > this.end) return;
+    const window = this.window;
+    let candidate = this.head[hash3(window, pos)]!;
+    let remaining = this.depth;
+    let bestLength = 2;
+    while (candidate >= 0 && remaining > 0) {
+      remaining -= 1;
+      const distance = pos - candidate;
+      if (distance > this.dictionarySize) break;
+      if (window[candidate + bestLength] === window[pos + bestLength] && window[candidate] === window[pos]) {
+        const length = this.matchLengthAt(candidate, pos, maxLength);
+        if (length > bestLength) {
+          bestLength = length;
+          this.matchLength = length;
+          this.matchDistance = distance;
+          if (length >= this.niceLength || length === maxLength) break;
+        }
+      }
+      candidate = this.chain[candidate]!;
+    }
+  }
+
+  private matchLengthAt(src: number, pos: number, maxLength: number): number {
+    const window = this.window;
+    let length = 0;
+    while (length < maxLength && window[src + length] === window[pos + length]) length += 1;
+    return length;
+  }
+
+  private insert(pos: number): void {
+    if (pos + 3 > this.end) return;
+    const hash = hash3(this.window, pos);
+    this.chain[pos] = this.head[hash]!;
+    this.head[hash] = pos;
+  }
+
+  private skip(length: number): void {
+    for (let i = 1; i < length; i += 1) this.insert(this.pos + i);
+    this.pos += length;
+  }
+
+  private makeRoom(): void {
+    if (this.window.length < this.maxWindowBytes) {
+      const size = Math.min(this.maxWindowBytes, this.window.length * 2);
+      const window = new Uint8Array(size);
+      window.set(this.window.subarray(0, this.end));
+      const chain = new Int32Array(size);
+      chain.set(this.chain.subarray(0, this.end));
+      this.window = window;
+      this.chain = chain;
+      return;
+    }
+    const keep = Math.max(0, Math.min(this.pos - this.dictionarySize, this.pinned - this.windowOffset));
+    if (keep === 0) return;
+    this.window.copyWithin(0, keep, this.end);
+    this.chain.copyWithin(0, keep, this.end);
+    const retained = this.end - keep;
+    for (let i = 0; i < retained; i += 1) {
+      const value = this.chain[i]! - keep;
+      this.chain[i] = value < 0 ? -1 : value;
+    }
+    for (let i = 0; i < HASH_SIZE; i += 1) {
+      const value = this.head[i]!;
+      if (value >= 0) this.head[i] = value - keep < 0 ? -1 : value - keep;
+    }
+    this.windowOffset += keep;
+    this.pos -= keep;
+    this.end = retained;
+  }
+}
+
+class LenEncoder {
+  private readonly choice = new Uint16Array(2);
+  private readonly low = new Uint16Array(K_NUM_POS_STATES_MAX << K_LEN_NUM_LOW_BITS);
+  private readonly mid = new Uint16Array(K_NUM_POS_STATES_MAX << K_LEN_NUM_LOW_BITS);
+  private readonly high = new Uint16Array(K_LEN_NUM_HIGH_SYMBOLS);
+
+  reset(): void {
+    initProbs(this.choice);
+    initProbs(this.low);
+    initProbs(this.mid);
+    initProbs(this.high);
+  }
+
+  encode(rc: RangeEncoder, symbol: number, posState: number): void {
+    if (symbol < K_LEN_NUM_LOW_SYMBOLS) {
+      rc.encodeBit(this.choice, 0, 0);
+      encodeBitTree(rc, this.low, posState << K_LEN_NUM_LOW_BITS, K_LEN_NUM_LOW_BITS, symbol);
+      return;
+    }
+    rc.encodeBit(this.choice, 0, 1);
+    if (symbol < K_LEN_NUM_LOW_SYMBOLS * 2) {
+      rc.encodeBit(this.choice, 1, 0);
+      encodeBitTree(rc, this.mid, posState << K_LEN_NUM_LOW_BITS, K_LEN_NUM_LOW_BITS, symbol - K_LEN_NUM_LOW_SYMBOLS);
+      return;
+    }
+    rc.encodeBit(this.choice, 1, 1);
+    encodeBitTree(rc, this.high, 0, K_LEN_NUM_HIGH_BITS, symbol - K_LEN_NUM_LOW_SYMBOLS * 2);
+  }
+}
+
+function initProbs(probs: Uint16Array): void {
+  probs.fill(1024);
+}
+
+function encodeBitTree(
+  rc: RangeEncoder,
+  probs: Uint16Array,
+  offset: number,
+  bits: number,
+  symbol: number
+): void {
+  let m = 1;
+  for (let i = bits - 1; i >= 0; i -= 1) {
+    const bit = (symbol >>> i) & 1;
+    rc.encodeBit(probs, offset + m, bit);
+    m = (m << 1) | bit;
+  }
+}
+
+function encodeReverseBitTree(
+  rc: RangeEncoder,
+  probs: Uint16Array,
+  offset: number,
+  bits: number,
+  symbol: number
+): void {
+  let m = 1;
+  for (let i = 0; i < bits; i += 1) {
+    const bit = (symbol >>> i) & 1;
+    rc.encodeBit(probs, offset + m, bit);
+    m = (m << 1) | bit;
+  }
+}
+
+function getPosSlot(distance: number): number {
+  if (distance < 4) return distance;
+  const bits = 31 - Math.clz32(distance);
+  return (bits << 1) | ((distance >>> (bits - 1)) & 1);
+}
+
+function hash3(window: Uint8Array, pos: number): number {
+  const value = window[pos]! | (window[pos + 1]! << 8) | (window[pos + 2]! << 16);
+  return Math.imul(value, 0x9e3779b1) >>> (32 - HASH_BITS);
+}
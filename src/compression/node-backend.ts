@@ -13,6 +13,15 @@ import {
   constants
 } from 'node:zlib';
 import type { CompressionAlgorithm, CompressionMode, CompressionTransformOptions } from './streams.js';
+import type { ZipDeflateStrategy } from './types.js';
+
+const DEFLATE_STRATEGIES: Record<ZipDeflateStrategy, number> = {
+  default: constants.Z_DEFAULT_STRATEGY,
+  filtered: constants.Z_FILTERED,
+  'huffman-only': constants.Z_HUFFMAN_ONLY,
+  rle: constants.Z_RLE,
+  fixed: constants.Z_FIXED
+};
 
 function toWebTransform(duplex: Duplex, signal?: AbortSignal): ReadableWritablePair<Uint8Array, Uint8Array> {
   if (signal) {
@@ -85,7 +94,10 @@ function create(
     case 'deflate-raw': {
       const stream =
         mode === 'compress'
-          ? createDeflateRaw(options?.level !== undefined ? { level: options.level } : undefined)
+          ? createDeflateRaw({
+              ...(options?.level !== undefined ? { level: options.level } : {}),
+              ...(options?.strategy !== undefined ? { strategy: DEFLATE_STRATEGIES[options.strategy] } : {})
+            })
           : createInflateRaw();
       return toWebTransform(stream, signal);
     }
@@ -107,12 +119,17 @@ function create(
       if (!supports('zstd', mode)) {
         throw new Error('Zstandard not supported in this Node runtime');
       }
-      const params =
-        options?.level !== undefined
-          ? { params: { [constants.ZSTD_c_compressionLevel]: options.level } }
-          : undefined;
+      const dictionary = options?.dictionary ? { dictionary: options.dictionary } : {};
       const stream =
-        mode === 'compress' ? createZstdCompress(params) : createZstdDecompress();
+        mode === 'compress'
+          ? createZstdCompress({
+              params: {
+                ...(options?.level !== undefined ? { [constants.ZSTD_c_compressionLevel]: options.level } : {}),
+                ...(options?.windowLog !== undefined ? { [constants.ZSTD_c_windowLog]: options.windowLog } : {})
+              },
+              ...dictionary
+            })
+          : createZstdDecompress(dictionary);
       return toWebTransform(stream, signal);
     }
     case 'bzip2': {
@@ -1,7 +1,16 @@
 import type { ZipCompressionCodec } from './types.js';
-import { DEFLATE64_CODEC, DEFLATE_CODEC, STORE_CODEC, ZSTD_CODEC } from './codecs.js';
+import {
+  BZIP2_CODEC,
+  DEFLATE64_CODEC,
+  DEFLATE_CODEC,
+  LZMA_CODEC,
+  STORE_CODEC,
+  XZ_CODEC,
+  ZSTD_CODEC
+} from './codecs.js';
 
 const codecs = new Map<number, ZipCompressionCodec>();
+const builtins = new Map<number, ZipCompressionCodec>();
 let builtinsRegistered = false;
 
 /** Register a custom ZIP compression codec by method id. */
@@ -19,6 +28,12 @@ export function hasCompressionCodec(methodId: number): boolean {
   return codecs.has(methodId);
 }
 
+/** Check whether a method is still served by its built-in codec (not replaced by a custom registration). */
+export function isBuiltinCompressionCodec(methodId: number): boolean {
+  const codec = codecs.get(methodId);
+  return codec !== undefined && builtins.get(methodId) === codec;
+}
+
 /** List all registered ZIP compression codecs. */
 export function listCompressionCodecs(): ZipCompressionCodec[] {
   return [...codecs.values()];
@@ -27,10 +42,10 @@ export function listCompressionCodecs(): ZipCompressionCodec[] {
 function registerBuiltins(): void {
   if (builtinsRegistered) return;
   builtinsRegistered = true;
-  registerCompressionCodec(STORE_CODEC);
-  registerCompressionCodec(DEFLATE_CODEC);
-  registerCompressionCodec(ZSTD_CODEC);
-  registerCompressionCodec(DEFLATE64_CODEC);
+  for (const codec of [STORE_CODEC, DEFLATE_CODEC, ZSTD_CODEC, DEFLATE64_CODEC, BZIP2_CODEC, LZMA_CODEC, XZ_CODEC]) {
+    builtins.set(codec.methodId, codec);
+    registerCompressionCodec(codec);
+  }
 }
 
 registerBuiltins();
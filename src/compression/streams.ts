@@ -1,7 +1,10 @@
 import { ZipError } from '../errors.js';
 import { createBzip2DecompressStream } from './bzip2.js';
+import { createBzip2CompressStream } from './bzip2Encoder.js';
 import { createXzDecompressStream } from './xz.js';
-import type { CompressionProfile } from '../compress/types.js';
+import { createXzCompressStream } from './xzEncoder.js';
+import type { CompressionProfile, XzCheck } from '../compress/types.js';
+import type { ZipDeflateStrategy } from './types.js';
 
 export type CompressionAlgorithm = 'gzip' | 'deflate' | 'deflate-raw' | 'brotli' | 'zstd' | 'bzip2' | 'xz';
 export type CompressionMode = 'compress' | 'decompress';
@@ -17,11 +20,15 @@ export interface CompressionTransformOptions {
   onProgress?: (event: CompressionProgress) => void;
   level?: number;
   quality?: number;
+  strategy?: ZipDeflateStrategy;
+  windowLog?: number;
+  dictionary?: Uint8Array;
   maxOutputBytes?: bigint | number;
   maxCompressionRatio?: number;
   maxDictionaryBytes?: bigint | number;
   maxBufferedInputBytes?: number;
   maxBzip2BlockSize?: number;
+  xzCheck?: XzCheck;
   /** @internal */
   __xzDebug?: {
     maxBufferedInputBytes?: number;
@@ -48,20 +55,29 @@ export async function supportsCompressionAlgorithm(
   algorithm: CompressionAlgorithm,
   mode: CompressionMode
 ): Promise<boolean> {
-  if (algorithm === 'bzip2') return mode === 'decompress';
-  if (algorithm === 'xz') return mode === 'decompress';
+  if (algorithm === 'bzip2' || algorithm === 'xz') return true;
   if (await nodeSupports(algorithm, mode)) return true;
   return supportsWebCompression(algorithm, mode);
 }
 
+/** Whether `level` reaches the compressor; Web `CompressionStream` has no level setting. */
+export async function supportsCompressionLevel(algorithm: CompressionAlgorithm): Promise<boolean> {
+  if (algorithm === 'bzip2' || algorithm === 'xz') return true;
+  return nodeSupports(algorithm, 'compress');
+}
+
 async function createTransform(
   mode: CompressionMode,
   options: CompressionTransformOptions
 ): Promise<ReadableWritablePair<Uint8Array, Uint8Array>> {
   const { algorithm } = options;
   if (algorithm === 'bzip2') {
-    if (mode !== 'decompress') {
-      throw new ZipError('ZIP_UNSUPPORTED_METHOD', 'BZip2 compression is not supported');
+    if (mode === 'compress') {
+      const transform = createBzip2CompressStream({
+        ...(options.signal ? { signal: options.signal } : {}),
+        ...(options.level !== undefined ? { blockSize: options.level } : {})
+      });
+      return attachProgress(transform, options.onProgress);
     }
     const transform = createBzip2DecompressStream({
       ...(options.signal ? { signal: options.signal } : {}),
@@ -72,8 +88,13 @@ async function createTransform(
     return attachProgress(transform, options.onProgress);
   }
   if (algorithm === 'xz') {
-    if (mode !== 'decompress') {
-      throw new ZipError('ZIP_UNSUPPORTED_METHOD', 'XZ compression is not supported');
+    if (mode === 'compress') {
+      const transform = createXzCompressStream({
+        ...(options.signal ? { signal: options.signal } : {}),
+        ...(options.level !== undefined ? { level: options.level } : {}),
+        ...(options.xzCheck !== undefined ? { check: options.xzCheck } : {})
+      });
+      return attachProgress(transform, options.onProgress);
     }
     const transform = createXzDecompressStream({
       ...(options.signal ? { signal: options.signal } : {}),
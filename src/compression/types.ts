@@ -5,10 +5,31 @@ export type ZipCompressionStream = ReadableWritablePair<Uint8Array, Uint8Array>;
 export type ZipDecompressionOptions = {
   /** Abort signal for canceling codec setup or stream processing. */
   signal?: AbortSignal;
+  /** General-purpose bit flag of the entry being decoded (bits 1-2 are method-specific). */
+  flags?: number;
+  /** Uncompressed size recorded for the entry. */
+  uncompressedSize?: bigint;
+  /** Zstandard dictionary the entry was compressed with. */
+  dictionary?: Uint8Array;
+};
+
+/** Deflate match strategy (zlib `Z_DEFAULT_STRATEGY`, `Z_FILTERED`, `Z_HUFFMAN_ONLY`, `Z_RLE`, `Z_FIXED`). */
+export type ZipDeflateStrategy = 'default' | 'filtered' | 'huffman-only' | 'rle' | 'fixed';
+
+/** Codec tuning for ZIP entries; codecs ignore fields they do not support. */
+export type ZipCodecOptions = {
+  /** Compression level: deflate 0-9, zstd 1-22, bzip2 block size 1-9, LZMA/XZ preset 0-9. */
+  level?: number;
+  /** Deflate (method 8) match strategy. */
+  strategy?: ZipDeflateStrategy;
+  /** Zstandard window size as a power of two. */
+  windowLog?: number;
+  /** Zstandard dictionary; readers need the same dictionary to decode the entry. */
+  dictionary?: Uint8Array;
 };
 
 /** Options for ZIP compression streams. */
-export type ZipCompressionOptions = {
+export type ZipCompressionOptions = ZipCodecOptions & {
   /** Abort signal for canceling codec setup or stream processing. */
   signal?: AbortSignal;
 };
@@ -25,4 +46,6 @@ export type ZipCompressionCodec = {
   createDecompressStream(options?: ZipDecompressionOptions): ZipCompressionStream | Promise<ZipCompressionStream>;
   /** Creates a compression stream for this codec when encoding is supported. */
   createCompressStream?(options?: ZipCompressionOptions): ZipCompressionStream | Promise<ZipCompressionStream>;
+  /** Method-specific general-purpose flag bits (1-2) the writer records for entries this codec compresses. */
+  generalPurposeFlags?(options?: ZipCompressionOptions): number | Promise<number>;
 };
@@ -928,7 +928,16 @@ class Lzma2StreamDecoder {
   }
 }
 
-class LzmaDecoder {
+/**
+ * Controls for decoding a raw LZMA1 stream incrementally (ZIP method 14).
+ * `inputReserve` stops before a symbol whose bits might not be buffered yet.
+ */
+export type LzmaDecodeMode = {
+  allowEndMarker: boolean;
+  inputReserve: number;
+};
+
+export class LzmaDecoder {
   private lc = 0;
   private lp = 0;
   private pb = 0;
@@ -984,10 +993,12 @@ class LzmaDecoder {
     this.reps = [0, 0, 0, 0];
   }
 
-  decode(range: RangeDecoder, expectedOutput: number): void {
+  /** Decode up to `expectedOutput` bytes; returns true when an end-of-payload marker was consumed. */
+  decode(range: RangeDecoder, expectedOutput: number, mode?: LzmaDecodeMode): boolean {
     const target = this.dict.written + expectedOutput;
     const pbMask = (1 << this.pb) - 1;
     while (this.dict.written < target) {
+      if (mode && range.available < mode.inputReserve) return false;
       if (this.signal && (this.dict.written & 0x3fff) === 0) {
         throwIfAborted(this.signal);
       }
@@ -1051,6 +1062,10 @@ class LzmaDecoder {
             distance += decodeReverseBitTree(range, this.align, 0, K_NUM_ALIGN_BITS);
           }
         }
+        if (distance >>> 0 === 0xffffffff) {
+          if (mode?.allowEndMarker) return true;
+          throw lzmaBadData('Unexpected LZMA end marker');
+        }
         this.reps = [distance, this.reps[0], this.reps[1], this.reps[2]];
         this.state = updateStateMatch(this.state);
       }
@@ -1060,6 +1075,7 @@ class LzmaDecoder {
       }
       this.dict.copyMatch(this.reps[0] + 1, length);
     }
+    return false;
   }
 }
 
@@ -1087,7 +1103,7 @@ class LenDecoder {
   }
 }
 
-class Dictionary {
+export class Dictionary {
   private readonly buffer: Uint8Array;
   private pos = 0;
   private full = false;
@@ -1251,12 +1267,13 @@ class OutputSink {
   }
 }
 
-type DataCheck = {
+/** Incremental integrity check for one XZ block (shared with the encoder). */
+export type DataCheck = {
   update(chunk: Uint8Array): void;
   digestBytes(): Uint8Array;
 };
 
-function createCheck(checkType: number, skip: boolean): DataCheck | null {
+export function createCheck(checkType: number, skip: boolean): DataCheck | null {
   if (skip || checkType === 0x00) return null;
   if (checkType === 0x01) {
     const crc = new Crc32();
@@ -1296,16 +1313,16 @@ function createCheck(checkType: number, skip: boolean): DataCheck | null {
   return null;
 }
 
-class RangeDecoder {
+export class RangeDecoder {
   private range = 0xffffffff;
   private code = 0;
   private pos: number;
-  readonly limit: number;
+  private end: number;
 
-  constructor(private readonly buffer: Uint8Array, start: number, size: number) {
+  constructor(private buffer: Uint8Array, start: number, size: number) {
     if (size < 5) throw lzmaBadData('Truncated LZMA stream');
     this.pos = start;
-    this.limit = start + size;
+    this.end = start + size;
     for (let i = 0; i < 5; i += 1) {
       this.code = ((this.code << 8) | this.readByte()) >>> 0;
     }
@@ -1315,6 +1332,26 @@ class RangeDecoder {
     return this.pos;
   }
 
+  get limit(): number {
+    return this.end;
+  }
+
+  /** Unread input bytes. */
+  get available(): number {
+    return this.end - this.pos;
+  }
+
+  /** Append input for a stream decoded across chunks, dropping bytes already read. */
+  append(chunk: Uint8Array): void {
+    const remaining = this.end - this.pos;
+    const next = new Uint8Array(remaining + chunk.length);
+    next.set(this.buffer.subarray(this.pos, this.end));
+    next.set(chunk, remaining);
+    this.buffer = next;
+    this.pos = 0;
+    this.end = next.length;
+  }
+
   decodeBit(probs: Uint16Array, index: number): number {
     const prob = probs[index]!;
     const bound = ((this.range >>> 11) * prob) >>> 0;
@@ -1358,7 +1395,7 @@ class RangeDecoder {
   }
 
   private readByte(): number {
-    if (this.pos >= this.limit) {
+    if (this.pos >= this.end) {
       throw lzmaBadData('Truncated LZMA stream');
     }
     return this.buffer[this.pos++]!;
@@ -1568,6 +1605,6 @@ function xzTruncated(message: string): CompressionError {
   return new CompressionError('COMPRESSION_XZ_TRUNCATED', message, { algorithm: 'xz' });
 }
 
-function lzmaBadData(message: string): CompressionError {
+export function lzmaBadData(message: string): CompressionError {
   return new CompressionError('COMPRESSION_LZMA_BAD_DATA', message, { algorithm: 'xz' });
 }
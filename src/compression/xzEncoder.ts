@@ -0,0 +1,284 @@
+import { throwIfAborted } from '../abort.js';
+import { Crc32 } from '../crc32.js';
+import type { XzCheck } from '../compress/types.js';
+import { emitStable } from '../streams/emit.js';
+import {
+  LZMA_PROPERTIES_BYTE,
+  LzmaEncoder,
+  RangeEncoder,
+  encodeLzma2DictionarySize,
+  resolveLzmaPreset,
+  type LzmaEncoderConfig
+} from './lzmaEncoder.js';
+import { createCheck, type DataCheck } from './xz.js';
+
+export type XzCompressOptions = {
+  signal?: AbortSignal;
+  level?: number;
+  check?: XzCheck;
+};
+
+const HEADER_MAGIC = new Uint8Array([0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00]);
+const FOOTER_MAGIC = new Uint8Array([0x59, 0x5a]);
+const LZMA2_FILTER_ID = 0x21;
+const LZMA2_MAX_UNCOMPRESSED = 1 << 21;
+const LZMA2_MAX_COMPRESSED = 1 << 16;
+const LZMA2_COMPRESSED_MARGIN = 64;
+const LZMA2_MAX_STORED = 1 << 16;
+
+const CHECK_IDS: Record<XzCheck, number> = {
+  none: 0x00,
+  crc32: 0x01,
+  crc64: 0x04,
+  sha256: 0x0a
+};
+
+/**
+ * Create a pure-JS XZ compressor (single LZMA2 block per stream).
+ *
+ * Output is deterministic for identical input, level, and check.
+ */
+export function createXzCompressStream(options: XzCompressOptions = {}): ReadableWritablePair<Uint8Array, Uint8Array> {
+  const config = resolveLzmaPreset(options.level);
+  const check = options.check ?? 'crc64';
+  const checkType = CHECK_IDS[check];
+  if (checkType === undefined) {
+    throw new RangeError(`Unsupported XZ check: ${String(check)}`);
+  }
+  let encoder: XzStreamEncoder | null = null;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    start(controller) {
+      encoder = new XzStreamEncoder(config, checkType, (part) => emitStable(controller, part, { transfer: true }), options.signal);
+    },
+    transform(chunk) {
+      if (options.signal) throwIfAborted(options.signal);
+      if (!chunk || chunk.length === 0) return;
+      encoder?.push(chunk);
+    },
+    flush() {
+      if (options.signal) throwIfAborted(options.signal);
+      encoder?.finish();
+    }
+  });
+}
+
+class XzStreamEncoder {
+  private readonly check: DataCheck | null;
+  private readonly checkSize: number;
+  private readonly lzma2: Lzma2Encoder;
+  private readonly blockHeader: Uint8Array;
+  private hasBlock = false;
+  private blockCompressedBytes = 0;
+  private uncompressedBytes = 0;
+
+  constructor(
+    config: LzmaEncoderConfig,
+    private readonly checkType: number,
+    private readonly emit: (chunk: Uint8Array) => void,
+    signal?: AbortSignal
+  ) {
+    this.check = createCheck(checkType, false);
+    this.checkSize = checkSizeForId(checkType);
+    this.blockHeader = buildBlockHeader(encodeLzma2DictionarySize(config.dictionarySize));
+    this.lzma2 = new Lzma2Encoder(config, (part) => this.emitBlockData(part), signal);
+    this.emit(buildStreamHeader(checkType));
+  }
+
+  push(chunk: Uint8Array): void {
+    this.check?.update(chunk);
+    this.uncompressedBytes += chunk.length;
+    this.lzma2.write(chunk);
+  }
+
+  finish(): void {
+    const records: Array<{ unpaddedSize: number; uncompressedSize: number }> = [];
+    if (this.uncompressedBytes > 0) {
+      this.lzma2.finish();
+      const blockBytes = this.blockHeader.length + this.blockCompressedBytes;
+      const padding = (4 - (blockBytes % 4)) % 4;
+      const trailer = new Uint8Array(padding + this.checkSize);
+      if (this.check) trailer.set(this.check.digestBytes(), padding);
+      this.emit(trailer);
+      records.push({
+        unpaddedSize: blockBytes + this.checkSize,
+        uncompressedSize: this.uncompressedBytes
+      });
+    }
+    const index = buildIndex(records);
+    this.emit(index);
+    this.emit(buildStreamFooter(this.checkType, index.length));
+  }
+
+  private emitBlockData(part: Uint8Array): void {
+    if (!this.hasBlock) {
+      this.hasBlock = true;
+      this.emit(this.blockHeader.slice());
+    }
+    this.blockCompressedBytes += part.length;
+    this.emit(part);
+  }
+}
+
+/**
+ * LZMA2 chunk framing over the LZMA symbol encoder.
+ *
+ * Chunks that do not shrink are re-emitted as stored chunks; the next LZMA chunk
+ * then resets state and properties so decoders resynchronize.
+ */
+class Lzma2Encoder {
+  private readonly lzma: LzmaEncoder;
+  private readonly rc = new RangeEncoder();
+  private chunkStart = 0;
+  private needDictionaryReset = true;
+  private needProperties = true;
+
+  constructor(
+    config: LzmaEncoderConfig,
+    private readonly emit: (chunk: Uint8Array) => void,
+    signal?: AbortSignal
+  ) {
+    this.lzma = new LzmaEncoder(config, signal, LZMA2_MAX_UNCOMPRESSED);
+  }
+
+  write(chunk: Uint8Array): void {
+    let offset = 0;
+    while (offset < chunk.length) {
+      offset += this.lzma.write(chunk.subarray(offset));
+      this.encode(false);
+    }
+  }
+
+  finish(): void {
+    this.encode(true);
+    this.flushChunk();
+    this.emit(new Uint8Array([0x00]));
+  }
+
+  private encode(isFinishing: boolean): void {
+    while (true) {
+      const limit = this.chunkStart + LZMA2_MAX_UNCOMPRESSED;
+      const maxCompressed = LZMA2_MAX_COMPRESSED - LZMA2_COMPRESSED_MARGIN;
+      this.lzma.encode(this.rc, isFinishing, limit, maxCompressed);
+      if (this.lzma.position >= limit || this.rc.pendingBytes >= maxCompressed) {
+        this.flushChunk();
+        continue;
+      }
+      return;
+    }
+  }
+
+  private flushChunk(): void {
+    const end = this.lzma.position;
+    const size = end - this.chunkStart;
+    if (size === 0) return;
+    const compressed = this.rc.finish();
+    if (compressed.length >= size) {
+      this.emitStored(this.lzma.copy(this.chunkStart, end));
+      this.lzma.resetModel();
+      this.needProperties = true;
+    } else {
+      const control =
+        0x80 | (this.needDictionaryReset ? 0x60 : this.needProperties ? 0x40 : 0x00) | ((size - 1) >>> 16);
+      const header = new Uint8Array(this.needProperties ? 6 : 5);
+      header[0] = control;
+      header[1] = ((size - 1) >>> 8) & 0xff;
+      header[2] = (size - 1) & 0xff;
+      header[3] = ((compressed.length - 1) >>> 8) & 0xff;
+      header[4] = (compressed.length - 1) & 0xff;
+      if (this.needProperties) header[5] = LZMA_PROPERTIES_BYTE;
+      this.emit(header);
+      this.emit(compressed);
+      this.needDictionaryReset = false;
+      this.needProperties = false;
+    }
+    this.chunkStart = end;
+    this.lzma.pin(end);
+  }
+
+  private emitStored(data: Uint8Array): void {
+    for (let offset = 0; offset < data.length; offset += LZMA2_MAX_STORED) {
+      const piece = data.subarray(offset, Math.min(data.length, offset + LZMA2_MAX_STORED));
+      const out = new Uint8Array(3 + piece.length);
+      out[0] = this.needDictionaryReset ? 0x01 : 0x02;
+      out[1] = ((piece.length - 1) >>> 8) & 0xff;
+      out[2] = (piece.length - 1) & 0xff;
+      out.set(piece, 3);
+      this.emit(out);
+      this.needDictionaryReset = false;
+    }
+  }
+}
+
+function buildStreamHeader(checkType: number): Uint8Array {
+  const out = new Uint8Array(12);
+  out.set(HEADER_MAGIC, 0);
+  out[6] = 0x00;
+  out[7] = checkType;
+  writeUint32LE(out, 8, crc32Of(out.subarray(6, 8)));
+  return out;
+}
+
+function buildBlockHeader(dictionaryProps: number): Uint8Array {
+  // Header size byte, flags (one filter, no size fields), LZMA2 filter flags, padding, CRC32.
+  const out = new Uint8Array(12);
+  out[0] = out.length / 4 - 1;
+  out[1] = 0x00;
+  out[2] = LZMA2_FILTER_ID;
+  out[3] = 0x01;
+  out[4] = dictionaryProps;
+  writeUint32LE(out, 8, crc32Of(out.subarray(0, 8)));
+  return out;
+}
+
+function buildIndex(records: Array<{ unpaddedSize: number; uncompressedSize: number }>): Uint8Array {
+  const parts: number[] = [0x00, ...encodeVli(records.length)];
+  for (const record of records) {
+    parts.push(...encodeVli(record.unpaddedSize), ...encodeVli(record.uncompressedSize));
+  }
+  while (parts.length % 4 !== 0) parts.push(0x00);
+  const out = new Uint8Array(parts.length + 4);
+  out.set(parts);
+  writeUint32LE(out, parts.length, crc32Of(out.subarray(0, parts.length)));
+  return out;
+}
+
+function buildStreamFooter(checkType: number, indexSize: number): Uint8Array {
+  const out = new Uint8Array(12);
+  writeUint32LE(out, 4, indexSize / 4 - 1);
+  out[8] = 0x00;
+  out[9] = checkType;
+  writeUint32LE(out, 0, crc32Of(out.subarray(4, 10)));
+  out.set(FOOTER_MAGIC, 10);
+  return out;
+}
+
+function encodeVli(value: number): number[] {
+  const out: number[] = [];
+  let remaining = value;
+  while (remaining >= 0x80) {
+    out.push((remaining % 0x80) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  out.push(remaining);
+  return out;
+}
+
+function checkSizeForId(id: number): number {
+  if (id === 0x00) return 0;
+  if (id === 0x01) return 4;
+  if (id === 0x04) return 8;
+  return 32;
+}
+
+function crc32Of(bytes: Uint8Array): number {
+  const crc = new Crc32();
+  crc.update(bytes);
+  return crc.digest();
+}
+
+function writeUint32LE(out: Uint8Array, offset: number, value: number): void {
+  out[offset] = value & 0xff;
+  out[offset + 1] = (value >>> 8) & 0xff;
+  out[offset + 2] = (value >>> 16) & 0xff;
+  out[offset + 3] = (value >>> 24) & 0xff;
+}
@@ -0,0 +1,159 @@
+import { ArchiveError } from '../archive/errors.js';
+import type { ExtractTarget, ExtractTargetStat } from '../archive/types.js';
+
+type DenoFileInfo = { isFile: boolean; isDirectory: boolean; isSymlink: boolean; mtime: Date | null };
+type DenoFsApi = {
+  lstat: (path: string) => Promise<DenoFileInfo>;
+  realPath: (path: string) => Promise<string>;
+  mkdir: (path: string, options?: { recursive?: boolean }) => Promise<void>;
+  open: (path: string, options: { write: boolean; createNew: boolean }) => Promise<{ writable: WritableStream<Uint8Array> }>;
+  link: (oldPath: string, newPath: string) => Promise<void>;
+  rename: (oldPath: string, newPath: string) => Promise<void>;
+  remove: (path: string) => Promise<void>;
+  symlink: (target: string, path: string) => Promise<void>;
+  utime: (path: string, atime: Date, mtime: Date) => Promise<void>;
+  chmod: (path: string, mode: number) => Promise<void>;
+  chown: (path: string, uid: number | null, gid: number | null) => Promise<void>;
+  build: { os: string };
+  errors: { NotFound: abstract new (...args: never[]) => Error; AlreadyExists: abstract new (...args: never[]) => Error };
+};
+
+/**
+ * Create an `extractArchive` target rooted at `destDir` on the Deno filesystem APIs.
+ *
+ * Files are written to a sibling temp file and linked into place (or renamed over the old path when
+ * overwriting), and parents are re-checked with `Deno.realPath` against the root. `Deno.utime` and
+ * `Deno.chown` follow symlinks, so times and ownership are not restored on symlink entries.
+ */
+export function createDenoFsTarget(destDir: string | URL): ExtractTarget {
+  const deno = (globalThis as { Deno?: DenoFsApi }).Deno;
+  if (!deno) {
+    throw new Error('Deno global is not available in this runtime.');
+  }
+  const isWindows = deno.build.os === 'windows';
+  const separator = isWindows ? '\\' : '/';
+  const baseDir = (destDir instanceof URL ? fileUrlToPath(destDir, isWindows) : destDir).replace(/[\\/]+$/, '');
+  let baseRealDir: Promise<string> | undefined;
+  const ready = (): Promise<string> =>
+    (baseRealDir ??= deno.mkdir(baseDir, { recursive: true }).then(() => deno.realPath(baseDir)));
+  const resolvePath = (relativePath: string): string =>
+    relativePath ? `${baseDir}${separator}${relativePath.split('/').join(separator)}` : baseDir;
+  const containedPath = async (relativePath: string): Promise<string> => {
+    const rootRealPath = await ready();
+    const targetPath = resolvePath(relativePath);
+    const parentPath = targetPath.slice(0, targetPath.lastIndexOf(separator));
+    const parentRealPath = await deno.realPath(parentPath);
+    if (parentRealPath !== rootRealPath && !parentRealPath.startsWith(rootRealPath + separator)) {
+      throw new ArchiveError('ARCHIVE_PATH_TRAVERSAL', 'Parent path escapes destination directory', {
+        context: { path: relativePath }
+      });
+    }
+    return targetPath;
+  };
+  const tempPathFor = (targetPath: string): string => {
+    const split = targetPath.lastIndexOf(separator);
+    return `${targetPath.slice(0, split)}${separator}.${targetPath.slice(split + 1)}.bytefold-${crypto.randomUUID()}`;
+  };
+  const removeQuietly = async (path: string): Promise<void> => {
+    await deno.remove(path).catch((err: unknown) => {
+      if (!(err instanceof deno.errors.NotFound)) throw err;
+    });
+  };
+  const stat = async (path: string): Promise<DenoFileInfo | null> => {
+    try {
+      return await deno.lstat(path);
+    } catch (err) {
+      if (err instanceof deno.errors.NotFound) return null;
+      throw err;
+    }
+  };
+
+  return {
+    resolvePath,
+    async exists(relativePath) {
+      await ready();
+      const info = await stat(resolvePath(relativePath));
+      if (!info) return null;
+      const type: ExtractTargetStat['type'] = info.isSymlink
+        ? 'symlink'
+        : info.isDirectory
+          ? 'directory'
+          : info.isFile
+            ? 'file'
+            : 'other';
+      return { type, ...(info.mtime ? { mtime: info.mtime } : {}) };
+    },
+    async mkdir(relativePath) {
+      const targetPath = await containedPath(relativePath);
+      try {
+        await deno.mkdir(targetPath);
+      } catch (err) {
+        if (err instanceof deno.errors.AlreadyExists && (await stat(targetPath))?.isDirectory) return;
+        throw err;
+      }
+    },
+    async writeFile(relativePath, options) {
+      const targetPath = await containedPath(relativePath);
+      const tempPath = tempPathFor(targetPath);
+      const file = await deno.open(tempPath, { write: true, createNew: true });
+      const writer = file.writable.getWriter();
+      return new WritableStream<Uint8Array>({
+        async write(chunk) {
+          await writer.write(chunk);
+        },
+        async close() {
+          try {
+            await writer.close();
+            if (options.overwrite) {
+              await deno.rename(tempPath, targetPath);
+            } else {
+              await deno.link(tempPath, targetPath);
+            }
+          } finally {
+            await removeQuietly(tempPath);
+          }
+        },
+        async abort(reason) {
+          await writer.abort(reason).catch(() => {});
+          await removeQuietly(tempPath);
+        }
+      });
+    },
+    async symlink(linkTarget, relativePath, options) {
+      const targetPath = await containedPath(relativePath);
+      if (!options.overwrite) {
+        await deno.symlink(linkTarget, targetPath);
+        return;
+      }
+      const tempPath = tempPathFor(targetPath);
+      try {
+        await deno.symlink(linkTarget, tempPath);
+        await deno.rename(tempPath, targetPath);
+      } catch (err) {
+        await removeQuietly(tempPath).catch(() => {});
+        throw err;
+      }
+    },
+    async utimes(relativePath, atime, mtime) {
+      const targetPath = resolvePath(relativePath);
+      if ((await stat(targetPath))?.isSymlink) return;
+      await deno.utime(targetPath, atime, mtime);
+    },
+    async chmod(relativePath, mode) {
+      await deno.chmod(resolvePath(relativePath), mode);
+    },
+    async chown(relativePath, uid, gid) {
+      const targetPath = resolvePath(relativePath);
+      if ((await stat(targetPath))?.isSymlink) return;
+      await deno.chown(targetPath, uid ?? null, gid ?? null);
+    }
+  };
+}
+
+function fileUrlToPath(url: URL, isWindows: boolean): string {
+  if (url.protocol !== 'file:') {
+    throw new ArchiveError('ARCHIVE_UNSUPPORTED_FEATURE', 'Extraction targets require a file: URL or a path');
+  }
+  const pathname = decodeURIComponent(url.pathname);
+  return isWindows ? pathname.replace(/^\/([a-zA-Z]:)/, '$1').replace(/\//g, '\\') : pathname;
+}
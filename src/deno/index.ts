@@ -37,6 +37,11 @@ export type {
   ArchiveAuditReport,
   ArchiveDetectionReport,
   ArchiveEntry,
+  ArchiveExtractedEntry,
+  ArchiveExtractPreserveOptions,
+  ArchiveExtractReport,
+  ArchiveExtractSkippedEntry,
+  ArchiveExtractTargetOptions,
   ArchiveFormat,
   ArchiveInputKind,
   ArchiveIssue,
@@ -44,13 +49,24 @@ export type {
   ArchiveLimits,
   ArchiveNormalizeReport,
   ArchiveOpenOptions,
-  ArchiveProfile
+  ArchiveProfile,
+  ExtractTarget,
+  ExtractTargetStat,
+  GzipExtraSubfield,
+  GzipHeader
 } from '../archive/types.js';
 /** Unified archive reader/writer types. */
 export type { ArchiveReader, ArchiveWriter } from '../archive/index.js';
 /** Create archive writers from Deno runtime entrypoint. */
 export { createArchiveWriter } from '../archive/index.js';
 
+/** Runtime-neutral extraction and the in-memory target from Deno runtime entrypoint. */
+export { createMemoryTarget, extractArchive } from '../archive/extract.js';
+/** Memory extraction target types. */
+export type { MemoryExtractTarget, MemoryTargetEntry } from '../archive/extract.js';
+/** Deno filesystem extraction target for `extractArchive`. */
+export { createDenoFsTarget } from './extractTarget.js';
+
 /** ZIP APIs and ZIP-domain types from Deno runtime entrypoint. */
 export * from '../zip/index.js';
 /** TAR APIs and TAR-domain types from Deno runtime entrypoint. */
@@ -273,12 +289,13 @@ export async function zipToFile(
   const writer = ZipWriter.toWritable(file.writable, options);
   const close = writer.close.bind(writer);
   writer.close = async (...args: Parameters<typeof close>) => {
-    await close(...args);
+    const summary = await close(...args);
     try {
       file.close();
     } catch {
       // Deno may already close the resource when the stream closes.
     }
+    return summary;
   };
   return writer;
 }
@@ -292,12 +309,13 @@ export async function tarToFile(
   const writer = TarWriter.toWritable(file.writable, options);
   const close = writer.close.bind(writer);
   writer.close = async (...args: Parameters<typeof close>) => {
-    await close(...args);
+    const summary = await close(...args);
     try {
       file.close();
     } catch {
       // Deno may already close the resource when the stream closes.
     }
+    return summary;
   };
   return writer;
 }
@@ -109,6 +109,7 @@ export type ZipWarningCode =
   | 'ZIP_MULTIPLE_EOCD'
   | 'ZIP_BAD_EOCD'
   | 'ZIP_BAD_CENTRAL_DIRECTORY'
+  | 'ZIP_DISK_MISMATCH'
   | 'ZIP_BAD_CRC'
   | 'ZIP_INVALID_ENCODING'
   | 'ZIP_LIMIT_EXCEEDED'
@@ -19,6 +19,24 @@ export interface AesExtraValues {
   actualMethod: number;
 }
 
+export interface UnixOwnerValues {
+  uid: number;
+  gid: number;
+}
+
+export interface LegacyUnixExtraValues {
+  atime: Date;
+  mtime: Date;
+  uid?: number;
+  gid?: number;
+}
+
+/** Header ids of the NTFS (0x000a) and Info-ZIP Unix (0x7875, 0x5855) metadata fields. */
+export const PLATFORM_METADATA_EXTRA_IDS: readonly number[] = [0x000a, 0x7875, 0x5855];
+
+// 100ns ticks between the FILETIME epoch (1601-01-01) and the Unix epoch.
+const FILETIME_UNIX_EPOCH = 116444736000000000n;
+
 export function parseExtraFields(extra: Uint8Array): Map<number, Uint8Array> {
   const map = new Map<number, Uint8Array>();
   let offset = 0;
@@ -36,6 +54,21 @@ export function parseExtraFields(extra: Uint8Array): Map<number, Uint8Array> {
   return map;
 }
 
+/** Serialize header-id/data pairs back into an extra field block, in map order. */
+export function buildExtraFields(fields: Map<number, Uint8Array>): Uint8Array {
+  let total = 0;
+  for (const data of fields.values()) total += 4 + data.length;
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const [headerId, data] of fields) {
+    writeUint16LE(out, offset, headerId);
+    writeUint16LE(out, offset + 2, data.length);
+    out.set(data, offset + 4);
+    offset += 4 + data.length;
+  }
+  return out;
+}
+
 export function parseZip64Extra(
   data: Uint8Array,
   present: {
@@ -67,6 +100,15 @@ export function parseZip64Extra(
   return values;
 }
 
+/** Rebuild only the fields listed in `ids`, or return undefined when none are present. */
+export function pickExtraFields(fields: Map<number, Uint8Array>, ids: readonly number[]): Uint8Array | undefined {
+  const picked = new Map<number, Uint8Array>();
+  for (const [headerId, data] of fields) {
+    if (ids.includes(headerId)) picked.set(headerId, data);
+  }
+  return picked.size > 0 ? buildExtraFields(picked) : undefined;
+}
+
 export function buildZip64Extra(values: Zip64ExtraValues): Uint8Array {
   const parts: Uint8Array[] = [];
   let size = 0;
@@ -184,6 +226,110 @@ export function parseAesExtra(data: Uint8Array): AesExtraValues | undefined {
   };
 }
 
+export function buildInfoZipUnixExtra(values: UnixOwnerValues): Uint8Array {
+  // extrafld.txt: Info-ZIP New Unix extra field (0x7875), written with 4-byte ids.
+  const out = new Uint8Array(4 + 11);
+  writeUint16LE(out, 0, 0x7875);
+  writeUint16LE(out, 2, 11);
+  out[4] = 1; // version
+  out[5] = 4;
+  writeUint32LE(out, 6, values.uid);
+  out[10] = 4;
+  writeUint32LE(out, 11, values.gid);
+  return out;
+}
+
+export function parseInfoZipUnixExtra(data: Uint8Array): UnixOwnerValues | undefined {
+  if (data.length < 3 || data[0] !== 1) return undefined;
+  const uid = readVariableUint(data, 1);
+  if (!uid) return undefined;
+  const gid = readVariableUint(data, uid.end);
+  if (!gid) return undefined;
+  return { uid: uid.value, gid: gid.value };
+}
+
+export function parseNtfsExtra(data: Uint8Array): ExtendedTimestampValues {
+  // APPNOTE 6.3.10 section 4.5.5: 4 reserved bytes, then tagged attributes; tag 1 holds three FILETIMEs.
+  let offset = 4;
+  while (offset + 4 <= data.length) {
+    const tag = readUint16LE(data, offset);
+    const size = readUint16LE(data, offset + 2);
+    offset += 4;
+    if (offset + size > data.length) break;
+    if (tag === 0x0001 && size >= 24) {
+      return {
+        mtime: fileTimeToDate(readUint64LE(data, offset)),
+        atime: fileTimeToDate(readUint64LE(data, offset + 8)),
+        ctime: fileTimeToDate(readUint64LE(data, offset + 16))
+      };
+    }
+    offset += size;
+  }
+  return {};
+}
+
+export function buildNtfsExtra(values: ExtendedTimestampValues & { mtime: Date }): Uint8Array {
+  const out = new Uint8Array(4 + 32);
+  writeUint16LE(out, 0, 0x000a);
+  writeUint16LE(out, 2, 32);
+  writeUint16LE(out, 8, 0x0001);
+  writeUint16LE(out, 10, 24);
+  writeUint64LE(out, 12, dateToFileTime(values.mtime));
+  writeUint64LE(out, 20, dateToFileTime(values.atime ?? values.mtime));
+  writeUint64LE(out, 28, dateToFileTime(values.ctime ?? values.mtime));
+  return out;
+}
+
+export function parseLegacyUnixExtra(data: Uint8Array): LegacyUnixExtraValues | undefined {
+  // extrafld.txt: Info-ZIP Unix extra field type 1 (0x5855); uid/gid are only in the local-header form.
+  if (data.length < 8) return undefined;
+  const values: LegacyUnixExtraValues = {
+    atime: new Date(readUint32LE(data, 0) * 1000),
+    mtime: new Date(readUint32LE(data, 4) * 1000)
+  };
+  if (data.length >= 12) {
+    values.uid = readUint16LE(data, 8);
+    values.gid = readUint16LE(data, 10);
+  }
+  return values;
+}
+
+export function buildLegacyUnixExtra(values: LegacyUnixExtraValues): Uint8Array {
+  // The 16-bit ids travel as a pair; one alone is left out rather than padded with root.
+  const hasOwner = values.uid !== undefined && values.gid !== undefined;
+  const size = hasOwner ? 12 : 8;
+  const out = new Uint8Array(4 + size);
+  writeUint16LE(out, 0, 0x5855);
+  writeUint16LE(out, 2, size);
+  writeUint32LE(out, 4, Math.floor(values.atime.getTime() / 1000));
+  writeUint32LE(out, 8, Math.floor(values.mtime.getTime() / 1000));
+  if (hasOwner) {
+    writeUint16LE(out, 12, values.uid!);
+    writeUint16LE(out, 14, values.gid!);
+  }
+  return out;
+}
+
+function fileTimeToDate(ticks: bigint): Date {
+  return new Date(Number((ticks - FILETIME_UNIX_EPOCH) / 10000n));
+}
+
+function dateToFileTime(date: Date): bigint {
+  const ticks = BigInt(date.getTime()) * 10000n + FILETIME_UNIX_EPOCH;
+  return ticks < 0n ? 0n : ticks;
+}
+
+// Size-prefixed little-endian id; only ids that fit in a safe integer are accepted.
+function readVariableUint(data: Uint8Array, offset: number): { value: number; end: number } | undefined {
+  const size = data[offset];
+  if (size === undefined || size === 0 || size > 8 || offset + 1 + size > data.length) return undefined;
+  let value = 0;
+  for (let i = size - 1; i >= 0; i -= 1) {
+    value = value * 256 + data[offset + 1 + i]!;
+  }
+  return Number.isSafeInteger(value) ? { value, end: offset + 1 + size } : undefined;
+}
+
 function strengthToCode(strength: 128 | 192 | 256): 1 | 2 | 3 {
   switch (strength) {
     case 128:
@@ -12,6 +12,11 @@ export type {
   ArchiveAuditReport,
   ArchiveDetectionReport,
   ArchiveEntry,
+  ArchiveExtractedEntry,
+  ArchiveExtractPreserveOptions,
+  ArchiveExtractReport,
+  ArchiveExtractSkippedEntry,
+  ArchiveExtractTargetOptions,
   ArchiveFormat,
   ArchiveInputKind,
   ArchiveIssue,
@@ -19,7 +24,11 @@ export type {
   ArchiveLimits,
   ArchiveNormalizeReport,
   ArchiveOpenOptions,
-  ArchiveProfile
+  ArchiveProfile,
+  ExtractTarget,
+  ExtractTargetStat,
+  GzipExtraSubfield,
+  GzipHeader
 } from './archive/types.js';
 /** Resource-limit policy type shared across profiles. */
 export type { ResourceLimits } from './limits.js';
@@ -0,0 +1,43 @@
+import { chmod, lchown, lutimes, utimes } from 'node:fs/promises';
+import { resolveExtractMode, type ExtractPreserveSettings } from '../archive/extract.js';
+
+/**
+ * Entry metadata that extraction may restore on a written path.
+ * @internal
+ */
+export type ExtractMetadata = {
+  mode?: number | undefined;
+  mtime?: Date | undefined;
+  atime?: Date | undefined;
+  uid?: number | undefined;
+  gid?: number | undefined;
+};
+
+export { resolvePreserveSettings, type ExtractPreserveSettings } from '../archive/extract.js';
+
+/**
+ * Restore metadata on an extracted path. Symlinks get owner and times only (their mode is not portable).
+ * Ownership is applied before mode so a chown cannot clear restored setuid/setgid bits.
+ * @internal
+ */
+export async function applyExtractMetadata(
+  targetPath: string,
+  kind: 'file' | 'directory' | 'symlink',
+  metadata: ExtractMetadata,
+  settings: ExtractPreserveSettings
+): Promise<void> {
+  if (settings.owner && (metadata.uid !== undefined || metadata.gid !== undefined)) {
+    await lchown(targetPath, metadata.uid ?? -1, metadata.gid ?? -1);
+  }
+  if (settings.mode && kind !== 'symlink' && metadata.mode !== undefined) {
+    await chmod(targetPath, resolveExtractMode(metadata.mode, settings));
+  }
+  if (settings.times && metadata.mtime) {
+    const atime = metadata.atime ?? metadata.mtime;
+    if (kind === 'symlink') {
+      await lutimes(targetPath, atime, metadata.mtime);
+    } else {
+      await utimes(targetPath, atime, metadata.mtime);
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import { randomUUID } from 'node:crypto';
+import { link, lstat, mkdir, realpath, rename, rm } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * Error builders used by the shared extraction path checks so each caller keeps its own error family.
+ * @internal
+ */
+export type ExtractPathErrors = {
+  /** Format label used in messages (`ZIP`, `archive`). */
+  label: string;
+  /** Build a path-traversal error. */
+  traversal(message: string, entryName: string, context?: Record<string, string>): Error;
+  /** Build an error for a destination path that already exists. */
+  existing(entryName: string, targetPath: string): Error;
+};
+
+/**
+ * Destination action picked by an `onExisting` policy: create a new path, replace an existing one, or skip the entry.
+ * @internal
+ */
+export type ExistingTargetAction = 'create' | 'replace' | 'skip';
+
+/**
+ * Apply `filter` and `mapPath` hooks; returns the destination name or null when the entry is skipped.
+ * @internal
+ */
+export async function selectExtractPath<T extends { name: string }>(
+  entry: T,
+  hooks: {
+    filter?: ((entry: T) => boolean | Promise<boolean>) | undefined;
+    mapPath?: ((entry: T) => string | null | Promise<string | null>) | undefined;
+  }
+): Promise<string | null> {
+  if (hooks.filter && !(await hooks.filter(entry))) return null;
+  if (!hooks.mapPath) return entry.name;
+  const mapped = await hooks.mapPath(entry);
+  return mapped ? mapped : null;
+}
+
+/**
+ * Decide how to treat an existing destination path. `error` defers to the exclusive create, which throws on collision.
+ * @internal
+ */
+export async function resolveExistingTarget(
+  targetPath: string,
+  entryName: string,
+  policy: 'error' | 'skip' | 'overwrite' | 'newer',
+  mtime: Date | undefined,
+  errors: ExtractPathErrors
+): Promise<ExistingTargetAction> {
+  if (policy === 'error') return 'create';
+  let stats;
+  try {
+    stats = await lstat(targetPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 'create';
+    throw error;
+  }
+  if (policy === 'skip') return 'skip';
+  if (policy === 'newer' && (!mtime || mtime.getTime() <= stats.mtimeMs)) return 'skip';
+  if (stats.isDirectory()) throw errors.existing(entryName, targetPath);
+  return 'replace';
+}
+
+/**
+ * Write through a sibling temp path and rename it over `targetPath`; an existing symlink is replaced, never followed.
+ * @internal
+ */
+export async function replaceTarget(targetPath: string, write: (tempPath: string) => Promise<void>): Promise<void> {
+  const tempPath = path.join(path.dirname(targetPath), `.${path.basename(targetPath)}.bytefold-${randomUUID()}`);
+  try {
+    await write(tempPath);
+    await rename(tempPath, targetPath);
+  } catch (err) {
+    await rm(tempPath, { force: true }).catch(() => {});
+    throw err;
+  }
+}
+
+/**
+ * Resolve an entry name below `baseDir`, rejecting NUL bytes, absolute paths, and `..` segments.
+ * @internal
+ */
+export function resolveEntryPath(baseDir: string, entryName: string, errors: ExtractPathErrors): string {
+  if (entryName.includes('\u0000')) {
+    throw errors.traversal('Entry name contains NUL byte', entryName);
+  }
+  const normalized = entryName.replace(/\\/g, '/');
+  if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) {
+    throw errors.traversal(`Absolute paths are not allowed in ${errors.label} entries`, entryName);
+  }
+  const parts = normalized.split('/').filter((part) => part.length > 0);
+  if (parts.some((part) => part === '..')) {
+    throw errors.traversal(`Path traversal detected in ${errors.label} entry`, entryName);
+  }
+  const resolved = path.resolve(baseDir, ...parts);
+  const baseResolved = path.resolve(baseDir);
+  if (resolved !== baseResolved && !resolved.startsWith(baseResolved + path.sep)) {
+    throw errors.traversal('Entry path escapes destination directory', entryName);
+  }
+  return resolved;
+}
+
+/**
+ * Create the parent directory of `targetPath` and verify its real path stays under `baseRealDir`.
+ * @internal
+ */
+export async function ensureContainedParent(
+  baseRealDir: string,
+  targetPath: string,
+  entryName: string,
+  errors: ExtractPathErrors
+): Promise<string> {
+  const parentPath = path.dirname(targetPath);
+  await mkdir(parentPath, { recursive: true });
+  const parentRealPath = await realpath(parentPath);
+  assertPathContained(baseRealDir, parentRealPath, entryName, 'Parent path escapes destination directory', errors);
+  return parentRealPath;
+}
+
+/** @internal */
+export async function assertPathIsNotSymlink(
+  targetPath: string,
+  entryName: string,
+  errors: ExtractPathErrors
+): Promise<void> {
+  try {
+    const stats = await lstat(targetPath);
+    if (stats.isSymbolicLink()) {
+      throw errors.traversal('Extraction target is an existing symbolic link', entryName);
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+}
+
+/** @internal */
+export async function ensureExistingPathContained(
+  baseRealDir: string,
+  targetPath: string,
+  entryName: string,
+  message: string,
+  errors: ExtractPathErrors
+): Promise<void> {
+  try {
+    const targetRealPath = await realpath(targetPath);
+    assertPathContained(baseRealDir, targetRealPath, entryName, message, errors);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+}
+
+/**
+ * Reject symlink targets that are absolute or resolve outside the extraction root.
+ * @internal
+ */
+export function assertSymlinkTargetContained(
+  baseRealDir: string,
+  parentRealPath: string,
+  symlinkTarget: string,
+  entryName: string,
+  errors: ExtractPathErrors
+): void {
+  if (symlinkTarget.includes('\u0000')) {
+    throw errors.traversal('Symlink target contains NUL byte', entryName);
+  }
+  const normalized = symlinkTarget.replace(/\\/g, '/');
+  if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) {
+    throw errors.traversal('Absolute symlink targets are not allowed during extraction', entryName, { symlinkTarget });
+  }
+  const resolvedTarget = path.resolve(parentRealPath, symlinkTarget);
+  assertPathContained(baseRealDir, resolvedTarget, entryName, 'Symlink target escapes destination directory', errors, {
+    symlinkTarget
+  });
+}
+
+/**
+ * Hard-link a fully written temp file into place so the target never holds partial output.
+ * @internal
+ */
+export async function installExtractedFile(
+  tempPath: string,
+  targetPath: string,
+  entryName: string,
+  errors: ExtractPathErrors
+): Promise<void> {
+  try {
+    await link(tempPath, targetPath);
+  } catch (err) {
+    if (isExistingPathError(err)) {
+      throw errors.existing(entryName, targetPath);
+    }
+    throw err;
+  }
+}
+
+/** @internal */
+export function isExistingPathError(err: unknown): err is NodeJS.ErrnoException {
+  if (!err || typeof err !== 'object') return false;
+  const code = (err as NodeJS.ErrnoException).code;
+  return code === 'EEXIST' || code === 'EISDIR';
+}
+
+function assertPathContained(
+  baseRealDir: string,
+  candidatePath: string,
+  entryName: string,
+  message: string,
+  errors: ExtractPathErrors,
+  context?: Record<string, string>
+): void {
+  const candidateResolved = path.resolve(candidatePath);
+  if (candidateResolved !== baseRealDir && !candidateResolved.startsWith(baseRealDir + path.sep)) {
+    throw errors.traversal(message, entryName, context);
+  }
+}
@@ -0,0 +1,112 @@
+import { randomUUID } from 'node:crypto';
+import { chmod, lchown, link, lstat, lutimes, mkdir, open, realpath, rename, rm, symlink } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ArchiveError } from '../archive/errors.js';
+import type { ExtractTarget, ExtractTargetStat } from '../archive/types.js';
+import { isExistingPathError, replaceTarget } from './extractPaths.js';
+
+/**
+ * Create an `extractArchive` target rooted at `destDir` on `node:fs` (also used by the Bun adapter).
+ *
+ * The root is created on first use. Files are written to a sibling temp file and linked into place
+ * (or renamed over the old path when overwriting), and every parent is re-checked with `realpath`
+ * against the root before a path is created.
+ */
+export function createNodeFsTarget(destDir: string | URL): ExtractTarget {
+  const baseDir = path.resolve(typeof destDir === 'string' ? destDir : fileURLToPath(destDir));
+  let baseRealDir: Promise<string> | undefined;
+  const ready = (): Promise<string> =>
+    (baseRealDir ??= mkdir(baseDir, { recursive: true }).then(() => realpath(baseDir)));
+  const resolvePath = (relativePath: string): string =>
+    relativePath ? path.join(baseDir, ...relativePath.split('/')) : baseDir;
+  const containedPath = async (relativePath: string): Promise<string> => {
+    const rootRealPath = await ready();
+    const targetPath = resolvePath(relativePath);
+    const parentRealPath = await realpath(path.dirname(targetPath));
+    if (parentRealPath !== rootRealPath && !parentRealPath.startsWith(rootRealPath + path.sep)) {
+      throw new ArchiveError('ARCHIVE_PATH_TRAVERSAL', 'Parent path escapes destination directory', {
+        context: { path: relativePath }
+      });
+    }
+    return targetPath;
+  };
+
+  return {
+    resolvePath,
+    async exists(relativePath) {
+      await ready();
+      try {
+        const stats = await lstat(resolvePath(relativePath));
+        const type: ExtractTargetStat['type'] = stats.isSymbolicLink()
+          ? 'symlink'
+          : stats.isDirectory()
+            ? 'directory'
+            : stats.isFile()
+              ? 'file'
+              : 'other';
+        return { type, mtime: stats.mtime };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+    async mkdir(relativePath) {
+      const targetPath = await containedPath(relativePath);
+      try {
+        await mkdir(targetPath);
+      } catch (err) {
+        if (isExistingPathError(err) && (await lstat(targetPath)).isDirectory()) return;
+        throw err;
+      }
+    },
+    async writeFile(relativePath, options) {
+      const targetPath = await containedPath(relativePath);
+      const tempPath = path.join(path.dirname(targetPath), `.${path.basename(targetPath)}.bytefold-${randomUUID()}`);
+      const handle = await open(tempPath, 'wx');
+      const discard = async (): Promise<void> => {
+        await handle.close().catch(() => {});
+        await rm(tempPath, { force: true });
+      };
+      return new WritableStream<Uint8Array>({
+        async write(chunk) {
+          let offset = 0;
+          while (offset < chunk.length) {
+            const { bytesWritten } = await handle.write(chunk, offset, chunk.length - offset);
+            offset += bytesWritten;
+          }
+        },
+        async close() {
+          try {
+            await handle.close();
+            if (options.overwrite) {
+              await rename(tempPath, targetPath);
+            } else {
+              await link(tempPath, targetPath);
+            }
+          } finally {
+            await rm(tempPath, { force: true });
+          }
+        },
+        abort: discard
+      });
+    },
+    async symlink(linkTarget, relativePath, options) {
+      const targetPath = await containedPath(relativePath);
+      if (options.overwrite) {
+        await replaceTarget(targetPath, (tempPath) => symlink(linkTarget, tempPath));
+      } else {
+        await symlink(linkTarget, targetPath);
+      }
+    },
+    async utimes(relativePath, atime, mtime) {
+      await lutimes(resolvePath(relativePath), atime, mtime);
+    },
+    async chmod(relativePath, mode) {
+      await chmod(resolvePath(relativePath), mode);
+    },
+    async chown(relativePath, uid, gid) {
+      await lchown(resolvePath(relativePath), uid ?? -1, gid ?? -1);
+    }
+  };
+}
@@ -1,18 +1,17 @@
-import { createReadStream, createWriteStream } from 'node:fs';
-import { link, mkdir, mkdtemp, rm } from 'node:fs/promises';
-import path from 'node:path';
-import { Readable } from 'node:stream';
-import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
-import { pipeline } from 'node:stream/promises';
+import { createReadStream } from 'node:fs';
 import { fileURLToPath } from 'node:url';
-import type { ArchiveDetectionReport, ArchiveInputKind, ArchiveOpenOptions } from '../archive/types.js';
+import type {
+  ArchiveDetectionReport,
+  ArchiveExtractOptions,
+  ArchiveExtractReport,
+  ArchiveInputKind,
+  ArchiveOpenOptions
+} from '../archive/types.js';
 import { openArchive as openArchiveCore, type ArchiveReader } from '../archive/index.js';
-import { createDecompressor } from '../compress/index.js';
 import { CompressionError } from '../compress/errors.js';
 import { readAllBytes } from '../streams/buffer.js';
 import { toWebReadable } from '../streams/adapters.js';
 import { throwIfResponseContentLengthExceedsLimit } from '../streams/response.js';
-import { readableFromBytes } from '../streams/web.js';
 import { preflightXzIndexLimits } from '../compression/xzIndexPreflight.js';
 import { HttpRandomAccess, type RandomAccess } from '../reader/RandomAccess.js';
 import { mapHttpErrorToZipError, wrapRandomAccessForZip } from '../reader/httpZipErrors.js';
@@ -22,6 +21,8 @@ import { mergeSignals } from '../abort.js';
 import { ArchiveError } from '../archive/errors.js';
 import { mapHttpErrorToArchiveError } from '../archive/httpArchiveErrors.js';
 import { ZipError } from '../errors.js';
+import { extractArchive } from '../archive/extract.js';
+import { createNodeFsTarget } from './extractTarget.js';
 import { resolveXzDictionaryLimit, resolveXzPreflightLimits, shouldPreflightXz } from '../archive/xzPreflight.js';
 import { isZipSignature, preflightZip, resolveZipPreflightLimits, shouldPreflightZip } from '../archive/zipPreflight.js';
 import type { ZipProfile, ZipReaderOptions } from '../types.js';
@@ -33,6 +34,12 @@ export type {
   ArchiveAuditReport,
   ArchiveDetectionReport,
   ArchiveEntry,
+  ArchiveExtractedEntry,
+  ArchiveExtractOptions,
+  ArchiveExtractPreserveOptions,
+  ArchiveExtractReport,
+  ArchiveExtractSkippedEntry,
+  ArchiveExtractTargetOptions,
   ArchiveFormat,
   ArchiveInputKind,
   ArchiveIssue,
@@ -40,13 +47,24 @@ export type {
   ArchiveLimits,
   ArchiveNormalizeReport,
   ArchiveOpenOptions,
-  ArchiveProfile
+  ArchiveProfile,
+  ExtractTarget,
+  ExtractTargetStat,
+  GzipExtraSubfield,
+  GzipHeader
 } from '../archive/types.js';
 /** Unified archive reader/writer types. */
 export type { ArchiveReader, ArchiveWriter } from '../archive/index.js';
 /** Create archive writers from Node runtime entrypoint. */
 export { createArchiveWriter } from '../archive/index.js';
 
+/** Runtime-neutral extraction and the in-memory target from Node runtime entrypoint. */
+export { createMemoryTarget, extractArchive } from '../archive/extract.js';
+/** Memory extraction target types. */
+export type { MemoryExtractTarget, MemoryTargetEntry } from '../archive/extract.js';
+/** node:fs extraction target for `extractArchive`. */
+export { createNodeFsTarget } from './extractTarget.js';
+
 /** ZIP APIs and ZIP-domain types from Node runtime entrypoint. */
 export * from './zip/index.js';
 /** TAR APIs and TAR-domain types from Node runtime entrypoint. */
@@ -196,50 +214,25 @@ export async function openArchive(input: NodeArchiveInput, options?: ArchiveOpen
   });
 }
 
-/** Extract all entries from a source archive into a destination directory. */
+/**
+ * Extract every entry of a detected archive into `destDir` and report what was written.
+ *
+ * Runs `extractArchive` against `createNodeFsTarget(destDir)`, so entry paths, parent directories,
+ * and symlink targets must stay under `destDir` after `filter`/`mapPath` pick and rename entries.
+ * Files are written to a temp file first and linked into place (or renamed over the old path when
+ * `onExisting` replaces it), so a failed entry never leaves partial output. Symlinks are skipped
+ * unless `shouldAllowSymlinks` is set, and device/FIFO/hard-link entries are always skipped.
+ * `preserve` opts into restoring mode, times, and ownership; restored modes are masked by `umask`
+ * and lose setuid/setgid/sticky bits by default.
+ */
 export async function extractAll(
   input: NodeArchiveInput,
   destDir: string | URL,
-  options?: ArchiveOpenOptions
-): Promise<void> {
-  const bytes = await resolveNodeInputBytes(input, options);
-  const filenameHint =
-    options?.filename ??
-    (typeof input === 'string' || input instanceof URL ? (input instanceof URL ? fileURLToPath(input) : input) : undefined);
-  const entryName = inferXzEntryName(filenameHint);
-  const baseDir = typeof destDir === 'string' ? destDir : fileURLToPath(destDir);
-  await mkdir(baseDir, { recursive: true });
-  const tempDir = await mkdtemp(path.join(baseDir, '.bytefold-xz-'));
-  const tempPath = path.join(tempDir, 'extract.tmp');
-  const targetPath = path.join(baseDir, entryName);
-  const decompressor = createDecompressor({
-    algorithm: 'xz',
-    ...(options?.signal ? { signal: options.signal } : {}),
-    ...(options?.limits?.maxTotalDecompressedBytes !== undefined
-      ? { maxOutputBytes: options.limits.maxTotalDecompressedBytes }
-      : options?.limits?.maxTotalUncompressedBytes !== undefined
-        ? { maxOutputBytes: options.limits.maxTotalUncompressedBytes }
-        : {}),
-    ...(options?.limits?.maxCompressionRatio !== undefined ? { maxCompressionRatio: options.limits.maxCompressionRatio } : {}),
-    ...(options?.limits?.maxXzDictionaryBytes !== undefined
-      ? { maxDictionaryBytes: options.limits.maxXzDictionaryBytes }
-      : options?.limits?.maxDictionaryBytes !== undefined
-        ? { maxDictionaryBytes: options.limits.maxDictionaryBytes }
-        : {}),
-    ...(options?.limits?.maxXzBufferedBytes !== undefined
-      ? { maxBufferedInputBytes: options.limits.maxXzBufferedBytes }
-      : {}),
-    ...(options?.limits ? { limits: options.limits } : {}),
-    ...(options?.profile ? { profile: options.profile } : {})
-  });
-  const stream = readableFromBytes(bytes).pipeThrough(decompressor);
-  const nodeReadable = Readable.fromWeb(stream as unknown as NodeReadableStream);
-  try {
-    await pipeline(nodeReadable, createWriteStream(tempPath));
-    await installExtractedFile(tempPath, targetPath, entryName);
-  } finally {
-    await rm(tempDir, { recursive: true, force: true }).catch(() => {});
-  }
+  options?: ArchiveExtractOptions
+): Promise<ArchiveExtractReport> {
+  const { shouldAllowSymlinks, filter, mapPath, onExisting, preserve, ...openOptions } = options ?? {};
+  const reader = await openArchive(input, openOptions);
+  return extractArchive(reader, createNodeFsTarget(destDir), options);
 }
 
 function isReadableStream(value: unknown): value is ReadableStream<Uint8Array> {
@@ -528,25 +521,6 @@ function buildXzPreflightError(
   });
 }
 
-async function resolveNodeInputBytes(input: NodeArchiveInput, options?: ArchiveOpenOptions): Promise<Uint8Array> {
-  if (input instanceof Uint8Array) return input;
-  if (input instanceof ArrayBuffer) return new Uint8Array(input);
-  if (typeof input === 'string' || input instanceof URL) {
-    const remoteUrl = resolveRemoteArchiveUrl(input, options);
-    if (remoteUrl) {
-      return readHttpUrlBytes(remoteUrl, options);
-    }
-    const filePath = typeof input === 'string' ? input : fileURLToPath(input);
-    return readFileBytes(filePath, options);
-  }
-  const readOptions = resolveInputReadOptions(options);
-  if (isReadableStream(input)) {
-    return readAllBytes(input, readOptions);
-  }
-  const webStream = toWebReadable(input as NodeJS.ReadableStream);
-  return readAllBytes(webStream, readOptions);
-}
-
 async function readHttpUrlBytes(remoteUrl: RemoteArchiveUrl, options?: ArchiveOpenOptions): Promise<Uint8Array> {
   const response = await fetch(remoteUrl.href, options?.signal ? { signal: options.signal } : undefined);
   if (!response.ok) {
@@ -587,70 +561,3 @@ async function readResponseBytes(response: Response, options?: ArchiveOpenOption
 async function readFileBytes(filePath: string, options?: ArchiveOpenOptions): Promise<Uint8Array> {
   return readAllBytes(toWebReadable(createReadStream(filePath)), resolveInputReadOptions(options));
 }
-
-async function installExtractedFile(tempPath: string, targetPath: string, entryName: string): Promise<void> {
-  try {
-    await link(tempPath, targetPath);
-  } catch (err) {
-    if (isExistingPathError(err)) {
-      throw new ArchiveError(
-        'ARCHIVE_NAME_COLLISION',
-        'Destination already contains the extracted file. Rename or remove the existing file first.',
-        {
-          entryName,
-          context: buildExistingCollisionContext(entryName, targetPath, 'xz')
-        }
-      );
-    }
-    throw err;
-  }
-}
-
-function inferXzEntryName(filename?: string): string {
-  const base = sanitizeSingleFileName(filename);
-  if (!base) return 'data';
-  const lower = base.toLowerCase();
-  if (lower.endsWith('.tar.xz')) {
-    const stem = sanitizeSingleFileName(base.slice(0, -7));
-    return stem ? `${stem}.tar` : 'data';
-  }
-  if (lower.endsWith('.txz')) {
-    const stem = sanitizeSingleFileName(base.slice(0, -4));
-    return stem ? `${stem}.tar` : 'data';
-  }
-  if (lower.endsWith('.xz')) {
-    const stem = sanitizeSingleFileName(base.slice(0, -3));
-    return stem || 'data';
-  }
-  return 'data';
-}
-
-function sanitizeSingleFileName(name?: string): string | undefined {
-  if (!name) return undefined;
-  if (name.includes('\u0000')) return undefined;
-  const base = name.split(/[\\/]/).pop() ?? name;
-  const trimmed = base.trim();
-  if (!trimmed || trimmed === '.' || trimmed === '..') return undefined;
-  return trimmed;
-}
-
-function isExistingPathError(err: unknown): err is NodeJS.ErrnoException {
-  if (!err || typeof err !== 'object') return false;
-  const code = (err as NodeJS.ErrnoException).code;
-  return code === 'EEXIST' || code === 'EISDIR';
-}
-
-function buildExistingCollisionContext(
-  entryName: string,
-  targetPath: string,
-  format: 'xz'
-): Record<string, string> {
-  return {
-    collisionType: 'existing',
-    collisionKind: 'existing',
-    nameA: targetPath,
-    nameB: entryName,
-    key: entryName,
-    format
-  };
-}
@@ -44,6 +44,49 @@ export class FileSink implements SeekableSink {
   }
 }
 
+/** Seekable sink over an existing file, opened for in-place updates without truncation. */
+export class FileUpdateSink implements SeekableSink {
+  private readonly handlePromise: ReturnType<typeof open>;
+
+  constructor(
+    path: string | URL,
+    public position: bigint
+  ) {
+    const filePath = typeof path === 'string' ? path : fileURLToPath(path);
+    this.handlePromise = open(filePath, fsConstants.O_RDWR | (fsConstants.O_NOFOLLOW ?? 0));
+  }
+
+  async write(chunk: Uint8Array): Promise<void> {
+    if (chunk.length === 0) return;
+    await this.writeAt(this.position, chunk);
+    this.position += BigInt(chunk.length);
+  }
+
+  async writeAt(offset: bigint, chunk: Uint8Array): Promise<void> {
+    if (chunk.length === 0) return;
+    const handle = await this.handlePromise;
+    await handle.write(chunk, 0, chunk.length, Number(offset));
+  }
+
+  async read(offset: bigint, length: number): Promise<Uint8Array> {
+    const handle = await this.handlePromise;
+    const buffer = new Uint8Array(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, Number(offset));
+    return bytesRead === length ? buffer : buffer.subarray(0, bytesRead);
+  }
+
+  /** Cut the file at `size`, dropping whatever followed the rewritten trailer. */
+  async truncate(size: bigint): Promise<void> {
+    const handle = await this.handlePromise;
+    await handle.truncate(Number(size));
+  }
+
+  async close(): Promise<void> {
+    const handle = await this.handlePromise;
+    await handle.close();
+  }
+}
+
 export function isWebWritable(stream: WritableStream<Uint8Array> | NodeJS.WritableStream): stream is WritableStream<Uint8Array> {
   return typeof (stream as WritableStream<Uint8Array>).getWriter === 'function';
 }
@@ -1,4 +1,4 @@
-import { lstat, mkdir, realpath, symlink, mkdtemp, rm } from 'node:fs/promises';
+import { mkdir, realpath, symlink, mkdtemp, rm } from 'node:fs/promises';
 import { createReadStream, createWriteStream } from 'node:fs';
 import { pipeline } from 'node:stream/promises';
 import { Readable } from 'node:stream';
@@ -29,16 +29,31 @@ import type {
 } from '../../types.js';
 import { BufferRandomAccess, FileRandomAccess, HttpRandomAccess, type RandomAccess } from './RandomAccess.js';
 import { wrapRandomAccessForZip } from '../../reader/httpZipErrors.js';
+import { MultiDiskRandomAccess, type ZipDiskLayout } from '../../reader/MultiDiskRandomAccess.js';
 import { findEocd, type EocdResult } from '../../reader/eocd.js';
-import { iterCentralDirectory, type ZipEntryRecord } from '../../reader/centralDirectory.js';
+import { cloneEntryRecord, iterCentralDirectory, type ZipEntryRecord } from '../../reader/centralDirectory.js';
 import { openEntryStream, openRawStream } from './entryStream.js';
-import { buildAesExtra, parseAesExtra } from '../../extraFields.js';
+import { buildAesExtra, parseAesExtra, pickExtraFields, PLATFORM_METADATA_EXTRA_IDS } from '../../extraFields.js';
 import { readLocalHeader, type LocalHeaderInfo } from '../../reader/localHeader.js';
+import { extraFieldIssues } from '../../reader/extraFieldInspection.js';
 import { isWebWritable, readableFromBytes, toWebReadable } from '../../streams/adapters.js';
 import { createCrcTransform } from '../../streams/crcTransform.js';
 import { createMeasureTransform } from '../../streams/measure.js';
 import { createProgressTracker, createProgressTransform } from '../../streams/progress.js';
 import { normalizePathForCollision, toCollisionKey } from '../../text/caseFold.js';
+import {
+  assertPathIsNotSymlink,
+  assertSymlinkTargetContained,
+  ensureContainedParent,
+  ensureExistingPathContained,
+  isExistingPathError,
+  replaceTarget,
+  resolveEntryPath,
+  resolveExistingTarget,
+  selectExtractPath,
+  type ExtractPathErrors
+} from '../extractPaths.js';
+import { applyExtractMetadata, resolvePreserveSettings, type ExtractMetadata } from '../extractMetadata.js';
 import { FileSink, NodeWritableSink, WebWritableSink, type Sink } from './Sink.js';
 import { writeCentralDirectory } from '../../writer/centralDirectoryWriter.js';
 import { finalizeArchive } from '../../writer/finalize.js';
@@ -48,6 +63,8 @@ import { AGENT_RESOURCE_LIMITS, DEFAULT_RESOURCE_LIMITS } from '../../limits.js'
 
 const DEFAULT_LIMITS: Required<ZipLimits> = DEFAULT_RESOURCE_LIMITS;
 const AGENT_LIMITS: Required<ZipLimits> = AGENT_RESOURCE_LIMITS;
+// Unix `lrwxrwxrwx` in the high half, as deterministic output gives kept symlinks.
+const DETERMINISTIC_SYMLINK_ATTRIBUTES = (0o120777 << 16) >>> 0;
 
 export class ZipReader {
   private readonly profile: ZipProfile;
@@ -55,20 +72,24 @@ export class ZipReader {
   private readonly limits: Required<ZipLimits>;
   private readonly warningsList: ZipWarning[] = [];
   private entriesList: ZipEntryRecord[] | null = null;
+  private entriesByOffset: Map<bigint, ZipEntryRecord[]> | null = null;
   private readonly password: string | undefined;
+  private readonly dictionary: Uint8Array | undefined;
   private readonly storeEntries: boolean;
   private eocd: EocdResult | null = null;
   private readonly signal: AbortSignal | undefined;
 
   private constructor(
     private readonly reader: RandomAccess,
-    options?: ZipReaderOptions
+    options?: ZipReaderOptions,
+    private readonly disks?: ZipDiskLayout
   ) {
     const resolved = resolveReaderProfile(options);
     this.profile = resolved.profile;
     this.strict = resolved.strict;
     this.limits = resolved.limits;
     this.password = options?.password;
+    this.dictionary = options?.dictionary;
     this.storeEntries = options?.shouldStoreEntries ?? true;
     this.signal = mergeSignals(options?.signal, options?.http?.signal);
   }
@@ -80,6 +101,31 @@ export class ZipReader {
     return instance;
   }
 
+  /**
+   * Open a split (multi-disk) archive from its segment files in disk order,
+   * e.g. `['a.z01', 'a.z02', 'a.zip']`.
+   */
+  static async fromFiles(paths: Array<string | URL>, options?: ZipReaderOptions): Promise<ZipReader> {
+    return ZipReader.fromRandomAccessSet(
+      paths.map((pathLike) => FileRandomAccess.fromPath(pathLike)),
+      options
+    );
+  }
+
+  /** Create a reader from the segments of a split archive, ordered by disk number. */
+  static async fromRandomAccessSet(segments: RandomAccess[], options?: ZipReaderOptions): Promise<ZipReader> {
+    let set: MultiDiskRandomAccess;
+    try {
+      set = await MultiDiskRandomAccess.open(segments.map(wrapRandomAccessForZip), options?.signal);
+    } catch (err) {
+      await Promise.allSettled(segments.map((segment) => segment.close()));
+      throw err;
+    }
+    const instance = new ZipReader(set, options, set);
+    await instance.init();
+    return instance;
+  }
+
   static async fromUint8Array(data: Uint8Array, options?: ZipReaderOptions): Promise<ZipReader> {
     const reader = new BufferRandomAccess(data);
     const instance = new ZipReader(wrapRandomAccessForZip(reader), options);
@@ -179,7 +225,7 @@ export class ZipReader {
       );
     }
     if (!this.entriesList) return [];
-    return this.entriesList.map((entry) => ({ ...entry }));
+    return this.entriesList.map(cloneEntryRecord);
   }
 
   warnings(): ZipWarning[] {
@@ -192,7 +238,7 @@ export class ZipReader {
     if (this.entriesList) {
       for (const entry of this.entriesList) {
         throwIfAborted(signal);
-        yield { ...entry };
+        yield cloneEntryRecord(entry);
       }
       return;
     }
@@ -209,6 +255,7 @@ export class ZipReader {
       {
         strict: this.strict,
         maxEntries: this.limits.maxEntries,
+        disks: this.disks,
         onWarning: (warning) => this.warningsList.push(warning),
         ...(signal ? { signal } : {})
       }
@@ -216,7 +263,7 @@ export class ZipReader {
       throwIfAborted(signal);
       this.applyEntryLimits(entry, totals);
       if (this.storeEntries) entries.push(entry);
-      yield { ...entry };
+      yield cloneEntryRecord(entry);
     }
     if (this.storeEntries) {
       this.entriesList = entries;
@@ -233,7 +280,12 @@ export class ZipReader {
     const strict = options?.isStrict ?? this.strict;
     const signal = this.resolveSignal(options?.signal);
     const totals = { totalUncompressed: 0n };
-    const params: { strict: boolean; onWarning: (warning: ZipWarning) => void; password?: string } = {
+    const params: {
+      strict: boolean;
+      onWarning: (warning: ZipWarning) => void;
+      password?: string;
+      dictionary?: Uint8Array;
+    } = {
       strict,
       onWarning: (warning) => this.warningsList.push(warning)
     };
@@ -241,10 +293,15 @@ export class ZipReader {
     if (password !== undefined) {
       params.password = password;
     }
+    const dictionary = options?.dictionary ?? this.dictionary;
+    if (dictionary) {
+      params.dictionary = dictionary;
+    }
     return openEntryStream(this.reader, entry as ZipEntryRecord, {
       ...params,
       ...(signal ? { signal } : {}),
       ...progressParams(options),
+      onLocalHeader: (local) => this.recordLocalExtra(entry.offset, local),
       limits: this.limits,
       totals
     });
@@ -254,7 +311,8 @@ export class ZipReader {
     const signal = this.resolveSignal(options?.signal);
     const { stream } = await openRawStream(this.reader, entry as ZipEntryRecord, {
       ...(signal ? { signal } : {}),
-      ...progressParams(options)
+      ...progressParams(options),
+      onLocalHeader: (local) => this.recordLocalExtra(entry.offset, local)
     });
     return stream;
   }
@@ -277,6 +335,8 @@ export class ZipReader {
     const strict = options?.isStrict ?? this.strict;
     const password = options?.password ?? this.password;
     const shouldAllowSymlinks = options?.shouldAllowSymlinks ?? false;
+    const onExisting = options?.onExisting ?? 'error';
+    const preserve = resolvePreserveSettings(options?.preserve);
     const limits = normalizeLimits(options?.limits ?? this.limits, this.limits);
     const signal = this.resolveSignal(options?.signal);
 
@@ -285,18 +345,24 @@ export class ZipReader {
     const seenNames = new Map<string, string>();
     const seenNfc = new Map<string, { original: string; normalized: string }>();
     const seenCase = new Map<string, { original: string; nfc: string }>();
+    const directories: Array<{ path: string; metadata: ExtractMetadata }> = [];
     await mkdir(baseDir, { recursive: true });
     const baseRealDir = await realpath(baseDir);
 
     const iterOptions = signal ? { signal } : undefined;
     for await (const entry of this.iterEntries(iterOptions)) {
       throwIfAborted(signal);
+      const outputName = await selectExtractPath(entry, {
+        filter: options?.filter,
+        mapPath: options?.mapPath
+      });
+      if (outputName === null) continue;
       totalUncompressed += entry.uncompressedSize;
       if (totalUncompressed > limits.maxTotalUncompressedBytes) {
         throw new ZipError('ZIP_LIMIT_EXCEEDED', 'Total uncompressed size exceeds limit');
       }
 
-      const normalizedName = normalizePathForCollision(entry.name, entry.isDirectory);
+      const normalizedName = normalizePathForCollision(outputName, entry.isDirectory);
       if (normalizedName) {
         const existing = seenNames.get(normalizedName);
         if (existing) {
@@ -338,12 +404,27 @@ export class ZipReader {
         seenCase.set(caseKey, { original: entry.name, nfc: nfcName });
       }
 
-      const targetPath = resolveEntryPath(baseDir, entry.name);
+      const targetPath = resolveEntryPath(baseDir, outputName, ZIP_EXTRACT_ERRORS);
+      const metadata: ExtractMetadata = {
+        mode: entry.mode,
+        mtime: entry.mtime,
+        atime: entry.atime,
+        uid: entry.uid,
+        gid: entry.gid
+      };
       if (entry.isDirectory) {
-        await ensureContainedParent(baseRealDir, targetPath, entry.name);
-        await assertPathIsNotSymlink(targetPath, entry.name);
+        await ensureContainedParent(baseRealDir, targetPath, entry.name, ZIP_EXTRACT_ERRORS);
+        await assertPathIsNotSymlink(targetPath, entry.name, ZIP_EXTRACT_ERRORS);
         await mkdir(targetPath, { recursive: true });
-        await ensureExistingPathContained(baseRealDir, targetPath, entry.name, 'Directory path escapes destination directory');
+        await ensureExistingPathContained(
+          baseRealDir,
+          targetPath,
+          entry.name,
+          'Directory path escapes destination directory',
+          ZIP_EXTRACT_ERRORS
+        );
+        // Directory metadata is applied last so restrictive modes and child writes cannot interfere.
+        if (preserve) directories.push({ path: targetPath, metadata });
         continue;
       }
 
@@ -353,20 +434,31 @@ export class ZipReader {
             entryName: entry.name
           });
         }
-        const parentRealPath = await ensureContainedParent(baseRealDir, targetPath, entry.name);
-        await assertPathIsNotSymlink(targetPath, entry.name);
+        const parentRealPath = await ensureContainedParent(baseRealDir, targetPath, entry.name, ZIP_EXTRACT_ERRORS);
+        const action = await resolveExistingTarget(targetPath, entry.name, onExisting, entry.mtime, ZIP_EXTRACT_ERRORS);
+        if (action === 'skip') continue;
+        if (action === 'create') await assertPathIsNotSymlink(targetPath, entry.name, ZIP_EXTRACT_ERRORS);
         const stream = await openEntryStream(this.reader, entry as ZipEntryRecord, {
           strict,
           onWarning: (warning) => this.warningsList.push(warning),
           ...(signal ? { signal } : {}),
           ...progressParams(options),
           ...(password !== undefined ? { password } : {}),
+          ...(this.dictionary ? { dictionary: this.dictionary } : {}),
+          onLocalHeader: (local) => this.recordLocalExtra(entry.offset, local),
           limits,
           totals
         });
         const buf = await new Response(stream).arrayBuffer();
         const target = new TextDecoder('utf-8').decode(buf);
-        assertSymlinkTargetContained(baseRealDir, parentRealPath, target, entry.name);
+        assertSymlinkTargetContained(baseRealDir, parentRealPath, target, entry.name, ZIP_EXTRACT_ERRORS);
+        if (action === 'replace') {
+          await replaceTarget(targetPath, async (tempPath) => {
+            await symlink(target, tempPath);
+            if (preserve) await applyExtractMetadata(tempPath, 'symlink', metadata, preserve);
+          });
+          continue;
+        }
         try {
           await symlink(target, targetPath);
         } catch (err) {
@@ -375,21 +467,33 @@ export class ZipReader {
           }
           throw err;
         }
+        if (preserve) await applyExtractMetadata(targetPath, 'symlink', metadata, preserve);
         continue;
       }
 
-      await ensureContainedParent(baseRealDir, targetPath, entry.name);
-      await assertPathIsNotSymlink(targetPath, entry.name);
+      await ensureContainedParent(baseRealDir, targetPath, entry.name, ZIP_EXTRACT_ERRORS);
+      const action = await resolveExistingTarget(targetPath, entry.name, onExisting, entry.mtime, ZIP_EXTRACT_ERRORS);
+      if (action === 'skip') continue;
+      if (action === 'create') await assertPathIsNotSymlink(targetPath, entry.name, ZIP_EXTRACT_ERRORS);
       const stream = await openEntryStream(this.reader, entry as ZipEntryRecord, {
         strict,
         onWarning: (warning) => this.warningsList.push(warning),
         ...(signal ? { signal } : {}),
         ...progressParams(options),
         ...(password !== undefined ? { password } : {}),
+        ...(this.dictionary ? { dictionary: this.dictionary } : {}),
+        onLocalHeader: (local) => this.recordLocalExtra(entry.offset, local),
         limits,
         totals
       });
       const nodeReadable = Readable.fromWeb(stream as unknown as NodeReadableStream);
+      if (action === 'replace') {
+        await replaceTarget(targetPath, async (tempPath) => {
+          await pipeline(nodeReadable, createWriteStream(tempPath, { flags: 'wx' }));
+          if (preserve) await applyExtractMetadata(tempPath, 'file', metadata, preserve);
+        });
+        continue;
+      }
       try {
         await pipeline(nodeReadable, createWriteStream(targetPath, { flags: 'wx' }));
       } catch (err) {
@@ -398,6 +502,12 @@ export class ZipReader {
         }
         throw err;
       }
+      if (preserve) await applyExtractMetadata(targetPath, 'file', metadata, preserve);
+    }
+    if (preserve) {
+      for (const directory of directories.reverse()) {
+        await applyExtractMetadata(directory.path, 'directory', directory.metadata, preserve);
+      }
     }
   }
 
@@ -452,7 +562,8 @@ export class ZipReader {
         maxCommentBytes: settings.limits.maxZipCommentBytes,
         maxCentralDirectoryBytes: settings.limits.maxZipCentralDirectoryBytes,
         maxEntries: settings.limits.maxEntries,
-        rejectMultiDisk: true
+        rejectMultiDisk: true,
+        ...(this.disks ? { disks: this.disks } : {})
       });
     } catch (err) {
       addIssue(issueFromError(err));
@@ -504,6 +615,7 @@ export class ZipReader {
         {
           strict: false,
           maxEntries: settings.limits.maxEntries,
+          disks: this.disks,
           onWarning: addParseWarning,
           ...(signal ? { signal } : {})
         }
@@ -671,6 +783,9 @@ export class ZipReader {
               details: mismatchDetails
             });
           }
+          for (const issue of extraFieldIssues(entry.name, entry.rawExtra, local.extra)) {
+            addIssue(issue);
+          }
 
           const dataEnd = local.dataOffset + entry.compressedSize;
           if (dataEnd > size) {
@@ -766,7 +881,8 @@ export class ZipReader {
       maxCommentBytes: this.limits.maxZipCommentBytes,
       maxCentralDirectoryBytes: this.limits.maxZipCentralDirectoryBytes,
       maxEntries: this.limits.maxEntries,
-      rejectMultiDisk: true
+      rejectMultiDisk: true,
+      ...(this.disks ? { disks: this.disks } : {})
     });
     this.warningsList.push(...eocd.warnings);
     this.eocd = eocd;
@@ -783,6 +899,20 @@ export class ZipReader {
     }
   }
 
+  /** Record a local extra block on the stored records at its offset so later `entries()` copies list it. */
+  private recordLocalExtra(offset: bigint, local: LocalHeaderInfo): void {
+    if (!this.entriesList) return;
+    if (!this.entriesByOffset) {
+      this.entriesByOffset = new Map();
+      for (const record of this.entriesList) {
+        const shared = this.entriesByOffset.get(record.offset);
+        if (shared) shared.push(record);
+        else this.entriesByOffset.set(record.offset, [record]);
+      }
+    }
+    for (const record of this.entriesByOffset.get(offset) ?? []) record.localExtra = local.extra;
+  }
+
   private applyEntryLimits(entry: ZipEntryRecord, totals: { totalUncompressed: bigint }): void {
     if (entry.uncompressedSize > this.limits.maxUncompressedEntryBytes) {
       throw new ZipError('ZIP_LIMIT_EXCEEDED', 'Entry exceeds max uncompressed size', {
@@ -843,6 +973,7 @@ export class ZipReader {
     const onSymlink = options?.onSymlink ?? 'error';
     const preserveComments = options?.shouldPreserveComments ?? false;
     const preserveTrailingBytes = options?.shouldPreserveTrailingBytes ?? false;
+    const preservePlatformMetadata = options?.shouldPreservePlatformMetadata ?? false;
     const limits = normalizeLimits(options?.limits, this.limits);
     const outputMethod = options?.method ?? 8;
     const password = options?.password ?? this.password;
@@ -896,8 +1027,18 @@ export class ZipReader {
 
         const name = item.normalizedName;
         const mtime = deterministic ? fixedMtime : entry.mtime;
-        const externalAttributes = deterministic ? (entry.isDirectory ? 0x10 : 0) : entry.externalAttributes;
+        const externalAttributes = deterministic
+          ? entry.isDirectory
+            ? 0x10
+            : entry.isSymlink
+              ? DETERMINISTIC_SYMLINK_ATTRIBUTES
+              : 0
+          : entry.externalAttributes;
         const comment = preserveComments && !deterministic ? entry.comment : undefined;
+        const platformExtra =
+          preservePlatformMetadata && !deterministic
+            ? pickExtraFields(entry.extra, PLATFORM_METADATA_EXTRA_IDS)
+            : undefined;
         const aesExtra = entry.method === 99 ? parseAesExtra(entry.extra.get(0x9901) ?? new Uint8Array(0)) : undefined;
 
         if (entry.method === 99 && !aesExtra) {
@@ -1013,6 +1154,7 @@ export class ZipReader {
                   ...(warning.entryName ? { entryName: warning.entryName } : {})
                 }),
               ...(password !== undefined ? { password } : {}),
+              ...(this.dictionary ? { dictionary: this.dictionary } : {}),
               ...(signal ? { signal } : {}),
               ...progressParams(options),
               limits,
@@ -1034,7 +1176,7 @@ export class ZipReader {
           });
 
           const dataStream = toWebReadable(createReadStream(tempPath));
-          const flags = 0x800;
+          const flags = 0x800 | (((await codec.generalPurposeFlags?.()) ?? 0) & 0x06);
           const result = await writeRawEntry(sink, {
             name,
             source: dataStream,
@@ -1048,6 +1190,7 @@ export class ZipReader {
             externalAttributes,
             zip64Mode: 'auto',
             forceZip64: false,
+            ...(platformExtra ? { extra: platformExtra } : {}),
             ...(signal ? { signal } : {}),
             ...(options ? { progress: progressParams(options) } : {})
           });
@@ -1076,7 +1219,8 @@ export class ZipReader {
           ...(signal ? { signal } : {}),
           ...progressParams(options)
         });
-        const flags = 0x800 | (entry.encrypted ? 0x01 : 0);
+        // Bits 1-2 describe the preserved payload (e.g. the LZMA end marker), so they travel with it.
+        const flags = 0x800 | (entry.encrypted ? 0x01 : 0) | (entry.flags & 0x06);
         const aesExtraBytes = aesExtra
           ? buildAesExtra({
               vendorVersion: aesExtra.vendorVersion,
@@ -1098,6 +1242,7 @@ export class ZipReader {
           externalAttributes,
           zip64Mode: 'auto',
           forceZip64: false,
+          ...(platformExtra ? { extra: platformExtra } : {}),
           ...(aesExtraBytes ? { aesExtra: aesExtraBytes } : {}),
           ...(signal ? { signal } : {}),
           ...(options ? { progress: progressParams(options) } : {})
@@ -1148,7 +1293,7 @@ export class ZipReader {
     deterministic: boolean;
     onDuplicate: ZipNormalizeConflict;
     onCaseCollision: ZipNormalizeConflict;
-    onSymlink: 'error' | 'drop';
+    onSymlink: 'error' | 'drop' | 'keep';
     issues: ZipIssue[];
     addIssue: (issue: ZipIssue) => void;
     summary: ZipNormalizeReport['summary'];
@@ -1401,6 +1546,13 @@ function buildCollisionContext(
   };
 }
 
+const ZIP_EXTRACT_ERRORS: ExtractPathErrors = {
+  label: 'ZIP',
+  traversal: (message, entryName, context) =>
+    new ZipError('ZIP_PATH_TRAVERSAL', message, { entryName, ...(context ? { context } : {}) }),
+  existing: (entryName, targetPath) => buildExistingTargetCollision(entryName, targetPath)
+};
+
 function buildExistingTargetCollision(entryName: string, targetPath: string): ZipError {
   return new ZipError(
     'ZIP_NAME_COLLISION',
@@ -1419,12 +1571,6 @@ function buildExistingTargetCollision(entryName: string, targetPath: string): Zi
   );
 }
 
-function isExistingPathError(err: unknown): err is NodeJS.ErrnoException {
-  if (!err || typeof err !== 'object') return false;
-  const code = (err as NodeJS.ErrnoException).code;
-  return code === 'EEXIST' || code === 'EISDIR';
-}
-
 async function spoolCompressedEntry(options: {
   source: ReadableStream<Uint8Array>;
   method: number;
@@ -1621,98 +1767,6 @@ function toBigInt(value?: bigint | number): bigint | undefined {
   return typeof value === 'bigint' ? value : BigInt(value);
 }
 
-function assertPathContained(
-  baseRealDir: string,
-  candidatePath: string,
-  entryName: string,
-  message: string,
-  context?: Record<string, string>
-): void {
-  const candidateResolved = path.resolve(candidatePath);
-  if (candidateResolved !== baseRealDir && !candidateResolved.startsWith(baseRealDir + path.sep)) {
-    throw new ZipError('ZIP_PATH_TRAVERSAL', message, { entryName, ...(context ? { context } : {}) });
-  }
-}
-
-async function ensureContainedParent(baseRealDir: string, targetPath: string, entryName: string): Promise<string> {
-  const parentPath = path.dirname(targetPath);
-  await mkdir(parentPath, { recursive: true });
-  const parentRealPath = await realpath(parentPath);
-  assertPathContained(baseRealDir, parentRealPath, entryName, 'Parent path escapes destination directory');
-  return parentRealPath;
-}
-
-async function assertPathIsNotSymlink(targetPath: string, entryName: string): Promise<void> {
-  try {
-    const stats = await lstat(targetPath);
-    if (stats.isSymbolicLink()) {
-      throw new ZipError('ZIP_PATH_TRAVERSAL', 'Extraction target is an existing symbolic link', { entryName });
-    }
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
-    throw error;
-  }
-}
-
-async function ensureExistingPathContained(
-  baseRealDir: string,
-  targetPath: string,
-  entryName: string,
-  message: string
-): Promise<void> {
-  try {
-    const targetRealPath = await realpath(targetPath);
-    assertPathContained(baseRealDir, targetRealPath, entryName, message);
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
-    throw error;
-  }
-}
-
-function assertSymlinkTargetContained(
-  baseRealDir: string,
-  parentRealPath: string,
-  symlinkTarget: string,
-  entryName: string
-): void {
-  if (symlinkTarget.includes('\u0000')) {
-    throw new ZipError('ZIP_PATH_TRAVERSAL', 'Symlink target contains NUL byte', { entryName });
-  }
-  const normalized = symlinkTarget.replace(/\\/g, '/');
-  if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) {
-    throw new ZipError('ZIP_PATH_TRAVERSAL', 'Absolute symlink targets are not allowed during extraction', {
-      entryName,
-      context: { symlinkTarget }
-    });
-  }
-  const resolvedTarget = path.resolve(parentRealPath, symlinkTarget);
-  assertPathContained(baseRealDir, resolvedTarget, entryName, 'Symlink target escapes destination directory', {
-    symlinkTarget
-  });
-}
-
-function resolveEntryPath(baseDir: string, entryName: string): string {
-  if (entryName.includes('\u0000')) {
-    throw new ZipError('ZIP_PATH_TRAVERSAL', 'Entry name contains NUL byte', { entryName });
-  }
-  const normalized = entryName.replace(/\\/g, '/');
-  if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) {
-    throw new ZipError('ZIP_PATH_TRAVERSAL', 'Absolute paths are not allowed in ZIP entries', {
-      entryName
-    });
-  }
-  const parts = normalized.split('/').filter((part) => part.length > 0);
-  if (parts.some((part) => part === '..')) {
-    throw new ZipError('ZIP_PATH_TRAVERSAL', 'Path traversal detected in ZIP entry', { entryName });
-  }
-  const resolved = path.resolve(baseDir, ...parts);
-  const baseResolved = path.resolve(baseDir);
-  if (resolved !== baseResolved && !resolved.startsWith(baseResolved + path.sep)) {
-    throw new ZipError('ZIP_PATH_TRAVERSAL', 'Entry path escapes destination directory', { entryName });
-  }
-  return resolved;
-}
-
 function entryPathIssues(entryName: string): ZipIssue[] {
   const issues: ZipIssue[] = [];
   if (entryName.includes('\u0000')) {
@@ -0,0 +1,412 @@
+import { ZipError } from '../../errors.js';
+import { mergeSignals, throwIfAborted } from '../../abort.js';
+import { decodeUtf8, encodeUtf8, readUint16LE, readUint32LE, writeUint16LE } from '../../binary.js';
+import { buildExtraFields, parseExtraFields } from '../../extraFields.js';
+import { findEocd } from '../../reader/eocd.js';
+import { readLocalHeader } from '../../reader/localHeader.js';
+import type { ZipEntryRecord } from '../../reader/centralDirectory.js';
+import { writeCentralDirectory } from '../../writer/centralDirectoryWriter.js';
+import { finalizeArchive } from '../../writer/finalize.js';
+import { FileRandomAccess } from './RandomAccess.js';
+import { FileUpdateSink } from './Sink.js';
+import { ZipReader } from './ZipReader.js';
+import { ZipWriter } from './ZipWriter.js';
+import type { EntryWriteResult } from './entryWriter.js';
+import type {
+  ZipAuditReport,
+  ZipEntry,
+  ZipUpdateReport,
+  ZipUpdaterCloseOptions,
+  ZipUpdaterOptions,
+  ZipWriterAddOptions,
+  ZipWriterRawOptions
+} from '../../types.js';
+
+const LFH_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const ZIP64_EXTRA_ID = 0x0001;
+const UNICODE_PATH_EXTRA_ID = 0x7075;
+const COPY_CHUNK_BYTES = 1024 * 1024;
+
+type ExistingArchive = {
+  cdOffset: bigint;
+  comment: string | undefined;
+  entries: EntryWriteResult[];
+};
+
+/**
+ * Update an existing ZIP file in place.
+ *
+ * `add()` appends entries where the old central directory started, replacing any live entry of
+ * the same name. `delete()` only changes the central directory written by `close()`. `close()`
+ * rewrites the local header of each renamed entry, in place when its length is unchanged and
+ * otherwise by moving the record after the last one. `close({ shouldCompact: true })` then moves
+ * live records down over dead space, measuring each record from its local header, compressed size
+ * and data descriptor so gaps left by earlier sessions are reclaimed too. `open()` refuses archives
+ * whose entries overlap, since moving or appending records would then corrupt them; the archive is
+ * only valid again once `close()` resolves.
+ */
+export class ZipUpdater extends ZipWriter {
+  private readonly removed: EntryWriteResult[] = [];
+  private readonly renamed = new Set<EntryWriteResult>();
+  private appended = 0;
+  private report: ZipUpdateReport | undefined;
+
+  private constructor(
+    private readonly path: string | URL,
+    private readonly file: FileUpdateSink,
+    private readonly archive: ExistingArchive,
+    private readonly readerOptions: ZipUpdaterOptions['reader'],
+    options?: ZipUpdaterOptions
+  ) {
+    super(file, options);
+    this.entries.push(...archive.entries);
+  }
+
+  /** Open `path` for updating; its entries are read with `options.reader`. */
+  static async open(path: string | URL, options?: ZipUpdaterOptions): Promise<ZipUpdater> {
+    const signal = options?.signal;
+    const reader = await ZipReader.fromFile(path, { ...options?.reader, ...(signal ? { signal } : {}) });
+    let records: ZipEntryRecord[];
+    try {
+      records = reader.entries() as ZipEntryRecord[];
+    } finally {
+      await reader.close();
+    }
+    const source = FileRandomAccess.fromPath(path);
+    let archive: ExistingArchive;
+    try {
+      const eocd = await findEocd(source, false, signal, { rejectMultiDisk: true });
+      await assertDisjoint(source, records, eocd.cdOffset, signal);
+      archive = {
+        cdOffset: eocd.cdOffset,
+        comment: eocd.comment.length > 0 ? decodeUtf8(eocd.comment) : undefined,
+        entries: records.map(fromRecord)
+      };
+    } finally {
+      await source.close();
+    }
+    return new ZipUpdater(path, new FileUpdateSink(path, archive.cdOffset), archive, options?.reader, options);
+  }
+
+  /** Names of the entries the updated central directory will list, in order. */
+  names(): string[] {
+    return this.entries.map((entry) => entry.name);
+  }
+
+  override async add(
+    name: string,
+    source: Uint8Array | ArrayBuffer | ReadableStream<Uint8Array> | AsyncIterable<Uint8Array> | string | URL,
+    options?: ZipWriterAddOptions & { declaredUncompressedSize?: bigint }
+  ): Promise<void> {
+    const count = this.entries.length;
+    await super.add(name, source, options);
+    this.recordAppend(count);
+  }
+
+  override async addRaw(
+    entry: string | ZipEntry,
+    rawStream: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array> | Uint8Array,
+    options?: ZipWriterRawOptions
+  ): Promise<void> {
+    const count = this.entries.length;
+    await super.addRaw(entry, rawStream, options);
+    this.recordAppend(count);
+  }
+
+  /** Drop every entry named `name` from the central directory; its bytes become dead space. */
+  delete(name: string): void {
+    this.assertOpen();
+    let found = false;
+    for (let i = this.entries.length - 1; i >= 0; i -= 1) {
+      if (this.entries[i]!.name !== name) continue;
+      this.drop(i);
+      found = true;
+    }
+    if (!found) {
+      throw new ZipError('ZIP_UNSUPPORTED_FEATURE', 'Entry not found', { entryName: name });
+    }
+  }
+
+  /** Rename an entry; `close()` writes the new name into its local header as well. */
+  rename(from: string, to: string): void {
+    this.assertOpen();
+    if (to.includes('\u0000')) {
+      throw new ZipError('ZIP_UNSUPPORTED_FEATURE', 'Entry names must not contain NUL');
+    }
+    const entry = [...this.entries].reverse().find((candidate) => candidate.name === from);
+    if (!entry) {
+      throw new ZipError('ZIP_UNSUPPORTED_FEATURE', 'Entry not found', { entryName: from });
+    }
+    if (from === to) return;
+    if (this.entries.some((candidate) => candidate.name === to)) {
+      throw new ZipError('ZIP_NAME_COLLISION', 'An entry with the target name already exists', { entryName: to });
+    }
+    entry.name = to;
+    entry.nameBytes = encodeUtf8(to);
+    // Non-ASCII names (more bytes than UTF-16 units) are only decoded as UTF-8 when bit 11 is set.
+    if (entry.nameBytes.length !== to.length) entry.flags |= 0x800;
+    if (entry.centralExtra) {
+      // A stale Info-ZIP Unicode Path field would override the new name.
+      const fields = parseExtraFields(entry.centralExtra);
+      if (fields.delete(UNICODE_PATH_EXTRA_ID)) entry.centralExtra = buildExtraFields(fields);
+    }
+    this.renamed.add(entry);
+  }
+
+  /** Write renamed headers and the updated central directory, truncate the file, and audit the result. */
+  override async close(comment?: string, options?: ZipUpdaterCloseOptions): Promise<ZipUpdateReport> {
+    const signal = mergeSignals(this.signal, options?.signal);
+    throwIfAborted(signal);
+    if (this.report) return this.report;
+
+    const dataStart = await this.dataStart();
+    const spans = new Map<EntryWriteResult, { start: bigint; end: bigint }>();
+    for (const entry of this.entries) {
+      throwIfAborted(signal);
+      spans.set(entry, { start: entry.offset, end: entry.offset + (await this.recordLength(entry)) });
+    }
+    await this.writeRenamedHeaders(spans, signal);
+    const live = [...this.entries].sort(byOffset);
+    let cdStart = this.file.position;
+    // Whatever live records do not cover is dead: deleted and replaced records, vacated renames, and gaps
+    // left by earlier sessions.
+    let deadBytes = live.reduce((sum, entry) => sum - spanLength(spans.get(entry)!), cdStart - dataStart);
+    let reclaimedBytes = 0n;
+    if (options?.shouldCompact) {
+      let writeOffset = dataStart;
+      for (const entry of live) {
+        const span = spans.get(entry)!;
+        if (span.start !== writeOffset) await this.copyRange(span, writeOffset, signal);
+        entry.offset = writeOffset;
+        writeOffset += spanLength(span);
+      }
+      reclaimedBytes = cdStart - writeOffset;
+      deadBytes = 0n;
+      cdStart = writeOffset;
+    }
+
+    this.file.position = cdStart;
+    const cdInfo = await writeCentralDirectory(this.file, this.entries, signal);
+    const archiveComment = comment ?? this.archive.comment;
+    await finalizeArchive(
+      this.file,
+      {
+        entryCount: BigInt(this.entries.length),
+        cdOffset: cdInfo.offset,
+        cdSize: cdInfo.size,
+        forceZip64: this.forceZip64,
+        hasZip64Entries: this.entries.some((entry) => entry.zip64),
+        lastDiskEntries: cdInfo.lastDiskEntries,
+        ...(archiveComment !== undefined ? { comment: archiveComment } : {})
+      },
+      signal
+    );
+    await this.file.truncate(this.file.position);
+    await this.file.close();
+    this.closed = true;
+
+    const audit = await this.auditResult(signal);
+    this.report = {
+      ...this.summary(),
+      appendedEntries: this.appended,
+      deletedEntries: this.removed.length,
+      renamedEntries: this.entries.filter((entry) => this.renamed.has(entry)).length,
+      deadBytes,
+      reclaimedBytes,
+      audit
+    };
+    return this.report;
+  }
+
+  private recordAppend(count: number): void {
+    if (this.entries.length === count) return;
+    this.appended += 1;
+    const added = this.entries[this.entries.length - 1]!;
+    for (let i = this.entries.length - 2; i >= 0; i -= 1) {
+      if (this.entries[i]!.name === added.name) this.drop(i);
+    }
+  }
+
+  private drop(index: number): void {
+    const [entry] = this.entries.splice(index, 1);
+    if (entry) this.removed.push(entry);
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new ZipError('ZIP_UNSUPPORTED_FEATURE', 'Cannot update entries after close');
+    }
+  }
+
+  /**
+   * Where entry records begin: the start of the file when it opens with a local header, which
+   * dead records from earlier sessions can occupy, otherwise the first known record so a prefix
+   * such as a self-extractor stub is kept.
+   */
+  private async dataStart(): Promise<bigint> {
+    const first = await this.file.read(0n, 4);
+    if (first.length === 4 && readUint32LE(first, 0) === LFH_SIGNATURE) return 0n;
+    const offsets = [...this.entries, ...this.removed].map((entry) => entry.offset);
+    return offsets.reduce((min, offset) => (offset < min ? offset : min), this.file.position);
+  }
+
+  /**
+   * Length of an entry record: local header, compressed data and, with flag bit 3, the data descriptor
+   * (signature optional, 64-bit sizes when the local header has a ZIP64 field).
+   */
+  private async recordLength(entry: EntryWriteResult): Promise<bigint> {
+    const header = await this.localHeaderBytes(entry);
+    const length = BigInt(header.length) + entry.compressedSize;
+    if ((readUint16LE(header, 6) & 0x08) === 0) return length;
+    const zip64 = parseExtraFields(header.subarray(30 + readUint16LE(header, 26))).has(ZIP64_EXTRA_ID);
+    const descriptor = await this.file.read(entry.offset + length, 8);
+    // A CRC that happens to equal the signature is told apart by the CRC that would follow it.
+    const signed =
+      descriptor.length === 8 &&
+      readUint32LE(descriptor, 0) === DATA_DESCRIPTOR_SIGNATURE &&
+      (entry.crc32 !== DATA_DESCRIPTOR_SIGNATURE || readUint32LE(descriptor, 4) === entry.crc32);
+    return length + (signed ? 4n : 0n) + (zip64 ? 20n : 12n);
+  }
+
+  /**
+   * Put the new name of each renamed entry into its local header.
+   *
+   * Headers that keep their length are overwritten in place; any other record is copied after the
+   * last one with its new header.
+   */
+  private async writeRenamedHeaders(
+    spans: Map<EntryWriteResult, { start: bigint; end: bigint }>,
+    signal?: AbortSignal
+  ): Promise<void> {
+    for (const entry of this.entries.filter((candidate) => this.renamed.has(candidate)).sort(byOffset)) {
+      throwIfAborted(signal);
+      const span = spans.get(entry)!;
+      const current = await this.localHeaderBytes(entry);
+      const header = renameLocalHeader(current, entry);
+      if (header.length === current.length) {
+        await this.file.writeAt(entry.offset, header);
+        continue;
+      }
+      const target = this.file.position;
+      const rest = { start: span.start + BigInt(current.length), end: span.end };
+      await this.file.writeAt(target, header);
+      await this.copyRange(rest, target + BigInt(header.length), signal);
+      entry.offset = target;
+      this.file.position = target + BigInt(header.length) + spanLength(rest);
+      spans.set(entry, { start: target, end: this.file.position });
+    }
+  }
+
+  private async localHeaderBytes(entry: EntryWriteResult): Promise<Uint8Array> {
+    const fixed = await this.file.read(entry.offset, 30);
+    if (fixed.length < 30 || readUint32LE(fixed, 0) !== LFH_SIGNATURE) {
+      throw new ZipError('ZIP_INVALID_SIGNATURE', 'Invalid local file header signature', {
+        entryName: entry.name,
+        offset: entry.offset
+      });
+    }
+    const length = 30 + readUint16LE(fixed, 26) + readUint16LE(fixed, 28);
+    const header = await this.file.read(entry.offset, length);
+    if (header.length < length) {
+      throw new ZipError('ZIP_TRUNCATED', 'Local header truncated', { entryName: entry.name });
+    }
+    return header;
+  }
+
+  private async copyRange(span: { start: bigint; end: bigint }, target: bigint, signal?: AbortSignal): Promise<void> {
+    // Records either move towards the start of the file or past its end, so a forward copy never
+    // overwrites unread bytes.
+    for (let offset = span.start; offset < span.end; ) {
+      throwIfAborted(signal);
+      const remaining = span.end - offset;
+      const length = remaining < BigInt(COPY_CHUNK_BYTES) ? Number(remaining) : COPY_CHUNK_BYTES;
+      const chunk = await this.file.read(offset, length);
+      if (chunk.length !== length) {
+        throw new ZipError('ZIP_TRUNCATED', 'Archive ended inside an entry record', { offset });
+      }
+      await this.file.writeAt(target + (offset - span.start), chunk);
+      offset += BigInt(length);
+    }
+  }
+
+  private async auditResult(signal?: AbortSignal): Promise<ZipAuditReport> {
+    const reader = await ZipReader.fromFile(this.path, { ...this.readerOptions, ...(signal ? { signal } : {}) });
+    try {
+      return await reader.audit(signal ? { signal } : undefined);
+    } finally {
+      await reader.close();
+    }
+  }
+}
+
+/**
+ * Refuse archives whose records overlap, judged from their local headers and compressed sizes.
+ *
+ * @throws {ZipError} `ZIP_AUDIT_FAILED` naming the later of two overlapping entries.
+ */
+async function assertDisjoint(
+  source: FileRandomAccess,
+  records: ZipEntryRecord[],
+  dataEnd: bigint,
+  signal?: AbortSignal
+): Promise<void> {
+  let previousEnd = 0n;
+  for (const record of [...records].sort(byOffset)) {
+    throwIfAborted(signal);
+    const local = await readLocalHeader(source, record, signal);
+    const end = local.dataOffset + record.compressedSize;
+    if (record.offset < previousEnd || end > dataEnd) {
+      throw new ZipError('ZIP_AUDIT_FAILED', 'Archive has overlapping entries', { entryName: record.name });
+    }
+    previousEnd = end;
+  }
+}
+
+function fromRecord(record: ZipEntryRecord): EntryWriteResult {
+  const extra = new Map(record.extra);
+  // The ZIP64 field is rebuilt from the entry sizes and its (possibly moved) offset.
+  extra.delete(ZIP64_EXTRA_ID);
+  return {
+    name: record.name,
+    nameBytes: record.rawNameBytes,
+    flags: record.flags,
+    method: record.method,
+    crc32: record.crc32,
+    compressedSize: record.compressedSize,
+    uncompressedSize: record.uncompressedSize,
+    offset: record.offset,
+    mtime: record.mtime,
+    dosTime: record.modTime,
+    comment: record.comment,
+    externalAttributes: record.externalAttributes,
+    zip64: record.zip64,
+    versionNeeded: Math.max(record.zip64 ? 45 : 20, record.method === 99 ? 51 : 0),
+    madeBy: record.madeBy,
+    centralExtra: buildExtraFields(extra)
+  };
+}
+
+/** Swap the name in a local header for the entry's new one, dropping a stale Unicode Path field. */
+function renameLocalHeader(header: Uint8Array, entry: EntryWriteResult): Uint8Array {
+  const nameLength = readUint16LE(header, 26);
+  let extra = header.subarray(30 + nameLength);
+  const fields = parseExtraFields(extra);
+  if (fields.delete(UNICODE_PATH_EXTRA_ID)) extra = buildExtraFields(fields);
+  const out = new Uint8Array(30 + entry.nameBytes.length + extra.length);
+  out.set(header.subarray(0, 30));
+  writeUint16LE(out, 6, readUint16LE(header, 6) | (entry.flags & 0x800));
+  writeUint16LE(out, 26, entry.nameBytes.length);
+  writeUint16LE(out, 28, extra.length);
+  out.set(entry.nameBytes, 30);
+  out.set(extra, 30 + entry.nameBytes.length);
+  return out;
+}
+
+function byOffset(a: { offset: bigint }, b: { offset: bigint }): number {
+  return a.offset < b.offset ? -1 : a.offset > b.offset ? 1 : 0;
+}
+
+function spanLength(span: { start: bigint; end: bigint }): bigint {
+  return span.end - span.start;
+}
@@ -12,7 +12,7 @@ import { createLimitTransform, type LimitTotals } from '../../streams/limits.js'
 import { createProgressTracker, createProgressTransform } from '../../streams/progress.js';
 import type { RandomAccess } from './RandomAccess.js';
 import type { ZipEntryRecord } from '../../reader/centralDirectory.js';
-import { readLocalHeader } from '../../reader/localHeader.js';
+import { readLocalHeader, type LocalHeaderInfo } from '../../reader/localHeader.js';
 import type { ZipLimits, ZipProgressOptions } from '../../types.js';
 import { throwIfAborted } from '../../abort.js';
 import { getCompressionCodec } from '../../compression/registry.js';
@@ -21,13 +21,17 @@ export interface OpenEntryOptions extends ZipProgressOptions {
   strict: boolean;
   onWarning?: (warning: ZipWarning) => void;
   password?: string;
+  dictionary?: Uint8Array;
   signal?: AbortSignal;
   limits: Required<ZipLimits>;
   totals?: LimitTotals;
+  /** Called with the local header before any entry data is read. */
+  onLocalHeader?: (local: LocalHeaderInfo) => void;
 }
 
 export interface OpenRawOptions extends ZipProgressOptions {
   signal?: AbortSignal;
+  onLocalHeader?: (local: LocalHeaderInfo) => void;
 }
 
 export async function openRawStream(
@@ -36,6 +40,7 @@ export async function openRawStream(
   options?: OpenRawOptions
 ): Promise<{ stream: ReadableStream<Uint8Array>; dataOffset: bigint }> {
   const local = await readLocalHeader(reader, entry, options?.signal);
+  options?.onLocalHeader?.(local);
   const dataOffset = local.dataOffset;
   const readTracker = createProgressTracker(options, {
     kind: 'read',
@@ -54,6 +59,7 @@ export async function openEntryStream(
   options: OpenEntryOptions
 ): Promise<ReadableStream<Uint8Array>> {
   const local = await readLocalHeader(reader, entry, options.signal);
+  options.onLocalHeader?.(local);
   const encrypted = (local.flags & 0x1) !== 0 || entry.encrypted;
 
   if (!encrypted) {
@@ -190,7 +196,12 @@ async function decodeAndValidate(
       method
     });
   }
-  const transform = await codec.createDecompressStream(options.signal ? { signal: options.signal } : undefined);
+  const transform = await codec.createDecompressStream({
+    flags: entry.flags,
+    uncompressedSize: entry.uncompressedSize,
+    ...(options.dictionary ? { dictionary: options.dictionary } : {}),
+    ...(options.signal ? { signal: options.signal } : {})
+  });
   const decompressed = rawStream.pipeThrough(transform);
   const limited = decompressed.pipeThrough(
     createLimitTransform({
@@ -3,18 +3,21 @@ import { mkdtemp, rm } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import path from 'node:path';
 import { getCompressionCodec } from '../../compression/registry.js';
+import type { ZipCodecOptions } from '../../compression/types.js';
+import type { PrecompressedEntry } from '../../writer/compressionPool.js';
 import { encodeUtf8, writeUint16LE, writeUint32LE, writeUint64LE } from '../../binary.js';
 import { dateToDos } from '../../dosTime.js';
 import { buildAesExtra, buildExtendedTimestampExtra, buildZip64Extra } from '../../extraFields.js';
 import { ZipError } from '../../errors.js';
 import { createZipCryptoEncryptTransform, createZipCryptoHeader } from '../../crypto/zipcrypto.js';
 import { createAesEncryptionTransform, deriveAesKeys, generateSalt } from '../../crypto/winzip-aes.js';
-import { toWebReadable } from '../../streams/adapters.js';
+import { readableFromBytes, toWebReadable } from '../../streams/adapters.js';
 import { createCrcTransform } from '../../streams/crcTransform.js';
 import { createMeasureTransform } from '../../streams/measure.js';
 import { createProgressTracker, createProgressTransform } from '../../streams/progress.js';
 import { throwIfAborted } from '../../abort.js';
 import { NodeWritableSink, type SeekableSink, type Sink } from './Sink.js';
+import { writeRecord } from '../../writer/Sink.js';
 import type { ZipEncryption, Zip64Mode, ZipProgressOptions } from '../../types.js';
 
 const LFH_SIGNATURE = 0x04034b50;
@@ -30,11 +33,17 @@ export interface EntryWriteResult {
   uncompressedSize: bigint;
   offset: bigint;
   mtime: Date;
+  /** DOS time word for the central header when it must not be derived from `mtime`. */
+  dosTime?: number;
   comment?: string | undefined;
   externalAttributes: number;
   zip64: boolean;
   versionNeeded: number;
   aesExtra?: Uint8Array;
+  /** Version-made-by carried over from an existing central record; defaults to Unix. */
+  madeBy?: number;
+  /** Central extra fields (minus ZIP64) carried over verbatim in place of the AES and timestamp fields. */
+  centralExtra?: Uint8Array;
 }
 
 export interface EntryWriteInput {
@@ -50,6 +59,11 @@ export interface EntryWriteInput {
   encryption: ZipEncryption;
   sizeHint?: bigint;
   declaredUncompressedSize?: bigint;
+  compression?: ZipCodecOptions;
+  /** Payload already compressed by the writer's compression pool. */
+  precompressed?: PrecompressedEntry;
+  /** Further extra fields, written after the AES field in both headers. */
+  extra?: Uint8Array;
   signal?: AbortSignal;
   progress?: ZipProgressOptions;
 }
@@ -63,11 +77,15 @@ export interface RawEntryWriteInput {
   compressedSize: bigint;
   uncompressedSize: bigint;
   mtime: Date;
+  /** DOS time word to write in place of the one derived from `mtime`. */
+  dosTime?: number;
   comment?: string | undefined;
   externalAttributes?: number;
   zip64Mode: Zip64Mode;
   forceZip64: boolean;
   aesExtra?: Uint8Array;
+  /** Further extra fields, written after the AES field in both headers. */
+  extra?: Uint8Array;
   signal?: AbortSignal;
   progress?: ZipProgressOptions;
 }
@@ -97,17 +115,20 @@ export async function writeRawEntry(sink: Sink, input: RawEntryWriteInput): Prom
     input.compressedSize,
     input.uncompressedSize
   );
+  // Bit 3 survives only for ZipCrypto copies; their sizes and CRC then follow the data.
+  const hasDescriptor = (input.flags & 0x08) !== 0;
   const baseVersion = useZip64 ? 45 : 20;
   const versionNeeded = input.aesExtra ? Math.max(baseVersion, 51) : baseVersion;
 
   const localExtras = [
     useZip64
       ? buildZip64Extra({
-          uncompressedSize: input.uncompressedSize,
-          compressedSize: input.compressedSize
+          uncompressedSize: hasDescriptor ? 0n : input.uncompressedSize,
+          compressedSize: hasDescriptor ? 0n : input.compressedSize
         })
       : new Uint8Array(0),
     input.aesExtra ?? new Uint8Array(0),
+    input.extra ?? new Uint8Array(0),
     buildExtendedTimestampExtra({ mtime: input.mtime }, false)
   ];
   const localExtra = concat(localExtras);
@@ -117,12 +138,15 @@ export async function writeRawEntry(sink: Sink, input: RawEntryWriteInput): Prom
   writeUint16LE(header, 4, versionNeeded);
   writeUint16LE(header, 6, input.flags);
   writeUint16LE(header, 8, input.method);
-  writeUint16LE(header, 10, dos.time);
+  writeUint16LE(header, 10, input.dosTime ?? dos.time);
   writeUint16LE(header, 12, dos.date);
-  writeUint32LE(header, 14, input.crc32);
+  writeUint32LE(header, 14, hasDescriptor ? 0 : input.crc32);
   if (useZip64) {
     writeUint32LE(header, 18, 0xffffffff);
     writeUint32LE(header, 22, 0xffffffff);
+  } else if (hasDescriptor) {
+    writeUint32LE(header, 18, 0);
+    writeUint32LE(header, 22, 0);
   } else {
     writeUint32LE(header, 18, Number(input.compressedSize));
     writeUint32LE(header, 22, Number(input.uncompressedSize));
@@ -133,7 +157,7 @@ export async function writeRawEntry(sink: Sink, input: RawEntryWriteInput): Prom
   header.set(localExtra, 30 + nameBytes.length);
 
   const offset = sink.position;
-  await sink.write(header);
+  await writeRecord(sink, header);
   writeTracker?.update(header.length, header.length);
 
   const measure = { bytes: 0n };
@@ -143,6 +167,11 @@ export async function writeRawEntry(sink: Sink, input: RawEntryWriteInput): Prom
   if (measure.bytes !== input.compressedSize) {
     throw new ZipError('ZIP_TRUNCATED', 'Compressed data size mismatch', { entryName: input.name });
   }
+  if (hasDescriptor) {
+    const descriptor = buildDataDescriptor(input.crc32, input.compressedSize, input.uncompressedSize, useZip64);
+    await writeRecord(sink, descriptor);
+    writeTracker?.update(descriptor.length, descriptor.length);
+  }
 
   return {
     name: input.name,
@@ -154,11 +183,21 @@ export async function writeRawEntry(sink: Sink, input: RawEntryWriteInput): Prom
     uncompressedSize: input.uncompressedSize,
     offset,
     mtime: input.mtime,
+    ...(input.dosTime !== undefined ? { dosTime: input.dosTime } : {}),
     comment: input.comment,
     externalAttributes: input.externalAttributes ?? 0,
     zip64: useZip64,
     versionNeeded,
-    ...(input.aesExtra ? { aesExtra: input.aesExtra } : {})
+    ...(input.aesExtra ? { aesExtra: input.aesExtra } : {}),
+    ...(input.extra
+      ? {
+          centralExtra: concat([
+            input.aesExtra ?? new Uint8Array(0),
+            input.extra,
+            buildExtendedTimestampExtra({ mtime: input.mtime }, true)
+          ])
+        }
+      : {})
   };
 }
 
@@ -172,7 +211,7 @@ async function writeStreamingEntry(sink: Sink | SeekableSink, input: EntryWriteI
   });
   const encrypted = input.encryption.type !== 'none';
   // APPNOTE 6.3.10 section 4.3.9: bit 3 indicates data descriptor follows file data.
-  const flags = (input.patchLocalHeader ? 0 : 0x08) | 0x800 | (encrypted ? 0x01 : 0); // UTF-8 (+ data descriptor if streaming)
+  const flags = (input.patchLocalHeader ? 0 : 0x08) | 0x800 | (encrypted ? 0x01 : 0) | (await methodFlags(input.method, input.compression)); // UTF-8 (+ data descriptor if streaming)
   const headerMethod = input.encryption.type === 'aes' ? 99 : input.method;
   const useZip64 = input.patchLocalHeader
     ? shouldUseZip64ForPatch(input, sink.position)
@@ -195,6 +234,7 @@ async function writeStreamingEntry(sink: Sink | SeekableSink, input: EntryWriteI
         })
       : new Uint8Array(0),
     aesExtra ?? new Uint8Array(0),
+    input.extra ?? new Uint8Array(0),
     buildExtendedTimestampExtra({ mtime: input.mtime }, false)
   ];
   const localExtra = concat(localExtras);
@@ -225,7 +265,7 @@ async function writeStreamingEntry(sink: Sink | SeekableSink, input: EntryWriteI
   header.set(localExtra, 30 + nameBytes.length);
 
   const offset = sink.position;
-  await sink.write(header);
+  await writeRecord(sink, header);
   writeTracker?.update(header.length, header.length);
 
   const crcResult = { crc32: 0, bytes: 0n };
@@ -244,10 +284,19 @@ async function writeStreamingEntry(sink: Sink | SeekableSink, input: EntryWriteI
           entryName: input.name
         });
 
-  let stream = input.source;
-  stream = stream.pipeThrough(createCrcTransform(crcResult, { strict: true }));
-  stream = stream.pipeThrough(createProgressTransform(compressTracker));
-  stream = await compressStream(stream, input.method, input.name);
+  let stream: ReadableStream<Uint8Array>;
+  if (input.precompressed) {
+    crcResult.crc32 = input.precompressed.crc32;
+    crcResult.bytes = input.precompressed.uncompressedSize;
+    compressTracker?.update(Number(crcResult.bytes), Number(crcResult.bytes));
+    compressTracker?.flush();
+    stream = readableFromBytes(input.precompressed.data);
+  } else {
+    stream = input.source;
+    stream = stream.pipeThrough(createCrcTransform(crcResult, { strict: true }));
+    stream = stream.pipeThrough(createProgressTransform(compressTracker));
+    stream = await compressStream(stream, input.method, input.name, input.compression);
+  }
 
   let authResult: { authCode?: Uint8Array } | undefined;
   let overhead = 0n;
@@ -330,7 +379,7 @@ async function writeStreamingEntry(sink: Sink | SeekableSink, input: EntryWriteI
     }
   } else {
     const descriptor = buildDataDescriptor(storedCrc32, compressedSize, uncompressedSize, useZip64);
-    await sink.write(descriptor);
+    await writeRecord(sink, descriptor);
     writeTracker?.update(descriptor.length, descriptor.length);
   }
 
@@ -348,7 +397,16 @@ async function writeStreamingEntry(sink: Sink | SeekableSink, input: EntryWriteI
     externalAttributes: input.externalAttributes ?? 0,
     zip64: useZip64,
     versionNeeded,
-    ...(aesExtra ? { aesExtra } : {})
+    ...(aesExtra ? { aesExtra } : {}),
+    ...(input.extra
+      ? {
+          centralExtra: concat([
+            aesExtra ?? new Uint8Array(0),
+            input.extra,
+            buildExtendedTimestampExtra({ mtime: input.mtime }, true)
+          ])
+        }
+      : {})
   };
 }
 
@@ -370,7 +428,7 @@ async function writeZipCryptoSeekable(sink: Sink | SeekableSink, input: EntryWri
   try {
     const nameBytes = encodeUtf8(input.name);
     const dos = dateToDos(input.mtime);
-    const flags = 0x800 | 0x01;
+    const flags = 0x800 | 0x01 | (await methodFlags(input.method, input.compression));
     const uncompressedForCheck = input.declaredUncompressedSize ?? uncompressedSize;
     const requiresZip64 =
       sink.position > 0xffffffffn || compressedSize + 12n > 0xffffffffn || uncompressedForCheck > 0xffffffffn;
@@ -393,6 +451,7 @@ async function writeZipCryptoSeekable(sink: Sink | SeekableSink, input: EntryWri
             compressedSize: compressedSize + 12n
           })
         : new Uint8Array(0),
+      input.extra ?? new Uint8Array(0),
       buildExtendedTimestampExtra({ mtime: input.mtime }, false)
     ];
     const localExtra = concat(localExtras);
@@ -418,7 +477,7 @@ async function writeZipCryptoSeekable(sink: Sink | SeekableSink, input: EntryWri
     header.set(localExtra, 30 + nameBytes.length);
 
     const offset = sink.position;
-    await sink.write(header);
+    await writeRecord(sink, header);
     writeTracker?.update(header.length, header.length);
 
     const checkWord = (crc32 >>> 16) & 0xffff;
@@ -447,17 +506,25 @@ async function writeZipCryptoSeekable(sink: Sink | SeekableSink, input: EntryWri
       comment: input.comment,
       externalAttributes: input.externalAttributes ?? 0,
       zip64: useZip64,
-      versionNeeded
+      versionNeeded,
+      ...(input.extra
+        ? { centralExtra: concat([input.extra, buildExtendedTimestampExtra({ mtime: input.mtime }, true)]) }
+        : {})
     };
   } finally {
     await rm(tempDir, { recursive: true, force: true });
   }
 }
 
+async function methodFlags(method: number, compression?: ZipCodecOptions): Promise<number> {
+  return ((await getCompressionCodec(method)?.generalPurposeFlags?.(compression)) ?? 0) & 0x06;
+}
+
 async function compressStream(
   input: ReadableStream<Uint8Array>,
   method: number,
-  entryName: string
+  entryName: string,
+  compression?: ZipCodecOptions
 ): Promise<ReadableStream<Uint8Array>> {
   const codec = getCompressionCodec(method);
   if (!codec || !codec.createCompressStream) {
@@ -466,7 +533,7 @@ async function compressStream(
       method
     });
   }
-  const transform = await codec.createCompressStream();
+  const transform = await codec.createCompressStream(compression);
   return input.pipeThrough(transform);
 }
 
@@ -490,7 +557,7 @@ async function spoolCompressedData(
     let stream = input.source;
     stream = stream.pipeThrough(createCrcTransform(crcResult, { strict: true }));
     stream = stream.pipeThrough(createProgressTransform(compressTracker));
-    stream = await compressStream(stream, input.method, input.name);
+    stream = await compressStream(stream, input.method, input.name, input.compression);
     stream = stream.pipeThrough(createMeasureTransform(measure));
     await pipeToSink(stream, sink, input.signal);
     await sink.close();
@@ -2,6 +2,8 @@
 export { ZipReader } from './ZipReader.js';
 /** Node-runtime ZIP writer implementation. */
 export { ZipWriter } from './ZipWriter.js';
+/** In-place updater for existing ZIP files. */
+export { ZipUpdater } from './ZipUpdater.js';
 /** Typed ZIP-domain error class. */
 export { ZipError } from '../../errors.js';
 /** Stable ZIP error code union. */
@@ -17,23 +19,39 @@ export type {
   ZipNormalizeReport,
   ZipEncryption,
   ZipEntry,
+  ZipExtraField,
+  ZipExtraFieldDecoded,
   ZipExtractOptions,
+  ZipExtractPreserveOptions,
   ZipIssue,
   ZipIssueSeverity,
   ZipLimits,
+  ZipMethodSelection,
+  ZipMethodSelectionReason,
   ZipProfile,
   ZipProgressEvent,
   ZipProgressOptions,
   ZipReaderIterOptions,
   ZipReaderOpenOptions,
   ZipReaderOptions,
+  ZipSplitOptions,
+  ZipUpdateReport,
+  ZipUpdaterCloseOptions,
+  ZipUpdaterOptions,
   ZipWarning,
   ZipWriterAddOptions,
   ZipWriterCloseOptions,
+  ZipWriterRawOptions,
+  ZipWriterSummary,
   ZipWriterOptions
 } from '../../types.js';
 
 /** Register/list ZIP compression codecs for Node runtime. */
 export { registerCompressionCodec, listCompressionCodecs } from '../../compression/registry.js';
 /** ZIP compression codec and stream contract types. */
-export type { ZipCompressionCodec, ZipCompressionStream } from '../../compression/types.js';
+export type {
+  ZipCodecOptions,
+  ZipCompressionCodec,
+  ZipCompressionStream,
+  ZipDeflateStrategy
+} from '../../compression/types.js';
@@ -0,0 +1,124 @@
+import { throwIfAborted } from '../abort.js';
+import type { RandomAccess } from './RandomAccess.js';
+
+/**
+ * Maps disk-relative ZIP offsets onto one logical address space.
+ * @internal
+ */
+export interface ZipDiskLayout {
+  /** Number of disks (segments) available to the reader. */
+  readonly diskCount: number;
+  /** Size of one disk in bytes, or undefined when the disk does not exist. */
+  diskSize(disk: number): bigint | undefined;
+  /** Translate a disk-relative offset to a logical offset, or undefined when the disk does not exist. */
+  toLogicalOffset(disk: number, offset: bigint): bigint | undefined;
+}
+
+/**
+ * Random access over split ZIP segments (`.z01`, `.z02`, ..., `.zip`) stitched in disk order.
+ *
+ * Disk `n` occupies the logical range starting at the summed sizes of disks `0..n-1`.
+ * @internal
+ */
+export class MultiDiskRandomAccess implements RandomAccess, ZipDiskLayout {
+  private constructor(
+    private readonly segments: RandomAccess[],
+    private readonly sizes: bigint[],
+    private readonly starts: bigint[],
+    private readonly totalSize: bigint
+  ) {}
+
+  /**
+   * Resolve segment sizes and build the logical layout.
+   *
+   * @throws {RangeError} When no segments are provided.
+   */
+  static async open(segments: RandomAccess[], signal?: AbortSignal): Promise<MultiDiskRandomAccess> {
+    if (segments.length === 0) {
+      throw new RangeError('At least one ZIP segment is required');
+    }
+    const sizes: bigint[] = [];
+    const starts: bigint[] = [];
+    let total = 0n;
+    for (const segment of segments) {
+      starts.push(total);
+      const size = await segment.size(signal);
+      sizes.push(size);
+      total += size;
+    }
+    return new MultiDiskRandomAccess([...segments], sizes, starts, total);
+  }
+
+  get diskCount(): number {
+    return this.segments.length;
+  }
+
+  diskSize(disk: number): bigint | undefined {
+    return this.sizes[disk];
+  }
+
+  toLogicalOffset(disk: number, offset: bigint): bigint | undefined {
+    const start = this.starts[disk];
+    return start === undefined ? undefined : start + offset;
+  }
+
+  async size(signal?: AbortSignal): Promise<bigint> {
+    throwIfAborted(signal);
+    return this.totalSize;
+  }
+
+  async read(offset: bigint, length: number, signal?: AbortSignal): Promise<Uint8Array> {
+    throwIfAborted(signal);
+    if (length <= 0 || offset < 0n || offset >= this.totalSize) return new Uint8Array(0);
+    let disk = this.findDisk(offset);
+    let position = offset - this.starts[disk]!;
+    let remaining = length;
+    const chunks: Uint8Array[] = [];
+    while (remaining > 0 && disk < this.segments.length) {
+      const available = this.sizes[disk]! - position;
+      if (available > 0n) {
+        const toRead = available < BigInt(remaining) ? Number(available) : remaining;
+        const chunk = await this.segments[disk]!.read(position, toRead, signal);
+        chunks.push(chunk);
+        remaining -= chunk.length;
+        if (chunk.length < toRead) break;
+      }
+      disk += 1;
+      position = 0n;
+    }
+    if (chunks.length === 1) return chunks[0]!;
+    const out = new Uint8Array(length - remaining);
+    let written = 0;
+    for (const chunk of chunks) {
+      out.set(chunk, written);
+      written += chunk.length;
+    }
+    return out;
+  }
+
+  async close(): Promise<void> {
+    let firstError: unknown;
+    for (const segment of this.segments) {
+      try {
+        await segment.close();
+      } catch (err) {
+        firstError ??= err;
+      }
+    }
+    if (firstError !== undefined) throw firstError;
+  }
+
+  private findDisk(offset: bigint): number {
+    let low = 0;
+    let high = this.starts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.starts[mid]! <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+}
@@ -20,11 +20,13 @@ import type {
 } from '../types.js';
 import { BufferRandomAccess, HttpRandomAccess, type RandomAccess } from './RandomAccess.js';
 import { wrapRandomAccessForZip } from './httpZipErrors.js';
+import { MultiDiskRandomAccess, type ZipDiskLayout } from './MultiDiskRandomAccess.js';
 import { findEocd, type EocdResult } from './eocd.js';
-import { iterCentralDirectory, type ZipEntryRecord } from './centralDirectory.js';
+import { cloneEntryRecord, iterCentralDirectory, type ZipEntryRecord } from './centralDirectory.js';
 import { openEntryStream, openRawStream, type OpenEntryOptions } from './entryStream.js';
-import { buildAesExtra, parseAesExtra } from '../extraFields.js';
+import { buildAesExtra, parseAesExtra, pickExtraFields, PLATFORM_METADATA_EXTRA_IDS } from '../extraFields.js';
 import { readLocalHeader, type LocalHeaderInfo } from './localHeader.js';
+import { extraFieldIssues } from './extraFieldInspection.js';
 import { readableFromBytes } from '../streams/web.js';
 import { readAllBytes } from '../streams/buffer.js';
 import { createCrcTransform } from '../streams/crcTransform.js';
@@ -39,6 +41,8 @@ import { AGENT_RESOURCE_LIMITS, DEFAULT_RESOURCE_LIMITS } from '../limits.js';
 
 const DEFAULT_LIMITS: Required<ZipLimits> = DEFAULT_RESOURCE_LIMITS;
 const AGENT_LIMITS: Required<ZipLimits> = AGENT_RESOURCE_LIMITS;
+// Unix `lrwxrwxrwx` in the high half, as deterministic output gives kept symlinks.
+const DETERMINISTIC_SYMLINK_ATTRIBUTES = (0o120777 << 16) >>> 0;
 
 /**
  * Read ZIP archives from bytes, streams, or URLs.
@@ -78,11 +82,18 @@ export class ZipReader {
    * @internal
    */
   protected entriesList: ZipEntryRecord[] | null = null;
+  /** Stored entries grouped by local header offset, built on the first open. */
+  private entriesByOffset: Map<bigint, ZipEntryRecord[]> | null = null;
   /**
    * Default password reused for encrypted entry opens when provided.
    * @internal
    */
   protected readonly password: string | undefined;
+  /**
+   * Default Zstandard dictionary passed to entry decoders.
+   * @internal
+   */
+  protected readonly dictionary: Uint8Array | undefined;
   /**
    * Whether entries should remain cached after initialization.
    * @internal
@@ -103,18 +114,26 @@ export class ZipReader {
    * @internal
    */
   protected readonly reader: RandomAccess;
+  /**
+   * Disk layout for split archives opened from multiple segments.
+   * @internal
+   */
+  protected readonly disks: ZipDiskLayout | undefined;
 
   /** @internal */
   protected constructor(
     reader: RandomAccess,
-    options?: ZipReaderOptions
+    options?: ZipReaderOptions,
+    disks?: ZipDiskLayout
   ) {
     const resolved = resolveReaderProfile(options);
     this.reader = reader;
+    this.disks = disks;
     this.profile = resolved.profile;
     this.strict = resolved.strict;
     this.limits = resolved.limits;
     this.password = options?.password;
+    this.dictionary = options?.dictionary;
     this.storeEntries = options?.shouldStoreEntries ?? true;
     this.signal = mergeSignals(options?.signal, options?.http?.signal);
   }
@@ -131,6 +150,20 @@ export class ZipReader {
     return instance;
   }
 
+  /**
+   * Create a reader from the segments of a split (multi-disk) archive.
+   *
+   * Segments must be ordered by disk number: `.z01`, `.z02`, ..., with the
+   * `.zip` segment holding the EOCD last. Disk numbers recorded in the EOCD,
+   * ZIP64 locator, and central directory are resolved against this order.
+   */
+  static async fromRandomAccessSet(segments: RandomAccess[], options?: ZipReaderOptions): Promise<ZipReader> {
+    const set = await MultiDiskRandomAccess.open(segments.map(wrapRandomAccessForZip), options?.signal);
+    const instance = new ZipReader(set, options, set);
+    await instance.init();
+    return instance;
+  }
+
   /** Create a reader from in-memory bytes. */
   static async fromUint8Array(data: Uint8Array, options?: ZipReaderOptions): Promise<ZipReader> {
     const reader = new BufferRandomAccess(data);
@@ -194,7 +227,7 @@ export class ZipReader {
       );
     }
     if (!this.entriesList) return [];
-    return this.entriesList.map((entry) => ({ ...entry }));
+    return this.entriesList.map(cloneEntryRecord);
   }
 
   /** Return non-fatal warnings encountered during parsing. */
@@ -209,7 +242,7 @@ export class ZipReader {
     if (this.entriesList) {
       for (const entry of this.entriesList) {
         throwIfAborted(signal);
-        yield { ...entry };
+        yield cloneEntryRecord(entry);
       }
       return;
     }
@@ -226,6 +259,7 @@ export class ZipReader {
       {
         strict: this.strict,
         maxEntries: this.limits.maxEntries,
+        disks: this.disks,
         onWarning: (warning) => this.warningsList.push(warning),
         ...(signal ? { signal } : {})
       }
@@ -233,7 +267,7 @@ export class ZipReader {
       throwIfAborted(signal);
       this.applyEntryLimits(entry, totals);
       if (this.storeEntries) entries.push(entry);
-      yield { ...entry };
+      yield cloneEntryRecord(entry);
     }
     if (this.storeEntries) {
       this.entriesList = entries;
@@ -252,7 +286,12 @@ export class ZipReader {
     const strict = options?.isStrict ?? this.strict;
     const signal = this.resolveSignal(options?.signal);
     const totals = { totalUncompressed: 0n };
-    const params: { strict: boolean; onWarning: (warning: ZipWarning) => void; password?: string } = {
+    const params: {
+      strict: boolean;
+      onWarning: (warning: ZipWarning) => void;
+      password?: string;
+      dictionary?: Uint8Array;
+    } = {
       strict,
       onWarning: (warning) => this.warningsList.push(warning)
     };
@@ -260,10 +299,15 @@ export class ZipReader {
     if (password !== undefined) {
       params.password = password;
     }
+    const dictionary = options?.dictionary ?? this.dictionary;
+    if (dictionary) {
+      params.dictionary = dictionary;
+    }
     return this.openEntryStream(entry as ZipEntryRecord, {
       ...params,
       ...(signal ? { signal } : {}),
       ...progressParams(options),
+      onLocalHeader: (local) => this.recordLocalExtra(entry.offset, local),
       limits: this.limits,
       totals
     });
@@ -274,7 +318,8 @@ export class ZipReader {
     const signal = this.resolveSignal(options?.signal);
     const { stream } = await openRawStream(this.reader, entry as ZipEntryRecord, {
       ...(signal ? { signal } : {}),
-      ...progressParams(options)
+      ...progressParams(options),
+      onLocalHeader: (local) => this.recordLocalExtra(entry.offset, local)
     });
     return stream;
   }
@@ -290,6 +335,7 @@ export class ZipReader {
     options: ZipReaderOpenOptions & {
       strict: boolean;
       onWarning?: (warning: ZipWarning) => void;
+      onLocalHeader?: (local: LocalHeaderInfo) => void;
       limits: Required<ZipLimits>;
       totals?: { totalUncompressed: bigint };
     }
@@ -358,7 +404,8 @@ export class ZipReader {
         maxCommentBytes: settings.limits.maxZipCommentBytes,
         maxCentralDirectoryBytes: settings.limits.maxZipCentralDirectoryBytes,
         maxEntries: settings.limits.maxEntries,
-        rejectMultiDisk: true
+        rejectMultiDisk: true,
+        ...(this.disks ? { disks: this.disks } : {})
       });
     } catch (err) {
       addIssue(issueFromError(err));
@@ -410,6 +457,7 @@ export class ZipReader {
         {
           strict: false,
           maxEntries: settings.limits.maxEntries,
+          disks: this.disks,
           onWarning: addParseWarning,
           ...(signal ? { signal } : {})
         }
@@ -577,6 +625,9 @@ export class ZipReader {
               details: mismatchDetails
             });
           }
+          for (const issue of extraFieldIssues(entry.name, entry.rawExtra, local.extra)) {
+            addIssue(issue);
+          }
 
           const dataEnd = local.dataOffset + entry.compressedSize;
           if (dataEnd > size) {
@@ -680,7 +731,8 @@ export class ZipReader {
       maxCommentBytes: this.limits.maxZipCommentBytes,
       maxCentralDirectoryBytes: this.limits.maxZipCentralDirectoryBytes,
       maxEntries: this.limits.maxEntries,
-      rejectMultiDisk: true
+      rejectMultiDisk: true,
+      ...(this.disks ? { disks: this.disks } : {})
     });
     this.warningsList.push(...eocd.warnings);
     this.eocd = eocd;
@@ -703,6 +755,20 @@ export class ZipReader {
     }
   }
 
+  /** Record a local extra block on the stored records at its offset so later `entries()` copies list it. */
+  private recordLocalExtra(offset: bigint, local: LocalHeaderInfo): void {
+    if (!this.entriesList) return;
+    if (!this.entriesByOffset) {
+      this.entriesByOffset = new Map();
+      for (const record of this.entriesList) {
+        const shared = this.entriesByOffset.get(record.offset);
+        if (shared) shared.push(record);
+        else this.entriesByOffset.set(record.offset, [record]);
+      }
+    }
+    for (const record of this.entriesByOffset.get(offset) ?? []) record.localExtra = local.extra;
+  }
+
   /**
    * Enforce per-entry and cumulative uncompressed-size limits during iteration.
    *
@@ -783,6 +849,7 @@ export class ZipReader {
     const onSymlink = options?.onSymlink ?? 'error';
     const preserveComments = options?.shouldPreserveComments ?? false;
     const preserveTrailingBytes = options?.shouldPreserveTrailingBytes ?? false;
+    const preservePlatformMetadata = options?.shouldPreservePlatformMetadata ?? false;
     const limits = normalizeLimits(options?.limits, this.limits);
     const outputMethod = options?.method ?? 8;
     const password = options?.password ?? this.password;
@@ -831,8 +898,18 @@ export class ZipReader {
 
         const name = item.normalizedName;
         const mtime = deterministic ? fixedMtime : entry.mtime;
-        const externalAttributes = deterministic ? (entry.isDirectory ? 0x10 : 0) : entry.externalAttributes;
+        const externalAttributes = deterministic
+          ? entry.isDirectory
+            ? 0x10
+            : entry.isSymlink
+              ? DETERMINISTIC_SYMLINK_ATTRIBUTES
+              : 0
+          : entry.externalAttributes;
         const comment = preserveComments && !deterministic ? entry.comment : undefined;
+        const platformExtra =
+          preservePlatformMetadata && !deterministic
+            ? pickExtraFields(entry.extra, PLATFORM_METADATA_EXTRA_IDS)
+            : undefined;
         const aesExtra = entry.method === 99 ? parseAesExtra(entry.extra.get(0x9901) ?? new Uint8Array(0)) : undefined;
 
         if (entry.method === 99 && !aesExtra) {
@@ -949,6 +1026,7 @@ export class ZipReader {
                   ...(warning.entryName ? { entryName: warning.entryName } : {})
                 }),
               ...(password !== undefined ? { password } : {}),
+              ...(this.dictionary ? { dictionary: this.dictionary } : {}),
               ...(signal ? { signal } : {}),
               ...progressParams(options),
               limits,
@@ -965,7 +1043,7 @@ export class ZipReader {
           });
 
           const dataStream = readableFromBytes(spool.data);
-          const flags = 0x800;
+          const flags = 0x800 | (((await codec.generalPurposeFlags?.()) ?? 0) & 0x06);
           const result = await writeRawEntry(sink, {
             name,
             source: dataStream,
@@ -979,6 +1057,7 @@ export class ZipReader {
             externalAttributes,
             zip64Mode: 'auto',
             forceZip64: false,
+            ...(platformExtra ? { extra: platformExtra } : {}),
             ...(signal ? { signal } : {}),
             ...(options ? { progress: progressParams(options) } : {})
           });
@@ -1005,7 +1084,8 @@ export class ZipReader {
           ...(signal ? { signal } : {}),
           ...progressParams(options)
         });
-        const flags = 0x800 | (entry.encrypted ? 0x01 : 0);
+        // Bits 1-2 describe the preserved payload (e.g. the LZMA end marker), so they travel with it.
+        const flags = 0x800 | (entry.encrypted ? 0x01 : 0) | (entry.flags & 0x06);
         const aesExtraBytes = aesExtra
           ? buildAesExtra({
               vendorVersion: aesExtra.vendorVersion,
@@ -1027,6 +1107,7 @@ export class ZipReader {
           externalAttributes,
           zip64Mode: 'auto',
           forceZip64: false,
+          ...(platformExtra ? { extra: platformExtra } : {}),
           ...(aesExtraBytes ? { aesExtra: aesExtraBytes } : {}),
           ...(signal ? { signal } : {}),
           ...(options ? { progress: progressParams(options) } : {})
@@ -1075,7 +1156,7 @@ export class ZipReader {
     deterministic: boolean;
     onDuplicate: ZipNormalizeConflict;
     onCaseCollision: ZipNormalizeConflict;
-    onSymlink: 'error' | 'drop';
+    onSymlink: 'error' | 'drop' | 'keep';
     issues: ZipIssue[];
     addIssue: (issue: ZipIssue) => void;
     summary: ZipNormalizeReport['summary'];
@@ -2,9 +2,20 @@ import { decodeUtf8, readUint16LE, readUint32LE } from '../binary.js';
 import { Crc32 } from '../crc32.js';
 import { decodeCp437 } from '../cp437.js';
 import { dosToDate } from '../dosTime.js';
-import { parseExtendedTimestamp, parseExtraFields, parseZip64Extra } from '../extraFields.js';
+import {
+  parseExtendedTimestamp,
+  parseExtraFields,
+  parseInfoZipUnixExtra,
+  parseLegacyUnixExtra,
+  parseNtfsExtra,
+  parseZip64Extra,
+  type ExtendedTimestampValues
+} from '../extraFields.js';
 import { ZipError, type ZipWarning } from '../errors.js';
+import type { ZipExtraField } from '../types.js';
+import { defineExtraFields, type Zip64Presence } from './extraFieldInspection.js';
 import type { RandomAccess } from './RandomAccess.js';
+import type { ZipDiskLayout } from './MultiDiskRandomAccess.js';
 
 const CDFH_SIGNATURE = 0x02014b50;
 const CDFH_MIN_SIZE = 46;
@@ -21,12 +32,24 @@ export interface ZipEntryRecord {
   uncompressedSize: bigint;
   offset: bigint;
   mtime: Date;
+  /** DOS time word as stored; ZipCrypto check bytes of data-descriptor entries derive from it. */
+  modTime: number;
   atime?: Date | undefined;
   ctime?: Date | undefined;
   extra: Map<number, Uint8Array>;
+  /** Central-header extra block as stored. */
+  rawExtra: Uint8Array;
+  /** Header values deferred to the ZIP64 extra field. */
+  zip64Presence: Zip64Presence;
   extraLength: number;
+  /** Local-header extra block, recorded on the reader's stored record once the entry is opened. */
+  localExtra?: Uint8Array | undefined;
+  readonly extraFields: ZipExtraField[];
   isDirectory: boolean;
   isSymlink: boolean;
+  mode?: number | undefined;
+  uid?: number | undefined;
+  gid?: number | undefined;
   encrypted: boolean;
   madeBy: number;
   externalAttributes: number;
@@ -41,6 +64,8 @@ export interface CentralDirectoryResult {
 export interface CentralDirectoryOptions {
   strict: boolean;
   maxEntries: number;
+  /** Split-archive layout used to resolve per-entry disk numbers. */
+  disks?: ZipDiskLayout | undefined;
 }
 
 export interface CentralDirectoryStreamOptions extends CentralDirectoryOptions {
@@ -262,15 +287,19 @@ function parseCentralDirectoryEntry(
     }
   }
 
+  const zip64Presence: Zip64Presence = {
+    uncompressed: uncompressedSize32 === 0xffffffff,
+    compressed: compressedSize32 === 0xffffffff,
+    offset: offset32 === 0xffffffff,
+    diskStart: diskStart === 0xffff
+  };
   const needsZip64 =
-    compressedSize32 === 0xffffffff ||
-    uncompressedSize32 === 0xffffffff ||
-    offset32 === 0xffffffff ||
-    diskStart === 0xffff;
+    zip64Presence.compressed || zip64Presence.uncompressed || zip64Presence.offset || zip64Presence.diskStart;
 
   let compressedSize = BigInt(compressedSize32);
   let uncompressedSize = BigInt(uncompressedSize32);
   let offset = BigInt(offset32);
+  let entryDisk = diskStart;
   let zip64 = false;
 
   if (needsZip64) {
@@ -279,12 +308,7 @@ function parseCentralDirectoryEntry(
     }
     let values: ReturnType<typeof parseZip64Extra>;
     try {
-      values = parseZip64Extra(zip64Extra, {
-        uncompressed: uncompressedSize32 === 0xffffffff,
-        compressed: compressedSize32 === 0xffffffff,
-        offset: offset32 === 0xffffffff,
-        diskStart: diskStart === 0xffff
-      });
+      values = parseZip64Extra(zip64Extra, zip64Presence);
     } catch (error) {
       if (error instanceof RangeError) {
         throw new ZipError('ZIP_BAD_ZIP64', 'Malformed ZIP64 extra field');
@@ -294,22 +318,30 @@ function parseCentralDirectoryEntry(
     if (values.uncompressedSize !== undefined) uncompressedSize = values.uncompressedSize;
     if (values.compressedSize !== undefined) compressedSize = values.compressedSize;
     if (values.offset !== undefined) offset = values.offset;
-    if (values.diskStart !== undefined && values.diskStart !== 0) {
-      throw new ZipError('ZIP_UNSUPPORTED_FEATURE', 'Multi-disk ZIP is not supported');
-    }
+    if (values.diskStart !== undefined) entryDisk = values.diskStart;
     zip64 = true;
   }
 
-  if (diskStart !== 0 && !needsZip64) {
+  if (options.disks) {
+    offset = resolveEntryOffset(name, entryDisk, offset, options.disks);
+  } else if (entryDisk !== 0) {
     throw new ZipError('ZIP_UNSUPPORTED_FEATURE', 'Multi-disk ZIP is not supported');
   }
 
   let mtime = dosToDate(modTime, modDate);
   let atime: Date | undefined;
   let ctime: Date | undefined;
+  // Later sources win: legacy Unix (seconds), extended timestamp (seconds), then NTFS (100ns ticks).
+  const legacyUnixExtra = extra.get(0x5855);
+  const legacyUnix = legacyUnixExtra ? parseLegacyUnixExtra(legacyUnixExtra) : undefined;
   const timestampExtra = extra.get(0x5455);
-  if (timestampExtra) {
-    const times = parseExtendedTimestamp(timestampExtra);
+  const ntfsExtra = extra.get(0x000a);
+  const timeSources: ExtendedTimestampValues[] = [
+    legacyUnix ?? {},
+    timestampExtra ? parseExtendedTimestamp(timestampExtra) : {},
+    ntfsExtra ? parseNtfsExtra(ntfsExtra) : {}
+  ];
+  for (const times of timeSources) {
     if (times.mtime) mtime = times.mtime;
     if (times.atime) atime = times.atime;
     if (times.ctime) ctime = times.ctime;
@@ -320,8 +352,13 @@ function parseCentralDirectoryEntry(
   const isSymlink = host === 3 && (unixMode & 0xf000) === 0xa000;
   const isDirectory = name.endsWith('/');
   const encrypted = (flags & 0x1) !== 0;
+  const mode = unixModeOf({ madeBy, externalAttributes });
+  const unixExtra = extra.get(0x7875);
+  const owner =
+    (unixExtra ? parseInfoZipUnixExtra(unixExtra) : undefined) ??
+    (legacyUnix?.uid !== undefined ? { uid: legacyUnix.uid, gid: legacyUnix.gid ?? 0 } : undefined);
 
-  const entry: ZipEntryRecord = {
+  const record: Omit<ZipEntryRecord, 'extraFields'> = {
     name,
     nameSource,
     rawNameBytes: nameBytes,
@@ -333,21 +370,55 @@ function parseCentralDirectoryEntry(
     uncompressedSize,
     offset,
     mtime,
+    modTime,
     atime,
     ctime,
     extra,
+    rawExtra: extraBytes,
+    zip64Presence,
     extraLength: extraBytes.length,
     isDirectory,
     isSymlink,
+    ...(mode !== undefined ? { mode } : {}),
+    ...(owner ? { uid: owner.uid, gid: owner.gid } : {}),
     encrypted,
     madeBy,
     externalAttributes,
     zip64
   };
+  const entry = defineExtraFields(record);
 
   return { entry, size: commentEnd - ptr };
 }
 
+/** Copy a record for callers; the lazy `extraFields` getter is not an own enumerable property, so it is redefined. */
+export function cloneEntryRecord(record: ZipEntryRecord): ZipEntryRecord {
+  return defineExtraFields({ ...record });
+}
+
+/**
+ * Translate a local header offset from its disk to the logical address space.
+ *
+ * @throws {ZipError} When the disk is missing or the offset lies beyond the end of the disk.
+ */
+function resolveEntryOffset(name: string, disk: number, offset: bigint, disks: ZipDiskLayout): bigint {
+  const diskSize = disks.diskSize(disk);
+  if (diskSize === undefined) {
+    throw new ZipError('ZIP_BAD_CENTRAL_DIRECTORY', `Entry starts on missing disk ${disk}`, {
+      entryName: name,
+      context: { diskStart: String(disk), diskCount: String(disks.diskCount) }
+    });
+  }
+  if (offset >= diskSize) {
+    throw new ZipError('ZIP_BAD_CENTRAL_DIRECTORY', 'Entry local header offset is outside its disk', {
+      entryName: name,
+      offset,
+      context: { diskStart: String(disk), diskSize: diskSize.toString() }
+    });
+  }
+  return disks.toLogicalOffset(disk, offset)!;
+}
+
 function parseUnicodeExtraField(
   data: Uint8Array | undefined,
   originalBytes: Uint8Array,
@@ -400,3 +471,12 @@ function crc32Digest(bytes: Uint8Array): number {
   crc.update(bytes);
   return crc.digest();
 }
+
+/**
+ * Permission bits (`0o7777`) from the high half of external attributes when the entry was made on a Unix host.
+ */
+function unixModeOf(record: Pick<ZipEntryRecord, 'madeBy' | 'externalAttributes'>): number | undefined {
+  if (record.madeBy >>> 8 !== 3) return undefined;
+  const mode = (record.externalAttributes >>> 16) & 0o7777;
+  return mode === 0 ? undefined : mode;
+}
@@ -2,6 +2,7 @@ import { readUint16LE, readUint32LE, readUint64LE } from '../binary.js';
 import { ZipError, ZipWarning } from '../errors.js';
 import { throwIfAborted } from '../abort.js';
 import type { RandomAccess } from './RandomAccess.js';
+import type { ZipDiskLayout } from './MultiDiskRandomAccess.js';
 
 const EOCD_SIGNATURE = 0x06054b50;
 const ZIP64_EOCD_SIGNATURE = 0x06064b50;
@@ -25,6 +26,8 @@ export interface FindEocdOptions {
   maxCentralDirectoryBytes?: number;
   maxEntries?: number;
   rejectMultiDisk?: boolean;
+  /** Split-archive layout; disk-relative offsets are translated to logical offsets when present. */
+  disks?: ZipDiskLayout;
 }
 
 export async function findEocd(
@@ -133,16 +136,22 @@ export async function findEocd(
   const limitOptions: { maxCdBytes?: number; maxEntries?: number; rejectMultiDisk?: boolean } = {};
   if (maxCdBytes !== undefined) limitOptions.maxCdBytes = maxCdBytes;
   if (maxEntries !== undefined) limitOptions.maxEntries = maxEntries;
-  if (typeof options?.rejectMultiDisk === 'boolean') limitOptions.rejectMultiDisk = options.rejectMultiDisk;
+  if (typeof options?.rejectMultiDisk === 'boolean' && !options.disks) {
+    limitOptions.rejectMultiDisk = options.rejectMultiDisk;
+  }
+  const disks = options?.disks;
 
   if (!needsZip64) {
     const cdSize = BigInt(cdSize32);
     const totalEntriesBig = BigInt(totalEntries);
     const entriesOnDiskBig = BigInt(entriesOnDisk);
     enforceZipLimits({ cdSize, totalEntries: totalEntriesBig, entriesOnDisk: entriesOnDiskBig, diskNumber, cdDisk }, limitOptions);
+    if (disks) {
+      checkDiskNumbers({ diskNumber, cdDisk, entriesOnDisk: entriesOnDiskBig, totalEntries: totalEntriesBig }, disks, strict, warnings);
+    }
     return {
       eocdOffset,
-      cdOffset: BigInt(cdOffset32),
+      cdOffset: disks ? resolveCdOffset(BigInt(cdOffset32), cdDisk, disks) : BigInt(cdOffset32),
       cdSize,
       totalEntries: totalEntriesBig,
       entriesOnDisk: entriesOnDiskBig,
@@ -161,7 +170,25 @@ export async function findEocd(
   if (locator.length < 20 || readUint32LE(locator, 0) !== ZIP64_LOCATOR_SIGNATURE) {
     throw new ZipError('ZIP_BAD_ZIP64', 'ZIP64 locator signature missing');
   }
-  const zip64EocdOffset = readUint64LE(locator, 8);
+  const zip64EocdDisk = readUint32LE(locator, 4);
+  let zip64EocdOffset = readUint64LE(locator, 8);
+  if (disks) {
+    const logical = disks.toLogicalOffset(zip64EocdDisk, zip64EocdOffset);
+    if (logical === undefined) {
+      throw new ZipError('ZIP_BAD_ZIP64', 'ZIP64 EOCD is on a missing disk', {
+        context: { zip64EocdDisk: String(zip64EocdDisk), diskCount: String(disks.diskCount) }
+      });
+    }
+    zip64EocdOffset = logical;
+    const totalDisks = readUint32LE(locator, 16);
+    if (totalDisks !== disks.diskCount) {
+      reportDiskMismatch(
+        `ZIP64 locator declares ${totalDisks} disks but ${disks.diskCount} segments were provided`,
+        strict,
+        warnings
+      );
+    }
+  }
   const zip64Header = await reader.read(zip64EocdOffset, 56, signal);
   if (zip64Header.length < 56 || readUint32LE(zip64Header, 0) !== ZIP64_EOCD_SIGNATURE) {
     throw new ZipError('ZIP_BAD_ZIP64', 'ZIP64 EOCD signature missing');
@@ -183,10 +210,18 @@ export async function findEocd(
     },
     limitOptions
   );
+  if (disks) {
+    checkDiskNumbers(
+      { diskNumber: diskNumber64, cdDisk: cdDisk64, entriesOnDisk: entriesOnDisk64, totalEntries: totalEntries64 },
+      disks,
+      strict,
+      warnings
+    );
+  }
 
   return {
     eocdOffset,
-    cdOffset: cdOffset64,
+    cdOffset: disks ? resolveCdOffset(cdOffset64, cdDisk64, disks) : cdOffset64,
     cdSize: cdSize64,
     totalEntries: totalEntries64,
     entriesOnDisk: entriesOnDisk64,
@@ -235,6 +270,67 @@ function enforceZipLimits(
   }
 }
 
+/**
+ * Compare EOCD disk bookkeeping against the provided segment set.
+ *
+ * @throws {ZipError} When the central directory starts on a missing disk, or in strict mode on any mismatch.
+ */
+function checkDiskNumbers(
+  info: { diskNumber: number; cdDisk: number; entriesOnDisk: bigint; totalEntries: bigint },
+  disks: ZipDiskLayout,
+  strict: boolean,
+  warnings: ZipWarning[]
+): void {
+  if (info.cdDisk >= disks.diskCount) {
+    throw new ZipError('ZIP_BAD_EOCD', 'Central directory starts on a missing disk', {
+      context: { cdDisk: String(info.cdDisk), diskCount: String(disks.diskCount) }
+    });
+  }
+  if (info.diskNumber !== disks.diskCount - 1) {
+    reportDiskMismatch(
+      `EOCD disk number ${info.diskNumber} does not match the last of ${disks.diskCount} segments`,
+      strict,
+      warnings
+    );
+  }
+  if (info.cdDisk > info.diskNumber) {
+    reportDiskMismatch(
+      `Central directory disk ${info.cdDisk} is after the EOCD disk ${info.diskNumber}`,
+      strict,
+      warnings
+    );
+  }
+  if (info.entriesOnDisk > info.totalEntries) {
+    reportDiskMismatch(
+      `EOCD lists ${info.entriesOnDisk.toString()} entries on the last disk but ${info.totalEntries.toString()} in total`,
+      strict,
+      warnings
+    );
+  }
+}
+
+function reportDiskMismatch(message: string, strict: boolean, warnings: ZipWarning[]): void {
+  if (strict) {
+    throw new ZipError('ZIP_BAD_EOCD', message);
+  }
+  warnings.push({ code: 'ZIP_DISK_MISMATCH', message: `${message}; continuing in non-strict mode` });
+}
+
+/**
+ * Translate the central directory offset from its disk to the logical address space.
+ *
+ * @throws {ZipError} When the offset lies beyond the end of its disk.
+ */
+function resolveCdOffset(cdOffset: bigint, cdDisk: number, disks: ZipDiskLayout): bigint {
+  const diskSize = disks.diskSize(cdDisk)!;
+  if (cdOffset > diskSize) {
+    throw new ZipError('ZIP_BAD_EOCD', 'Central directory offset is outside its disk', {
+      context: { cdDisk: String(cdDisk), cdOffset: cdOffset.toString(), diskSize: diskSize.toString() }
+    });
+  }
+  return disks.toLogicalOffset(cdDisk, cdOffset)!;
+}
+
 function minBigInt(a: bigint, b: bigint): bigint {
   return a < b ? a : b;
 }
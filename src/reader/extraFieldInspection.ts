@@ -0,0 +1,183 @@
+import { decodeUtf8, readUint16LE, readUint32LE } from '../binary.js';
+import {
+  parseAesExtra,
+  parseExtendedTimestamp,
+  parseInfoZipUnixExtra,
+  parseLegacyUnixExtra,
+  parseNtfsExtra,
+  parseZip64Extra
+} from '../extraFields.js';
+import type { ZipExtraField, ZipExtraFieldDecoded, ZipIssue } from '../types.js';
+
+/** Which ZIP64 values a central header defers to its 0x0001 field (those stored as all-ones). */
+export type Zip64Presence = {
+  uncompressed: boolean;
+  compressed: boolean;
+  offset: boolean;
+  diskStart: boolean;
+};
+
+// A local ZIP64 field always carries both sizes (APPNOTE 6.3.10 section 4.5.3).
+const LOCAL_ZIP64_PRESENCE: Zip64Presence = { uncompressed: true, compressed: true, offset: false, diskStart: false };
+
+// Fields that legitimately appear in only one header: ZIP64 sizes, Android alignment padding, the JAR marker.
+const SINGLE_HEADER_IDS = new Set([0x0001, 0xd935, 0xcafe]);
+// Fields whose local and central layouts differ by definition.
+const ASYMMETRIC_IDS = new Set([0x0001, 0x5455, 0x5855, 0xd935]);
+
+type ScannedExtraFields = {
+  fields: Array<{ id: number; data: Uint8Array }>;
+  /** Bytes after the last complete field that do not form one. */
+  malformed?: { offset: number; bytes: number };
+};
+
+/** Split an extra block into fields in header order, keeping duplicates. */
+export function scanExtraFields(extra: Uint8Array): ScannedExtraFields {
+  const fields: ScannedExtraFields['fields'] = [];
+  let offset = 0;
+  while (offset + 4 <= extra.length) {
+    const id = readUint16LE(extra, offset);
+    const dataEnd = offset + 4 + readUint16LE(extra, offset + 2);
+    if (dataEnd > extra.length) break;
+    fields.push({ id, data: extra.subarray(offset + 4, dataEnd) });
+    offset = dataEnd;
+  }
+  return offset < extra.length ? { fields, malformed: { offset, bytes: extra.length - offset } } : { fields };
+}
+
+/**
+ * Define the lazy `extraFields` property of a reader entry.
+ *
+ * Central fields are decoded on first access; local fields are listed first once `localExtra` is recorded.
+ */
+export function defineExtraFields<
+  T extends { rawExtra: Uint8Array; localExtra?: Uint8Array | undefined; zip64Presence: Zip64Presence }
+>(entry: T): T & { readonly extraFields: ZipExtraField[] } {
+  let central: ZipExtraField[] | undefined;
+  let cached: { local: Uint8Array | undefined; fields: ZipExtraField[] } | undefined;
+  return Object.defineProperty(entry, 'extraFields', {
+    configurable: true,
+    get(this: T): ZipExtraField[] {
+      if (cached && cached.local === this.localExtra) return cached.fields;
+      central ??= toExtraFields(this.rawExtra, 'central', this.zip64Presence);
+      const local = this.localExtra ? toExtraFields(this.localExtra, 'local', LOCAL_ZIP64_PRESENCE) : [];
+      cached = { local: this.localExtra, fields: [...local, ...central] };
+      return cached.fields;
+    }
+  }) as T & { readonly extraFields: ZipExtraField[] };
+}
+
+/** Audit issues for duplicate ids, truncated fields, and fields that differ between the two headers. */
+export function extraFieldIssues(entryName: string, centralExtra: Uint8Array, localExtra: Uint8Array): ZipIssue[] {
+  const issues: ZipIssue[] = [];
+  const scanned = { local: scanExtraFields(localExtra), central: scanExtraFields(centralExtra) };
+  for (const source of ['local', 'central'] as const) {
+    const { fields, malformed } = scanned[source];
+    if (malformed) {
+      issues.push({
+        code: 'ZIP_EXTRA_FIELD_MALFORMED',
+        severity: 'warning',
+        message: `Malformed ${source} extra field block`,
+        entryName,
+        details: { source, offset: malformed.offset, bytes: malformed.bytes }
+      });
+    }
+    const seen = new Set<number>();
+    const duplicates = new Set<number>();
+    for (const field of fields) {
+      if (seen.has(field.id)) duplicates.add(field.id);
+      seen.add(field.id);
+    }
+    if (duplicates.size > 0) {
+      issues.push({
+        code: 'ZIP_EXTRA_FIELD_DUPLICATE',
+        severity: 'warning',
+        message: `Duplicate ${source} extra field ids`,
+        entryName,
+        details: { source, ids: [...duplicates] }
+      });
+    }
+  }
+
+  const local = new Map(scanned.local.fields.map((field) => [field.id, field.data]));
+  const central = new Map(scanned.central.fields.map((field) => [field.id, field.data]));
+  const localOnly = [...local.keys()].filter((id) => !central.has(id) && !SINGLE_HEADER_IDS.has(id));
+  const centralOnly = [...central.keys()].filter((id) => !local.has(id) && !SINGLE_HEADER_IDS.has(id));
+  const differing = [...local.keys()].filter(
+    (id) => central.has(id) && !ASYMMETRIC_IDS.has(id) && !bytesEqual(local.get(id)!, central.get(id)!)
+  );
+  if (localOnly.length > 0 || centralOnly.length > 0 || differing.length > 0) {
+    issues.push({
+      code: 'ZIP_EXTRA_FIELD_MISMATCH',
+      severity: 'warning',
+      message: 'Local and central extra fields differ',
+      entryName,
+      details: { localOnly, centralOnly, differing }
+    });
+  }
+  return issues;
+}
+
+function toExtraFields(extra: Uint8Array, source: 'local' | 'central', zip64: Zip64Presence): ZipExtraField[] {
+  return scanExtraFields(extra).fields.map(({ id, data }) => {
+    const decoded = decodeExtraField(id, data, zip64);
+    return decoded ? { id, source, data, decoded } : { id, source, data };
+  });
+}
+
+function decodeExtraField(id: number, data: Uint8Array, zip64: Zip64Presence): ZipExtraFieldDecoded | undefined {
+  try {
+    switch (id) {
+      case 0x0001:
+        return { type: 'zip64', ...parseZip64Extra(data, zip64) };
+      case 0x000a: {
+        const times = parseNtfsExtra(data);
+        return times.mtime ? { type: 'ntfs', ...times } : undefined;
+      }
+      case 0x5455:
+        return data.length > 0 ? { type: 'extended-timestamp', ...parseExtendedTimestamp(data) } : undefined;
+      case 0x7875: {
+        const owner = parseInfoZipUnixExtra(data);
+        return owner ? { type: 'unix-owner', ...owner } : undefined;
+      }
+      case 0x5855: {
+        const values = parseLegacyUnixExtra(data);
+        return values ? { type: 'unix-legacy', ...values } : undefined;
+      }
+      case 0x7075:
+      case 0x6375:
+        return data.length >= 5
+          ? {
+              type: id === 0x7075 ? 'unicode-path' : 'unicode-comment',
+              version: data[0]!,
+              crc32: readUint32LE(data, 1),
+              value: decodeUtf8(data.subarray(5))
+            }
+          : undefined;
+      case 0x9901: {
+        const aes = parseAesExtra(data);
+        return aes ? { type: 'aes', ...aes } : undefined;
+      }
+      case 0xcafe:
+        return data.length === 0 ? { type: 'jar-marker' } : undefined;
+      case 0xd935:
+        return data.length >= 2
+          ? { type: 'android-alignment', alignment: readUint16LE(data, 0), padding: data.length - 2 }
+          : undefined;
+      default:
+        return undefined;
+    }
+  } catch (error) {
+    // Payloads shorter than their layout (e.g. a truncated ZIP64 field) stay undecoded.
+    if (error instanceof RangeError) return undefined;
+    throw error;
+  }
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i += 1) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
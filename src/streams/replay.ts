@@ -0,0 +1,34 @@
+/**
+ * A stream that yields `chunks` again, then the rest of `reader`; cancelling it cancels the reader.
+ *
+ * Used after sniffing or buffering the start of a source so consumers still see every byte. Nothing
+ * is read from `reader` until the consumer pulls past the replayed chunks.
+ */
+export function replayThenRead(
+  chunks: readonly Uint8Array[],
+  reader: ReadableStreamDefaultReader<Uint8Array>
+): ReadableStream<Uint8Array> {
+  let index = 0;
+  return new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        const next = chunks[index];
+        if (next) {
+          index += 1;
+          controller.enqueue(next);
+          return;
+        }
+        const { value, done } = await reader.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      },
+      async cancel(reason) {
+        await reader.cancel(reason);
+      }
+    },
+    { highWaterMark: 0 }
+  );
+}
@@ -72,8 +72,6 @@ export type RuntimeSupport = Record<
  */
 export type RuntimeSupportMap = Record<BytefoldRuntime, RuntimeSupport>;
 
-const singleFileFormats = new Set<ArchiveFormat>(['gz', 'bz2', 'xz', 'zst', 'br']);
-
 const runtimeSupportMap: RuntimeSupportMap = {
   node: createNodeLikeSupport(),
   deno: createDenoSupport(),
@@ -108,14 +106,6 @@ export function runtimeSupport(runtime?: BytefoldRuntime): RuntimeSupport | Runt
 function createNodeLikeSupport(): RuntimeSupport {
   const matrix = createFullySupportedRuntime();
 
-  for (const format of singleFileFormats) {
-    matrix[format].normalize = unsupported('ARCHIVE_UNSUPPORTED_FEATURE');
-  }
-
-  for (const format of ['tar.bz2', 'bz2', 'tar.xz', 'xz'] as const) {
-    matrix[format].write = unsupported('ARCHIVE_UNSUPPORTED_FORMAT');
-  }
-
   matrix['tar.br'].detect = hintRequired('Specify format "tar.br" or a filename hint.');
   matrix.br.detect = hintRequired('Specify format "br" or a filename hint.');
 
@@ -139,10 +129,9 @@ function createWebSupport(): RuntimeSupport {
     matrix['tar.zst'][operation] = capabilityGated('COMPRESSION_UNSUPPORTED_ALGORITHM');
   }
 
-  for (const operation of ['detect', 'list', 'audit', 'extract', 'write'] as const) {
+  for (const operation of supportMatrix.operations) {
     matrix.zst[operation] = capabilityGated('COMPRESSION_UNSUPPORTED_ALGORITHM');
   }
-  matrix.zst.normalize = unsupported('ARCHIVE_UNSUPPORTED_FEATURE');
 
   matrix['tar.br'].detect = hintRequired(
     'Specify format "tar.br" or a filename hint; capability-gated when brotli streams are unavailable.'
@@ -152,6 +141,7 @@ function createWebSupport(): RuntimeSupport {
   );
   matrix['tar.br'].write = capabilityGated('COMPRESSION_UNSUPPORTED_ALGORITHM');
   matrix.br.write = capabilityGated('COMPRESSION_UNSUPPORTED_ALGORITHM');
+  matrix.br.normalize = capabilityGated('COMPRESSION_UNSUPPORTED_ALGORITHM');
 
   return matrix;
 }
@@ -184,14 +174,6 @@ function supported(): SupportCell {
   return { state: 'supported' };
 }
 
-function unsupported(errorCode: string, note?: string): SupportCell {
-  return {
-    state: 'unsupported',
-    errorCode,
-    ...(note ? { note } : {})
-  };
-}
-
 function hintRequired(note: string): SupportCell {
   return {
     state: 'hint-required',
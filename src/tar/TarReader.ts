@@ -2,8 +2,12 @@ import { ArchiveError } from '../archive/errors.js';
 import { normalizePathForCollision, toCollisionKey } from '../text/caseFold.js';
 import type { ArchiveLimits, ArchiveProfile } from '../archive/types.js';
 import { readAllBytes } from '../streams/buffer.js';
-import { readableFromBytes } from '../streams/web.js';
-import { readResponseBytes, resolveInputMaxBytes } from '../streams/response.js';
+import { readableFromAsyncIterable, readableFromBytes } from '../streams/web.js';
+import {
+  readResponseBytes,
+  resolveInputMaxBytes,
+  throwIfResponseContentLengthExceedsLimit
+} from '../streams/response.js';
 import { BYTEFOLD_REPORT_SCHEMA_VERSION } from '../reportSchema.js';
 import { AGENT_RESOURCE_LIMITS, DEFAULT_RESOURCE_LIMITS } from '../limits.js';
 import type {
@@ -13,13 +17,19 @@ import type {
   TarIssue,
   TarNormalizeOptions,
   TarNormalizeReport,
-  TarReaderOptions
+  TarReaderOptions,
+  TarSparseExtent
 } from './types.js';
 import { TarWriter } from './TarWriter.js';
 import { throwIfAborted } from '../abort.js';
 import { decodeNullTerminatedUtf8 } from '../binary.js';
+import { TarBytesSource, TarStreamSource, type TarBlockSource } from './TarStreamSource.js';
 
 const BLOCK_SIZE = 512;
+const STREAM_CHUNK_SIZE = 64 * 1024;
+const MAX_STREAMING_METADATA_BYTES = 1024 * 1024;
+const MAX_SPARSE_MAP_BYTES = 1024 * 1024;
+const OLD_GNU_MAGIC = 'ustar  \0';
 
 const DEFAULT_LIMITS: Required<ArchiveLimits> = DEFAULT_RESOURCE_LIMITS;
 const AGENT_LIMITS: Required<ArchiveLimits> = AGENT_RESOURCE_LIMITS;
@@ -27,8 +37,19 @@ const AGENT_LIMITS: Required<ArchiveLimits> = AGENT_RESOURCE_LIMITS;
 const TEXT_DECODER = new TextDecoder('utf-8');
 
 type TarEntryRecord = TarEntry & {
+  headerOffset: number;
   dataOffset: number;
   dataSize: bigint;
+  sparseIssue?: string;
+};
+
+/** Position of the entry most recently yielded by a streaming iteration. */
+type StreamCursor = {
+  record: TarEntryRecord;
+  consumed: bigint;
+  isOpened: boolean;
+  isReleased: boolean;
+  pending: Promise<unknown> | null;
 };
 
 /**
@@ -42,6 +63,9 @@ type TarEntryRecord = TarEntry & {
  * const report = await reader.audit({ profile: "strict" });
  * console.log(report.ok);
  * ```
+ *
+ * With `isStreaming`, entries are parsed forward-only from the source stream:
+ * `iterEntries()` can run once and only the current entry can be opened.
  */
 export class TarReader {
   /**
@@ -79,11 +103,28 @@ export class TarReader {
    * @internal
    */
   private readonly signal: AbortSignal | undefined;
+  /**
+   * Forward-only source backing streaming mode (null when buffered).
+   * @internal
+   */
+  private readonly source: TarStreamSource | null;
+  /**
+   * Whether the streaming iteration has already been started.
+   * @internal
+   */
+  private isStreamStarted = false;
+  /**
+   * Entry currently positioned at the streaming source.
+   * @internal
+   */
+  private cursor: StreamCursor | null = null;
 
   private constructor(
     private readonly data: Uint8Array,
-    options?: TarReaderOptions
+    options?: TarReaderOptions,
+    source?: TarStreamSource
   ) {
+    this.source = source ?? null;
     const resolved = resolveReaderProfile(options);
     this.profile = resolved.profile;
     this.strict = resolved.strict;
@@ -94,6 +135,9 @@ export class TarReader {
 
   /** Create a reader from in-memory bytes. */
   static async fromUint8Array(data: Uint8Array, options?: TarReaderOptions): Promise<TarReader> {
+    if (options?.isStreaming) {
+      return TarReader.fromStream(readableFromBytes(data), options);
+    }
     const reader = new TarReader(data, options);
     await reader.init();
     return reader;
@@ -103,6 +147,11 @@ export class TarReader {
   static async fromStream(stream: ReadableStream<Uint8Array>, options?: TarReaderOptions): Promise<TarReader> {
     const readOptions: { signal?: AbortSignal; maxBytes?: bigint | number } = {};
     if (options?.signal) readOptions.signal = options.signal;
+    if (options?.isStreaming) {
+      // Payload totals are enforced per header; only an explicit input ceiling caps raw stream bytes.
+      const source = new TarStreamSource(stream, options.signal, options.limits?.maxInputBytes);
+      return new TarReader(new Uint8Array(0), options, source);
+    }
     const maxBytes = resolveInputMaxBytes(options?.limits);
     if (maxBytes !== undefined) readOptions.maxBytes = maxBytes;
     const data = await readAllBytes(stream, readOptions);
@@ -117,6 +166,10 @@ export class TarReader {
     if (!response.ok) {
       throw new ArchiveError('ARCHIVE_BAD_HEADER', `Unexpected HTTP status ${response.status}`);
     }
+    if (options?.isStreaming && response.body) {
+      await throwIfResponseContentLengthExceedsLimit(response, options.limits?.maxInputBytes);
+      return TarReader.fromStream(response.body, options);
+    }
     const maxBytes = resolveInputMaxBytes(options?.limits);
     const data = await readResponseBytes(response, {
       ...(options?.signal ? { signal: options.signal } : {}),
@@ -127,6 +180,9 @@ export class TarReader {
 
   /** Return stored entries (requires shouldStoreEntries=true). */
   entries(): TarEntry[] {
+    if (this.source) {
+      throw new ArchiveError('ARCHIVE_UNSUPPORTED_FEATURE', 'Entries are not stored in streaming mode; use iterEntries()');
+    }
     if (!this.storeEntries) {
       throw new ArchiveError('ARCHIVE_UNSUPPORTED_FEATURE', 'Entries are not stored; use iterEntries()');
     }
@@ -139,8 +195,12 @@ export class TarReader {
     return [...this.warningsList];
   }
 
-  /** Iterate entries (from cached entries). */
+  /** Iterate entries (from cached entries, or forward-only in streaming mode). */
   async *iterEntries(): AsyncGenerator<TarEntry> {
+    if (this.source) {
+      yield* this.iterStreamEntries(this.source);
+      return;
+    }
     if (!this.entriesList) return;
     for (const entry of this.entriesList) {
       yield { ...entry };
@@ -149,15 +209,13 @@ export class TarReader {
 
   /** Open a stream for a specific entry's contents. */
   async open(entry: TarEntry): Promise<ReadableStream<Uint8Array>> {
+    if (this.source) return this.openStreamEntry(this.source, entry);
     if (!this.entriesList) throw new ArchiveError('ARCHIVE_UNSUPPORTED_FEATURE', 'Entries not loaded');
     const record = this.entriesList.find((item) => item.name === entry.name && item.size === entry.size);
     if (!record) {
       throw new ArchiveError('ARCHIVE_UNSUPPORTED_FEATURE', 'Entry not found');
     }
-    const start = record.dataOffset;
-    const end = start + Number(record.dataSize);
-    const slice = this.data.subarray(start, end);
-    return readableFromBytes(slice);
+    return this.openRecordData(record);
   }
 
   /** Audit the archive and return a report of issues. */
@@ -176,7 +234,8 @@ export class TarReader {
       if (issue.severity === 'error') summary.errors += 1;
     };
 
-    if (!this.entriesList) {
+    const entries = this.entriesList ?? (this.source ? this.iterStreamEntries(this.source) : null);
+    if (!entries) {
       addIssue({
         code: 'TAR_PARSE_FAILED',
         severity: 'error',
@@ -190,13 +249,22 @@ export class TarReader {
     const seenCase = new Map<string, { original: string; nfc: string }>();
     let total = 0n;
 
-    for (const entry of this.entriesList) {
+    for await (const entry of entries) {
       summary.entries += 1;
       const pathIssues = entryPathIssues(entry.name);
       for (const issue of pathIssues) {
         addIssue(issue);
       }
 
+      if (entry.sparseIssue !== undefined) {
+        addIssue({
+          code: 'TAR_SPARSE_MAP_INVALID',
+          severity: 'error',
+          message: entry.sparseIssue,
+          entryName: entry.name
+        });
+      }
+
       total += entry.size;
       if (total > settings.limits.maxTotalUncompressedBytes) {
         addIssue({
@@ -283,6 +351,9 @@ export class TarReader {
     writable: WritableStream<Uint8Array>,
     options?: TarNormalizeOptions
   ): Promise<TarNormalizeReport> {
+    if (this.source) {
+      throw new ArchiveError('ARCHIVE_UNSUPPORTED_FEATURE', 'Normalization is not supported in TAR streaming mode');
+    }
     if (!this.entriesList) {
       throw new ArchiveError('ARCHIVE_UNSUPPORTED_FEATURE', 'Entries not loaded');
     }
@@ -329,7 +400,7 @@ export class TarReader {
       summary.entries += 1;
       if (item.dropped) continue;
       const entry = item.entry;
-      if (entry.isSymlink) {
+      if (entry.isSymlink && onSymlink !== 'keep') {
         addIssue({
           code: 'TAR_SYMLINK_PRESENT',
           severity: 'error',
@@ -360,19 +431,37 @@ export class TarReader {
         });
       }
 
+      if (entry.sparseIssue !== undefined) {
+        addIssue({
+          code: 'TAR_SPARSE_MAP_INVALID',
+          severity: 'error',
+          message: entry.sparseIssue,
+          entryName: entry.name
+        });
+        if (onUnsupported === 'drop') {
+          summary.droppedEntries += 1;
+          continue;
+        }
+        throw invalidSparseMapError(entry);
+      }
+
       const data = entry.isDirectory
         ? new Uint8Array(0)
-        : this.data.subarray(entry.dataOffset, entry.dataOffset + Number(entry.dataSize));
+        : entry.sparseMap
+          ? this.openRecordData(entry)
+          : this.data.subarray(entry.dataOffset, entry.dataOffset + Number(entry.dataSize));
       const mtime = deterministic ? new Date(0) : entry.mtime;
       const mode = deterministic ? defaultMode(entry) : clampMode(entry.mode ?? defaultMode(entry));
+      const pax = entry.pax ? withoutSparseKeys(entry.pax) : undefined;
       const addOptions = {
         type: entry.type,
+        ...(entry.sparseMap ? { size: entry.size } : {}),
         ...(mtime ? { mtime } : {}),
         ...(mode !== undefined ? { mode } : {}),
         ...(entry.uid !== undefined ? { uid: deterministic ? 0 : entry.uid } : {}),
         ...(entry.gid !== undefined ? { gid: deterministic ? 0 : entry.gid } : {}),
         ...(entry.linkName !== undefined ? { linkName: entry.linkName } : {}),
-        ...(entry.pax ? { pax: entry.pax } : {})
+        ...(pax ? { pax } : {})
       };
       try {
         await writer.add(item.normalizedName, data, addOptions);
@@ -421,6 +510,130 @@ export class TarReader {
     };
   }
 
+  /**
+   * Parse headers forward-only from the stream, yielding one entry at a time.
+   *
+   * Unread data of the previous entry is skipped before the next header is
+   * read, and limits are enforced as each header arrives.
+   *
+   * @throws {ArchiveError} When iterated twice, when headers are malformed or
+   * truncated, or when configured limits are exceeded.
+   */
+  private async *iterStreamEntries(source: TarStreamSource): AsyncGenerator<TarEntryRecord> {
+    if (this.isStreamStarted) {
+      throw new ArchiveError('ARCHIVE_UNSUPPORTED_FEATURE', 'TAR streaming mode supports a single forward-only iteration');
+    }
+    this.isStreamStarted = true;
+    const records = readTarRecords(
+      source,
+      {
+        strict: this.strict,
+        limits: this.limits,
+        warnings: this.warningsList,
+        maxMetadataBytes: MAX_STREAMING_METADATA_BYTES,
+        ...(this.signal ? { signal: this.signal } : {})
+      },
+      () => this.releaseCursor(source)
+    );
+    try {
+      for await (const record of records) {
+        this.cursor = { record, consumed: 0n, isOpened: false, isReleased: false, pending: null };
+        yield { ...record };
+      }
+    } finally {
+      if (this.cursor) this.cursor.isReleased = true;
+      this.cursor = null;
+      await source.cancel();
+    }
+  }
+
+  /**
+   * Skip whatever the caller left unread of the current entry, plus padding.
+   *
+   * @throws {ArchiveError} When the stream ends inside the entry payload.
+   */
+  private async releaseCursor(source: TarStreamSource): Promise<void> {
+    const cursor = this.cursor;
+    if (!cursor) return;
+    this.cursor = null;
+    cursor.isReleased = true;
+    if (cursor.pending) await cursor.pending.catch(() => {});
+    await skipRecordData(source, cursor.record, cursor.record.dataSize - cursor.consumed);
+  }
+
+  /**
+   * Stream the current entry's payload straight from the source.
+   *
+   * @throws {ArchiveError} When the entry is not the current one or was
+   * already opened.
+   */
+  private openStreamEntry(source: TarStreamSource, entry: TarEntry): ReadableStream<Uint8Array> {
+    const cursor = this.cursor;
+    if (cursor?.record.sparseIssue !== undefined && cursor.record.name === entry.name) {
+      throw invalidSparseMapError(cursor.record);
+    }
+    if (!cursor || cursor.record.name !== entry.name || cursor.record.size !== entry.size) {
+      throw new ArchiveError(
+        'ARCHIVE_UNSUPPORTED_FEATURE',
+        `TAR entry opened out of order: ${entry.name}. Streaming mode can only open the entry most recently yielded by iterEntries()`,
+        {
+          entryName: entry.name,
+          ...(cursor ? { context: { currentEntry: cursor.record.name } } : {})
+        }
+      );
+    }
+    if (cursor.isOpened) {
+      throw new ArchiveError('ARCHIVE_UNSUPPORTED_FEATURE', 'TAR entry already opened; streaming mode opens each entry once', {
+        entryName: entry.name
+      });
+    }
+    cursor.isOpened = true;
+    const record = cursor.record;
+    const stored = new ReadableStream<Uint8Array>(
+      {
+        pull: async (controller) => {
+          if (cursor.isReleased) {
+            throw new ArchiveError(
+              'ARCHIVE_UNSUPPORTED_FEATURE',
+              'TAR entry stream is no longer readable because iteration moved past it',
+              { entryName: record.name }
+            );
+          }
+          const remaining = record.dataSize - cursor.consumed;
+          if (remaining <= 0n) {
+            controller.close();
+            return;
+          }
+          const read = source.readChunk(remaining > BigInt(STREAM_CHUNK_SIZE) ? STREAM_CHUNK_SIZE : Number(remaining));
+          cursor.pending = read;
+          const chunk = await read;
+          cursor.pending = null;
+          if (!chunk) {
+            throw new ArchiveError('ARCHIVE_TRUNCATED', 'TAR entry truncated', {
+              entryName: record.name,
+              offset: BigInt(record.headerOffset)
+            });
+          }
+          cursor.consumed += BigInt(chunk.length);
+          controller.enqueue(chunk);
+        }
+      },
+      { highWaterMark: 0 }
+    );
+    return record.sparseMap ? expandSparseStream(stored, record) : stored;
+  }
+
+  /**
+   * Open a buffered record, expanding GNU sparse holes when present.
+   *
+   * @throws {ArchiveError} When the record's sparse map is malformed.
+   */
+  private openRecordData(record: TarEntryRecord): ReadableStream<Uint8Array> {
+    if (record.sparseIssue !== undefined) throw invalidSparseMapError(record);
+    const slice = this.data.subarray(record.dataOffset, record.dataOffset + Number(record.dataSize));
+    return record.sparseMap ? expandSparseStream(readableFromBytes(slice), record) : readableFromBytes(slice);
+  }
+
   /**
    * Parse the TAR headers once and populate cached entries/warnings for later operations.
    *
@@ -428,12 +641,17 @@ export class TarReader {
    * limits are exceeded during initialization.
    */
   private async init(): Promise<void> {
-    const { entries, warnings } = parseTarEntries(this.data, {
-      strict: this.strict,
-      limits: this.limits
-    });
+    const source = new TarBytesSource(this.data);
+    const entries: TarEntryRecord[] = [];
+    const records = readTarRecords(
+      source,
+      { strict: this.strict, limits: this.limits, warnings: this.warningsList },
+      (record) => skipRecordData(source, record, record.dataSize)
+    );
+    for await (const record of records) {
+      entries.push(record);
+    }
     this.entriesList = entries;
-    this.warningsList.push(...warnings);
   }
 }
 
@@ -515,134 +733,517 @@ function toBigInt(value?: bigint | number): bigint | undefined {
   return typeof value === 'bigint' ? value : BigInt(value);
 }
 
-function parseTarEntries(data: Uint8Array, options: { strict: boolean; limits: Required<ArchiveLimits> }): { entries: TarEntryRecord[]; warnings: TarIssue[] } {
-  const entries: TarEntryRecord[] = [];
-  const warnings: TarIssue[] = [];
+type TarParseState = {
+  globalPax: Record<string, string> | null;
+  pendingPax: Record<string, string> | null;
+  /** Ordered GNU.sparse.offset/numbytes pairs from the pending PAX 0.0 header. */
+  pendingPaxSparse: Array<[string, string]> | null;
+  pendingLongName: string | null;
+  pendingLongLink: string | null;
+  entryCount: number;
+  totalBytes: bigint;
+};
 
-  let offset = 0;
-  let globalPax: Record<string, string> | null = null;
-  let pendingPax: Record<string, string> | null = null;
-  let entryCount = 0;
-  let totalBytes = 0n;
+type TarHeaderFields = {
+  name: string;
+  mode: bigint | undefined;
+  uid: bigint | undefined;
+  gid: bigint | undefined;
+  size: bigint | undefined;
+  mtime: bigint | undefined;
+  typeflag: string;
+  linkName: string;
+};
+
+/** Decoded sparse layout: stored extents plus the expanded file size. */
+type TarSparseLayout = {
+  extents: TarSparseExtent[];
+  realSize: bigint | undefined;
+  issue?: string;
+};
+
+/**
+ * Parse TAR headers sequentially from a block source.
+ *
+ * Metadata records (PAX `x`/`g`, GNU `L`/`K`) are folded into the next entry,
+ * and GNU sparse maps are decoded before the entry is yielded. `advance` must
+ * consume the yielded record's payload before the next header is read.
+ *
+ * @throws {ArchiveError} When headers are malformed or truncated, or when
+ * configured limits are exceeded.
+ */
+async function* readTarRecords(
+  source: TarBlockSource,
+  options: {
+    strict: boolean;
+    limits: Required<ArchiveLimits>;
+    warnings: TarIssue[];
+    maxMetadataBytes?: number;
+    signal?: AbortSignal;
+  },
+  advance: (record: TarEntryRecord) => Promise<void>
+): AsyncGenerator<TarEntryRecord> {
+  const state = createParseState();
+  let pending: { block: Uint8Array; offset: bigint } | null = null;
 
-  while (offset + BLOCK_SIZE <= data.length) {
-    const header = data.subarray(offset, offset + BLOCK_SIZE);
+  while (true) {
+    throwIfAborted(options.signal);
+    const offset = pending ? pending.offset : source.position;
+    const header = pending ? pending.block : await source.read(BLOCK_SIZE);
+    pending = null;
+    if (header.length < BLOCK_SIZE) break;
     if (isZeroBlock(header)) {
-      const next = data.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE * 2);
-      if (next.length === BLOCK_SIZE && isZeroBlock(next)) {
-        break;
-      }
+      const nextOffset = source.position;
+      const next = await source.read(BLOCK_SIZE);
+      if (next.length === BLOCK_SIZE && isZeroBlock(next)) break;
+      if (next.length === BLOCK_SIZE) pending = { block: next, offset: nextOffset };
     }
 
-    const checksumStored = parseOctal(header.subarray(148, 156));
-    const checksumActual = computeChecksum(header);
-    if (checksumStored !== undefined && Number(checksumStored) !== checksumActual) {
-      const issue: TarIssue = {
-        code: 'TAR_BAD_HEADER',
-        severity: options.strict ? 'error' : 'warning',
-        message: 'Header checksum mismatch',
-        offset: BigInt(offset).toString()
-      };
-      if (options.strict) {
-        throw new ArchiveError('ARCHIVE_BAD_HEADER', issue.message, { offset: BigInt(offset) });
-      }
-      warnings.push(issue);
-    }
+    const fields = readHeaderFields(header, offset, options.strict, options.warnings);
+    const sizeBytes = fields.size ?? 0n;
 
-    const name = readString(header, 0, 100);
-    const mode = parseNumeric(header.subarray(100, 108));
-    const uid = parseNumeric(header.subarray(108, 116));
-    const gid = parseNumeric(header.subarray(116, 124));
-    let size = parseNumeric(header.subarray(124, 136));
-    const mtime = parseNumeric(header.subarray(136, 148));
-    const typeflag = readString(header, 156, 1) || '0';
-    const linkName = readString(header, 157, 100);
-    const prefix = readString(header, 345, 155);
-
-    let fullName = prefix ? `${prefix}/${name}` : name;
-
-    const blockSize = BigInt(BLOCK_SIZE);
-    const dataOffset = offset + BLOCK_SIZE;
-    const sizeBytes = size ?? 0n;
-    const dataEnd = dataOffset + Number(sizeBytes);
-    const padded = Number((sizeBytes + blockSize - 1n) / blockSize * blockSize);
-
-    if (dataEnd > data.length) {
-      throw new ArchiveError('ARCHIVE_TRUNCATED', 'TAR entry truncated', { offset: BigInt(offset) });
+    if (isMetadataTypeflag(fields.typeflag)) {
+      if (options.maxMetadataBytes !== undefined && sizeBytes > BigInt(options.maxMetadataBytes)) {
+        throw new ArchiveError('ARCHIVE_LIMIT_EXCEEDED', 'TAR metadata record exceeds size limit', { offset });
+      }
+      const metadata = await readExact(source, Number(sizeBytes), offset);
+      await source.skip(BigInt(paddedSize(sizeBytes)) - sizeBytes);
+      applyMetadataRecord(state, fields.typeflag, metadata);
+      continue;
     }
 
-    if (typeflag === 'x' || typeflag === 'g') {
-      const paxData = data.subarray(dataOffset, dataOffset + Number(sizeBytes));
-      const records = parsePaxRecords(paxData);
-      if (typeflag === 'g') {
-        globalPax = { ...(globalPax ?? {}), ...records };
-        pendingPax = null;
+    const pax = takePendingPax(state);
+    let dataOffset = offset + BigInt(BLOCK_SIZE);
+    let dataSize = resolveEntrySize(fields.size, pax) ?? 0n;
+    let sparse: TarSparseLayout | undefined;
+    if (fields.typeflag === 'S') {
+      const extents: TarSparseExtent[] = [];
+      let isExtended = readOldGnuSparseExtents(header, 386, 4, extents);
+      while (isExtended) {
+        if (dataOffset - offset > BigInt(MAX_SPARSE_MAP_BYTES)) {
+          throw new ArchiveError('ARCHIVE_LIMIT_EXCEEDED', 'GNU sparse map exceeds size limit', { offset });
+        }
+        const block = await readExact(source, BLOCK_SIZE, offset);
+        dataOffset += BigInt(BLOCK_SIZE);
+        isExtended = readOldGnuSparseExtents(block, 0, 21, extents);
+      }
+      sparse = { extents, realSize: parseNumeric(header.subarray(483, 495)) };
+    } else if (pax && isPaxSparse(pax, state)) {
+      if (pax['GNU.sparse.major'] === '1') {
+        const map = await readSparseMapPrefix(source, dataSize, offset);
+        dataOffset += BigInt(map.bytes);
+        dataSize -= BigInt(map.bytes);
+        sparse = {
+          extents: map.extents,
+          realSize: parsePaxSize(pax['GNU.sparse.realsize'] ?? ''),
+          ...(map.issue !== undefined ? { issue: map.issue } : {})
+        };
       } else {
-        pendingPax = { ...(globalPax ?? {}), ...records };
+        sparse = parsePaxSparseMap(pax, state.pendingPaxSparse);
       }
-      offset = dataOffset + padded;
-      continue;
     }
+    state.pendingPaxSparse = null;
+
+    const record = buildEntryRecord(
+      fields,
+      pax,
+      state,
+      { headerOffset: Number(offset), dataOffset: Number(dataOffset), dataSize, sparse },
+      options.limits
+    );
+    if (record.sparseIssue !== undefined) {
+      options.warnings.push({
+        code: 'TAR_SPARSE_MAP_INVALID',
+        severity: 'warning',
+        message: record.sparseIssue,
+        entryName: record.name,
+        offset: offset.toString()
+      });
+    }
+    yield record;
+    await advance(record);
+  }
+}
 
-    const pax = pendingPax ? { ...pendingPax } : globalPax ? { ...globalPax } : undefined;
-    pendingPax = null;
+function createParseState(): TarParseState {
+  return {
+    globalPax: null,
+    pendingPax: null,
+    pendingPaxSparse: null,
+    pendingLongName: null,
+    pendingLongLink: null,
+    entryCount: 0,
+    totalBytes: 0n
+  };
+}
 
-    if (pax?.path) {
-      fullName = pax.path;
-    }
+/**
+ * Skip the unread part of a record's payload plus block padding.
+ *
+ * @throws {ArchiveError} When the input ends inside the payload.
+ */
+async function skipRecordData(source: TarBlockSource, record: TarEntryRecord, remaining: bigint): Promise<void> {
+  const skipped = await source.skip(remaining);
+  if (skipped < remaining) {
+    throw new ArchiveError('ARCHIVE_TRUNCATED', 'TAR entry truncated', {
+      entryName: record.name,
+      offset: BigInt(record.headerOffset)
+    });
+  }
+  await source.skip(BigInt(paddedSize(record.dataSize)) - record.dataSize);
+}
 
-    let resolvedLink = linkName;
-    if (pax?.linkpath) {
-      resolvedLink = pax.linkpath;
+async function readExact(source: TarBlockSource, length: number, offset: bigint): Promise<Uint8Array> {
+  const bytes = await source.read(length);
+  if (bytes.length < length) {
+    throw new ArchiveError('ARCHIVE_TRUNCATED', 'TAR entry truncated', { offset });
+  }
+  return bytes;
+}
+
+/**
+ * Decode one ustar header block, verifying its checksum.
+ *
+ * @throws {ArchiveError} When the checksum does not match in strict mode.
+ */
+function readHeaderFields(header: Uint8Array, offset: bigint, strict: boolean, warnings: TarIssue[]): TarHeaderFields {
+  const checksumStored = parseOctal(header.subarray(148, 156));
+  const checksumActual = computeChecksum(header);
+  if (checksumStored !== undefined && Number(checksumStored) !== checksumActual) {
+    const issue: TarIssue = {
+      code: 'TAR_BAD_HEADER',
+      severity: strict ? 'error' : 'warning',
+      message: 'Header checksum mismatch',
+      offset: offset.toString()
+    };
+    if (strict) {
+      throw new ArchiveError('ARCHIVE_BAD_HEADER', issue.message, { offset });
     }
+    warnings.push(issue);
+  }
 
-    if (pax?.size) {
-      const parsedSize = parsePaxSize(pax.size);
-      if (parsedSize !== undefined) {
-        size = parsedSize;
-      }
+  const name = readString(header, 0, 100);
+  // Old GNU headers reuse the ustar prefix area for atime/ctime and sparse data.
+  const isOldGnu = TEXT_DECODER.decode(header.subarray(257, 265)) === OLD_GNU_MAGIC;
+  const prefix = isOldGnu ? '' : readString(header, 345, 155);
+  return {
+    name: prefix ? `${prefix}/${name}` : name,
+    mode: parseNumeric(header.subarray(100, 108)),
+    uid: parseNumeric(header.subarray(108, 116)),
+    gid: parseNumeric(header.subarray(116, 124)),
+    size: parseNumeric(header.subarray(124, 136)),
+    mtime: parseNumeric(header.subarray(136, 148)),
+    typeflag: readString(header, 156, 1) || '0',
+    linkName: readString(header, 157, 100)
+  };
+}
+
+function isMetadataTypeflag(typeflag: string): boolean {
+  return typeflag === 'x' || typeflag === 'g' || typeflag === 'L' || typeflag === 'K';
+}
+
+function applyMetadataRecord(state: TarParseState, typeflag: string, data: Uint8Array): void {
+  if (typeflag === 'L') {
+    state.pendingLongName = decodeNullTerminatedUtf8(data);
+    return;
+  }
+  if (typeflag === 'K') {
+    state.pendingLongLink = decodeNullTerminatedUtf8(data);
+    return;
+  }
+  const list = parsePaxRecordList(data);
+  const records = Object.fromEntries(list);
+  if (typeflag === 'g') {
+    state.globalPax = { ...(state.globalPax ?? {}), ...records };
+    state.pendingPax = null;
+    state.pendingPaxSparse = null;
+  } else {
+    state.pendingPax = { ...(state.globalPax ?? {}), ...records };
+    const sparsePairs = list.filter(([key]) => key === 'GNU.sparse.offset' || key === 'GNU.sparse.numbytes');
+    state.pendingPaxSparse = sparsePairs.length > 0 ? sparsePairs : null;
+  }
+}
+
+function takePendingPax(state: TarParseState): Record<string, string> | undefined {
+  const pax = state.pendingPax ? { ...state.pendingPax } : state.globalPax ? { ...state.globalPax } : undefined;
+  state.pendingPax = null;
+  return pax;
+}
+
+function resolveEntrySize(headerSize: bigint | undefined, pax: Record<string, string> | undefined): bigint | undefined {
+  if (pax?.size) {
+    const parsedSize = parsePaxSize(pax.size);
+    if (parsedSize !== undefined) return parsedSize;
+  }
+  return headerSize;
+}
+
+/**
+ * Resolve a header plus pending metadata into an entry record.
+ *
+ * Entry count and size limits are checked here, against the expanded size for
+ * sparse files, so buffered and streaming parses fail at the same header.
+ *
+ * @throws {ArchiveError} When configured entry limits are exceeded.
+ */
+function buildEntryRecord(
+  fields: TarHeaderFields,
+  pax: Record<string, string> | undefined,
+  state: TarParseState,
+  layout: { headerOffset: number; dataOffset: number; dataSize: bigint; sparse: TarSparseLayout | undefined },
+  limits: Required<ArchiveLimits>
+): TarEntryRecord {
+  const longName = state.pendingLongName;
+  const longLink = state.pendingLongLink;
+  state.pendingLongName = null;
+  state.pendingLongLink = null;
+
+  const fullName = pax?.['GNU.sparse.name'] || pax?.path || longName || fields.name;
+  const resolvedLink = pax?.linkpath || longLink || fields.linkName;
+
+  const entryType = typeFromFlag(fields.typeflag);
+  const entryMtime = pax?.mtime
+    ? parseMtime(pax.mtime)
+    : fields.mtime !== undefined
+      ? new Date(Number(fields.mtime) * 1000)
+      : undefined;
+
+  const isDirectory = entryType === 'directory' || fullName.endsWith('/');
+  const isSymlink = entryType === 'symlink';
+
+  const sparse = layout.sparse;
+  const sparseIssue = sparse ? (sparse.issue ?? validateSparseMap(sparse, layout.dataSize)) : undefined;
+  const size = sparse?.realSize ?? layout.dataSize;
+
+  const entry: TarEntryRecord = {
+    name: fullName,
+    size,
+    type: entryType,
+    isDirectory,
+    isSymlink,
+    headerOffset: layout.headerOffset,
+    dataOffset: layout.dataOffset,
+    dataSize: layout.dataSize,
+    ...(pax ? { pax } : {})
+  };
+  if (entryMtime) entry.mtime = entryMtime;
+  if (fields.mode !== undefined) entry.mode = Number(fields.mode);
+  if (fields.uid !== undefined) entry.uid = Number(fields.uid);
+  if (fields.gid !== undefined) entry.gid = Number(fields.gid);
+  if (resolvedLink) entry.linkName = resolvedLink;
+  if (sparse) {
+    if (sparseIssue !== undefined) entry.sparseIssue = sparseIssue;
+    else entry.sparseMap = sparse.extents;
+  }
+
+  state.entryCount += 1;
+  state.totalBytes += entry.size;
+
+  if (state.entryCount > limits.maxEntries) {
+    throw new ArchiveError('ARCHIVE_LIMIT_EXCEEDED', 'Too many TAR entries');
+  }
+  if (entry.size > limits.maxUncompressedEntryBytes) {
+    throw new ArchiveError('ARCHIVE_LIMIT_EXCEEDED', 'TAR entry exceeds size limit', { entryName: entry.name });
+  }
+  if (state.totalBytes > limits.maxTotalUncompressedBytes) {
+    throw new ArchiveError('ARCHIVE_LIMIT_EXCEEDED', 'TAR total size exceeds limit');
+  }
+  return entry;
+}
+
+/**
+ * Read `count` old GNU sparse slots starting at `start`; the byte after the
+ * slots is the "is extended" flag. Returns whether an extension block follows.
+ */
+function readOldGnuSparseExtents(block: Uint8Array, start: number, count: number, out: TarSparseExtent[]): boolean {
+  for (let i = 0; i < count; i += 1) {
+    const slot = start + i * 24;
+    const offset = parseNumeric(block.subarray(slot, slot + 12));
+    const size = parseNumeric(block.subarray(slot + 12, slot + 24));
+    if (offset === undefined && size === undefined) break;
+    out.push({ offset: offset ?? 0n, size: size ?? 0n });
+  }
+  return (block[start + count * 24] ?? 0) !== 0;
+}
+
+function isPaxSparse(pax: Record<string, string>, state: TarParseState): boolean {
+  return (
+    state.pendingPaxSparse !== null ||
+    pax['GNU.sparse.major'] !== undefined ||
+    pax['GNU.sparse.map'] !== undefined ||
+    pax['GNU.sparse.numblocks'] !== undefined
+  );
+}
+
+/** Decode PAX sparse formats 0.0 (repeated offset/numbytes) and 0.1 (`GNU.sparse.map`). */
+function parsePaxSparseMap(pax: Record<string, string>, pairs: Array<[string, string]> | null): TarSparseLayout {
+  const realSize = parsePaxSize(pax['GNU.sparse.size'] ?? pax['GNU.sparse.realsize'] ?? '');
+  const fields: Array<[string, string]> =
+    pax['GNU.sparse.map'] !== undefined
+      ? pax['GNU.sparse.map']
+          .split(',')
+          .filter((value) => value.length > 0)
+          .map((value, index) => [index % 2 === 0 ? 'GNU.sparse.offset' : 'GNU.sparse.numbytes', value])
+      : (pairs ?? []);
+  const extents: TarSparseExtent[] = [];
+  for (let i = 0; i < fields.length; i += 2) {
+    const offsetField = fields[i];
+    const sizeField = fields[i + 1];
+    if (offsetField?.[0] !== 'GNU.sparse.offset' || sizeField?.[0] !== 'GNU.sparse.numbytes') {
+      return { extents: [], realSize, issue: 'GNU sparse map has unpaired offset/numbytes fields' };
     }
+    const offset = parseSparseNumber(offsetField[1]);
+    const size = parseSparseNumber(sizeField[1]);
+    if (offset === undefined || size === undefined) {
+      return { extents: [], realSize, issue: 'GNU sparse map contains a non-numeric field' };
+    }
+    extents.push({ offset, size });
+  }
+  const numblocks = pax['GNU.sparse.numblocks'];
+  if (numblocks !== undefined && parseSparseNumber(numblocks) !== BigInt(extents.length)) {
+    return { extents: [], realSize, issue: 'GNU sparse numblocks does not match the map' };
+  }
+  return { extents, realSize };
+}
 
-    const entryType = typeFromFlag(typeflag);
-    const entryMtime = pax?.mtime ? parseMtime(pax.mtime) : mtime !== undefined ? new Date(Number(mtime) * 1000) : undefined;
-
-    const isDirectory = entryType === 'directory' || fullName.endsWith('/');
-    const isSymlink = entryType === 'symlink';
-
-    const entry: TarEntryRecord = {
-      name: fullName,
-      size: size ?? 0n,
-      type: entryType,
-      isDirectory,
-      isSymlink,
-      dataOffset,
-      dataSize: size ?? 0n,
-      ...(pax ? { pax } : {})
-    };
-    if (entryMtime) entry.mtime = entryMtime;
-    if (mode !== undefined) entry.mode = Number(mode);
-    if (uid !== undefined) entry.uid = Number(uid);
-    if (gid !== undefined) entry.gid = Number(gid);
-    if (resolvedLink) entry.linkName = resolvedLink;
-
-    entries.push(entry);
-    entryCount += 1;
-    totalBytes += entry.size;
-
-    if (entryCount > options.limits.maxEntries) {
-      throw new ArchiveError('ARCHIVE_LIMIT_EXCEEDED', 'Too many TAR entries');
+/**
+ * Read the PAX 1.0 sparse map stored ahead of the entry data: newline-terminated
+ * decimal numbers (extent count, then offset/size pairs) padded to a block.
+ */
+async function readSparseMapPrefix(
+  source: TarBlockSource,
+  dataSize: bigint,
+  offset: bigint
+): Promise<{ extents: TarSparseExtent[]; bytes: number; issue?: string }> {
+  const numbers: bigint[] = [];
+  let digits = '';
+  let expected: number | undefined;
+  let bytes = 0;
+  while (true) {
+    if (BigInt(bytes + BLOCK_SIZE) > dataSize || bytes + BLOCK_SIZE > MAX_SPARSE_MAP_BYTES) {
+      return { extents: [], bytes, issue: 'GNU sparse 1.0 map exceeds the entry data' };
     }
-    if (entry.size > options.limits.maxUncompressedEntryBytes) {
-      throw new ArchiveError('ARCHIVE_LIMIT_EXCEEDED', 'TAR entry exceeds size limit', { entryName: entry.name });
+    const block = await readExact(source, BLOCK_SIZE, offset);
+    bytes += BLOCK_SIZE;
+    for (const byte of block) {
+      if (byte === 0x0a) {
+        const value = parseSparseNumber(digits);
+        if (value === undefined) {
+          return { extents: [], bytes, issue: 'GNU sparse map contains a non-numeric field' };
+        }
+        numbers.push(value);
+        digits = '';
+        if (numbers.length === 1) {
+          if (value > BigInt(MAX_SPARSE_MAP_BYTES)) {
+            return { extents: [], bytes, issue: 'GNU sparse map declares too many extents' };
+          }
+          expected = 1 + Number(value) * 2;
+        }
+        if (numbers.length === expected) {
+          const extents: TarSparseExtent[] = [];
+          for (let i = 1; i < numbers.length; i += 2) {
+            extents.push({ offset: numbers[i]!, size: numbers[i + 1]! });
+          }
+          return { extents, bytes };
+        }
+      } else if (byte >= 0x30 && byte <= 0x39 && digits.length < 20) {
+        digits += String.fromCharCode(byte);
+      } else {
+        return { extents: [], bytes, issue: 'GNU sparse map contains a non-numeric field' };
+      }
     }
-    if (totalBytes > options.limits.maxTotalUncompressedBytes) {
-      throw new ArchiveError('ARCHIVE_LIMIT_EXCEEDED', 'TAR total size exceeds limit');
+  }
+}
+
+function parseSparseNumber(value: string): bigint | undefined {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return undefined;
+  return BigInt(trimmed);
+}
+
+/** Extents must be ordered, non-overlapping, inside the real size, and cover the stored bytes exactly. */
+function validateSparseMap(sparse: TarSparseLayout, storedSize: bigint): string | undefined {
+  if (sparse.realSize === undefined) return 'GNU sparse entry is missing its real size';
+  let end = 0n;
+  let stored = 0n;
+  for (const extent of sparse.extents) {
+    if (extent.offset < end) return 'GNU sparse map extents overlap or are out of order';
+    end = extent.offset + extent.size;
+    stored += extent.size;
+  }
+  if (end > sparse.realSize) return 'GNU sparse map extends past the real file size';
+  if (stored !== storedSize) return 'GNU sparse map does not match the stored data size';
+  return undefined;
+}
+
+/** Re-insert the holes of a sparse file around its stored extents. */
+function expandSparseStream(stored: ReadableStream<Uint8Array>, record: TarEntryRecord): ReadableStream<Uint8Array> {
+  return readableFromAsyncIterable(expandSparseExtents(stored, record));
+}
+
+async function* expandSparseExtents(
+  stored: ReadableStream<Uint8Array>,
+  record: TarEntryRecord
+): AsyncGenerator<Uint8Array> {
+  const reader = stored.getReader();
+  let buffered: Uint8Array = new Uint8Array(0);
+  let position = 0n;
+  try {
+    for (const extent of record.sparseMap ?? []) {
+      yield* zeroChunks(extent.offset - position);
+      let remaining = extent.size;
+      while (remaining > 0n) {
+        if (buffered.length === 0) {
+          const { value, done } = await reader.read();
+          if (done) {
+            throw new ArchiveError('ARCHIVE_TRUNCATED', 'TAR entry truncated', {
+              entryName: record.name,
+              offset: BigInt(record.headerOffset)
+            });
+          }
+          buffered = value;
+          continue;
+        }
+        const length = remaining < BigInt(buffered.length) ? Number(remaining) : buffered.length;
+        yield buffered.subarray(0, length);
+        buffered = buffered.subarray(length);
+        remaining -= BigInt(length);
+      }
+      position = extent.offset + extent.size;
     }
+    yield* zeroChunks(record.size - position);
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
+
+function* zeroChunks(length: bigint): Generator<Uint8Array> {
+  let remaining = length;
+  while (remaining > 0n) {
+    const size = remaining > BigInt(STREAM_CHUNK_SIZE) ? STREAM_CHUNK_SIZE : Number(remaining);
+    yield new Uint8Array(size);
+    remaining -= BigInt(size);
+  }
+}
 
-    offset = dataOffset + padded;
+function invalidSparseMapError(record: TarEntryRecord): ArchiveError {
+  return new ArchiveError('ARCHIVE_BAD_HEADER', `Invalid GNU sparse map: ${record.sparseIssue ?? 'unknown error'}`, {
+    entryName: record.name,
+    offset: BigInt(record.headerOffset)
+  });
+}
+
+function withoutSparseKeys(pax: Record<string, string>): Record<string, string> | undefined {
+  const out: Record<string, string> = {};
+  for (const [key, value] of Object.entries(pax)) {
+    if (!key.startsWith('GNU.sparse.')) out[key] = value;
   }
+  return Object.keys(out).length > 0 ? out : undefined;
+}
 
-  return { entries, warnings };
+function paddedSize(size: bigint): number {
+  const blockSize = BigInt(BLOCK_SIZE);
+  return Number(((size + blockSize - 1n) / blockSize) * blockSize);
 }
 
 function readString(buffer: Uint8Array, start: number, length: number): string {
@@ -725,6 +1326,7 @@ function typeFromFlag(flag: string): TarEntry['type'] {
   switch (flag) {
     case '0':
     case '\0':
+    case 'S':
       return 'file';
     case '1':
       return 'link';
@@ -743,8 +1345,8 @@ function typeFromFlag(flag: string): TarEntry['type'] {
   }
 }
 
-function parsePaxRecords(buffer: Uint8Array): Record<string, string> {
-  const out: Record<string, string> = {};
+function parsePaxRecordList(buffer: Uint8Array): Array<[string, string]> {
+  const out: Array<[string, string]> = [];
   let offset = 0;
   while (offset < buffer.length) {
     const spaceIndex = buffer.indexOf(0x20, offset);
@@ -757,7 +1359,7 @@ function parsePaxRecords(buffer: Uint8Array): Record<string, string> {
     if (eqIndex > 0) {
       const key = record.slice(0, eqIndex);
       const value = record.slice(eqIndex + 1).replace(/\n$/, '');
-      out[key] = value;
+      out.push([key, value]);
     }
     offset += length;
   }
@@ -802,7 +1404,7 @@ function collectNormalizedEntries(
     deterministic: boolean;
     onDuplicate: 'error' | 'last-wins' | 'rename';
     onCaseCollision: 'error' | 'last-wins' | 'rename';
-    onSymlink: 'error' | 'drop';
+    onSymlink: 'error' | 'drop' | 'keep';
     addIssue: (issue: TarIssue) => void;
     summary: {
       droppedEntries: number;
@@ -0,0 +1,151 @@
+import { throwIfAborted } from '../abort.js';
+
+/**
+ * Sequential block access shared by buffered and streaming TAR parsing.
+ * @internal
+ */
+export interface TarBlockSource {
+  /** Bytes consumed so far. */
+  readonly position: bigint;
+  /** Read exactly `length` bytes, or fewer only when input ends first. */
+  read(length: number): Promise<Uint8Array>;
+  /** Discard `length` bytes; returns the number actually skipped. */
+  skip(length: bigint): Promise<bigint>;
+}
+
+/**
+ * Block source over an in-memory TAR image; reads are zero-copy views.
+ * @internal
+ */
+export class TarBytesSource implements TarBlockSource {
+  position = 0n;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  async read(length: number): Promise<Uint8Array> {
+    const start = Number(this.position);
+    const chunk = this.data.subarray(start, Math.min(this.data.length, start + length));
+    this.position += BigInt(chunk.length);
+    return chunk;
+  }
+
+  async skip(length: bigint): Promise<bigint> {
+    const available = BigInt(this.data.length) - this.position;
+    const skipped = length < available ? length : available > 0n ? available : 0n;
+    this.position += skipped;
+    return skipped;
+  }
+}
+
+/**
+ * Forward-only byte source over a web ReadableStream.
+ *
+ * Reads are serialized so entry streams and header parsing never interleave.
+ * @internal
+ */
+export class TarStreamSource implements TarBlockSource {
+  private readonly reader: ReadableStreamDefaultReader<Uint8Array>;
+  private buffered: Uint8Array = new Uint8Array(0);
+  private isDone = false;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly maxBytes: bigint | undefined;
+  /** Total bytes pulled from the underlying stream. */
+  private received = 0n;
+  /** Bytes handed to callers (the logical read position). */
+  position = 0n;
+
+  constructor(
+    stream: ReadableStream<Uint8Array>,
+    private readonly signal?: AbortSignal,
+    maxBytes?: bigint | number
+  ) {
+    this.reader = stream.getReader();
+    this.maxBytes = maxBytes !== undefined ? BigInt(maxBytes) : undefined;
+  }
+
+  /** Read exactly `length` bytes, or fewer only when the stream ends first. */
+  read(length: number): Promise<Uint8Array> {
+    return this.serialize(async () => {
+      const out = new Uint8Array(length);
+      let filled = 0;
+      while (filled < length) {
+        const chunk = await this.take(length - filled);
+        if (!chunk) break;
+        out.set(chunk, filled);
+        filled += chunk.length;
+      }
+      return filled === length ? out : out.subarray(0, filled);
+    });
+  }
+
+  /** Read up to `maxLength` bytes from the next available chunk; null at end of stream. */
+  readChunk(maxLength: number): Promise<Uint8Array | null> {
+    return this.serialize(() => this.take(maxLength));
+  }
+
+  /** Discard `length` bytes; returns the number actually skipped. */
+  skip(length: bigint): Promise<bigint> {
+    return this.serialize(async () => {
+      let remaining = length;
+      while (remaining > 0n) {
+        const step = remaining > BigInt(Number.MAX_SAFE_INTEGER) ? Number.MAX_SAFE_INTEGER : Number(remaining);
+        const chunk = await this.take(step);
+        if (!chunk) break;
+        remaining -= BigInt(chunk.length);
+      }
+      return length - remaining;
+    });
+  }
+
+  /** Release the underlying stream. */
+  async cancel(reason?: unknown): Promise<void> {
+    this.isDone = true;
+    this.buffered = new Uint8Array(0);
+    await this.reader.cancel(reason).catch(() => {});
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private async take(maxLength: number): Promise<Uint8Array | null> {
+    if (this.buffered.length === 0) {
+      if (!(await this.fill())) return null;
+    }
+    const length = Math.min(maxLength, this.buffered.length);
+    const chunk = this.buffered.subarray(0, length);
+    this.buffered = this.buffered.subarray(length);
+    this.position += BigInt(length);
+    return chunk;
+  }
+
+  private async fill(): Promise<boolean> {
+    while (!this.isDone) {
+      throwIfAborted(this.signal);
+      let result: ReadableStreamReadResult<Uint8Array>;
+      try {
+        result = await this.reader.read();
+      } catch (err) {
+        this.isDone = true;
+        throw err;
+      }
+      if (result.done) {
+        this.isDone = true;
+        return false;
+      }
+      const value = result.value;
+      if (!value || value.length === 0) continue;
+      this.received += BigInt(value.length);
+      if (this.maxBytes !== undefined && this.received > this.maxBytes) {
+        await this.cancel();
+        throw new RangeError('Stream exceeds maximum allowed size');
+      }
+      this.buffered = value;
+      return true;
+    }
+    return false;
+  }
+}
+
@@ -6,6 +6,7 @@ export { TarWriter } from './TarWriter.js';
 export type {
   TarEntry,
   TarEntryType,
+  TarSparseExtent,
   TarIssue,
   TarAuditReport,
   TarNormalizeReport,
@@ -41,6 +41,16 @@ export type TarEntry = {
   isSymlink: boolean;
   /** Parsed PAX key-value metadata. */
   pax?: Record<string, string>;
+  /** Stored data extents when the entry is a GNU sparse file (`size` is the expanded size). */
+  sparseMap?: TarSparseExtent[];
+};
+
+/** One stored data extent of a GNU sparse file; bytes outside extents read as zeros. */
+export type TarSparseExtent = {
+  /** Offset of the extent within the expanded file. */
+  offset: bigint;
+  /** Length of the stored extent in bytes. */
+  size: bigint;
 };
 
 /** TAR issue type (alias of archive issues). */
@@ -60,6 +70,8 @@ export type TarReaderOptions = {
   limits?: ArchiveLimits;
   /** Keep parsed entries cached for repeated access. */
   shouldStoreEntries?: boolean;
+  /** Parse forward-only from the source stream instead of buffering the whole archive. */
+  isStreaming?: boolean;
   /** Abort signal for reader operations. */
   signal?: AbortSignal;
 };
@@ -84,8 +96,8 @@ export type TarNormalizeOptions = {
   onDuplicate?: 'error' | 'last-wins' | 'rename';
   /** Case-collision handling policy. */
   onCaseCollision?: 'error' | 'last-wins' | 'rename';
-  /** Symlink handling policy during normalization. */
-  onSymlink?: 'error' | 'drop';
+  /** Symlink handling policy during normalization; `keep` writes them unchanged, link targets unchecked. */
+  onSymlink?: 'error' | 'drop' | 'keep';
   /** Unsupported-feature handling policy. */
   onUnsupported?: 'error' | 'drop';
   /** Resource ceilings for normalize operations. */
@@ -1,8 +1,9 @@
 import type { ResourceLimits } from './limits.js';
+import type { ZipCodecOptions } from './compression/types.js';
 export type { ResourceLimits } from './limits.js';
 
 /** ZIP compression method identifiers. */
-export type CompressionMethod = 0 | 8 | 9 | 93 | (number & {});
+export type CompressionMethod = 0 | 8 | 9 | 12 | 14 | 93 | 95 | (number & {});
 
 /** ZIP encryption configuration for reading/writing. */
 export type ZipEncryption =
@@ -107,22 +108,56 @@ export type ZipEntry = {
   uncompressedSize: bigint;
   /** Byte offset to local header. */
   offset: bigint;
-  /** Modified timestamp converted to `Date`. */
+  /** Modified timestamp, from the NTFS (100ns), extended timestamp or Unix extra field when present, else DOS time. */
   mtime: Date;
-  /** Access time when available. */
+  /** Access time when an NTFS, extended timestamp or Unix extra field carries one. */
   atime?: Date | undefined;
-  /** Creation time when available. */
+  /** Creation time when an NTFS or extended timestamp extra field carries one. */
   ctime?: Date | undefined;
   /** True when the entry is a directory marker. */
   isDirectory: boolean;
   /** True when the entry is a symlink. */
   isSymlink: boolean;
+  /** Unix permission bits when the entry was made on a Unix host. */
+  mode?: number | undefined;
+  /** Owning user id from the Info-ZIP 0x7875 (or local 0x5855) extra field. */
+  uid?: number | undefined;
+  /** Owning group id from the Info-ZIP 0x7875 (or local 0x5855) extra field. */
+  gid?: number | undefined;
   /** True when encrypted metadata is present. */
   encrypted: boolean;
   /** True when ZIP64 metadata is used. */
   zip64: boolean;
+  /**
+   * Every extra field in header order, decoded on first access. Local-header fields appear in entries returned
+   * after the local header has been read (`open()`, `openRaw()`, extraction); the entry passed in is not changed.
+   */
+  readonly extraFields: ZipExtraField[];
 };
 
+/** One extra field block from a local or central header. */
+export type ZipExtraField = {
+  /** Header id (e.g. `0x0001` ZIP64, `0xcafe` JAR marker). */
+  id: number;
+  /** Header the field was read from. */
+  source: 'local' | 'central';
+  /** Field payload without the 4-byte id/size prefix. */
+  data: Uint8Array;
+  /** Decoded values for known field ids with a well-formed payload. */
+  decoded?: ZipExtraFieldDecoded;
+};
+
+/** Decoded view of a known ZIP extra field, discriminated by `type`. */
+export type ZipExtraFieldDecoded =
+  | { type: 'zip64'; uncompressedSize?: bigint; compressedSize?: bigint; offset?: bigint; diskStart?: number }
+  | { type: 'ntfs' | 'extended-timestamp'; mtime?: Date; atime?: Date; ctime?: Date }
+  | { type: 'unix-owner'; uid: number; gid: number }
+  | { type: 'unix-legacy'; atime: Date; mtime: Date; uid?: number; gid?: number }
+  | { type: 'unicode-path' | 'unicode-comment'; version: number; crc32: number; value: string }
+  | { type: 'aes'; vendorVersion: 1 | 2; strength: 128 | 192 | 256; actualMethod: number }
+  | { type: 'jar-marker' }
+  | { type: 'android-alignment'; alignment: number; padding: number };
+
 /** Non-fatal warning produced while parsing ZIP structures. */
 export type ZipWarning = {
   /** Stable machine-readable warning code. */
@@ -148,6 +183,8 @@ export type ZipReaderOptions = {
   limits?: ZipLimits;
   /** Default password for encrypted entries. */
   password?: string;
+  /** Default Zstandard dictionary for entries written with `ZipCodecOptions.dictionary`. */
+  dictionary?: Uint8Array;
   /** Abort signal for reader-level operations. */
   signal?: AbortSignal;
   /** HTTP range-read tuning for remote ZIP inputs opened from URLs. */
@@ -169,6 +206,8 @@ export type ZipReaderOpenOptions = ZipProgressOptions & {
   isStrict?: boolean;
   /** Password override for this open call. */
   password?: string;
+  /** Zstandard dictionary override for this open call. */
+  dictionary?: Uint8Array;
   /** Abort signal for the open stream pipeline. */
   signal?: AbortSignal;
 };
@@ -183,10 +222,39 @@ export type ZipExtractOptions = ZipProgressOptions & {
   limits?: ZipLimits;
   /** Password override for extraction. */
   password?: string;
+  /** Return false to leave an entry out of extraction. */
+  filter?: (entry: ZipEntry) => boolean | Promise<boolean>;
+  /**
+   * Destination path relative to the extraction root (for example with leading components stripped),
+   * or `null`/empty to skip the entry. Containment and collision checks apply to the mapped path.
+   */
+  mapPath?: (entry: ZipEntry) => string | null | Promise<string | null>;
+  /**
+   * What to do when a file or symlink destination already exists: throw (`error`, default), keep it
+   * (`skip`), replace it (`overwrite`), or replace it only when the entry mtime is newer (`newer`).
+   * Existing directories are never replaced.
+   */
+  onExisting?: 'error' | 'skip' | 'overwrite' | 'newer';
+  /** Restore entry metadata on extracted paths (nothing is restored by default). */
+  preserve?: ZipExtractPreserveOptions;
   /** Abort signal for extraction operations. */
   signal?: AbortSignal;
 };
 
+/** Entry metadata restored by `extractAll`; every field is opt-in. */
+export type ZipExtractPreserveOptions = {
+  /** Apply Unix permission bits from external attributes, masked by `umask`. */
+  mode?: boolean;
+  /** Apply entry modification (and access, when recorded) times. */
+  times?: boolean;
+  /** Apply entry uid/gid when recorded; usually requires elevated privileges. */
+  owner?: boolean;
+  /** Permission bits cleared from restored modes (default `0o022`). */
+  umask?: number;
+  /** Keep setuid/setgid/sticky bits instead of stripping them (default false). */
+  shouldKeepSpecialBits?: boolean;
+};
+
 /** Options for iterating ZIP entries. */
 export type ZipReaderIterOptions = {
   signal?: AbortSignal;
@@ -208,8 +276,20 @@ export type ZipAuditOptions = {
 export type ZipWriterOptions = ZipProgressOptions & {
   /** Force ZIP64 metadata regardless of payload size. */
   shouldForceZip64?: boolean;
-  /** Default compression method for added entries. */
-  defaultMethod?: CompressionMethod;
+  /**
+   * Default compression method for added entries. `'auto'` samples each entry's first chunk and
+   * stores archives, compressed media, and high-entropy data; other entries are deflated.
+   */
+  defaultMethod?: CompressionMethod | 'auto';
+  /** Default codec tuning (level, deflate strategy, zstd window/dictionary) for added entries. */
+  compression?: ZipCodecOptions;
+  /**
+   * Entries compressed in parallel (default 1). Above 1, `add()` resolves once the entry is queued,
+   * payloads up to 32 MiB are buffered and compressed on worker threads or Web Workers when
+   * available, and entries still reach the output in `add()` order with the same bytes as a
+   * serial writer. Failures surface from a later `add()` or from `close()`.
+   */
+  concurrency?: number;
   /** Seekability policy for output sink optimization. */
   sinkSeekabilityPolicy?: 'auto' | 'on' | 'off';
   /** Default encryption mode for new entries. */
@@ -218,6 +298,20 @@ export type ZipWriterOptions = ZipProgressOptions & {
   password?: string;
   /** Abort signal for writer lifecycle operations. */
   signal?: AbortSignal;
+  /** Split output into size-capped segments (used by `ZipWriter.toSplit`). */
+  split?: ZipSplitOptions;
+};
+
+/** Segment settings for split (multi-disk) ZIP output. */
+export type ZipSplitOptions = {
+  /** Maximum bytes per segment; at least 64 KiB (APPNOTE minimum). */
+  segmentBytes: number;
+  /**
+   * Open the stream for segment `index` (0-based). The highest index opened
+   * holds the central directory and should be named `.zip`; earlier segments
+   * follow the `.z01`, `.z02`, ... convention.
+   */
+  openSegment: (index: number) => WritableStream<Uint8Array> | Promise<WritableStream<Uint8Array>>;
 };
 
 /** ZIP64 behavior for writing entries. */
@@ -227,14 +321,26 @@ export type Zip64Mode = 'auto' | 'force' | 'off';
 export type ZipWriterAddOptions = {
   /** Compression method override for this entry. */
   method?: CompressionMethod;
+  /** Codec tuning for this entry, merged over the writer's `compression` defaults. */
+  compression?: ZipCodecOptions;
   /** Modified timestamp for the entry metadata. */
   mtime?: Date;
   /** Optional entry comment. */
   comment?: string;
   /** ZIP64 mode override for this entry. */
   zip64?: Zip64Mode;
-  /** External file attribute bits. */
+  /** External file attribute bits; `mode` and `type` replace the high (Unix) half. */
   externalAttributes?: number;
+  /** Unix permission bits (`0..0o7777`); defaults to 0o644, 0o755 for directories and 0o777 for symlinks when `type` is set. */
+  mode?: number;
+  /** Owning user id, written to the Info-ZIP 0x7875 extra field; requires `gid`. */
+  uid?: number;
+  /** Owning group id, written to the Info-ZIP 0x7875 extra field; requires `uid`. */
+  gid?: number;
+  /** Entry kind; directories get a trailing `/`, symlinks store their target as the entry data. */
+  type?: 'directory' | 'symlink';
+  /** Symlink target, written (stored by default) in place of `source`; implies `type: 'symlink'`. */
+  symlinkTarget?: string;
   /** Encryption mode override for this entry. */
   encryption?: ZipEncryption;
   /** Password override for this entry. */
@@ -243,12 +349,99 @@ export type ZipWriterAddOptions = {
   signal?: AbortSignal;
 };
 
+/** Why `defaultMethod: 'auto'` chose an entry's method. */
+export type ZipMethodSelectionReason = 'empty' | 'signature' | 'entropy' | 'compressible';
+
+/** Method chosen for one entry added under `defaultMethod: 'auto'`. */
+export type ZipMethodSelection = {
+  /** Entry name as written. */
+  entryName: string;
+  /** Method written for the entry. */
+  method: CompressionMethod;
+  /** Decision driver for the chosen method. */
+  reason: ZipMethodSelectionReason;
+  /** Detected archive or media signature (for example `png`, `gz`, `zip`) when `reason` is `signature`. */
+  signature?: string;
+  /** Shannon entropy of the sampled chunk in bits per byte. */
+  entropy?: number;
+};
+
+/** Metadata for `ZipWriter.addRaw()`; each field defaults to the source `ZipEntry` when one is given. */
+export type ZipWriterRawOptions = {
+  /** Entry name, overriding the source entry's name. */
+  name?: string;
+  /** Compression method the raw payload was produced with. */
+  method?: CompressionMethod;
+  /** General-purpose flags; bit 3 is cleared and bit 11 set because sizes and a UTF-8 name are written up front. */
+  flags?: number;
+  /** CRC32 of the uncompressed data. */
+  crc32?: number;
+  /** Byte length of the raw payload; the stream must match it exactly. */
+  compressedSize?: bigint;
+  /** Uncompressed size recorded in the headers. */
+  uncompressedSize?: bigint;
+  /** Extra fields written verbatim; ZIP64 and extended-timestamp fields are generated and dropped from it. */
+  extra?: Uint8Array;
+  /** Modified timestamp. */
+  mtime?: Date;
+  /** Entry comment. */
+  comment?: string;
+  /** External file attribute bits. */
+  externalAttributes?: number;
+  /** ZIP64 mode for this entry. */
+  zip64?: Zip64Mode;
+  /** Abort signal for this entry. */
+  signal?: AbortSignal;
+};
+
+/** Summary returned by `ZipWriter.close()`. */
+export type ZipWriterSummary = {
+  /** Entries recorded in the central directory. */
+  entries: number;
+  /** Method decisions for entries added under `defaultMethod: 'auto'`, in write order. */
+  methodSelections: ZipMethodSelection[];
+};
+
 /** Options for closing ZipWriter. */
 export type ZipWriterCloseOptions = {
   /** Abort signal for final central-directory and footer writes. */
   signal?: AbortSignal;
 };
 
+/** Options for `ZipUpdater.open()`. */
+export type ZipUpdaterOptions = Omit<ZipWriterOptions, 'split' | 'sinkSeekabilityPolicy' | 'concurrency'> & {
+  /** Reader options used to load the existing archive and to audit the updated one. */
+  reader?: Omit<ZipReaderOptions, 'http' | 'shouldStoreEntries' | 'signal'>;
+};
+
+/** Options for `ZipUpdater.close()`. */
+export type ZipUpdaterCloseOptions = ZipWriterCloseOptions & {
+  /**
+   * Move live entries down over dead space, including gaps left by earlier sessions, before writing the
+   * central directory. A leading prefix is kept unless the file starts with a local header.
+   */
+  shouldCompact?: boolean;
+};
+
+/** Report returned by `ZipUpdater.close()`. */
+export type ZipUpdateReport = ZipWriterSummary & {
+  /** Entries appended after the existing records. */
+  appendedEntries: number;
+  /** Existing or appended entries dropped by `delete()` or replaced by a same-name `add()`. */
+  deletedEntries: number;
+  /** Entries whose name was changed by `rename()`. */
+  renamedEntries: number;
+  /**
+   * Bytes before the central directory not covered by a live record (header, data and descriptor), including
+   * gaps left by earlier sessions; always 0 after compaction.
+   */
+  deadBytes: bigint;
+  /** Bytes removed from the archive by compaction. */
+  reclaimedBytes: bigint;
+  /** Audit of the updated archive; `open()` refuses archives with overlapping entries. */
+  audit: ZipAuditReport;
+};
+
 /** Normalization safety level. */
 export type ZipNormalizeMode = 'safe' | 'lossless';
 
@@ -269,12 +462,14 @@ export type ZipNormalizeOptions = ZipProgressOptions & {
   onCaseCollision?: ZipNormalizeConflict;
   /** Handling policy for unsupported entry features. */
   onUnsupported?: 'error' | 'drop';
-  /** Handling policy for symlink entries. */
-  onSymlink?: 'error' | 'drop';
+  /** Handling policy for symlink entries; `keep` writes them unchanged, link targets unchecked. */
+  onSymlink?: 'error' | 'drop' | 'keep';
   /** Preserve entry comments in normalized output. */
   shouldPreserveComments?: boolean;
   /** Preserve trailing bytes after canonical ZIP payload. */
   shouldPreserveTrailingBytes?: boolean;
+  /** Keep NTFS (0x000a) and Info-ZIP Unix (0x7875, 0x5855) extra fields; dropped by default and in deterministic mode. */
+  shouldPreservePlatformMetadata?: boolean;
   /** Password used for encrypted entry reads. */
   password?: string;
   /** Normalization resource ceilings. */
@@ -11,6 +11,11 @@ export type {
   ArchiveAuditReport,
   ArchiveDetectionReport,
   ArchiveEntry,
+  ArchiveExtractedEntry,
+  ArchiveExtractPreserveOptions,
+  ArchiveExtractReport,
+  ArchiveExtractSkippedEntry,
+  ArchiveExtractTargetOptions,
   ArchiveFormat,
   ArchiveInputKind,
   ArchiveIssue,
@@ -18,13 +23,24 @@ export type {
   ArchiveLimits,
   ArchiveNormalizeReport,
   ArchiveOpenOptions,
-  ArchiveProfile
+  ArchiveProfile,
+  ExtractTarget,
+  ExtractTargetStat,
+  GzipExtraSubfield,
+  GzipHeader
 } from '../archive/types.js';
 /** Unified archive reader/writer types. */
 export type { ArchiveReader, ArchiveWriter } from '../archive/index.js';
 /** Create archive writers from Web runtime entrypoint. */
 export { createArchiveWriter };
 
+/** Runtime-neutral extraction and the in-memory target from Web runtime entrypoint. */
+export { createMemoryTarget, extractArchive } from '../archive/extract.js';
+/** Memory extraction target types. */
+export type { MemoryExtractTarget, MemoryTargetEntry } from '../archive/extract.js';
+/** Origin Private File System extraction target for `extractArchive`. */
+export { createOpfsTarget } from './opfsTarget.js';
+
 /** ZIP APIs and ZIP-domain types from Web runtime entrypoint. */
 export * from '../zip/index.js';
 /** TAR APIs and TAR-domain types from Web runtime entrypoint. */
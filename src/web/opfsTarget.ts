@@ -0,0 +1,84 @@
+import { ArchiveError } from '../archive/errors.js';
+import type { ExtractTarget } from '../archive/types.js';
+
+/**
+ * Create an `extractArchive` target on an Origin Private File System directory handle.
+ *
+ * OPFS has no symlinks, permission bits, ownership, or settable times, so symlink entries are skipped
+ * and `preserve` has no effect. Files are written through `createWritable()`, whose content is only
+ * committed when the stream closes; a file created for an aborted entry is removed again.
+ *
+ * @example
+ * ```ts
+ * import { createOpfsTarget, extractArchive, openArchive } from "../../web/mod.ts";
+ *
+ * const root = await navigator.storage.getDirectory();
+ * await extractArchive(await openArchive(blob), createOpfsTarget(root));
+ * ```
+ */
+export function createOpfsTarget(root: FileSystemDirectoryHandle): ExtractTarget {
+  const locate = async (path: string): Promise<{ parent: FileSystemDirectoryHandle; name: string }> => {
+    const parts = path.split('/');
+    const name = parts.pop()!;
+    let parent = root;
+    for (const part of parts) {
+      parent = await parent.getDirectoryHandle(part);
+    }
+    return { parent, name };
+  };
+
+  return {
+    async exists(path) {
+      if (path === '') return { type: 'directory' };
+      try {
+        const { parent, name } = await locate(path);
+        try {
+          const file = await (await parent.getFileHandle(name)).getFile();
+          return { type: 'file', mtime: new Date(file.lastModified) };
+        } catch (err) {
+          if (!isDomError(err, 'TypeMismatchError')) throw err;
+        }
+        await parent.getDirectoryHandle(name);
+        return { type: 'directory' };
+      } catch (err) {
+        if (isDomError(err, 'NotFoundError') || isDomError(err, 'TypeMismatchError')) return null;
+        throw err;
+      }
+    },
+    async mkdir(path) {
+      const { parent, name } = await locate(path);
+      await parent.getDirectoryHandle(name, { create: true });
+    },
+    async writeFile(path, options) {
+      const { parent, name } = await locate(path);
+      let isCreated = false;
+      try {
+        await parent.getFileHandle(name);
+        if (!options.overwrite) {
+          throw new ArchiveError('ARCHIVE_NAME_COLLISION', 'Destination path already exists', { context: { path } });
+        }
+      } catch (err) {
+        if (!isDomError(err, 'NotFoundError')) throw err;
+        isCreated = true;
+      }
+      const handle = await parent.getFileHandle(name, { create: true });
+      const writer = (await handle.createWritable({ keepExistingData: false })).getWriter();
+      return new WritableStream<Uint8Array>({
+        async write(chunk) {
+          await writer.write(chunk);
+        },
+        async close() {
+          await writer.close();
+        },
+        async abort(reason) {
+          await writer.abort(reason).catch(() => {});
+          if (isCreated) await parent.removeEntry(name).catch(() => {});
+        }
+      });
+    }
+  };
+}
+
+function isDomError(err: unknown, name: string): boolean {
+  return !!err && typeof err === 'object' && (err as { name?: unknown }).name === name;
+}
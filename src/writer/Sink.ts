@@ -1,3 +1,7 @@
+import { writeUint32LE } from '../binary.js';
+import { ZipError } from '../errors.js';
+import type { ZipSplitOptions } from '../types.js';
+
 export interface Sink {
   position: bigint;
   write(chunk: Uint8Array): Promise<void>;
@@ -8,6 +12,16 @@ export interface SeekableSink extends Sink {
   writeAt(offset: bigint, chunk: Uint8Array): Promise<void>;
 }
 
+/** Sink that spreads output across size-capped segments of a split archive. */
+export interface SplitSink extends Sink {
+  /** Disk number of the segment currently being written. */
+  readonly disk: number;
+  /** Move to the next segment unless `length` bytes still fit in the current one. */
+  reserve(length: number): Promise<void>;
+  /** Map a logical position to its disk number and disk-relative offset. */
+  locate(position: bigint): { disk: number; offset: bigint };
+}
+
 class BaseSink implements Sink {
   position: bigint = 0n;
   private readonly writer: WritableStreamDefaultWriter<Uint8Array>;
@@ -32,3 +46,107 @@ export class WebWritableSink extends BaseSink {
     super(stream);
   }
 }
+
+const SPANNING_SIGNATURE = 0x08074b50;
+const MIN_SEGMENT_BYTES = 64 * 1024;
+const MAX_SEGMENTS = 0xffff;
+
+/**
+ * Split-archive sink: segment 0 starts with the spanning signature and each
+ * later segment is opened on demand once the previous one reaches `segmentBytes`.
+ */
+export class SplitWritableSink implements SplitSink {
+  /** Logical position; starts past the spanning signature that opens segment 0. */
+  position: bigint = 4n;
+  private readonly segmentBytes: bigint;
+  private readonly starts: bigint[] = [];
+  private writer: WritableStreamDefaultWriter<Uint8Array> | null = null;
+  private used = 0n;
+
+  /** @throws {RangeError} When `segmentBytes` is not an integer of at least 64 KiB. */
+  constructor(private readonly split: ZipSplitOptions) {
+    if (!Number.isSafeInteger(split.segmentBytes) || split.segmentBytes < MIN_SEGMENT_BYTES) {
+      throw new RangeError(`split.segmentBytes must be an integer >= ${MIN_SEGMENT_BYTES}`);
+    }
+    this.segmentBytes = BigInt(split.segmentBytes);
+  }
+
+  get disk(): number {
+    return Math.max(0, this.starts.length - 1);
+  }
+
+  async write(chunk: Uint8Array): Promise<void> {
+    let remaining = chunk;
+    while (remaining.length > 0) {
+      if (!this.writer) await this.openNext();
+      const space = this.segmentBytes - this.used;
+      if (space <= 0n) {
+        await this.openNext();
+        continue;
+      }
+      const length = space < BigInt(remaining.length) ? Number(space) : remaining.length;
+      await this.writer!.write(remaining.subarray(0, length));
+      this.used += BigInt(length);
+      this.position += BigInt(length);
+      remaining = remaining.subarray(length);
+    }
+  }
+
+  async reserve(length: number): Promise<void> {
+    if (BigInt(length) > this.segmentBytes) {
+      throw new ZipError('ZIP_LIMIT_EXCEEDED', 'ZIP record does not fit in one split segment', {
+        context: { recordBytes: String(length), segmentBytes: this.segmentBytes.toString() }
+      });
+    }
+    if (!this.writer) await this.openNext();
+    if (this.segmentBytes - this.used < BigInt(length)) {
+      await this.openNext();
+    }
+  }
+
+  locate(position: bigint): { disk: number; offset: bigint } {
+    for (let disk = this.starts.length - 1; disk > 0; disk -= 1) {
+      const start = this.starts[disk]!;
+      if (position >= start) return { disk, offset: position - start };
+    }
+    return { disk: 0, offset: position };
+  }
+
+  async close(): Promise<void> {
+    if (!this.writer) await this.openNext();
+    await this.writer!.close();
+  }
+
+  /**
+   * Close the current segment and open the next one.
+   *
+   * @throws {ZipError} When the archive would need more than 65535 segments.
+   */
+  private async openNext(): Promise<void> {
+    const index = this.starts.length;
+    if (index >= MAX_SEGMENTS) {
+      throw new ZipError('ZIP_LIMIT_EXCEEDED', 'Split archive exceeds the maximum number of segments');
+    }
+    if (this.writer) await this.writer.close();
+    this.writer = (await this.split.openSegment(index)).getWriter();
+    this.starts.push(index === 0 ? 0n : this.position);
+    this.used = 0n;
+    if (index === 0) {
+      // APPNOTE 6.3.10 section 8.5.3: split archives begin with the spanning signature.
+      const signature = new Uint8Array(4);
+      writeUint32LE(signature, 0, SPANNING_SIGNATURE);
+      await this.writer.write(signature);
+      this.used = 4n;
+    }
+  }
+}
+
+export function isSplitSink(sink: Sink): sink is SplitSink {
+  return typeof (sink as SplitSink).reserve === 'function';
+}
+
+/** Write a header or trailer record without letting it straddle two split segments (APPNOTE 8.5.2). */
+export async function writeRecord(sink: Sink, record: Uint8Array): Promise<void> {
+  if (isSplitSink(sink)) await sink.reserve(record.length);
+  await sink.write(record);
+}
@@ -1,11 +1,26 @@
 import { ZipError } from '../errors.js';
 import { mergeSignals, throwIfAborted } from '../abort.js';
 import { readableFromAsyncIterable, readableFromBytes } from '../streams/web.js';
-import { WebWritableSink, type SeekableSink, type Sink } from './Sink.js';
-import { writeEntry, type EntryWriteResult } from './entryWriter.js';
+import { SplitWritableSink, WebWritableSink, type SeekableSink, type Sink } from './Sink.js';
+import { writeEntry, writeRawEntry, type EntryWriteResult } from './entryWriter.js';
+import { ParallelEntryQueue } from './compressionPool.js';
+import { selectEntryMethod } from './methodSelection.js';
+import { resolveRawEntry } from './rawEntry.js';
+import { resolveUnixMetadata } from './unixMetadata.js';
 import { writeCentralDirectory } from './centralDirectoryWriter.js';
 import { finalizeArchive } from './finalize.js';
-import type { ZipEncryption, ZipWriterAddOptions, ZipWriterCloseOptions, ZipWriterOptions } from '../types.js';
+import type { ZipCodecOptions } from '../compression/types.js';
+import type {
+  ZipEncryption,
+  ZipEntry,
+  ZipSplitOptions,
+  ZipMethodSelection,
+  ZipWriterAddOptions,
+  ZipWriterCloseOptions,
+  ZipWriterOptions,
+  ZipWriterRawOptions,
+  ZipWriterSummary
+} from '../types.js';
 
 /**
  * Write ZIP archives to a writable stream.
@@ -25,6 +40,11 @@ export class ZipWriter {
    * @internal
    */
   private readonly entries: EntryWriteResult[] = [];
+  /**
+   * Method decisions for entries added under `defaultMethod: 'auto'`.
+   * @internal
+   */
+  private readonly methodSelections: ZipMethodSelection[] = [];
   /**
    * Whether `close()` has already finalized the sink.
    * @internal
@@ -39,7 +59,12 @@ export class ZipWriter {
    * Compression method applied when callers omit `options.method`.
    * @internal
    */
-  private readonly defaultMethod: number;
+  private readonly defaultMethod: number | 'auto';
+  /**
+   * Codec tuning applied when callers omit `options.compression` fields.
+   * @internal
+   */
+  private readonly compression: ZipCodecOptions | undefined;
   /**
    * Whether local headers are patched in place for seekable sinks.
    * @internal
@@ -66,14 +91,23 @@ export class ZipWriter {
    * @internal
    */
   private readonly signal: AbortSignal | undefined;
+  /**
+   * Ordered compression queue used when `concurrency` is above 1.
+   * @internal
+   */
+  private readonly queue: ParallelEntryQueue | undefined;
 
   /** @internal */
   protected constructor(
     private readonly sink: Sink,
     options?: ZipWriterOptions
   ) {
+    if (options?.split && !(sink instanceof SplitWritableSink)) {
+      throw new ZipError('ZIP_UNSUPPORTED_FEATURE', 'Split output requires ZipWriter.toSplit()');
+    }
     this.forceZip64 = options?.shouldForceZip64 ?? false;
     this.defaultMethod = options?.defaultMethod ?? 8;
+    this.compression = options?.compression;
     const seekableMode = options?.sinkSeekabilityPolicy ?? 'auto';
     const seekable = isSeekableSink(sink);
     if (seekableMode === 'on' && !seekable) {
@@ -89,6 +123,11 @@ export class ZipWriter {
         }
       : undefined;
     this.signal = options?.signal;
+    const concurrency = options?.concurrency ?? 1;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new RangeError(`ZipWriter concurrency must be a positive integer (got ${String(options?.concurrency)})`);
+    }
+    this.queue = concurrency > 1 ? new ParallelEntryQueue(concurrency) : undefined;
   }
 
   /** Create a ZIP writer that targets a WritableStream. */
@@ -97,6 +136,15 @@ export class ZipWriter {
     return new ZipWriter(sink, options);
   }
 
+  /**
+   * Create a ZIP writer that emits a split archive through `options.split.openSegment`.
+   *
+   * Entries always use data descriptors because earlier segments cannot be patched.
+   */
+  static toSplit(options: ZipWriterOptions & { split: ZipSplitOptions }): ZipWriter {
+    return new ZipWriter(new SplitWritableSink(options.split), options);
+  }
+
   /** Add an entry to the ZIP archive. */
   async add(
     name: string,
@@ -112,17 +160,24 @@ export class ZipWriter {
       throw new ZipError('ZIP_UNSUPPORTED_FEATURE', 'Entry names must not contain NUL');
     }
 
-    const resolved = await resolveSource(source, options?.mtime, signal);
-    const method = options?.method ?? this.defaultMethod;
+    const unix = resolveUnixMetadata(name, options);
+    const resolved = await resolveSource(unix.symlinkData ?? source, options?.mtime, signal);
+    // Symlink targets are short strings that readers expect stored.
+    const requestedMethod = options?.method ?? (unix.isSymlink ? 0 : this.defaultMethod);
+    const selected = requestedMethod === 'auto' ? await selectEntryMethod(resolved.stream, signal) : undefined;
+    const method = selected ? selected.method : (requestedMethod as number);
+    const compression =
+      this.compression || options?.compression ? { ...this.compression, ...options?.compression } : undefined;
     const zip64Mode = options?.zip64 ?? 'auto';
     const mtime = resolved.mtime ?? new Date();
-    const externalAttributes = options?.externalAttributes ?? (name.endsWith('/') ? 0x10 : 0);
+    const entryName = unix.name;
+    const externalAttributes = unix.externalAttributes ?? (entryName.endsWith('/') ? 0x10 : 0);
     const declaredUncompressedSize = (options as { declaredUncompressedSize?: bigint } | undefined)
       ?.declaredUncompressedSize;
 
     const entryInput = {
-      name,
-      source: resolved.stream,
+      name: entryName,
+      source: selected ? selected.stream : resolved.stream,
       method,
       mtime,
       comment: options?.comment,
@@ -131,23 +186,82 @@ export class ZipWriter {
       forceZip64: this.forceZip64,
       patchLocalHeader: this.patchLocalHeaders,
       encryption: resolveEncryption(options, this.defaultEncryption),
+      ...(compression ? { compression } : {}),
+      ...(unix.extra ? { extra: unix.extra } : {}),
       ...(this.progress ? { progress: this.progress } : {}),
       ...(signal ? { signal } : {})
     } as const;
-    const entry = await writeEntry(this.patchLocalHeaders ? (this.sink as SeekableSink) : this.sink, {
+    const input = {
       ...entryInput,
       ...(declaredUncompressedSize !== undefined ? { declaredUncompressedSize } : {}),
       ...(resolved.sizeHint !== undefined ? { sizeHint: resolved.sizeHint } : {})
-    });
+    };
+    const sink = this.patchLocalHeaders ? (this.sink as SeekableSink) : this.sink;
+    const record = (entry: EntryWriteResult) => {
+      this.entries.push(entry);
+      if (selected) this.methodSelections.push({ entryName, ...selected.selection });
+    };
+    if (this.queue) {
+      await this.queue.enqueue(
+        {
+          source: input.source,
+          method,
+          isPassthrough: input.encryption.type !== 'none',
+          ...(compression ? { compression } : {}),
+          ...(signal ? { signal } : {})
+        },
+        async (queuedSource, precompressed) =>
+          record(await writeEntry(sink, { ...input, source: queuedSource, ...(precompressed ? { precompressed } : {}) }))
+      );
+      return;
+    }
+    record(await writeEntry(sink, input));
+  }
 
-    this.entries.push(entry);
+  /**
+   * Write an already-compressed (and possibly encrypted) member verbatim, e.g. from `ZipReader.openRaw()`.
+   *
+   * Header fields default to `entry` when it is a `ZipEntry`; a bare name needs `method`, `crc32`,
+   * `compressedSize` and `uncompressedSize` in `options`.
+   */
+  async addRaw(
+    entry: string | ZipEntry,
+    rawStream: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array> | Uint8Array,
+    options?: ZipWriterRawOptions
+  ): Promise<void> {
+    const signal = mergeSignals(this.signal, options?.signal);
+    throwIfAborted(signal);
+    if (this.closed) {
+      throw new ZipError('ZIP_UNSUPPORTED_FEATURE', 'Cannot add entries after close');
+    }
+    const raw = resolveRawEntry(entry, options);
+    const resolved = await resolveSource(rawStream, undefined, signal);
+    const input = {
+      ...raw,
+      source: resolved.stream,
+      zip64Mode: options?.zip64 ?? 'auto',
+      forceZip64: this.forceZip64,
+      ...(this.progress ? { progress: this.progress } : {}),
+      ...(signal ? { signal } : {})
+    };
+    if (this.queue) {
+      await this.queue.enqueue(
+        { source: input.source, method: raw.method, isPassthrough: true, ...(signal ? { signal } : {}) },
+        async (queuedSource) => {
+          this.entries.push(await writeRawEntry(this.sink, { ...input, source: queuedSource }));
+        }
+      );
+      return;
+    }
+    this.entries.push(await writeRawEntry(this.sink, input));
   }
 
   /** Finalize and close the ZIP archive. */
-  async close(comment?: string, options?: ZipWriterCloseOptions): Promise<void> {
+  async close(comment?: string, options?: ZipWriterCloseOptions): Promise<ZipWriterSummary> {
     const signal = mergeSignals(this.signal, options?.signal);
     throwIfAborted(signal);
-    if (this.closed) return;
+    if (this.closed) return this.summary();
+    await this.queue?.drain();
     const cdInfo = await writeCentralDirectory(this.sink, this.entries, signal);
     const finalizeOptions: {
       entryCount: bigint;
@@ -155,19 +269,27 @@ export class ZipWriter {
       cdSize: bigint;
       forceZip64: boolean;
       hasZip64Entries: boolean;
+      lastDiskEntries: bigint;
       comment?: string;
     } = {
       entryCount: BigInt(this.entries.length),
       cdOffset: cdInfo.offset,
       cdSize: cdInfo.size,
       forceZip64: this.forceZip64,
-      hasZip64Entries: this.entries.some((entry) => entry.zip64)
+      hasZip64Entries: this.entries.some((entry) => entry.zip64),
+      lastDiskEntries: cdInfo.lastDiskEntries
     };
     if (comment !== undefined) finalizeOptions.comment = comment;
     await finalizeArchive(this.sink, finalizeOptions, signal);
     throwIfAborted(signal);
     await this.sink.close();
     this.closed = true;
+    return this.summary();
+  }
+
+  /** @internal */
+  private summary(): ZipWriterSummary {
+    return { entries: this.entries.length, methodSelections: [...this.methodSelections] };
   }
 
   /** Async dispose hook for using with `using` in supported runtimes. */
@@ -3,13 +3,15 @@ import { throwIfAborted } from '../abort.js';
 import { dateToDos } from '../dosTime.js';
 import { buildExtendedTimestampExtra, buildZip64Extra } from '../extraFields.js';
 import type { EntryWriteResult } from './entryWriter.js';
-import type { Sink } from './Sink.js';
+import { isSplitSink, writeRecord, type Sink } from './Sink.js';
 
 const CDFH_SIGNATURE = 0x02014b50;
 
 export interface CentralDirectoryInfo {
   offset: bigint;
   size: bigint;
+  /** Records written on the disk holding the last record (all records for single-file output). */
+  lastDiskEntries: bigint;
 }
 
 export async function writeCentralDirectory(
@@ -19,37 +21,44 @@ export async function writeCentralDirectory(
 ): Promise<CentralDirectoryInfo> {
   const offset = sink.position;
   let size = 0n;
+  let lastDisk = 0;
+  let lastDiskEntries = 0n;
 
   for (const entry of entries) {
     throwIfAborted(signal);
     const nameBytes = entry.nameBytes;
     const commentBytes = entry.comment ? encodeUtf8(entry.comment) : new Uint8Array(0);
     const dos = dateToDos(entry.mtime);
+    const location = isSplitSink(sink) ? sink.locate(entry.offset) : { disk: 0, offset: entry.offset };
 
     const needsZip64 =
       entry.zip64 ||
       entry.compressedSize > 0xffffffffn ||
       entry.uncompressedSize > 0xffffffffn ||
-      entry.offset > 0xffffffffn;
+      location.offset > 0xffffffffn;
 
     const zip64Extra = needsZip64
       ? buildZip64Extra({
           uncompressedSize: entry.uncompressedSize,
           compressedSize: entry.compressedSize,
-          offset: entry.offset
+          offset: location.offset
         })
       : new Uint8Array(0);
-    const timestampExtra = buildExtendedTimestampExtra({ mtime: entry.mtime }, true);
-    const extra = concat([zip64Extra, entry.aesExtra ?? new Uint8Array(0), timestampExtra]);
+    const extra = entry.centralExtra
+      ? concat([zip64Extra, entry.centralExtra])
+      : concat([
+          zip64Extra,
+          entry.aesExtra ?? new Uint8Array(0),
+          buildExtendedTimestampExtra({ mtime: entry.mtime }, true)
+        ]);
 
     const header = new Uint8Array(46 + nameBytes.length + extra.length + commentBytes.length);
     writeUint32LE(header, 0, CDFH_SIGNATURE);
-    const madeByVersion = entry.versionNeeded;
-    writeUint16LE(header, 4, (3 << 8) | madeByVersion); // Unix
+    writeUint16LE(header, 4, entry.madeBy ?? ((3 << 8) | entry.versionNeeded)); // Unix unless carried over
     writeUint16LE(header, 6, entry.versionNeeded);
     writeUint16LE(header, 8, entry.flags);
     writeUint16LE(header, 10, entry.method);
-    writeUint16LE(header, 12, dos.time);
+    writeUint16LE(header, 12, entry.dosTime ?? dos.time);
     writeUint16LE(header, 14, dos.date);
     writeUint32LE(header, 16, entry.crc32);
     if (needsZip64) {
@@ -62,24 +71,30 @@ export async function writeCentralDirectory(
     writeUint16LE(header, 28, nameBytes.length);
     writeUint16LE(header, 30, extra.length);
     writeUint16LE(header, 32, commentBytes.length);
-    writeUint16LE(header, 34, 0);
+    writeUint16LE(header, 34, location.disk);
     writeUint16LE(header, 36, 0);
     writeUint32LE(header, 38, entry.externalAttributes);
     if (needsZip64) {
       writeUint32LE(header, 42, 0xffffffff);
     } else {
-      writeUint32LE(header, 42, Number(entry.offset));
+      writeUint32LE(header, 42, Number(location.offset));
     }
 
     header.set(nameBytes, 46);
     header.set(extra, 46 + nameBytes.length);
     header.set(commentBytes, 46 + nameBytes.length + extra.length);
 
-    await sink.write(header);
+    await writeRecord(sink, header);
     size += BigInt(header.length);
+    const recordDisk = isSplitSink(sink) ? sink.disk : 0;
+    if (recordDisk !== lastDisk) {
+      lastDisk = recordDisk;
+      lastDiskEntries = 0n;
+    }
+    lastDiskEntries += 1n;
   }
 
-  return { offset, size };
+  return { offset, size, lastDiskEntries };
 }
 
 function concat(parts: Uint8Array[]): Uint8Array {
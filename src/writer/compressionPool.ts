@@ -0,0 +1,331 @@
+import { throwIfAborted } from '../abort.js';
+import { getCompressionCodec, isBuiltinCompressionCodec } from '../compression/registry.js';
+import type { ZipCodecOptions } from '../compression/types.js';
+import { Crc32 } from '../crc32.js';
+import { ZipError } from '../errors.js';
+import { replayThenRead } from '../streams/replay.js';
+import { readableFromBytes } from '../streams/web.js';
+
+/** Job posted to a compression worker. */
+export type CompressionJob = {
+  id: number;
+  method: number;
+  compression?: ZipCodecOptions;
+  data: Uint8Array;
+};
+
+/** Worker reply for one job. */
+export type CompressionJobResult = { id: number; ok: true; data: Uint8Array; crc32: number } | { id: number; ok: false };
+
+/** Entry payload compressed ahead of its turn at the sink. */
+export type PrecompressedEntry = {
+  data: Uint8Array;
+  crc32: number;
+  uncompressedSize: bigint;
+};
+
+type WorkerHandle = {
+  post(job: CompressionJob): void;
+  terminate(): void;
+  /** Keep the host alive only while the worker owns a job. */
+  setBusy(busy: boolean): void;
+};
+
+type WorkerSlot = {
+  handle: WorkerHandle | null;
+  job: PendingJob | null;
+};
+
+type PendingJob = {
+  job: CompressionJob;
+  resolve: (result: { data: Uint8Array; crc32: number } | null) => void;
+};
+
+// Kept out of static imports so browser bundles never resolve a Node builtin.
+const NODE_WORKER_THREADS = 'node:worker_threads';
+const WORKER_URL = new URL('./compressionWorker.js', import.meta.url);
+
+/**
+ * Compress one buffered entry with the registered codec.
+ *
+ * Workers and the in-process fallback share this path, so both produce identical bytes.
+ */
+export async function compressBuffered(
+  data: Uint8Array,
+  method: number,
+  compression?: ZipCodecOptions,
+  signal?: AbortSignal
+): Promise<{ data: Uint8Array; crc32: number }> {
+  const codec = getCompressionCodec(method);
+  if (!codec || !codec.createCompressStream) {
+    throw new ZipError('ZIP_UNSUPPORTED_METHOD', `Unsupported compression method ${method}`, { method });
+  }
+  const transform = await codec.createCompressStream({
+    ...compression,
+    ...(signal ? { signal } : {})
+  });
+  const compressed = new Uint8Array(await new Response(readableFromBytes(data).pipeThrough(transform)).arrayBuffer());
+  const crc = new Crc32();
+  crc.update(data);
+  return { data: compressed, crc32: crc.digest() };
+}
+
+/**
+ * Fixed-size pool that compresses buffered entries on worker threads (Node, Deno, Bun) or Web
+ * Workers (browsers), falling back to in-process compression when workers are unavailable,
+ * fail to start, or the method is served by a custom codec the workers cannot see.
+ */
+export class CompressionPool {
+  private slots: WorkerSlot[] | null = null;
+  private spawning: Promise<void> | null = null;
+  private readonly queue: PendingJob[] = [];
+  private nextId = 1;
+
+  constructor(private readonly size: number) {}
+
+  async compress(
+    data: Uint8Array,
+    method: number,
+    compression: ZipCodecOptions | undefined,
+    signal?: AbortSignal
+  ): Promise<PrecompressedEntry> {
+    throwIfAborted(signal);
+    const offloaded =
+      method !== 0 && isBuiltinCompressionCodec(method) ? await this.runOnWorker(data, method, compression) : null;
+    throwIfAborted(signal);
+    const result = offloaded ?? (await compressBuffered(data, method, compression, signal));
+    return {
+      data: result.data,
+      crc32: result.crc32,
+      uncompressedSize: BigInt(data.length)
+    };
+  }
+
+  /** Terminate all workers; queued jobs fall back to in-process compression. */
+  close(): void {
+    const slots = this.slots ?? [];
+    this.slots = [];
+    for (const slot of slots) {
+      slot.handle?.terminate();
+      slot.handle = null;
+      slot.job?.resolve(null);
+      slot.job = null;
+    }
+    for (const pending of this.queue.splice(0)) pending.resolve(null);
+  }
+
+  private async runOnWorker(
+    data: Uint8Array,
+    method: number,
+    compression: ZipCodecOptions | undefined
+  ): Promise<{ data: Uint8Array; crc32: number } | null> {
+    await this.ensureWorkers();
+    if (!this.slots?.some((slot) => slot.handle)) return null;
+    // Structured clone copies the whole backing buffer, so trim views first.
+    const payload = data.byteOffset === 0 && data.byteLength === data.buffer.byteLength ? data : data.slice();
+    const job: CompressionJob = { id: this.nextId++, method, data: payload, ...(compression ? { compression } : {}) };
+    return new Promise((resolve) => {
+      this.queue.push({ job, resolve });
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    for (const slot of this.slots ?? []) {
+      if (!slot.handle || slot.job) continue;
+      const next = this.queue.shift();
+      if (!next) return;
+      slot.job = next;
+      slot.handle.setBusy(true);
+      slot.handle.post(next.job);
+    }
+    // Every worker died: let the remaining jobs run in-process.
+    if (!this.slots?.some((slot) => slot.handle)) {
+      for (const pending of this.queue.splice(0)) pending.resolve(null);
+    }
+  }
+
+  private settle(slot: WorkerSlot, result: CompressionJobResult | null): void {
+    const pending = slot.job;
+    slot.job = null;
+    slot.handle?.setBusy(false);
+    if (pending && result?.id === pending.job.id && result.ok) {
+      pending.resolve({ data: result.data, crc32: result.crc32 });
+    } else {
+      pending?.resolve(null);
+    }
+    this.dispatch();
+  }
+
+  private fail(slot: WorkerSlot): void {
+    slot.handle?.terminate();
+    slot.handle = null;
+    this.settle(slot, null);
+  }
+
+  private ensureWorkers(): Promise<void> {
+    if (this.slots) return Promise.resolve();
+    if (!this.spawning) {
+      this.spawning = (async () => {
+        const slots: WorkerSlot[] = [];
+        for (let i = 0; i < this.size; i += 1) {
+          const slot: WorkerSlot = { handle: null, job: null };
+          slot.handle = await spawnWorker(
+            (result) => this.settle(slot, result),
+            () => this.fail(slot)
+          ).catch(() => null);
+          if (!slot.handle) break;
+          slots.push(slot);
+        }
+        this.slots = slots;
+      })();
+    }
+    return this.spawning;
+  }
+}
+
+async function spawnWorker(
+  onResult: (result: CompressionJobResult) => void,
+  onError: () => void
+): Promise<WorkerHandle | null> {
+  if (typeof process !== 'undefined' && process.versions?.node) {
+    const threads = (await import(NODE_WORKER_THREADS)) as typeof import('node:worker_threads');
+    const worker = new threads.Worker(WORKER_URL);
+    worker.on('message', onResult);
+    worker.on('error', onError);
+    worker.on('exit', onError);
+    // After the listeners: attaching a message listener refs the worker port again.
+    worker.unref();
+    return {
+      post: (job) => worker.postMessage(job),
+      terminate: () => {
+        worker.removeAllListeners();
+        void worker.terminate();
+      },
+      setBusy: (busy) => (busy ? worker.ref() : worker.unref())
+    };
+  }
+  if (typeof Worker === 'function') {
+    const worker = new Worker(WORKER_URL, { type: 'module' });
+    worker.onmessage = (event: MessageEvent<CompressionJobResult>) => onResult(event.data);
+    worker.onerror = (event) => {
+      event.preventDefault();
+      onError();
+    };
+    return {
+      post: (job) => worker.postMessage(job),
+      terminate: () => worker.terminate(),
+      setBusy: () => {}
+    };
+  }
+  return null;
+}
+
+/** Entry handed to {@link ParallelEntryQueue.enqueue}. */
+export type QueuedEntrySource = {
+  source: ReadableStream<Uint8Array>;
+  method: number;
+  compression?: ZipCodecOptions;
+  /** Encrypted and raw entries are written straight from their source stream, skipping the pool. */
+  isPassthrough: boolean;
+  signal?: AbortSignal;
+};
+
+type WriteQueuedEntry = (source: ReadableStream<Uint8Array>, precompressed?: PrecompressedEntry) => Promise<void>;
+
+// Entries larger than this are not buffered; they stream through the sink when their turn comes.
+const MAX_BUFFERED_ENTRY_BYTES = 32 * 1024 * 1024;
+
+/**
+ * Ordered write queue behind `ZipWriter` `concurrency`.
+ *
+ * Up to `concurrency` entries are buffered and compressed at once, but each entry reaches the
+ * sink only after the entries added before it, through the same writer code as serial mode, so
+ * the archive bytes match a serial writer's.
+ */
+export class ParallelEntryQueue {
+  private readonly pool: CompressionPool;
+  private readonly inFlight = new Set<Promise<void>>();
+  private tail: Promise<void> = Promise.resolve();
+  private failure: { error: unknown } | null = null;
+
+  constructor(private readonly concurrency: number) {
+    this.pool = new CompressionPool(concurrency);
+  }
+
+  /** Resolve once the entry is queued; write failures surface on a later call or `drain()`. */
+  async enqueue(entry: QueuedEntrySource, write: WriteQueuedEntry): Promise<void> {
+    while (this.inFlight.size >= this.concurrency) {
+      await Promise.race(this.inFlight);
+    }
+    this.throwIfFailed();
+    const buffered = entry.isPassthrough ? null : await bufferEntry(entry.source, entry.signal);
+    const compressed = buffered?.data
+      ? this.pool.compress(buffered.data, entry.method, entry.compression, entry.signal)
+      : undefined;
+    // Rejections are observed in task order below; this only keeps them from being reported as unhandled.
+    compressed?.catch(() => {});
+    const task = this.tail.then(async () => {
+      if (this.failure) return;
+      if (compressed) {
+        const precompressed = await compressed;
+        await write(readableFromBytes(buffered!.data!), precompressed);
+      } else {
+        await write(buffered?.stream ?? entry.source);
+      }
+    });
+    const settled = task.then(
+      () => {},
+      (error: unknown) => {
+        this.failure ??= { error };
+        // Later entries are skipped, so workers are no longer needed even if close() never runs.
+        this.pool.close();
+      }
+    );
+    this.tail = settled;
+    this.inFlight.add(settled);
+    void settled.then(() => this.inFlight.delete(settled));
+  }
+
+  /** Wait for every queued entry to be written, then release the workers. */
+  async drain(): Promise<void> {
+    try {
+      await this.tail;
+      this.throwIfFailed();
+    } finally {
+      this.pool.close();
+    }
+  }
+
+  private throwIfFailed(): void {
+    if (this.failure) throw this.failure.error;
+  }
+}
+
+async function bufferEntry(
+  source: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): Promise<{ data?: Uint8Array; stream?: ReadableStream<Uint8Array> }> {
+  const reader = source.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    throwIfAborted(signal);
+    const { value, done } = await reader.read();
+    if (done) break;
+    if (value.length === 0) continue;
+    chunks.push(value);
+    total += value.length;
+    if (total > MAX_BUFFERED_ENTRY_BYTES) {
+      return { stream: replayThenRead(chunks, reader) };
+    }
+  }
+  if (chunks.length === 1) return { data: chunks[0]! };
+  const data = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { data };
+}
@@ -0,0 +1,43 @@
+import { compressBuffered, type CompressionJob, type CompressionJobResult } from './compressionPool.js';
+
+// Worker entry point for `ZipWriter` `concurrency`; loaded only through `new URL(..., import.meta.url)`.
+
+type JobPort = {
+  onJob(handler: (job: CompressionJob) => void): void;
+  reply(result: CompressionJobResult, transfer: ArrayBuffer[]): void;
+};
+
+// Kept out of static imports so browser bundles never resolve a Node builtin.
+const NODE_WORKER_THREADS = 'node:worker_threads';
+
+async function connect(): Promise<JobPort> {
+  if (typeof process !== 'undefined' && process.versions?.node) {
+    const threads = (await import(NODE_WORKER_THREADS)) as typeof import('node:worker_threads');
+    const port = threads.parentPort;
+    if (port) {
+      return {
+        onJob: (handler) => port.on('message', handler),
+        reply: (result, transfer) => port.postMessage(result, transfer)
+      };
+    }
+  }
+  const scope = globalThis as unknown as {
+    addEventListener(type: 'message', listener: (event: MessageEvent<CompressionJob>) => void): void;
+    postMessage(message: unknown, transfer: ArrayBuffer[]): void;
+  };
+  return {
+    onJob: (handler) => scope.addEventListener('message', (event) => handler(event.data)),
+    reply: (result, transfer) => scope.postMessage(result, transfer)
+  };
+}
+
+void connect().then((port) => {
+  port.onJob((job) => {
+    compressBuffered(job.data, job.method, job.compression).then(
+      (result) =>
+        port.reply({ id: job.id, ok: true, data: result.data, crc32: result.crc32 }, [result.data.buffer as ArrayBuffer]),
+      // The host retries failed jobs in-process so callers see the codec's own error.
+      () => port.reply({ id: job.id, ok: false }, [])
+    );
+  });
+});
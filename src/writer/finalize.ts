@@ -1,6 +1,6 @@
 import { encodeUtf8, writeUint16LE, writeUint32LE, writeUint64LE } from '../binary.js';
 import { throwIfAborted } from '../abort.js';
-import type { Sink } from './Sink.js';
+import { isSplitSink, writeRecord, type Sink } from './Sink.js';
 
 const ZIP64_EOCD_SIGNATURE = 0x06064b50;
 const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
@@ -14,59 +14,71 @@ export async function finalizeArchive(
     cdSize: bigint;
     forceZip64: boolean;
     hasZip64Entries: boolean;
+    /** Central directory records on the disk holding the last record; defaults to `entryCount`. */
+    lastDiskEntries?: bigint;
     comment?: string;
   },
   signal?: AbortSignal
 ): Promise<void> {
+  const split = isSplitSink(sink) ? sink : undefined;
+  const cd = split ? split.locate(options.cdOffset) : { disk: 0, offset: options.cdOffset };
   const needsZip64 =
     options.forceZip64 ||
     options.hasZip64Entries ||
     options.entryCount > 0xffffn ||
-    options.cdOffset > 0xffffffffn ||
+    cd.offset > 0xffffffffn ||
     options.cdSize > 0xffffffffn;
 
+  throwIfAborted(signal);
+  const commentBytes = options.comment ? encodeUtf8(options.comment) : new Uint8Array(0);
+  const trailerBytes = (needsZip64 ? 56 + 20 : 0) + 22 + commentBytes.length;
+  // The ZIP64 records and EOCD stay together on the final segment of a split archive.
+  if (split) await split.reserve(trailerBytes);
+  const disk = split ? split.disk : 0;
+  const cdEndDisk =
+    split && options.cdSize > 0n ? split.locate(options.cdOffset + options.cdSize - 1n).disk : cd.disk;
+  const entriesOnDisk = disk === cdEndDisk ? (options.lastDiskEntries ?? options.entryCount) : 0n;
+  const trailer = new Uint8Array(trailerBytes);
+  let eocdStart = 0;
+
   if (needsZip64) {
-    throwIfAborted(signal);
-    const zip64Offset = sink.position;
-    const record = new Uint8Array(56);
+    const zip64Offset = split ? split.locate(sink.position).offset : sink.position;
+    const record = trailer.subarray(0, 56);
     writeUint32LE(record, 0, ZIP64_EOCD_SIGNATURE);
     writeUint64LE(record, 4, 44n); // size of remaining record
     writeUint16LE(record, 12, 45); // version made by
     writeUint16LE(record, 14, 45); // version needed
-    writeUint32LE(record, 16, 0);
-    writeUint32LE(record, 20, 0);
-    writeUint64LE(record, 24, options.entryCount);
+    writeUint32LE(record, 16, disk);
+    writeUint32LE(record, 20, cd.disk);
+    writeUint64LE(record, 24, entriesOnDisk);
     writeUint64LE(record, 32, options.entryCount);
     writeUint64LE(record, 40, options.cdSize);
-    writeUint64LE(record, 48, options.cdOffset);
-    await sink.write(record);
+    writeUint64LE(record, 48, cd.offset);
 
-    const locator = new Uint8Array(20);
+    const locator = trailer.subarray(56, 76);
     writeUint32LE(locator, 0, ZIP64_LOCATOR_SIGNATURE);
-    writeUint32LE(locator, 4, 0);
+    writeUint32LE(locator, 4, disk);
     writeUint64LE(locator, 8, zip64Offset);
-    writeUint32LE(locator, 16, 1);
-    await sink.write(locator);
+    writeUint32LE(locator, 16, disk + 1);
+    eocdStart = 76;
   }
 
-  throwIfAborted(signal);
-  const commentBytes = options.comment ? encodeUtf8(options.comment) : new Uint8Array(0);
-  const eocd = new Uint8Array(22 + commentBytes.length);
+  const eocd = trailer.subarray(eocdStart);
   writeUint32LE(eocd, 0, EOCD_SIGNATURE);
-  writeUint16LE(eocd, 4, 0);
-  writeUint16LE(eocd, 6, 0);
+  writeUint16LE(eocd, 4, disk);
+  writeUint16LE(eocd, 6, cd.disk);
   if (needsZip64) {
     writeUint16LE(eocd, 8, 0xffff);
     writeUint16LE(eocd, 10, 0xffff);
     writeUint32LE(eocd, 12, 0xffffffff);
     writeUint32LE(eocd, 16, 0xffffffff);
   } else {
-    writeUint16LE(eocd, 8, Number(options.entryCount));
+    writeUint16LE(eocd, 8, Number(entriesOnDisk));
     writeUint16LE(eocd, 10, Number(options.entryCount));
     writeUint32LE(eocd, 12, Number(options.cdSize));
-    writeUint32LE(eocd, 16, Number(options.cdOffset));
+    writeUint32LE(eocd, 16, Number(cd.offset));
   }
   writeUint16LE(eocd, 20, commentBytes.length);
   eocd.set(commentBytes, 22);
-  await sink.write(eocd);
+  await writeRecord(sink, trailer);
 }
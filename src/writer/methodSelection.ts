@@ -0,0 +1,92 @@
+import { throwIfAborted } from '../abort.js';
+import { detectFormat } from '../archive/detect.js';
+import { replayThenRead } from '../streams/replay.js';
+import type { ZipMethodSelection } from '../types.js';
+
+const STORE_METHOD = 0;
+const DEFLATE_METHOD = 8;
+const MAX_SAMPLE_BYTES = 64 * 1024;
+// Deflate rarely gains anything once a sample exceeds ~7.5 bits of entropy per byte.
+const STORE_ENTROPY_BITS = 7.5;
+
+export type MethodSelectionResult = {
+  /** Source stream with the sampled chunk put back in front. */
+  stream: ReadableStream<Uint8Array>;
+  method: number;
+  selection: Omit<ZipMethodSelection, 'entryName'>;
+};
+
+/**
+ * Choose between STORE and deflate for `defaultMethod: 'auto'` by sampling the first chunk.
+ *
+ * Archive and compressed-stream signatures (shared with `openArchive` detection) and common
+ * compressed media signatures select STORE, as does a sample whose byte entropy is too high.
+ */
+export async function selectEntryMethod(
+  source: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): Promise<MethodSelectionResult> {
+  throwIfAborted(signal);
+  const reader = source.getReader();
+  let first: Uint8Array | undefined;
+  while (!first) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    if (value.length > 0) first = value;
+  }
+  const stream = replayThenRead(first ? [first] : [], reader);
+  if (!first) {
+    return { stream, method: STORE_METHOD, selection: { method: STORE_METHOD, reason: 'empty' } };
+  }
+  const sample = first.subarray(0, MAX_SAMPLE_BYTES);
+  const signature = sniffCompressedSignature(sample);
+  if (signature) {
+    return { stream, method: STORE_METHOD, selection: { method: STORE_METHOD, reason: 'signature', signature } };
+  }
+  const entropy = Math.round(byteEntropy(sample) * 1000) / 1000;
+  const method = entropy >= STORE_ENTROPY_BITS ? STORE_METHOD : DEFLATE_METHOD;
+  return {
+    stream,
+    method,
+    selection: { method, reason: method === STORE_METHOD ? 'entropy' : 'compressible', entropy }
+  };
+}
+
+function sniffCompressedSignature(sample: Uint8Array): string | undefined {
+  const format = detectFormat(sample);
+  // A TAR header is plain metadata; everything else detectFormat knows is already compressed.
+  if (format && format !== 'tar') return format;
+  if (matchesAt(sample, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (matchesAt(sample, 0, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (matchesAt(sample, 0, [0x47, 0x49, 0x46, 0x38])) return 'gif';
+  if (matchesAt(sample, 0, [0x52, 0x49, 0x46, 0x46]) && matchesAt(sample, 8, [0x57, 0x45, 0x42, 0x50])) return 'webp';
+  if (matchesAt(sample, 4, [0x66, 0x74, 0x79, 0x70])) return 'mp4';
+  if (matchesAt(sample, 0, [0x4f, 0x67, 0x67, 0x53])) return 'ogg';
+  if (matchesAt(sample, 0, [0x66, 0x4c, 0x61, 0x43])) return 'flac';
+  if (matchesAt(sample, 0, [0x77, 0x4f, 0x46, 0x32])) return 'woff2';
+  if (matchesAt(sample, 0, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) return '7z';
+  if (matchesAt(sample, 0, [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07])) return 'rar';
+  return undefined;
+}
+
+function matchesAt(data: Uint8Array, offset: number, bytes: number[]): boolean {
+  if (data.length < offset + bytes.length) return false;
+  for (let i = 0; i < bytes.length; i += 1) {
+    if (data[offset + i] !== bytes[i]) return false;
+  }
+  return true;
+}
+
+/** Shannon entropy of the byte histogram, in bits per byte. */
+function byteEntropy(sample: Uint8Array): number {
+  const counts = new Uint32Array(256);
+  for (let i = 0; i < sample.length; i += 1) counts[sample[i]!]! += 1;
+  let entropy = 0;
+  for (let i = 0; i < counts.length; i += 1) {
+    const count = counts[i]!;
+    if (count === 0) continue;
+    const p = count / sample.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
@@ -0,0 +1,81 @@
+import { ZipError } from '../errors.js';
+import { buildExtraFields, parseExtraFields } from '../extraFields.js';
+import type { ZipEntry, ZipWriterRawOptions } from '../types.js';
+
+const ZIP64_EXTRA_ID = 0x0001;
+const EXTENDED_TIMESTAMP_EXTRA_ID = 0x5455;
+const AES_EXTRA_ID = 0x9901;
+
+// Entries returned by ZipReader also carry their parsed extra fields and external attributes.
+type SourceEntry = ZipEntry & { extra?: Map<number, Uint8Array>; externalAttributes?: number; modTime?: number };
+
+export type ResolvedRawEntry = {
+  name: string;
+  method: number;
+  flags: number;
+  crc32: number;
+  compressedSize: bigint;
+  uncompressedSize: bigint;
+  mtime: Date;
+  /** DOS time word to write in place of the one derived from `mtime`. */
+  dosTime?: number;
+  comment?: string | undefined;
+  externalAttributes: number;
+  aesExtra?: Uint8Array;
+  extra?: Uint8Array;
+};
+
+/**
+ * Merge `addRaw()` options over the source entry and check that the header fields are complete.
+ *
+ * The AES field (0x9901) is split out so it is placed like the writer's own AES entries.
+ * ZipCrypto entries keep their data descriptor flag and DOS time: the password check byte
+ * inside their encryption header was taken from that time rather than from the CRC.
+ */
+export function resolveRawEntry(entry: string | ZipEntry, options?: ZipWriterRawOptions): ResolvedRawEntry {
+  const source = typeof entry === 'string' ? undefined : (entry as SourceEntry);
+  const name = options?.name ?? (typeof entry === 'string' ? entry : entry.name);
+  if (name.includes('\u0000')) {
+    throw new ZipError('ZIP_UNSUPPORTED_FEATURE', 'Entry names must not contain NUL');
+  }
+  const method = options?.method ?? source?.method;
+  const crc32 = options?.crc32 ?? source?.crc32;
+  const compressedSize = options?.compressedSize ?? source?.compressedSize;
+  const uncompressedSize = options?.uncompressedSize ?? source?.uncompressedSize;
+  if (method === undefined || crc32 === undefined || compressedSize === undefined || uncompressedSize === undefined) {
+    throw new ZipError(
+      'ZIP_UNSUPPORTED_FEATURE',
+      'Raw entries need method, crc32, compressedSize and uncompressedSize',
+      { entryName: name }
+    );
+  }
+
+  const fields = options?.extra ? parseExtraFields(options.extra) : new Map(source?.extra ?? []);
+  fields.delete(ZIP64_EXTRA_ID);
+  fields.delete(EXTENDED_TIMESTAMP_EXTRA_ID);
+  const aes = fields.get(AES_EXTRA_ID);
+  fields.delete(AES_EXTRA_ID);
+  const encrypted = source?.encrypted ?? false;
+  const sourceFlags = options?.flags ?? source?.flags ?? (encrypted ? 0x01 : 0);
+  const zipCryptoDescriptor = (sourceFlags & 0x09) === 0x09 && !aes;
+  const flags = (zipCryptoDescriptor ? sourceFlags : sourceFlags & ~0x08) | 0x800;
+  const dosTime = zipCryptoDescriptor ? source?.modTime : undefined;
+  const comment = options?.comment ?? source?.comment;
+  const externalAttributes =
+    options?.externalAttributes ?? source?.externalAttributes ?? (name.endsWith('/') ? 0x10 : 0);
+
+  return {
+    name,
+    method,
+    flags,
+    crc32,
+    compressedSize,
+    uncompressedSize,
+    mtime: options?.mtime ?? source?.mtime ?? new Date(),
+    ...(dosTime !== undefined ? { dosTime } : {}),
+    externalAttributes,
+    ...(comment !== undefined ? { comment } : {}),
+    ...(aes ? { aesExtra: buildExtraFields(new Map([[AES_EXTRA_ID, aes]])) } : {}),
+    ...(fields.size > 0 ? { extra: buildExtraFields(fields) } : {})
+  };
+}
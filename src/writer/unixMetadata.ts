@@ -0,0 +1,72 @@
+import { encodeUtf8 } from '../binary.js';
+import { ZipError } from '../errors.js';
+import { buildInfoZipUnixExtra } from '../extraFields.js';
+import type { ZipWriterAddOptions } from '../types.js';
+
+const S_IFREG = 0o100000;
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+const DOS_DIRECTORY = 0x10;
+
+export type UnixEntryMetadata = {
+  /** Entry name, with a trailing `/` for directories. */
+  name: string;
+  isSymlink: boolean;
+  externalAttributes: number | undefined;
+  /** Info-ZIP 0x7875 field when `uid` and `gid` are set. */
+  extra?: Uint8Array;
+  /** Symlink target bytes written in place of the caller's source. */
+  symlinkData?: Uint8Array;
+};
+
+/**
+ * Resolve the `mode`, `uid`, `gid`, `type` and `symlinkTarget` options of `ZipWriter.add()`.
+ *
+ * The file type and permission bits go in the high half of the external attributes, which readers
+ * only honour for the Unix host byte the central directory writer emits.
+ */
+export function resolveUnixMetadata(name: string, options?: ZipWriterAddOptions): UnixEntryMetadata {
+  const symlinkTarget = options?.symlinkTarget;
+  const type = options?.type ?? (symlinkTarget !== undefined ? 'symlink' : undefined);
+  if (symlinkTarget !== undefined && type !== 'symlink') {
+    throw new ZipError('ZIP_UNSUPPORTED_FEATURE', 'symlinkTarget requires type "symlink"', { entryName: name });
+  }
+  if (type === 'symlink' && name.endsWith('/')) {
+    throw new ZipError('ZIP_UNSUPPORTED_FEATURE', 'Symlink entry names must not end with "/"', { entryName: name });
+  }
+  const entryName = type === 'directory' && !name.endsWith('/') ? `${name}/` : name;
+  const mode = options?.mode;
+  if (mode !== undefined && (!Number.isInteger(mode) || mode < 0 || mode > 0o7777)) {
+    throw new RangeError(`ZIP entry mode must be an integer between 0 and 0o7777 (got ${String(mode)})`);
+  }
+  const uid = checkId('uid', options?.uid);
+  const gid = checkId('gid', options?.gid);
+  // 0x7875 always stores both ids; filling in the missing one would silently claim root.
+  if ((uid === undefined) !== (gid === undefined)) {
+    throw new ZipError('ZIP_UNSUPPORTED_FEATURE', 'uid and gid must be set together', { entryName: name });
+  }
+
+  let externalAttributes = options?.externalAttributes;
+  if (mode !== undefined || type !== undefined) {
+    const isDirectory = entryName.endsWith('/');
+    const fileType = type === 'symlink' ? S_IFLNK : isDirectory ? S_IFDIR : S_IFREG;
+    const permissions = mode ?? (type === 'symlink' ? 0o777 : isDirectory ? 0o755 : 0o644);
+    const dosBits = ((externalAttributes ?? 0) & 0xffff) | (isDirectory ? DOS_DIRECTORY : 0);
+    externalAttributes = (((fileType | permissions) << 16) | dosBits) >>> 0;
+  }
+
+  return {
+    name: entryName,
+    isSymlink: type === 'symlink',
+    externalAttributes,
+    ...(uid !== undefined && gid !== undefined ? { extra: buildInfoZipUnixExtra({ uid, gid }) } : {}),
+    ...(symlinkTarget !== undefined ? { symlinkData: encodeUtf8(symlinkTarget) } : {})
+  };
+}
+
+function checkId(label: 'uid' | 'gid', value: number | undefined): number | undefined {
+  if (value !== undefined && (!Number.isInteger(value) || value < 0 || value > 0xffffffff)) {
+    throw new RangeError(`ZIP entry ${label} must be an integer between 0 and 0xffffffff (got ${String(value)})`);
+  }
+  return value;
+}
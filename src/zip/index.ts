@@ -17,19 +17,27 @@ export type {
   ZipNormalizeReport,
   ZipEncryption,
   ZipEntry,
+  ZipExtraField,
+  ZipExtraFieldDecoded,
   ZipExtractOptions,
+  ZipExtractPreserveOptions,
   ZipIssue,
   ZipIssueSeverity,
   ZipLimits,
+  ZipMethodSelection,
+  ZipMethodSelectionReason,
   ZipProfile,
   ZipProgressEvent,
   ZipProgressOptions,
   ZipReaderIterOptions,
   ZipReaderOpenOptions,
   ZipReaderOptions,
+  ZipSplitOptions,
   ZipWarning,
   ZipWriterAddOptions,
   ZipWriterCloseOptions,
+  ZipWriterRawOptions,
+  ZipWriterSummary,
   Zip64Mode,
   ZipWriterOptions
 } from '../types.js';
@@ -38,8 +46,10 @@ export type {
 export { registerCompressionCodec, listCompressionCodecs } from '../compression/registry.js';
 /** Compression codec and stream contract types for ZIP. */
 export type {
+  ZipCodecOptions,
   ZipCompressionCodec,
   ZipCompressionStream,
   ZipCompressionOptions,
-  ZipDecompressionOptions
+  ZipDecompressionOptions,
+  ZipDeflateStrategy
 } from '../compression/types.js';
@@ -3,7 +3,7 @@ import assert from 'node:assert/strict';
 import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import path from 'node:path';
-import { ArchiveError, createArchiveWriter, openArchive } from '@ismail-elkorchi/bytefold';
+import { ArchiveError, createArchiveWriter, openArchive, type ArchiveFormat } from '@ismail-elkorchi/bytefold';
 import { getCompressionCapabilities } from '@ismail-elkorchi/bytefold/compress';
 import { validateSchema, type JsonSchema } from './schema-validator.js';
 
@@ -119,7 +119,7 @@ test('unsupported writer formats throw typed errors', async () => {
     await readFile(new URL('../schemas/error.schema.json', import.meta.url), 'utf8')
   ) as unknown) as JsonSchema;
 
-  const formats: Array<'bz2' | 'tar.bz2' | 'xz' | 'tar.xz'> = ['bz2', 'tar.bz2', 'xz', 'tar.xz'];
+  const formats = ['rar', '7z'] as unknown as ArchiveFormat[];
   for (const format of formats) {
     let error: unknown;
     try {
@@ -136,8 +136,55 @@ test('unsupported writer formats throw typed errors', async () => {
     assert.ok(json.context);
   }
 });
+test('createArchiveWriter supports tar.xz', async () => {
+  const bytes = await writeArchive('tar.xz', [
+    { name: 'hello.txt', data: encoder.encode('hello tar.xz') },
+    { name: 'bin.dat', data: new Uint8Array([1, 1, 2, 3, 5, 8]) }
+  ]);
+  const reader = await openArchive(bytes);
+  assert.equal(reader.format, 'tar.xz');
+  const entries = await collectEntries(reader);
+  assert.deepEqual(Object.keys(entries).sort(), ['bin.dat', 'hello.txt']);
+  assert.equal(decoder.decode(entries['hello.txt']!), 'hello tar.xz');
+  assert.deepEqual(Array.from(entries['bin.dat']!), [1, 1, 2, 3, 5, 8]);
+  const report = await reader.audit({ profile: 'agent' });
+  assert.equal(report.ok, true);
+});
+
+test('createArchiveWriter supports tar.bz2', async () => {
+  const bytes = await writeArchive('tar.bz2', [
+    { name: 'hello.txt', data: encoder.encode('hello tar.bz2') },
+    { name: 'bin.dat', data: new Uint8Array([2, 7, 1, 8, 2, 8]) }
+  ]);
+  const reader = await openArchive(bytes);
+  assert.equal(reader.format, 'tar.bz2');
+  const entries = await collectEntries(reader);
+  assert.deepEqual(Object.keys(entries).sort(), ['bin.dat', 'hello.txt']);
+  assert.equal(decoder.decode(entries['hello.txt']!), 'hello tar.bz2');
+  assert.deepEqual(Array.from(entries['bin.dat']!), [2, 7, 1, 8, 2, 8]);
+  const report = await reader.audit({ profile: 'agent' });
+  assert.equal(report.ok, true);
+});
+
+test('createArchiveWriter supports bz2 single-file', async () => {
+  const bytes = await writeArchive('bz2', [{ name: 'ignored.txt', data: encoder.encode('hello bz2') }]);
+  const reader = await openArchive(bytes, { filename: 'hello.txt.bz2' });
+  assert.equal(reader.format, 'bz2');
+  const entries = await collectEntries(reader);
+  assert.deepEqual(Object.keys(entries), ['hello.txt']);
+  assert.equal(decoder.decode(entries['hello.txt']!), 'hello bz2');
+});
+
+test('createArchiveWriter supports xz single-file', async () => {
+  const bytes = await writeArchive('xz', [{ name: 'ignored.txt', data: encoder.encode('hello xz') }]);
+  const reader = await openArchive(bytes, { filename: 'hello.txt.xz' });
+  assert.equal(reader.format, 'xz');
+  const entries = await collectEntries(reader);
+  assert.deepEqual(Object.keys(entries), ['hello.txt']);
+  assert.equal(decoder.decode(entries['hello.txt']!), 'hello xz');
+});
 
-type WriterFormat = 'tgz' | 'tar.gz' | 'gz' | 'br' | 'zst';
+type WriterFormat = 'tgz' | 'tar.gz' | 'gz' | 'br' | 'zst' | 'bz2' | 'tar.bz2' | 'xz' | 'tar.xz';
 
 async function writeArchive(
   format: WriterFormat,
@@ -1,7 +1,7 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
 import { readFile } from 'node:fs/promises';
-import { ArchiveError, createArchiveWriter, openArchive, type ArchiveOpenOptions } from '@ismail-elkorchi/bytefold';
+import { createArchiveWriter, openArchive, type ArchiveOpenOptions } from '@ismail-elkorchi/bytefold';
 import { validateSchema, type JsonSchema } from './schema-validator.js';
 
 const encoder = new TextEncoder();
@@ -80,8 +80,8 @@ test('audit + normalize roundtrip for compressed tar formats', async () => {
   }
 });
 
-test('single-file formats audit and normalize unsupported', async () => {
-  const errorSchema = (await loadSchema('error.schema.json')) as JsonSchema;
+test('single-file formats audit and normalize to canonical streams', async () => {
+  const reportSchema = (await loadSchema('normalize-report.schema.json')) as JsonSchema;
   const expectedHello = new TextDecoder().decode(await readFile(new URL('../test/fixtures/expected/hello.txt', import.meta.url)));
   const cases: Array<{ name: string; bytes: Uint8Array; options?: ArchiveOpenOptions; expected: string }> = [
     { name: 'gz', bytes: await readFixture('hello.txt.gz'), options: { filename: 'hello.txt.gz' }, expected: expectedHello },
@@ -106,7 +106,14 @@ test('single-file formats audit and normalize unsupported', async () => {
     const text = new TextDecoder().decode(values[0]!);
     assert.equal(text, entry.expected);
 
-    await assertNormalizeUnsupported(reader, errorSchema);
+    const first = await normalizeArchive(reader);
+    assert.equal(first.report.ok, true, `${entry.name} normalize failed`);
+    const validation = validateSchema(reportSchema, JSON.parse(JSON.stringify(first.report)) as unknown);
+    assert.ok(validation.ok, validation.errors.join('\n'));
+    const reopened = await openArchive(first.bytes, { format: reader.format });
+    assert.equal(new TextDecoder().decode(Object.values(await collectEntries(reopened))[0]!), entry.expected);
+    const second = await normalizeArchive(reopened);
+    assert.deepEqual(second.bytes, first.bytes, `${entry.name} normalize is not idempotent`);
   }
 });
 
@@ -233,24 +240,3 @@ async function loadSchema(name: string): Promise<unknown> {
   const text = await readFile(new URL(`../schemas/${name}`, import.meta.url), 'utf8');
   return JSON.parse(text) as unknown;
 }
-
-async function assertNormalizeUnsupported(
-  reader: { normalizeToWritable?: (writable: WritableStream<Uint8Array>) => Promise<unknown> },
-  schema: JsonSchema
-): Promise<void> {
-  const normalizeToWritable = reader.normalizeToWritable?.bind(reader);
-  assert.ok(normalizeToWritable);
-  let error: unknown;
-  try {
-    await normalizeToWritable!(new WritableStream<Uint8Array>({ write() {} }));
-  } catch (err) {
-    error = err;
-  }
-  assert.ok(error instanceof ArchiveError);
-  assert.equal(error.code, 'ARCHIVE_UNSUPPORTED_FEATURE');
-  const json = error.toJSON();
-  const result = validateSchema(schema, json);
-  assert.equal(result.ok, true);
-  assert.ok(json.hint);
-  assert.ok(json.context);
-}
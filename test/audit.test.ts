@@ -1,6 +1,7 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
-import { ZipReader, ZipWriter, ZipError } from '@ismail-elkorchi/bytefold/node/zip';
+import * as zlib from 'node:zlib';
+import { ZipReader, ZipWriter, ZipError, type ZipEntry } from '@ismail-elkorchi/bytefold/node/zip';
 
 async function writeZip(
   entries: Array<{ name: string; data: Uint8Array; method?: 0 | 8 | 93; externalAttributes?: number }>
@@ -86,6 +87,80 @@ test('audit reports local/central header mismatch', async () => {
   await reader2.close();
 });
 
+test('extraFields decodes local and central fields and audit flags extra field anomalies', async () => {
+  const data = new TextEncoder().encode('classes');
+  const mtime = new Date('2024-01-02T03:04:05Z');
+  // JAR marker, Android alignment (4, two padding bytes), Info-ZIP Unix owner 1000:1000.
+  const extra = Uint8Array.from([
+    0xfe, 0xca, 0, 0, 0x35, 0xd9, 4, 0, 4, 0, 0, 0, 0x75, 0x78, 11, 0, 1, 4, 0xe8, 3, 0, 0, 4, 0xe8, 3, 0, 0
+  ]);
+  const chunks: Uint8Array[] = [];
+  const writer = ZipWriter.toWritable(
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(new Uint8Array(chunk));
+      }
+    })
+  );
+  await writer.addRaw('classes.dex', data, {
+    method: 0,
+    crc32: zlib.crc32(data),
+    compressedSize: BigInt(data.length),
+    uncompressedSize: BigInt(data.length),
+    mtime,
+    extra
+  });
+  await writer.close();
+  const zip = concat(chunks);
+
+  const reader = await ZipReader.fromUint8Array(zip);
+  const entry = reader.entries()[0]!;
+  const central = [
+    [0xcafe, { type: 'jar-marker' }],
+    [0xd935, { type: 'android-alignment', alignment: 4, padding: 2 }],
+    [0x7875, { type: 'unix-owner', uid: 1000, gid: 1000 }],
+    [0x5455, { type: 'extended-timestamp', mtime }]
+  ] as const;
+  const describe = (target: ZipEntry) => target.extraFields.map((field) => [field.source, field.id, field.decoded]);
+  const centralOnly = central.map(([id, decoded]) => ['central', id, decoded]);
+  assert.deepEqual(describe(entry), centralOnly);
+  await (await reader.openRaw(entry)).cancel();
+  assert.deepEqual(describe(entry), centralOnly);
+  const withLocal = [...central.map(([id, decoded]) => ['local', id, decoded]), ...centralOnly];
+  assert.deepEqual(describe(reader.entries()[0]!), withLocal);
+  assert.deepEqual(describe(reader.entries()[0]!), withLocal);
+  assert.ok(!(await reader.audit()).issues.some((issue) => issue.code.startsWith('ZIP_EXTRA_FIELD')));
+  await reader.close();
+
+  const mutated = zip.slice();
+  const [localOwner, centralOwner] = findAll(mutated, [0x75, 0x78, 11, 0]);
+  const [localTimestamp] = findAll(mutated, [0x55, 0x54, 5, 0]);
+  mutated[localOwner! + 6] = 0xe9;
+  mutated.set([0x75, 0x78], centralOwner! - 12);
+  mutated[localTimestamp! + 2] = 9;
+  const mutatedReader = await ZipReader.fromUint8Array(mutated, { profile: 'compat' });
+  const issues = (await mutatedReader.audit({ profile: 'compat' })).issues.filter((issue) =>
+    issue.code.startsWith('ZIP_EXTRA_FIELD')
+  );
+  assert.deepEqual(
+    issues.map((issue) => [issue.code, issue.details]),
+    [
+      ['ZIP_EXTRA_FIELD_MALFORMED', { source: 'local', offset: 27, bytes: 9 }],
+      ['ZIP_EXTRA_FIELD_DUPLICATE', { source: 'central', ids: [0x7875] }],
+      ['ZIP_EXTRA_FIELD_MISMATCH', { localOnly: [], centralOnly: [0x5455], differing: [0x7875] }]
+    ]
+  );
+  await mutatedReader.close();
+});
+
+function findAll(buffer: Uint8Array, needle: number[]): number[] {
+  const found: number[] = [];
+  for (let i = 0; i <= buffer.length - needle.length; i += 1) {
+    if (needle.every((byte, j) => buffer[i + j] === byte)) found.push(i);
+  }
+  return found;
+}
+
 test('assertSafe treats warnings as errors in agent profile', async () => {
   const data = new TextEncoder().encode('data');
   const zip = await writeZip([
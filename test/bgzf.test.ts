@@ -0,0 +1,226 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { deflateRawSync, gunzipSync } from 'node:zlib';
+import {
+  BgzfReader,
+  CompressionError,
+  createCompressor,
+  parseGziIndex,
+  type BgzfIndexEntry
+} from '@ismail-elkorchi/bytefold';
+
+const EOF_BLOCK = Buffer.from('1f8b08040000000000ff0600424302001b0003000000000000000000', 'hex');
+
+const BLOCKS = ['chr1\t100\tA\n'.repeat(40), 'chr1\t200\tC\n'.repeat(25), 'chr2\t300\tG\n'.repeat(60)];
+const TEXT = BLOCKS.join('');
+
+test('BgzfReader reads blocks, virtual offsets and uncompressed offsets', async () => {
+  const { bytes, offsets } = buildBgzf(BLOCKS);
+  const reader = await BgzfReader.fromUint8Array(bytes);
+
+  const first = await reader.readBlock(0n);
+  assert.equal(first.compressedSize, offsets[1]);
+  assert.equal(decode(first.data), BLOCKS[0]);
+
+  // Starts five bytes into the second block and runs into the third.
+  const virtualOffset = (BigInt(offsets[1]!) << 16n) | 5n;
+  const start = BLOCKS[0]!.length + 5;
+  const length = BLOCKS[1]!.length + 10;
+  assert.equal(decode(await reader.read(virtualOffset, length)), TEXT.slice(start, start + length));
+  assert.equal(decode(await reader.read(BigInt(offsets[2]!) << 16n, 1_000_000)), BLOCKS[2]);
+
+  const scanned = decode(await reader.readAt(BigInt(start), length));
+  assert.equal(scanned, TEXT.slice(start, start + length));
+  assert.equal(decode(await reader.readAt(BigInt(TEXT.length - 4), 100)), TEXT.slice(-4));
+  assert.equal((await reader.readAt(BigInt(TEXT.length), 10)).length, 0);
+  assert.equal(await reader.hasEofMarker(), true);
+
+  await assert.rejects(reader.read((BigInt(offsets[1]!) << 16n) | 0xfff0n, 1), RangeError);
+  await reader.close();
+
+  const truncated = await BgzfReader.fromUint8Array(bytes.subarray(0, bytes.length - EOF_BLOCK.length));
+  assert.equal(await truncated.hasEofMarker(), false);
+});
+
+test('parseGziIndex drives readAt and rejects malformed indexes', async () => {
+  const { bytes, offsets } = buildBgzf(BLOCKS);
+  const gzi = buildGzi([
+    { compressedOffset: BigInt(offsets[1]!), uncompressedOffset: BigInt(BLOCKS[0]!.length) },
+    { compressedOffset: BigInt(offsets[2]!), uncompressedOffset: BigInt(BLOCKS[0]!.length + BLOCKS[1]!.length) }
+  ]);
+  const index = parseGziIndex(gzi);
+  assert.deepEqual(index[0], { compressedOffset: 0n, uncompressedOffset: 0n });
+  assert.equal(index.length, 3);
+
+  const reader = await BgzfReader.fromUint8Array(bytes, { index });
+  for (const [start, length] of [
+    [0, 10],
+    [BLOCKS[0]!.length - 3, 6],
+    [TEXT.length - 20, 20]
+  ] as const) {
+    assert.equal(decode(await reader.readAt(BigInt(start), length)), TEXT.slice(start, start + length));
+  }
+
+  assert.throws(
+    () => parseGziIndex(gzi.subarray(0, gzi.length - 1)),
+    (err: unknown) => err instanceof CompressionError && err.code === 'COMPRESSION_BGZF_BAD_INDEX'
+  );
+  const decreasing = buildGzi([
+    { compressedOffset: 500n, uncompressedOffset: 500n },
+    { compressedOffset: 400n, uncompressedOffset: 900n }
+  ]);
+  assert.throws(
+    () => parseGziIndex(decreasing),
+    (err: unknown) => err instanceof CompressionError && err.code === 'COMPRESSION_BGZF_BAD_INDEX'
+  );
+});
+
+test('BgzfReader rejects plain gzip and corrupt blocks', async () => {
+  const plain = new Uint8Array(await readFile(new URL('../test/fixtures/hello.txt.gz', import.meta.url)));
+  await assert.rejects(BgzfReader.fromUint8Array(plain), (err: unknown) => {
+    assert.ok(err instanceof CompressionError);
+    assert.equal(err.code, 'COMPRESSION_BGZF_BAD_BLOCK');
+    return true;
+  });
+
+  const { bytes, offsets } = buildBgzf(BLOCKS);
+  const corrupt = bytes.slice();
+  const crcOffset = offsets[1]! - 8;
+  corrupt[crcOffset] = corrupt[crcOffset]! ^ 0xff;
+  const reader = await BgzfReader.fromUint8Array(corrupt);
+  await assert.rejects(reader.readBlock(0n), (err: unknown) => {
+    assert.ok(err instanceof CompressionError);
+    assert.equal(err.code, 'COMPRESSION_BGZF_BAD_BLOCK');
+    assert.equal(err.context?.offset, '0');
+    return true;
+  });
+});
+
+test('createCompressor gzipFormat bgzf writes blocks that gzip and BgzfReader both read', async () => {
+  const input = new Uint8Array(150_000);
+  let seed = 7;
+  for (let i = 0; i < input.length; i += 1) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    input[i] = i % 3 === 0 ? seed >>> 24 : 0x41 + (i % 26);
+  }
+  const output = await compress(input, createCompressor({ algorithm: 'gzip', gzipFormat: 'bgzf' }));
+
+  assert.deepEqual(new Uint8Array(gunzipSync(output)), input);
+  assert.deepEqual(output.subarray(output.length - EOF_BLOCK.length), new Uint8Array(EOF_BLOCK));
+
+  const reader = await BgzfReader.fromUint8Array(output);
+  const sizes: number[] = [];
+  for (let offset = 0n; offset < BigInt(output.length); ) {
+    const block = await reader.readBlock(offset);
+    assert.ok(block.compressedSize <= 0x10000);
+    sizes.push(block.data.length);
+    offset += BigInt(block.compressedSize);
+  }
+  assert.deepEqual(sizes, [0xff00, 0xff00, input.length - 2 * 0xff00, 0]);
+  assert.deepEqual(await reader.readAt(70_000n, 100_000), input.subarray(70_000));
+});
+
+test('BgzfReader.fromUrl reads through HTTP range requests', async (t) => {
+  const { bytes, offsets } = buildBgzf(BLOCKS);
+  const ranges: string[] = [];
+  const server = http.createServer((req, res) => {
+    if (req.method === 'HEAD') {
+      res.setHeader('Content-Length', bytes.length);
+      res.end();
+      return;
+    }
+    const match = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range ?? '');
+    if (!match) {
+      res.statusCode = 416;
+      res.end();
+      return;
+    }
+    ranges.push(match[0]);
+    const start = Number(match[1]);
+    const end = Math.min(Number(match[2]), bytes.length - 1);
+    res.statusCode = 206;
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${bytes.length}`);
+    res.setHeader('Content-Length', end - start + 1);
+    res.end(bytes.subarray(start, end + 1));
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  t.after(() => server.close());
+  const address = server.address();
+  assert.ok(address && typeof address !== 'string');
+
+  const reader = await BgzfReader.fromUrl(`http://127.0.0.1:${address.port}/calls.vcf.gz`, {
+    http: { cache: { blockSize: 64, maxBlocks: 2 } }
+  });
+  const data = await reader.read((BigInt(offsets[2]!) << 16n) | 12n, 24);
+  assert.equal(decode(data), BLOCKS[2]!.slice(12, 36));
+  assert.ok(ranges.length > 0);
+  assert.ok(ranges.every((range) => range !== `bytes=0-${bytes.length - 1}`));
+  await reader.close();
+});
+
+/** Encode each string as one BGZF block with node:zlib, followed by the EOF block. */
+function buildBgzf(blocks: string[]): { bytes: Uint8Array; offsets: number[] } {
+  const parts: Buffer[] = [];
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const text of blocks) {
+    const data = Buffer.from(text);
+    const deflated = deflateRawSync(data);
+    const block = Buffer.alloc(18 + deflated.length + 8);
+    EOF_BLOCK.copy(block, 0, 0, 16);
+    block.writeUInt16LE(block.length - 1, 16);
+    deflated.copy(block, 18);
+    block.writeUInt32LE(crc32(data), block.length - 8);
+    block.writeUInt32LE(data.length, block.length - 4);
+    offsets.push(offset);
+    parts.push(block);
+    offset += block.length;
+  }
+  offsets.push(offset);
+  return { bytes: new Uint8Array(Buffer.concat([...parts, EOF_BLOCK])), offsets };
+}
+
+function buildGzi(entries: BgzfIndexEntry[]): Uint8Array {
+  const out = Buffer.alloc(8 + entries.length * 16);
+  out.writeBigUInt64LE(BigInt(entries.length), 0);
+  entries.forEach((entry, index) => {
+    out.writeBigUInt64LE(entry.compressedOffset, 8 + index * 16);
+    out.writeBigUInt64LE(entry.uncompressedOffset, 16 + index * 16);
+  });
+  return new Uint8Array(out);
+}
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit += 1) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function compress(input: Uint8Array, transform: TransformStream<Uint8Array, Uint8Array>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  const writer = transform.writable.getWriter();
+  const collecting = (async () => {
+    const reader = transform.readable.getReader();
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  })();
+  // Uneven chunks exercise block boundaries that do not line up with writes.
+  for (let offset = 0; offset < input.length; offset += 40_000) {
+    await writer.write(input.subarray(offset, offset + 40_000));
+  }
+  await writer.close();
+  await collecting;
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+function decode(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
@@ -212,6 +212,50 @@ test('browser web: writer roundtrip zip store-only and tar', async ({ page }) =>
   }
 });
 
+test('browser web: zip deflate entries record no level bits the CompressionStream backend ignored', async ({ page }) => {
+  const harness = await startBrowserHarness();
+  const helloBytes = await readHelloFixture();
+
+  try {
+    await page.goto(harness.baseUrl);
+    const result = await page.evaluate(
+      async ({ moduleUrl, helloBytesInput }) => {
+        const bytefold = await import(moduleUrl);
+        const chunks: Uint8Array[] = [];
+        const writable = new WritableStream<Uint8Array>({
+          write(chunk) {
+            chunks.push(chunk.slice());
+          }
+        });
+        const writer = bytefold.createArchiveWriter('zip', writable, { zip: { compression: { level: 9 } } });
+        await writer.add('hello.txt', new Uint8Array(helloBytesInput));
+        await writer.close();
+        const zipBytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+        let offset = 0;
+        for (const chunk of chunks) {
+          zipBytes.set(chunk, offset);
+          offset += chunk.length;
+        }
+        const archive = await bytefold.openArchive(zipBytes, { format: 'zip' });
+        const flags: number[] = [];
+        for await (const entry of archive.entries()) {
+          flags.push((entry.raw as { flags: number }).flags);
+        }
+        return { localFlags: zipBytes[6]!, centralFlags: flags };
+      },
+      {
+        moduleUrl: `${harness.baseUrl}${MODULE_PATH}`,
+        helloBytesInput: Array.from(helloBytes)
+      }
+    );
+
+    expect(result.localFlags & 0x06).toBe(0);
+    expect(result.centralFlags.map((flags) => flags & 0x06)).toEqual([0]);
+  } finally {
+    await harness.close();
+  }
+});
+
 test('browser web: runtime-backed hostile decompression ratios fail for supported algorithms', async ({ page }) => {
   const harness = await startBrowserHarness();
 
@@ -1153,7 +1153,7 @@ bunTest('bun smoke: zip, tar, tgz', async () => {
       const text = new TextDecoder().decode(data);
       if (text !== expectedHello) throw new Error('gz content mismatch');
     }
-    await assertSingleFileAuditNormalize(gzArchive, auditSchema, errorSchema, validateSchema);
+    await assertSingleFileAuditNormalize(gzArchive, auditSchema, validateSchema);
 
     const brPath = fileURLToPath(new URL('../test/fixtures/hello.txt.br', import.meta.url));
     const brBytes = new Uint8Array(await Bun.file(brPath).arrayBuffer());
@@ -1164,7 +1164,7 @@ bunTest('bun smoke: zip, tar, tgz', async () => {
       const text = new TextDecoder().decode(data);
       if (text !== expectedHello) throw new Error('br content mismatch');
     }
-    await assertSingleFileAuditNormalize(brArchive, auditSchema, errorSchema, validateSchema);
+    await assertSingleFileAuditNormalize(brArchive, auditSchema, validateSchema);
 
     const zstPath = fileURLToPath(new URL('../test/fixtures/hello.txt.zst', import.meta.url));
     const zstBytes = new Uint8Array(await Bun.file(zstPath).arrayBuffer());
@@ -1175,7 +1175,7 @@ bunTest('bun smoke: zip, tar, tgz', async () => {
       const text = new TextDecoder().decode(data);
       if (text !== expectedHello) throw new Error('zst content mismatch');
     }
-    await assertSingleFileAuditNormalize(zstArchive, auditSchema, errorSchema, validateSchema);
+    await assertSingleFileAuditNormalize(zstArchive, auditSchema, validateSchema);
 
     const bz2Path = fileURLToPath(new URL('../test/fixtures/hello.txt.bz2', import.meta.url));
     const bz2Bytes = new Uint8Array(await Bun.file(bz2Path).arrayBuffer());
@@ -1186,7 +1186,7 @@ bunTest('bun smoke: zip, tar, tgz', async () => {
       const text = new TextDecoder().decode(data);
       if (text !== 'hello bzip2\n') throw new Error('bz2 content mismatch');
     }
-    await assertSingleFileAuditNormalize(bz2Archive, auditSchema, errorSchema, validateSchema);
+    await assertSingleFileAuditNormalize(bz2Archive, auditSchema, validateSchema);
 
     const singleXzPath = fileURLToPath(new URL('../test/fixtures/hello.txt.xz', import.meta.url));
     const singleXzBytes = new Uint8Array(await Bun.file(singleXzPath).arrayBuffer());
@@ -1197,7 +1197,7 @@ bunTest('bun smoke: zip, tar, tgz', async () => {
       const text = new TextDecoder().decode(data);
       if (text !== 'hello from bytefold\n') throw new Error('xz single-file mismatch');
     }
-    await assertSingleFileAuditNormalize(singleXzArchive, auditSchema, errorSchema, validateSchema);
+    await assertSingleFileAuditNormalize(singleXzArchive, auditSchema, validateSchema);
 
     {
       let limitedError: unknown;
@@ -2563,7 +2563,6 @@ async function assertSingleFileAuditNormalize(
     normalizeToWritable?: (writable: WritableStream<Uint8Array>) => Promise<unknown>;
   },
   auditSchema: Record<string, unknown>,
-  errorSchema: Record<string, unknown>,
   validateSchema: (schema: Record<string, unknown>, value: unknown) => { ok: boolean; errors: string[] }
 ): Promise<void> {
   const audit = await reader.audit({ profile: 'agent' });
@@ -2576,23 +2575,16 @@ async function assertSingleFileAuditNormalize(
   }
   const normalizeToWritable = reader.normalizeToWritable?.bind(reader);
   if (!normalizeToWritable) throw new Error('normalizeToWritable missing');
-  let error: unknown;
-  try {
-    await normalizeToWritable(new WritableStream<Uint8Array>({ write() {} }));
-  } catch (err) {
-    error = err;
-  }
-  if (!(error instanceof ArchiveError) || error.code !== 'ARCHIVE_UNSUPPORTED_FEATURE') {
-    throw new Error('expected ARCHIVE_UNSUPPORTED_FEATURE for single-file normalize');
-  }
-  const json = error.toJSON();
-  const result = validateSchema(errorSchema, json);
-  if (!result.ok) {
-    throw new Error(`single-file normalize error schema validation failed: ${result.errors.join('\\n')}`);
-  }
-  if (!json.hint || !json.context || typeof json.context !== 'object') {
-    throw new Error('expected hint/context for single-file normalize');
-  }
+  const chunks: Uint8Array[] = [];
+  const report = await normalizeToWritable(
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(chunk);
+      }
+    })
+  );
+  if (!(report as { ok?: boolean }).ok) throw new Error('single-file normalize report not ok');
+  if (chunks.length === 0) throw new Error('single-file normalize wrote no output');
 }
 
 async function assertWriterRoundtrip(
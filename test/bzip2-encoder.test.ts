@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCompressor, createDecompressor } from '@ismail-elkorchi/bytefold/compress';
+
+const encoder = new TextEncoder();
+
+test('bzip2 compressor roundtrips empty, runs, periodic, and incompressible input', async () => {
+  const cases: Array<[string, Uint8Array]> = [
+    ['empty', new Uint8Array(0)],
+    ['single', new Uint8Array([0x41])],
+    ['long-run', new Uint8Array(70_000).fill(0x61)],
+    ['periodic', Uint8Array.from({ length: 40_000 }, (_, i) => (i % 2 === 0 ? 0x61 : 0x62))],
+    ['text', encoder.encode('bytefold bzip2 roundtrip. '.repeat(5000))],
+    ['random', pseudoRandomBytes(120_000, 0x5eed)]
+  ];
+  for (const [name, data] of cases) {
+    const compressed = await compress(data, {}, 997);
+    assert.deepEqual(compressed.subarray(0, 4), encoder.encode('BZh9'), name);
+    assert.deepEqual(await decompress(compressed), data, name);
+  }
+});
+
+test('bzip2 compressor honors block-size levels across multiple blocks', async () => {
+  const data = encoder.encode(
+    Array.from({ length: 30_000 }, (_, i) => `row ${i % 1013} value ${(i * 7919) % 100003}`).join('\n')
+  );
+  const small = await compress(data, { level: 1 }, 65_536);
+  assert.equal(small[3], 0x31);
+  assert.deepEqual(await decompress(small), data);
+  const large = await compress(data, { level: 9 });
+  assert.equal(large[3], 0x39);
+  assert.ok(large.length <= small.length);
+  assert.deepEqual(await decompress(large), data);
+});
+
+test('bzip2 compressor output is deterministic and independent of input chunking', async () => {
+  const data = encoder.encode(Array.from({ length: 4000 }, (_, i) => `entry-${i % 37}-${i}`).join(','));
+  const whole = await compress(data, { level: 3 });
+  const chunked = await compress(data, { level: 3 }, 5);
+  assert.deepEqual(chunked, whole);
+  assert.deepEqual(await compress(data, { level: 3 }), whole);
+});
+
+test('bzip2 compressor rejects block sizes outside 1-9', () => {
+  for (const level of [0, 2.5, 10]) {
+    assert.throws(() => createCompressor({ algorithm: 'bzip2', level }), {
+      name: 'RangeError',
+      message: `BZip2 block size must be an integer between 1 and 9 (got ${level})`
+    });
+  }
+});
+
+async function compress(data: Uint8Array, options: { level?: number }, chunkSize = 0): Promise<Uint8Array> {
+  const source = chunkedStream(data, chunkSize > 0 ? chunkSize : Math.max(1, data.length));
+  return collect(source.pipeThrough(createCompressor({ algorithm: 'bzip2', ...options })));
+}
+
+async function decompress(data: Uint8Array): Promise<Uint8Array> {
+  return collect(chunkedStream(data, Math.max(1, data.length)).pipeThrough(createDecompressor({ algorithm: 'bzip2' })));
+}
+
+function chunkedStream(data: Uint8Array, chunkSize: number): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let offset = 0; offset < data.length; offset += chunkSize) {
+        controller.enqueue(data.slice(offset, offset + chunkSize));
+      }
+      controller.close();
+    }
+  });
+}
+
+function pseudoRandomBytes(length: number, seed: number): Uint8Array {
+  const out = new Uint8Array(length);
+  let state = seed >>> 0;
+  for (let i = 0; i < length; i += 1) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    out[i] = state >>> 24;
+  }
+  return out;
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    if (!value) continue;
+    chunks.push(value);
+    total += value.length;
+  }
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
@@ -43,8 +43,8 @@ test('web capabilities probe constructor acceptance per algorithm and mode', ()
   assert.deepEqual(result.algorithms?.['deflate-raw'], { compress: false, decompress: false, backend: 'none' });
   assert.deepEqual(result.algorithms?.brotli, { compress: false, decompress: false, backend: 'none' });
   assert.deepEqual(result.algorithms?.zstd, { compress: false, decompress: true, backend: 'web' });
-  assert.deepEqual(result.algorithms?.bzip2, { compress: false, decompress: true, backend: 'pure-js' });
-  assert.deepEqual(result.algorithms?.xz, { compress: false, decompress: true, backend: 'pure-js' });
+  assert.deepEqual(result.algorithms?.bzip2, { compress: true, decompress: true, backend: 'pure-js' });
+  assert.deepEqual(result.algorithms?.xz, { compress: true, decompress: true, backend: 'pure-js' });
 });
 
 test('web capabilities note missing constructors and keep mode-specific support truthful', () => {
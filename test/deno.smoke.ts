@@ -1420,9 +1420,9 @@ Deno.test('deno smoke: zip, tar, tgz', async () => {
   const txzArchiveForNormalize = await openArchive(txzBytes);
   await assertAuditNormalizeRoundtrip(txzArchiveForNormalize, auditSchema, normalizeSchema, validateSchema);
 
-  await assertSingleFileAuditNormalize(gzArchive, auditSchema, errorSchema, validateSchema);
-  await assertSingleFileAuditNormalize(bz2Archive, auditSchema, errorSchema, validateSchema);
-  await assertSingleFileAuditNormalize(xzArchive, auditSchema, errorSchema, validateSchema);
+  await assertSingleFileAuditNormalize(gzArchive, auditSchema, validateSchema);
+  await assertSingleFileAuditNormalize(bz2Archive, auditSchema, validateSchema);
+  await assertSingleFileAuditNormalize(xzArchive, auditSchema, validateSchema);
 
   {
     const bytes = await Deno.readFile(new URL('../test/fixtures/hello.txt.bz2', import.meta.url));
@@ -2570,7 +2570,6 @@ async function assertSingleFileAuditNormalize(
     normalizeToWritable?: (writable: WritableStream<Uint8Array>) => Promise<unknown>;
   },
   auditSchema: JsonSchema,
-  errorSchema: JsonSchema,
   validateSchema: (schema: JsonSchema, value: unknown) => { ok: boolean; errors: string[] }
 ): Promise<void> {
   const audit = await reader.audit({ profile: 'agent' });
@@ -2580,23 +2579,16 @@ async function assertSingleFileAuditNormalize(
 
   const normalizeToWritable = reader.normalizeToWritable?.bind(reader);
   if (!normalizeToWritable) throw new Error('normalizeToWritable missing');
-  let error: unknown;
-  try {
-    await normalizeToWritable(new WritableStream<Uint8Array>({ write() {} }));
-  } catch (err) {
-    error = err;
-  }
-  if (!(error instanceof ArchiveError) || error.code !== 'ARCHIVE_UNSUPPORTED_FEATURE') {
-    throw new Error('expected ARCHIVE_UNSUPPORTED_FEATURE for single-file normalize');
-  }
-  const json = error.toJSON();
-  const result = validateSchema(errorSchema, json);
-  if (!result.ok) {
-    throw new Error(`single-file normalize error schema validation failed: ${result.errors.join('\\n')}`);
-  }
-  if (!json.hint || !json.context || typeof json.context !== 'object') {
-    throw new Error('expected hint/context for single-file normalize');
-  }
+  const chunks: Uint8Array[] = [];
+  const report = await normalizeToWritable(
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(chunk);
+      }
+    })
+  );
+  if (!(report as { ok?: boolean }).ok) throw new Error('single-file normalize report not ok');
+  if (chunks.length === 0) throw new Error('single-file normalize wrote no output');
 }
 
 async function assertUnsupportedFormat(
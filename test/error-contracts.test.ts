@@ -2,7 +2,7 @@ import { test } from 'node:test';
 import assert from 'node:assert/strict';
 import { readFile } from 'node:fs/promises';
 import { ArchiveError, createArchiveWriter, openArchive } from '@ismail-elkorchi/bytefold';
-import { CompressionError, createCompressor } from '@ismail-elkorchi/bytefold/compress';
+import { CompressionError, createCompressor, type CompressionAlgorithm } from '@ismail-elkorchi/bytefold/compress';
 import { ZipError, ZipReader } from '@ismail-elkorchi/bytefold/zip';
 import { extractAll } from '@ismail-elkorchi/bytefold/node';
 import { tmpdir } from 'node:os';
@@ -51,7 +51,7 @@ test('boundary failures throw typed errors with JSON contracts', async () => {
 
   assert.throws(
     () => {
-      createCompressor({ algorithm: 'xz' });
+      createCompressor({ algorithm: 'lz4' as CompressionAlgorithm });
     },
     (err: unknown) => {
       if (!(err instanceof CompressionError)) return false;
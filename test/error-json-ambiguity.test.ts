@@ -2,7 +2,7 @@ import test from 'node:test';
 import assert from 'node:assert/strict';
 import { readFile } from 'node:fs/promises';
 import { ArchiveError, createArchiveWriter, openArchive } from '@ismail-elkorchi/bytefold';
-import { CompressionError, createCompressor, createDecompressor } from '@ismail-elkorchi/bytefold/compress';
+import { CompressionError, createCompressor, createDecompressor, type CompressionAlgorithm } from '@ismail-elkorchi/bytefold/compress';
 import { ZipError } from '@ismail-elkorchi/bytefold/zip';
 import { validateSchema, type JsonSchema } from './schema-validator.js';
 
@@ -89,7 +89,7 @@ test('error JSON context avoids top-level shadow keys across subsystems', async
 
   let unsupportedError: unknown;
   try {
-    createCompressor({ algorithm: 'xz' });
+    createCompressor({ algorithm: 'lz4' as CompressionAlgorithm });
   } catch (err) {
     unsupportedError = err;
   }
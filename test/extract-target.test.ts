@@ -0,0 +1,242 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, readdir, rm, symlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  ArchiveError,
+  createArchiveWriter,
+  createMemoryTarget,
+  createNodeFsTarget,
+  extractAll,
+  extractArchive,
+  openArchive,
+  type ArchiveFormat,
+  type ExtractTarget
+} from '@ismail-elkorchi/bytefold/node';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+test('extractArchive writes into a memory target with the same report as the filesystem', async () => {
+  const archive = await buildArchive('tgz', async (writer) => {
+    await writer.add('docs/', undefined);
+    await writer.add('docs/readme.txt', encoder.encode('readme\n'));
+    await writer.add('docs/link', undefined, { type: 'symlink', linkName: 'readme.txt' });
+    await writer.add('pipe', undefined, { type: 'fifo' });
+  });
+  const target = createMemoryTarget();
+  const report = await extractArchive(await openArchive(archive), target, { shouldAllowSymlinks: true });
+
+  assert.equal(report.format, 'tgz');
+  assert.deepEqual(report.summary, {
+    entries: 4,
+    files: 1,
+    directories: 1,
+    symlinks: 1,
+    skipped: 1,
+    bytesWritten: 7
+  });
+  assert.deepEqual(
+    report.written.map((entry) => entry.path),
+    ['docs', 'docs/readme.txt', 'docs/link']
+  );
+  assert.deepEqual([...target.entries.keys()], ['docs', 'docs/readme.txt', 'docs/link']);
+  assert.equal(decoder.decode(target.entries.get('docs/readme.txt')?.data), 'readme\n');
+  assert.equal(target.entries.get('docs/link')?.linkTarget, 'readme.txt');
+
+  await withTempDir(async (dir) => {
+    const fsReport = await extractArchive(await openArchive(archive), createNodeFsTarget(dir), {
+      shouldAllowSymlinks: true
+    });
+    assert.deepEqual(fsReport.summary, report.summary);
+    assert.deepEqual(fsReport.skipped, report.skipped);
+    assert.equal(fsReport.written[1]!.path, path.join(dir, 'docs', 'readme.txt'));
+  });
+});
+
+test('extractArchive applies containment and collision checks to every target', async () => {
+  const throughLink = await buildArchive('tar', async (writer) => {
+    await writer.add('inside/', undefined);
+    await writer.add('jump', undefined, { type: 'symlink', linkName: 'inside' });
+    await writer.add('jump/file.txt', encoder.encode('data'));
+  });
+  const escaping = await buildArchive('tar', async (writer) => {
+    await writer.add('a/b/out', undefined, { type: 'symlink', linkName: '../../../outside' });
+  });
+  const isTraversal = (err: unknown) => err instanceof ArchiveError && err.code === 'ARCHIVE_PATH_TRAVERSAL';
+
+  const memory = createMemoryTarget();
+  await assert.rejects(
+    async () => extractArchive(await openArchive(throughLink), memory, { shouldAllowSymlinks: true }),
+    isTraversal
+  );
+  assert.equal(memory.entries.has('jump/file.txt'), false);
+  await assert.rejects(
+    async () => extractArchive(await openArchive(escaping), createMemoryTarget(), { shouldAllowSymlinks: true }),
+    isTraversal
+  );
+
+  await withTempDir(async (dir) => {
+    await assert.rejects(
+      async () => extractArchive(await openArchive(throughLink), createNodeFsTarget(dir), { shouldAllowSymlinks: true }),
+      isTraversal
+    );
+    assert.deepEqual(await readdir(path.join(dir, 'inside')), []);
+  });
+  await withTempDir(async (dir) => {
+    await symlink(tmpdir(), path.join(dir, 'preexisting'));
+    const archive = await buildArchive('zip', async (writer) => {
+      await writer.add('preexisting/escape.txt', encoder.encode('x'));
+    });
+    await assert.rejects(async () => extractArchive(await openArchive(archive), createNodeFsTarget(dir)), isTraversal);
+  });
+
+  const archive = await buildArchive('zip', async (writer) => {
+    await writer.add('victim.txt', encoder.encode('archive'));
+  });
+  const seeded = createMemoryTarget(new Map([['victim.txt', { type: 'file', data: encoder.encode('host') }]]));
+  await assert.rejects(
+    async () => extractArchive(await openArchive(archive), seeded),
+    (err: unknown) => err instanceof ArchiveError && err.code === 'ARCHIVE_NAME_COLLISION' && err.context?.format === 'zip'
+  );
+  const skipped = await extractArchive(await openArchive(archive), seeded, { onExisting: 'skip' });
+  assert.deepEqual(skipped.skipped, [{ name: 'victim.txt', reason: 'existing' }]);
+  await extractArchive(await openArchive(archive), seeded, { onExisting: 'overwrite' });
+  assert.equal(decoder.decode(seeded.entries.get('victim.txt')?.data), 'archive');
+});
+
+test('extractArchive rejects duplicate, NFC and case collisions for every format', async () => {
+  const cases: Array<{ format: ArchiveFormat; names: [string, string]; collisionType: string }> = [
+    { format: 'zip', names: ['A.txt', 'a.txt'], collisionType: 'case' },
+    { format: 'tar', names: ['docs/notes.txt', './docs//notes.txt'], collisionType: 'duplicate' },
+    { format: 'tgz', names: ['caf\u00e9.txt', 'cafe\u0301.txt'], collisionType: 'unicode_nfc' }
+  ];
+  for (const { format, names, collisionType } of cases) {
+    const archive = await buildArchive(format, async (writer) => {
+      for (const name of names) await writer.add(name, encoder.encode(name));
+    });
+    const target = createMemoryTarget();
+    await assert.rejects(
+      async () => extractArchive(await openArchive(archive), target, { onExisting: 'overwrite' }),
+      (err: unknown) => {
+        assert.ok(err instanceof ArchiveError);
+        assert.equal(err.code, 'ARCHIVE_NAME_COLLISION');
+        assert.equal(err.entryName, names[1]);
+        assert.deepEqual(
+          [err.context?.collisionType, err.context?.nameA, err.context?.format],
+          [collisionType, names[0], format]
+        );
+        return true;
+      }
+    );
+    assert.equal([...target.entries.values()].filter((entry) => entry.type === 'file').length, 1, format);
+  }
+
+  const archive = await buildArchive('zip', async (writer) => {
+    await writer.add('A.txt', encoder.encode('upper'));
+    await writer.add('a.txt', encoder.encode('lower'));
+  });
+  await withTempDir(async (dir) => {
+    await assert.rejects(
+      extractAll(archive, dir),
+      (err: unknown) => err instanceof ArchiveError && err.code === 'ARCHIVE_NAME_COLLISION'
+    );
+    assert.deepEqual(await readdir(dir), ['A.txt']);
+  });
+  // Mapping one side away resolves the collision.
+  const mapped = await extractArchive(await openArchive(archive), createMemoryTarget(), {
+    mapPath: (entry) => (entry.name === 'a.txt' ? 'lower/a.txt' : entry.name)
+  });
+  assert.equal(mapped.summary.files, 2);
+});
+
+test('extractArchive restores metadata through optional target hooks and skips unsupported symlinks', async () => {
+  const mtime = new Date('2012-03-04T05:06:07Z');
+  const archive = await buildArchive('tar', async (writer) => {
+    await writer.add('bin/', undefined, { mode: 0o755, mtime });
+    await writer.add('bin/tool', encoder.encode('#!'), { mode: 0o4775, mtime, uid: 10, gid: 20 });
+    await writer.add('bin/alias', undefined, { type: 'symlink', linkName: 'tool' });
+    await writer.add('bin/read.txt', encoder.encode('r'), { mtime, pax: { atime: '1400000000' } });
+  });
+  const target = createMemoryTarget();
+  await extractArchive(await openArchive(archive), target, { preserve: { mode: true, times: true, owner: true } });
+  assert.deepEqual(
+    { ...target.entries.get('bin/tool'), data: undefined },
+    { type: 'file', data: undefined, mode: 0o755, uid: 10, gid: 20, atime: mtime, mtime }
+  );
+  assert.equal(target.entries.get('bin')?.mtime?.getTime(), mtime.getTime());
+  assert.equal(target.entries.get('bin/read.txt')?.atime?.getTime(), 1_400_000_000_000);
+  assert.equal(target.entries.get('bin/read.txt')?.mtime?.getTime(), mtime.getTime());
+
+  const files = new Map<string, Uint8Array>();
+  const minimal: ExtractTarget = {
+    async exists(relativePath) {
+      return relativePath === '' || relativePath === 'bin' ? { type: 'directory' } : null;
+    },
+    async mkdir() {},
+    async writeFile(relativePath) {
+      return new WritableStream<Uint8Array>({
+        write(chunk) {
+          files.set(relativePath, chunk);
+        }
+      });
+    }
+  };
+  const report = await extractArchive(await openArchive(archive), minimal, {
+    shouldAllowSymlinks: true,
+    preserve: { mode: true, times: true }
+  });
+  assert.deepEqual(report.skipped, [{ name: 'bin/alias', reason: 'symlink' }]);
+  assert.deepEqual([...files.keys()], ['bin/tool', 'bin/read.txt']);
+});
+
+test('createNodeFsTarget leaves no partial file when a payload fails mid-write', async () => {
+  await withTempDir(async (dir) => {
+    const target = createNodeFsTarget(path.join(dir, 'out'));
+    const writable = await target.writeFile('partial.bin', { overwrite: false });
+    const writer = writable.getWriter();
+    await writer.write(encoder.encode('half'));
+    await writer.abort(new Error('source failed'));
+    assert.deepEqual(await readdir(path.join(dir, 'out')), []);
+
+    const complete = (await target.writeFile('done.txt', { overwrite: false })).getWriter();
+    await complete.write(encoder.encode('done'));
+    await complete.close();
+    assert.equal(await readFile(path.join(dir, 'out', 'done.txt'), 'utf8'), 'done');
+    assert.equal((await target.exists('done.txt'))?.type, 'file');
+  });
+});
+
+async function buildArchive(
+  format: ArchiveFormat,
+  fill: (writer: ReturnType<typeof createArchiveWriter>) => Promise<void>
+): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  const writer = createArchiveWriter(
+    format,
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(new Uint8Array(chunk));
+      }
+    })
+  );
+  await fill(writer);
+  await writer.close();
+  const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+async function withTempDir(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'bytefold-target-'));
+  try {
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
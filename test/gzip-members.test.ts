@@ -0,0 +1,190 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { gzipSync } from 'node:zlib';
+import {
+  CompressionError,
+  createArchiveWriter,
+  openArchive,
+  type ArchiveReader,
+  type ArchiveWriterOptions,
+  type GzipHeader
+} from '@ismail-elkorchi/bytefold';
+
+const HEADER_FIXTURE = new URL('../test/fixtures/gzip-header-options.gz', import.meta.url);
+const CONCAT_FIXTURE = new URL('../test/fixtures/concat.gz', import.meta.url);
+
+const encoder = new TextEncoder();
+
+test('gz entries expose the typed member header as raw', async () => {
+  const reader = await openArchive(new Uint8Array(await readFile(HEADER_FIXTURE)), { format: 'gz' });
+  const [entry] = await collectEntries(reader);
+  const header = entry!.raw as GzipHeader;
+  assert.equal(header.flags, 0x1c);
+  assert.equal(header.os, 255);
+  assert.equal(header.mtime, undefined);
+  assert.equal(header.name, 'hello.txt');
+  assert.equal(header.comment, 'bytefold header options');
+  assert.deepEqual(header.extraFields, [{ id: 'BF', data: new Uint8Array([0xde, 0xad, 0xbe, 0xef]) }]);
+  assert.deepEqual(header.extra, new Uint8Array([0x42, 0x46, 0x04, 0x00, 0xde, 0xad, 0xbe, 0xef]));
+  assert.equal(header.headerBytes, 54);
+});
+
+test('shouldSplitMembers yields one entry per gzip member', async () => {
+  const bytes = new Uint8Array(await readFile(CONCAT_FIXTURE));
+  const joined = await openArchive(bytes, { format: 'gz', filename: 'concat.gz' });
+  assert.deepEqual((await collectEntries(joined)).map((entry) => entry.name), ['concat']);
+
+  for (const input of [bytes, new Blob([bytes]).stream()]) {
+    const reader = await openArchive(input, {
+      format: 'gz',
+      filename: 'concat.gz',
+      gzip: { shouldSplitMembers: true }
+    });
+    const entries = await collectEntries(reader);
+    assert.deepEqual(
+      entries.map((entry) => [entry.name, entry.size, entry.data]),
+      [
+        ['concat', 12n, 'hello world\n'],
+        ['concat.1', 12n, 'hello world\n']
+      ]
+    );
+    assert.equal((entries[1]!.raw as GzipHeader).os, 3);
+    const report = await reader.audit();
+    assert.equal(report.summary.entries, 2);
+    assert.equal(report.summary.totalBytes, 24);
+  }
+});
+
+test('shouldSplitMembers finds member ends by inflating, not by trailer-like bytes', async () => {
+  // Stored deflate blocks copy the payload verbatim: an empty-member trailer followed by a gzip
+  // header, then many more magic bytes, all inside the first member.
+  const spoof = new Uint8Array(8 + 10 + 3 * 20_000);
+  spoof.set([0x1f, 0x8b, 0x08, 0, 0, 0, 0, 0, 0, 0xff], 8);
+  for (let offset = 18; offset < spoof.length; offset += 3) spoof.set([0x1f, 0x8b, 0x08], offset);
+  const bytes = concat([gzipSync(spoof, { level: 0 }), gzipSync(encoder.encode('bravo'))]);
+
+  const started = performance.now();
+  const reader = await openArchive(bytes, { format: 'gz', filename: 'spoof.gz', gzip: { shouldSplitMembers: true } });
+  const entries: Array<[string, Uint8Array]> = [];
+  for await (const entry of reader.entries()) {
+    entries.push([entry.name, new Uint8Array(await new Response(await entry.open()).arrayBuffer())]);
+  }
+  assert.ok(performance.now() - started < 2000);
+  assert.deepEqual(entries, [
+    ['spoof', spoof],
+    ['spoof.1', encoder.encode('bravo')]
+  ]);
+
+  const padded = concat([bytes, new Uint8Array(512)]);
+  for (const shouldSplitMembers of [false, true]) {
+    const paddedReader = await openArchive(padded, { format: 'gz', gzip: { shouldSplitMembers } });
+    const sizes: bigint[] = [];
+    for await (const entry of paddedReader.entries()) sizes.push(entry.size);
+    assert.deepEqual(sizes, shouldSplitMembers ? [BigInt(spoof.length), 5n] : [BigInt(spoof.length + 5)]);
+  }
+
+  const corrupt = bytes.slice();
+  corrupt[corrupt.length - 5] = corrupt[corrupt.length - 5]! ^ 0xff;
+  await assert.rejects(
+    openArchive(corrupt, { format: 'gz', gzip: { shouldSplitMembers: true } }),
+    CompressionError
+  );
+});
+
+test('gz writer header options round-trip through member splitting and normalize', async () => {
+  const mtime = new Date('2024-05-06T07:08:09Z');
+  const first = await writeGz('alpha', {
+    gzip: { name: 'a.txt', comment: 'first', mtime, extra: [{ id: 'AP', data: new Uint8Array([1, 2]) }] }
+  });
+  const second = await writeGz('bravo', { gzip: { name: 'b.txt' } });
+
+  const single = await openArchive(first, { format: 'gz' });
+  const [entry] = await collectEntries(single);
+  const header = entry!.raw as GzipHeader;
+  assert.equal(entry!.name, 'a.txt');
+  assert.equal(entry!.mtime?.getTime(), mtime.getTime());
+  assert.equal(header.comment, 'first');
+  assert.equal(header.os, 255);
+  assert.deepEqual(header.extraFields, [{ id: 'AP', data: new Uint8Array([1, 2]) }]);
+
+  const both = concat([first, second]);
+  const split = await openArchive(both, { format: 'gz', gzip: { shouldSplitMembers: true } });
+  assert.deepEqual(
+    (await collectEntries(split)).map((item) => [item.name, item.data, item.mtime?.getTime()]),
+    [
+      ['a.txt', 'alpha', mtime.getTime()],
+      ['b.txt', 'bravo', undefined]
+    ]
+  );
+
+  const chunks: Uint8Array[] = [];
+  const report = await split.normalizeToWritable!(
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(chunk.slice());
+      }
+    }),
+    { outputFormat: 'xz' }
+  );
+  assert.equal(report.ok, true);
+  const xz = await openArchive(concat(chunks), { format: 'xz' });
+  assert.deepEqual((await collectEntries(xz)).map((item) => item.data), ['alphabravo']);
+});
+
+test('gz writer header options reject values gzip cannot store', () => {
+  const sink = new WritableStream<Uint8Array>();
+  const invalid: NonNullable<ArchiveWriterOptions['gzip']>[] = [
+    { name: 'cafę.txt' },
+    { comment: 'a\u0000b' },
+    { mtime: new Date('1969-12-31T23:59:59Z') },
+    { extra: [{ id: 'ABC', data: new Uint8Array(0) }] },
+    { extra: [{ id: 'XL', data: new Uint8Array(0x10000) }] }
+  ];
+  for (const gzip of invalid) {
+    assert.throws(() => createArchiveWriter('gz', sink, { gzip }), RangeError);
+  }
+});
+
+async function writeGz(text: string, options: ArchiveWriterOptions): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  const writer = createArchiveWriter(
+    'gz',
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(chunk.slice());
+      }
+    }),
+    options
+  );
+  await writer.add('ignored', encoder.encode(text));
+  await writer.close();
+  return concat(chunks);
+}
+
+async function collectEntries(
+  reader: ArchiveReader
+): Promise<Array<{ name: string; size: bigint; mtime?: Date; raw: unknown; data: string }>> {
+  const out: Array<{ name: string; size: bigint; mtime?: Date; raw: unknown; data: string }> = [];
+  for await (const entry of reader.entries()) {
+    const data = await new Response(await entry.open()).text();
+    out.push({
+      name: entry.name,
+      size: entry.size,
+      raw: entry.raw,
+      data,
+      ...(entry.mtime ? { mtime: entry.mtime } : {})
+    });
+  }
+  return out;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
@@ -13,11 +13,14 @@ import './deflate64.test.js';
 import './deflate64-aliasing.test.js';
 import './deflate64-retention.test.js';
 import './normalize.test.js';
+import './normalize-output-format.test.js';
 import './archive.test.js';
 import './compress.test.js';
 import './compression-resource-limits.test.js';
 import './bzip2.test.js';
+import './bzip2-encoder.test.js';
 import './xz.test.js';
+import './xz-encoder.test.js';
 import './xz-bcj-filters.test.js';
 import './xz-thirdparty.test.js';
 import './xz-utils-conformance.test.js';
@@ -37,6 +40,14 @@ import './zip64-boundary.test.js';
 import './zip64-writer-structural.test.js';
 import './zip-url-seekable-budget.test.js';
 import './tar-xz.test.js';
+import './tar-streaming.test.js';
+import './tar-gnu-extensions.test.js';
+import './zip-multi-disk.test.js';
+import './zip-split-writer.test.js';
+import './zip-updater.test.js';
+import './zip-methods.test.js';
+import './node-extract-all.test.js';
+import './extract-target.test.js';
 import './single-file-formats.test.js';
 import './archive-writer-proof.test.js';
 import './audit-normalize-proof.test.js';
@@ -63,3 +74,5 @@ import './bzip2-aliasing.test.js';
 import './gzip-aliasing.test.js';
 import './gzip-header-options.test.js';
 import './gzip-fhcrc.test.js';
+import './gzip-members.test.js';
+import './bgzf.test.js';
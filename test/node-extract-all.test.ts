@@ -0,0 +1,187 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, readdir, readlink, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { ArchiveError, createArchiveWriter, extractAll, type ArchiveFormat } from '@ismail-elkorchi/bytefold/node';
+
+const encoder = new TextEncoder();
+const isRoot = process.getuid?.() === 0;
+
+test('extractAll materializes zip and compressed tar archives with a report', async () => {
+  for (const format of ['zip', 'tar', 'tgz', 'tar.xz'] as const) {
+    const archive = await buildArchive(format, async (writer) => {
+      await writer.add('docs/', new Uint8Array(0));
+      await writer.add('docs/readme.txt', encoder.encode('readme\n'));
+      await writer.add('bin/data.bin', new Uint8Array(1000).fill(7));
+    });
+    await withTempDir(async (dir) => {
+      const report = await extractAll(archive, dir);
+      assert.equal(report.format, format, format);
+      assert.deepEqual(report.summary, {
+        entries: 3,
+        files: 2,
+        directories: 1,
+        symlinks: 0,
+        skipped: 0,
+        bytesWritten: 1007
+      });
+      assert.deepEqual(
+        report.written.map((entry) => [entry.name, entry.type, entry.bytes]),
+        [
+          ['docs/', 'directory', 0],
+          ['docs/readme.txt', 'file', 7],
+          ['bin/data.bin', 'file', 1000]
+        ]
+      );
+      assert.equal(report.written[1]!.path, path.join(dir, 'docs', 'readme.txt'));
+      assert.equal(await readFile(path.join(dir, 'docs', 'readme.txt'), 'utf8'), 'readme\n');
+      assert.deepEqual((await readdir(dir)).sort(), ['bin', 'docs']);
+    });
+  }
+});
+
+test('extractAll skips symlinks unless allowed and always skips special entries', async () => {
+  const archive = await buildArchive('tar', async (writer) => {
+    await writer.add('target.txt', encoder.encode('target'));
+    await writer.add('link.txt', undefined, { type: 'symlink', linkName: 'target.txt' });
+    await writer.add('pipe', undefined, { type: 'fifo' });
+  });
+
+  await withTempDir(async (dir) => {
+    const report = await extractAll(archive, dir);
+    assert.deepEqual(report.skipped, [
+      { name: 'link.txt', reason: 'symlink' },
+      { name: 'pipe', reason: 'unsupported-type', entryType: 'fifo' }
+    ]);
+    assert.equal(report.summary.skipped, 2);
+    assert.deepEqual(await readdir(dir), ['target.txt']);
+  });
+
+  await withTempDir(async (dir) => {
+    const report = await extractAll(archive, dir, { shouldAllowSymlinks: true });
+    assert.equal(report.summary.symlinks, 1);
+    assert.equal(await readlink(path.join(dir, 'link.txt')), 'target.txt');
+  });
+});
+
+test('extractAll rejects escaping symlinks and existing destination paths', async () => {
+  const escaping = await buildArchive('tar', async (writer) => {
+    await writer.add('out', undefined, { type: 'symlink', linkName: '../../outside' });
+  });
+  await withTempDir(async (dir) => {
+    await assert.rejects(
+      () => extractAll(escaping, dir, { shouldAllowSymlinks: true }),
+      (err: unknown) => err instanceof ArchiveError && err.code === 'ARCHIVE_PATH_TRAVERSAL'
+    );
+  });
+
+  const archive = await buildArchive('tgz', async (writer) => {
+    await writer.add('victim.txt', encoder.encode('archive'));
+  });
+  await withTempDir(async (dir) => {
+    await writeFile(path.join(dir, 'victim.txt'), 'host-data', 'utf8');
+    await assert.rejects(
+      () => extractAll(archive, dir),
+      (err: unknown) =>
+        err instanceof ArchiveError && err.code === 'ARCHIVE_NAME_COLLISION' && err.context?.format === 'tgz'
+    );
+    assert.equal(await readFile(path.join(dir, 'victim.txt'), 'utf8'), 'host-data');
+    assert.deepEqual(await readdir(dir), ['victim.txt']);
+  });
+});
+
+test('extractAll reports filtered and existing entries and honors onExisting newer', async () => {
+  const archive = await buildArchive('tgz', async (writer) => {
+    await writer.add('release/app.js', encoder.encode('new app'), { mtime: new Date('2020-01-01T00:00:00Z') });
+    await writer.add('release/config.json', encoder.encode('{}'), { mtime: new Date('1990-01-01T00:00:00Z') });
+    await writer.add('release/notes.txt', encoder.encode('notes'));
+  });
+  await withTempDir(async (dir) => {
+    await writeFile(path.join(dir, 'app.js'), 'old app', 'utf8');
+    await utimes(path.join(dir, 'app.js'), new Date('2000-01-01T00:00:00Z'), new Date('2000-01-01T00:00:00Z'));
+    await writeFile(path.join(dir, 'config.json'), '{"local":true}', 'utf8');
+
+    const report = await extractAll(archive, dir, {
+      filter: (entry) => !entry.name.endsWith('.txt'),
+      mapPath: (entry) => entry.name.replace(/^release\//, ''),
+      onExisting: 'newer'
+    });
+    assert.deepEqual(report.skipped, [
+      { name: 'release/config.json', reason: 'existing' },
+      { name: 'release/notes.txt', reason: 'filtered' }
+    ]);
+    assert.deepEqual(
+      report.written.map((entry) => entry.path),
+      [path.join(dir, 'app.js')]
+    );
+    assert.equal(await readFile(path.join(dir, 'app.js'), 'utf8'), 'new app');
+    assert.equal(await readFile(path.join(dir, 'config.json'), 'utf8'), '{"local":true}');
+    assert.deepEqual((await readdir(dir)).sort(), ['app.js', 'config.json']);
+
+    await assert.rejects(
+      () => extractAll(archive, dir, { mapPath: (entry) => `/abs/${entry.name}` }),
+      (err: unknown) => err instanceof ArchiveError && err.code === 'ARCHIVE_PATH_TRAVERSAL'
+    );
+  });
+});
+
+test('extractAll preserve restores tar modes, ownership, and directory times after children', async () => {
+  const dirTime = new Date('2001-02-03T04:05:06Z');
+  const fileTime = new Date('2011-02-03T04:05:06Z');
+  const archive = await buildArchive('tar', async (writer) => {
+    await writer.add('tools/', undefined, { mode: 0o750, mtime: dirTime });
+    await writer.add('tools/setuid-tool', encoder.encode('bin'), {
+      mode: 0o6755,
+      mtime: fileTime,
+      uid: 4321,
+      gid: 4322
+    });
+  });
+  await withTempDir(async (dir) => {
+    await extractAll(archive, dir, { preserve: { mode: true, times: true, owner: isRoot } });
+    const tool = await stat(path.join(dir, 'tools', 'setuid-tool'));
+    assert.equal(tool.mode & 0o7777, 0o755);
+    assert.equal(tool.mtime.getTime(), fileTime.getTime());
+    if (isRoot) {
+      assert.equal(tool.uid, 4321);
+      assert.equal(tool.gid, 4322);
+    }
+    const tools = await stat(path.join(dir, 'tools'));
+    assert.equal(tools.mode & 0o7777, 0o750);
+    assert.equal(tools.mtime.getTime(), dirTime.getTime());
+  });
+});
+
+async function buildArchive(
+  format: ArchiveFormat,
+  fill: (writer: ReturnType<typeof createArchiveWriter>) => Promise<void>
+): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  const writer = createArchiveWriter(
+    format,
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(new Uint8Array(chunk));
+      }
+    })
+  );
+  await fill(writer);
+  await writer.close();
+  const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+async function withTempDir(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'bytefold-extract-'));
+  try {
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,300 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ArchiveError,
+  createArchiveWriter,
+  openArchive,
+  type ArchiveFormat,
+  type ArchiveNormalizeOptions,
+  type ArchiveNormalizeReport,
+  type ArchiveReader,
+  type ArchiveWriterAddOptions
+} from '@ismail-elkorchi/bytefold';
+
+const encoder = new TextEncoder();
+
+test('normalize re-encodes a tar.gz as tar.zst and tar.xz without changing entries', async () => {
+  const source = await writeArchive('tgz', [
+    { name: 'b.txt', data: 'bravo' },
+    { name: 'a.txt', data: 'alpha' }
+  ]);
+  const reader = await openArchive(source, { format: 'tgz' });
+
+  for (const outputFormat of ['tar.zst', 'tar.xz'] as const) {
+    const { bytes, report } = await normalize(reader, { outputFormat });
+    assert.equal(report.ok, true);
+    assert.deepEqual(report.summary, {
+      entries: 2,
+      outputEntries: 2,
+      droppedEntries: 0,
+      renamedEntries: 0,
+      warnings: 0,
+      errors: 0
+    });
+    const output = await openArchive(bytes, { format: outputFormat });
+    assert.deepEqual(await listEntries(output), [
+      { name: 'a.txt', data: 'alpha' },
+      { name: 'b.txt', data: 'bravo' }
+    ]);
+
+    const plain = await normalize(reader);
+    const unwrapped = await normalize(output, { outputFormat: 'tar' });
+    assert.deepEqual(unwrapped.bytes, plain.bytes);
+    const again = await normalize(output, { outputFormat });
+    assert.deepEqual(again.bytes, bytes);
+  }
+});
+
+test('normalize converts between ZIP and TAR and matches a direct normalize of the output', async () => {
+  const zip = await writeArchive('zip', [
+    { name: 'docs/', data: '', options: { type: 'directory' } },
+    { name: 'docs/readme.md', data: '# readme' },
+    { name: 'run.sh', data: 'echo hi', options: { mode: 0o755 } }
+  ]);
+  const zipReader = await openArchive(zip, { format: 'zip' });
+
+  const tgz = await normalize(zipReader, { outputFormat: 'tgz' });
+  assert.equal(tgz.report.ok, true);
+  assert.equal(tgz.report.summary.outputEntries, 3);
+  const tarReader = await openArchive(tgz.bytes, { format: 'tgz' });
+  assert.deepEqual(await listEntries(tarReader), [
+    { name: 'docs/', data: '' },
+    { name: 'docs/readme.md', data: '# readme' },
+    { name: 'run.sh', data: 'echo hi' }
+  ]);
+  assert.deepEqual((await normalize(tarReader, { outputFormat: 'tgz' })).bytes, tgz.bytes);
+
+  const back = await normalize(tarReader, { outputFormat: 'zip' });
+  assert.equal(back.report.ok, true);
+  const zipOutput = await openArchive(back.bytes, { format: 'zip' });
+  assert.deepEqual(await listEntries(zipOutput), await listEntries(zipReader));
+  assert.deepEqual((await normalize(zipOutput)).bytes, back.bytes);
+});
+
+test('non-deterministic TAR to ZIP keeps modes and owners and reports metadata ZIP cannot hold', async () => {
+  const tar = await writeArchive('tar', [
+    {
+      name: 'bin/tool',
+      data: 'tool',
+      options: { mode: 0o750, uid: 1000, gid: 1000, mtime: new Date('2024-03-01T12:00:01Z') }
+    },
+    {
+      name: 'notes.txt',
+      data: 'notes',
+      options: { mode: 0o640, mtime: new Date('2024-03-01T12:00:00Z'), pax: { 'SCHILY.xattr.user.tag': 'x' } }
+    }
+  ]);
+  const reader = await openArchive(tar, { format: 'tar' });
+  const { bytes, report } = await normalize(reader, { outputFormat: 'zip', isDeterministic: false });
+  assert.equal(report.ok, true);
+
+  const output = await openArchive(bytes, { format: 'zip' });
+  const modes = new Map<string, number | undefined>();
+  const owners = new Map<string, [number | undefined, number | undefined]>();
+  for await (const entry of output.entries()) {
+    modes.set(entry.name, entry.mode);
+    owners.set(entry.name, [entry.uid, entry.gid]);
+  }
+  assert.equal(modes.get('bin/tool')! & 0o7777, 0o750);
+  assert.equal(modes.get('notes.txt')! & 0o7777, 0o640);
+  assert.deepEqual(owners.get('bin/tool'), [1000, 1000]);
+
+  const lost = report.issues.filter((issue) => issue.code === 'ARCHIVE_METADATA_LOST');
+  assert.deepEqual(
+    lost.map((issue) => [issue.entryName, issue.severity, issue.details?.fields]),
+    [['notes.txt', 'warning', ['pax']]]
+  );
+  assert.deepEqual(lost[0]!.details?.paxKeys, ['SCHILY.xattr.user.tag']);
+  assert.equal(report.summary.warnings, 1);
+
+  const stripped = await normalize(reader, {
+    outputFormat: 'zip',
+    isDeterministic: false,
+    shouldPreservePlatformMetadata: false
+  });
+  const strippedLost = stripped.report.issues.filter((issue) => issue.code === 'ARCHIVE_METADATA_LOST');
+  assert.deepEqual(
+    strippedLost.map((issue) => issue.details?.fields),
+    [
+      ['uid', 'gid'],
+      ['uid', 'gid', 'pax']
+    ]
+  );
+
+  const zipReader = await openArchive(bytes, { format: 'zip' });
+  for (const shouldPreservePlatformMetadata of [false, true]) {
+    const again = await normalize(zipReader, { isDeterministic: false, shouldPreservePlatformMetadata });
+    const renormalized = await openArchive(again.bytes, { format: 'zip' });
+    for await (const entry of renormalized.entries()) {
+      if (entry.name !== 'bin/tool') continue;
+      assert.deepEqual([entry.uid, entry.gid], shouldPreservePlatformMetadata ? [1000, 1000] : [undefined, undefined]);
+    }
+  }
+});
+
+test('normalize outputFormat carries symlinks across formats with onSymlink keep', async () => {
+  const longTarget = `${'nested/'.repeat(16)}target.txt`;
+  const tgz = await writeArchive('tgz', [
+    { name: 'data/target.txt', data: 'target' },
+    { name: 'data/link', data: '', options: { type: 'symlink', linkName: 'target.txt' } },
+    // A link target past 100 bytes needs a PAX linkpath record.
+    { name: 'data/deep', data: '', options: { type: 'symlink', linkName: longTarget } }
+  ]);
+  const reader = await openArchive(tgz, { format: 'tgz' });
+
+  await assert.rejects(normalize(reader, { outputFormat: 'zip' }), (err: unknown) => {
+    assert.ok(err instanceof ArchiveError);
+    assert.equal(err.code, 'ARCHIVE_UNSUPPORTED_FEATURE');
+    assert.equal(err.entryName, 'data/deep');
+    return true;
+  });
+
+  for (const outputFormat of ['zip', 'tar', 'tar.xz', 'tar.bz2', 'tar.zst'] as const) {
+    const { bytes, report } = await normalize(reader, { outputFormat, onSymlink: 'keep' });
+    assert.equal(report.ok, true, outputFormat);
+    const output = await openArchive(bytes, { format: outputFormat });
+    assert.deepEqual(
+      await listLinks(output),
+      [
+        ['data/deep', longTarget],
+        ['data/link', 'target.txt'],
+        ['data/target.txt', undefined]
+      ],
+      outputFormat
+    );
+  }
+
+  const zip = await normalize(reader, { outputFormat: 'zip', onSymlink: 'keep' });
+  const back = await normalize(await openArchive(zip.bytes, { format: 'zip' }), {
+    outputFormat: 'tgz',
+    onSymlink: 'keep'
+  });
+  assert.deepEqual(await listLinks(await openArchive(back.bytes, { format: 'tgz' })), await listLinks(reader));
+  const dropped = await normalize(reader, { outputFormat: 'tar', onSymlink: 'drop' });
+  assert.deepEqual(await listLinks(await openArchive(dropped.bytes, { format: 'tar' })), [
+    ['data/target.txt', undefined]
+  ]);
+});
+
+test('normalize outputFormat handles single-file payloads and rejects impossible targets', async () => {
+  const gz = await writeArchive('gz', [{ name: 'data', data: 'hello world' }]);
+  const reader = await openArchive(gz, { format: 'gz', filename: 'hello.txt.gz' });
+
+  const xz = await normalize(reader, { outputFormat: 'xz' });
+  assert.equal(xz.report.ok, true);
+  const xzReader = await openArchive(xz.bytes, { format: 'xz' });
+  assert.deepEqual((await listEntries(xzReader)).map((entry) => entry.data), ['hello world']);
+
+  const zip = await normalize(reader, { outputFormat: 'zip' });
+  assert.equal(zip.report.summary.outputEntries, 1);
+  assert.deepEqual(await listEntries(await openArchive(zip.bytes, { format: 'zip' })), [
+    { name: 'hello.txt', data: 'hello world' }
+  ]);
+
+  const tar = await openArchive(await writeArchive('tar', [{ name: 'a.txt', data: 'a' }]), { format: 'tar' });
+  await assert.rejects(normalize(tar, { outputFormat: 'gz' }), (err: unknown) => {
+    assert.ok(err instanceof ArchiveError);
+    assert.equal(err.code, 'ARCHIVE_UNSUPPORTED_FEATURE');
+    return true;
+  });
+
+  const fifo = await openArchive(
+    await writeArchive('tar', [{ name: 'pipe', data: '', options: { type: 'fifo' } }]),
+    { format: 'tar' }
+  );
+  await assert.rejects(normalize(fifo, { outputFormat: 'zip' }), (err: unknown) => {
+    assert.ok(err instanceof ArchiveError);
+    assert.equal(err.code, 'ARCHIVE_UNSUPPORTED_FEATURE');
+    assert.equal(err.entryName, 'pipe');
+    return true;
+  });
+});
+
+test('normalize outputFormat caps each in-memory pass at maxTotalUncompressedBytes', async () => {
+  const payload = 'x'.repeat(5000);
+  const tar = await openArchive(
+    await writeArchive('tar', [
+      { name: 'a.bin', data: payload },
+      { name: 'b.bin', data: payload }
+    ]),
+    { format: 'tar' }
+  );
+  const gz = await openArchive(await writeArchive('gz', [{ name: 'data', data: payload }]), { format: 'gz' });
+  const cases: Array<[ArchiveReader, ArchiveFormat]> = [
+    [tar, 'zip'],
+    [tar, 'tar.zst'],
+    [gz, 'xz']
+  ];
+  for (const [reader, outputFormat] of cases) {
+    await assert.rejects(
+      normalize(reader, { outputFormat, limits: { maxTotalUncompressedBytes: 4000 } }),
+      (err: unknown) => err instanceof ArchiveError && err.code === 'ARCHIVE_LIMIT_EXCEEDED'
+    );
+    const fits = await normalize(reader, { outputFormat, limits: { maxTotalUncompressedBytes: 64_000 } });
+    assert.equal(fits.report.ok, true);
+  }
+});
+
+async function writeArchive(
+  format: ArchiveFormat,
+  entries: Array<{ name: string; data: string; options?: ArchiveWriterAddOptions }>
+): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  const writer = createArchiveWriter(
+    format,
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(chunk.slice());
+      }
+    })
+  );
+  for (const entry of entries) {
+    await writer.add(entry.name, encoder.encode(entry.data), entry.options);
+  }
+  await writer.close();
+  return concat(chunks);
+}
+
+async function normalize(
+  reader: ArchiveReader,
+  options?: ArchiveNormalizeOptions
+): Promise<{ bytes: Uint8Array; report: ArchiveNormalizeReport }> {
+  const chunks: Uint8Array[] = [];
+  const report = await reader.normalizeToWritable!(
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(chunk.slice());
+      }
+    }),
+    options
+  );
+  return { bytes: concat(chunks), report };
+}
+
+async function listEntries(reader: ArchiveReader): Promise<Array<{ name: string; data: string }>> {
+  const out: Array<{ name: string; data: string }> = [];
+  for await (const entry of reader.entries()) {
+    const data = entry.isDirectory ? '' : await new Response(await entry.open()).text();
+    out.push({ name: entry.name, data });
+  }
+  return out;
+}
+
+async function listLinks(reader: ArchiveReader): Promise<Array<[string, string | undefined]>> {
+  const out: Array<[string, string | undefined]> = [];
+  for await (const entry of reader.entries()) {
+    const target = entry.isSymlink ? (entry.linkName ?? (await new Response(await entry.open()).text())) : undefined;
+    out.push([entry.name, target]);
+  }
+  return out.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
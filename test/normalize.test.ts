@@ -1,6 +1,13 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
+import * as zlib from 'node:zlib';
 import { ZipReader, ZipWriter } from '@ismail-elkorchi/bytefold/node/zip';
+import {
+  buildLegacyUnixExtra,
+  buildNtfsExtra,
+  parseLegacyUnixExtra,
+  parseNtfsExtra
+} from '../dist/extraFields.js';
 
 function concat(chunks: Uint8Array[]): Uint8Array {
   const total = chunks.reduce((sum, c) => sum + c.length, 0);
@@ -94,3 +101,71 @@ test('normalize can rename duplicate entries', async () => {
   const names = normalized.entries().map((entry) => entry.name).sort();
   assert.deepEqual(names, ['dup.txt', 'dup~1.txt']);
 });
+
+test('NTFS and Unix extra fields decode into ZipEntry and survive normalize only on request', async () => {
+  const encoder = new TextEncoder();
+  const written = new Date('2023-01-02T03:04:05.678Z');
+  const accessed = new Date('2023-02-03T04:05:06.789Z');
+  const created = new Date('2022-12-31T23:59:58.001Z');
+  const chunks: Uint8Array[] = [];
+  const writer = ZipWriter.toWritable(
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(new Uint8Array(chunk));
+      }
+    })
+  );
+  for (const [name, extra] of [
+    ['windows.txt', buildNtfsExtra({ mtime: written, atime: accessed, ctime: created })],
+    ['unix.txt', buildLegacyUnixExtra({ atime: accessed, mtime: written, uid: 501, gid: 20 })]
+  ] as const) {
+    const data = encoder.encode(name);
+    await writer.addRaw(name, data, {
+      method: 0,
+      crc32: zlib.crc32(data),
+      compressedSize: BigInt(data.length),
+      uncompressedSize: BigInt(data.length),
+      mtime: written,
+      extra
+    });
+  }
+  await writer.add('owned.txt', encoder.encode('owned'), { mtime: written, uid: 1000, gid: 1000 });
+  await writer.close();
+
+  const reader = await ZipReader.fromUint8Array(concat(chunks));
+  const describe = (zip: ZipReader) =>
+    zip
+      .entries()
+      .map((entry) => [entry.name, entry.mtime.getTime(), entry.atime?.getTime(), entry.ctime?.getTime(), entry.uid, entry.gid])
+      .sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+  const seconds = (date: Date) => Math.floor(date.getTime() / 1000) * 1000;
+  const decoded = [
+    ['owned.txt', seconds(written), undefined, undefined, 1000, 1000],
+    ['unix.txt', seconds(written), seconds(accessed), undefined, 501, 20],
+    ['windows.txt', written.getTime(), accessed.getTime(), created.getTime(), undefined, undefined]
+  ];
+  assert.deepEqual(describe(reader), decoded);
+
+  const stripped = await ZipReader.fromUint8Array((await normalizeZip(reader, { isDeterministic: false })).data);
+  assert.ok(stripped.entries().every((entry) => entry.uid === undefined && entry.ctime === undefined));
+
+  for (const mode of ['safe', 'lossless'] as const) {
+    const { data } = await normalizeZip(reader, { mode, isDeterministic: false, shouldPreservePlatformMetadata: true });
+    assert.deepEqual(describe(await ZipReader.fromUint8Array(data)), decoded, mode);
+  }
+});
+
+test('NTFS and legacy Unix extra field builders round-trip through their parsers', () => {
+  const mtime = new Date('2023-01-02T03:04:05.678Z');
+  const atime = new Date('2023-02-03T04:05:06Z');
+  const ntfs = buildNtfsExtra({ mtime });
+  assert.deepEqual([ntfs[0], ntfs[1], ntfs.length], [0x0a, 0x00, 36]);
+  assert.deepEqual(parseNtfsExtra(ntfs.subarray(4)), { mtime, atime: mtime, ctime: mtime });
+
+  const owned = buildLegacyUnixExtra({ atime, mtime, uid: 501, gid: 20 });
+  assert.deepEqual([owned[0], owned[1], owned.length], [0x55, 0x58, 16]);
+  const seconds = new Date(Math.floor(mtime.getTime() / 1000) * 1000);
+  assert.deepEqual(parseLegacyUnixExtra(owned.subarray(4)), { atime, mtime: seconds, uid: 501, gid: 20 });
+  // A lone id would have to be padded with root, so the owner part is left out.
+  assert.equal(buildLegacyUnixExtra({ atime, mtime, uid: 501 }).length, 12);
+});
@@ -1,11 +1,11 @@
 import { test } from 'node:test';
 import assert from 'node:assert/strict';
 import { readFile } from 'node:fs/promises';
-import { ArchiveError, openArchive } from '@ismail-elkorchi/bytefold';
+import { ArchiveError, openArchive, type ArchiveFormat, type ArchiveReader } from '@ismail-elkorchi/bytefold';
 
 const decoder = new TextDecoder();
 
-test('single-file gz extracts and normalizes as unsupported', async () => {
+test('single-file gz extracts and normalizes canonically', async () => {
   const payload = await readFixture('hello.txt.gz');
   const expected = await readTextFixture('expected/hello.txt');
   const reader = await openArchive(payload, { filename: 'hello.txt.gz' });
@@ -19,10 +19,10 @@ test('single-file gz extracts and normalizes as unsupported', async () => {
 
   const report = await reader.audit({ profile: 'agent' });
   assert.equal(report.ok, true);
-  await assertNormalizeUnsupported(reader);
+  await assertNormalizesCanonically(reader, 'gz');
 });
 
-test('single-file bz2 extracts and normalizes as unsupported', async () => {
+test('single-file bz2 extracts and normalizes canonically', async () => {
   const payload = await readFixture('hello.txt.bz2');
   const reader = await openArchive(payload, { filename: 'hello.txt.bz2' });
   assert.equal(reader.format, 'bz2');
@@ -35,10 +35,10 @@ test('single-file bz2 extracts and normalizes as unsupported', async () => {
 
   const report = await reader.audit({ profile: 'agent' });
   assert.equal(report.ok, true);
-  await assertNormalizeUnsupported(reader);
+  await assertNormalizesCanonically(reader, 'bz2');
 });
 
-test('single-file xz extracts and normalizes as unsupported', async () => {
+test('single-file xz extracts and normalizes canonically', async () => {
   const payload = await readFixture('hello.txt.xz');
   const reader = await openArchive(payload, { filename: 'hello.txt.xz' });
   assert.equal(reader.format, 'xz');
@@ -51,7 +51,7 @@ test('single-file xz extracts and normalizes as unsupported', async () => {
 
   const report = await reader.audit({ profile: 'agent' });
   assert.equal(report.ok, true);
-  await assertNormalizeUnsupported(reader);
+  await assertNormalizesCanonically(reader, 'xz');
 });
 
 test('single-file br requires explicit hint and extracts', async () => {
@@ -74,10 +74,10 @@ test('single-file br requires explicit hint and extracts', async () => {
 
   const report = await reader.audit({ profile: 'agent' });
   assert.equal(report.ok, true);
-  await assertNormalizeUnsupported(reader);
+  await assertNormalizesCanonically(reader, 'br');
 });
 
-test('single-file zst extracts and normalizes as unsupported', async () => {
+test('single-file zst extracts and normalizes canonically', async () => {
   const payload = await readFixture('hello.txt.zst');
   const reader = await openArchive(payload, { filename: 'hello.txt.zst' });
   assert.equal(reader.format, 'zst');
@@ -90,7 +90,7 @@ test('single-file zst extracts and normalizes as unsupported', async () => {
 
   const report = await reader.audit({ profile: 'agent' });
   assert.equal(report.ok, true);
-  await assertNormalizeUnsupported(reader);
+  await assertNormalizesCanonically(reader, 'zst');
 });
 
 test('single-file name inference is deterministic', async () => {
@@ -126,6 +126,36 @@ test('concatenated gzip members decode sequentially', async () => {
   assert.equal(decoder.decode(entries[0]!.data), `${expected}${expected}`);
 });
 
+test('gzip normalize merges members and writes a canonical header', async () => {
+  const payload = await readFixture('concat.gz');
+  const expected = await readTextFixture('expected/hello.txt');
+  const reader = await openArchive(payload, { filename: 'concat.gz' });
+  const normalized = await normalizeBytes(reader);
+  assert.deepEqual([...normalized.subarray(0, 10)], [0x1f, 0x8b, 0x08, 0, 0, 0, 0, 0, 0, 0]);
+  const trailer = new DataView(normalized.buffer, normalized.byteOffset + normalized.length - 4, 4);
+  assert.equal(trailer.getUint32(0, true), expected.length * 2);
+  const [merged] = await collectEntries(await openArchive(normalized, { format: 'gz' }));
+  assert.equal(decoder.decode(merged!.data), `${expected}${expected}`);
+
+  // FEXTRA, FNAME and FCOMMENT with OS 255: only the name survives a non-deterministic normalize.
+  const named = await openArchive(await readFixture('gzip-header-options.gz'));
+  const chunks: Uint8Array[] = [];
+  const report = await named.normalizeToWritable!(
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(new Uint8Array(chunk));
+      }
+    }),
+    { isDeterministic: false }
+  );
+  assert.equal(report.ok, true);
+  const kept = concat(chunks);
+  assert.equal(kept[3], 0x08);
+  assert.equal(kept[9], 0);
+  const [reread] = await collectEntries(await openArchive(kept, { format: 'gz' }));
+  assert.equal(reread!.name, 'hello.txt');
+});
+
 test('concatenated bzip2 streams decode sequentially', async () => {
   const payload = await readFixture('concat.bz2');
   const reader = await openArchive(payload, { filename: 'concat.bz2' });
@@ -179,15 +209,37 @@ async function collect(stream: ReadableStream<Uint8Array>): Promise<Uint8Array>
   return out;
 }
 
-async function assertNormalizeUnsupported(reader: { normalizeToWritable?: (w: WritableStream<Uint8Array>) => Promise<unknown> }) {
-  const normalize = reader.normalizeToWritable?.bind(reader);
-  assert.ok(normalize);
-  await assert.rejects(
-    async () => {
-      await normalize!(new WritableStream<Uint8Array>({ write() {} }));
-    },
-    (err: unknown) => err instanceof ArchiveError && err.code === 'ARCHIVE_UNSUPPORTED_FEATURE'
+async function assertNormalizesCanonically(reader: ArchiveReader, format: ArchiveFormat) {
+  const [original] = await collectEntries(reader);
+  const first = await normalizeBytes(reader);
+  const reopened = await openArchive(first, { format });
+  const [roundTripped] = await collectEntries(reopened);
+  assert.deepEqual(roundTripped!.data, original!.data);
+  assert.deepEqual(await normalizeBytes(reopened), first, `${format} normalize is not idempotent`);
+}
+
+async function normalizeBytes(reader: ArchiveReader): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  const report = await reader.normalizeToWritable!(
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(new Uint8Array(chunk));
+      }
+    })
   );
+  assert.equal(report.ok, true);
+  assert.equal(report.summary.outputEntries, 1);
+  return concat(chunks);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
 }
 
 function assertNoSeparators(name: string) {
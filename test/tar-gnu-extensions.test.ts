@@ -0,0 +1,182 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { ArchiveError } from '@ismail-elkorchi/bytefold';
+import { TarReader, TarWriter, type TarReaderOptions } from '@ismail-elkorchi/bytefold/tar';
+
+const encoder = new TextEncoder();
+const LONG_DIR = 'a-very-long-directory-name-that-keeps-going/'.repeat(3);
+const LONG_FILE = `${LONG_DIR}file-with-a-long-name-beyond-one-hundred-bytes.txt`;
+
+test('GNU L/K records resolve long names and link targets', async () => {
+  for (const isStreaming of [false, true]) {
+    const entries = await readAll('gnu-sparse-longname.tar', { isStreaming });
+    const names = entries.map((entry) => entry.name);
+    assert.ok(!names.some((name) => name.includes('@LongLink')), `streaming=${isStreaming}`);
+    assert.deepEqual(names, [
+      'sparse.bin',
+      'many-holes.bin',
+      'a-very-long-directory-name-that-keeps-going/',
+      'a-very-long-directory-name-that-keeps-going/'.repeat(2),
+      LONG_DIR,
+      LONG_FILE,
+      'long-link'
+    ]);
+    const file = entries.find((entry) => entry.name === LONG_FILE)!;
+    assert.equal(new TextDecoder().decode(file.data), 'long name payload\n');
+    const link = entries.find((entry) => entry.name === 'long-link')!;
+    assert.equal(link.linkName, LONG_FILE);
+  }
+});
+
+test('sparse files are reconstructed from old GNU and PAX 0.0/0.1/1.0 encodings', async () => {
+  const expected = sparseFixtureBytes();
+  const fixtures = ['gnu-sparse-longname.tar', 'pax-sparse-0.0.tar', 'pax-sparse-0.1.tar', 'pax-sparse-1.0.tar'];
+  for (const fixture of fixtures) {
+    for (const isStreaming of [false, true]) {
+      const entries = await readAll(fixture, { isStreaming });
+      const sparse = entries.find((entry) => entry.name === 'sparse.bin');
+      assert.ok(sparse, `${fixture} streaming=${isStreaming}`);
+      assert.equal(sparse.size, 1048576n, fixture);
+      assert.ok(sparse.sparseMap && sparse.sparseMap.length > 0, fixture);
+      assert.deepEqual(sparse.data, expected, `${fixture} streaming=${isStreaming}`);
+    }
+  }
+});
+
+test('old GNU sparse extension headers carry extents beyond the first four', async () => {
+  const entries = await readAll('gnu-sparse-longname.tar', {});
+  const entry = entries.find((item) => item.name === 'many-holes.bin')!;
+  assert.ok(entry.sparseMap!.length > 4);
+  const expected = new Uint8Array(6 * 65536);
+  for (let i = 0; i < 6; i += 1) {
+    expected.set(encoder.encode(`island ${i}\n`), i * 65536 + 8192);
+  }
+  assert.deepEqual(entry.data, expected);
+});
+
+test('limits apply to the expanded sparse size', async () => {
+  const data = await readFixture('gnu-sparse-longname.tar');
+  await assert.rejects(
+    () => TarReader.fromUint8Array(data, { limits: { maxUncompressedEntryBytes: 512 * 1024 } }),
+    (err: unknown) => err instanceof ArchiveError && err.code === 'ARCHIVE_LIMIT_EXCEEDED' && err.entryName === 'sparse.bin'
+  );
+});
+
+test('malformed sparse maps surface audit issues and refuse to open', async () => {
+  const tar = await buildTar('broken.bin', encoder.encode('0123456789'), {
+    'GNU.sparse.size': '100',
+    'GNU.sparse.numblocks': '2',
+    'GNU.sparse.map': '0,5,3,5'
+  });
+  const reader = await TarReader.fromUint8Array(tar);
+  const [entry] = reader.entries();
+  assert.equal(entry?.name, 'broken.bin');
+  assert.equal(entry?.sparseMap, undefined);
+  assert.ok(reader.warnings().some((issue) => issue.code === 'TAR_SPARSE_MAP_INVALID'));
+
+  const report = await reader.audit();
+  assert.equal(report.ok, false);
+  const issue = report.issues.find((item) => item.code === 'TAR_SPARSE_MAP_INVALID');
+  assert.equal(issue?.entryName, 'broken.bin');
+  assert.match(issue?.message ?? '', /overlap/);
+  await assert.rejects(
+    () => reader.open(entry!),
+    (err: unknown) => err instanceof ArchiveError && err.code === 'ARCHIVE_BAD_HEADER'
+  );
+
+  const mismatched = await buildTar('short.bin', encoder.encode('0123456789'), {
+    'GNU.sparse.size': '100',
+    'GNU.sparse.map': '0,5,50,4'
+  });
+  const mismatchReport = await (await TarReader.fromUint8Array(mismatched)).audit();
+  assert.match(
+    mismatchReport.issues.find((item) => item.code === 'TAR_SPARSE_MAP_INVALID')?.message ?? '',
+    /stored data size/
+  );
+});
+
+test('PAX 0.1 sparse entries written by TarWriter round-trip through holes', async () => {
+  const tar = await buildTar('holes.bin', encoder.encode('abcdefgh'), {
+    'GNU.sparse.size': '20',
+    'GNU.sparse.map': '2,4,14,4',
+    'GNU.sparse.name': 'real/holes.bin'
+  });
+  const reader = await TarReader.fromUint8Array(tar);
+  const [entry] = reader.entries();
+  assert.equal(entry?.name, 'real/holes.bin');
+  assert.equal(entry?.size, 20n);
+  const bytes = await collect(await reader.open(entry!));
+  assert.deepEqual(Array.from(bytes), [0, 0, 97, 98, 99, 100, 0, 0, 0, 0, 0, 0, 0, 0, 101, 102, 103, 104, 0, 0]);
+});
+
+type ReadEntry = {
+  name: string;
+  size: bigint;
+  linkName?: string;
+  sparseMap?: Array<{ offset: bigint; size: bigint }>;
+  data: Uint8Array;
+};
+
+async function readAll(name: string, options: TarReaderOptions): Promise<ReadEntry[]> {
+  const reader = await TarReader.fromUint8Array(await readFixture(name), options);
+  const out: ReadEntry[] = [];
+  for await (const entry of reader.iterEntries()) {
+    out.push({
+      name: entry.name,
+      size: entry.size,
+      ...(entry.linkName !== undefined ? { linkName: entry.linkName } : {}),
+      ...(entry.sparseMap ? { sparseMap: entry.sparseMap } : {}),
+      data: await collect(await reader.open(entry))
+    });
+  }
+  return out;
+}
+
+function sparseFixtureBytes(): Uint8Array {
+  const out = new Uint8Array(1048576);
+  out.set(encoder.encode('head-of-sparse-file\n'), 0);
+  for (let i = 0; i < 5000; i += 1) out[300000 + i] = (i * 7) & 0xff;
+  out.set(encoder.encode('tail\n'), 1048571);
+  return out;
+}
+
+async function buildTar(name: string, data: Uint8Array, pax: Record<string, string>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  const writer = TarWriter.toWritable(
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(new Uint8Array(chunk));
+      }
+    })
+  );
+  await writer.add(name, data, { pax });
+  await writer.close();
+  return concat(chunks);
+}
+
+async function readFixture(name: string): Promise<Uint8Array> {
+  return new Uint8Array(await readFile(new URL(`../test/fixtures/thirdparty/tar/${name}`, import.meta.url)));
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    if (value) chunks.push(value);
+  }
+  return concat(chunks);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
@@ -0,0 +1,348 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ArchiveError, openArchive } from '@ismail-elkorchi/bytefold';
+import { createCompressor } from '@ismail-elkorchi/bytefold/compress';
+import { TarReader, TarWriter } from '@ismail-elkorchi/bytefold/tar';
+import { ZipWriter } from '@ismail-elkorchi/bytefold/zip';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+test('streaming TarReader yields entries and streams payloads across chunk boundaries', async () => {
+  const longName = `${'nested/'.repeat(20)}long-name.txt`;
+  const tar = await buildTar([
+    ['a.txt', encoder.encode('alpha')],
+    ['skipped.bin', patternBytes(5000)],
+    [longName, encoder.encode('deep')],
+    ['big.bin', patternBytes(150_000)]
+  ]);
+  const reader = await TarReader.fromStream(chunkedStream(tar, 7), { isStreaming: true });
+  const seen: Record<string, Uint8Array | null> = {};
+  for await (const entry of reader.iterEntries()) {
+    seen[entry.name] = entry.name === 'skipped.bin' ? null : await collect(await reader.open(entry));
+  }
+  assert.deepEqual(Object.keys(seen), ['a.txt', 'skipped.bin', longName, 'big.bin']);
+  assert.equal(decoder.decode(seen['a.txt']!), 'alpha');
+  assert.equal(decoder.decode(seen[longName]!), 'deep');
+  assert.deepEqual(seen['big.bin'], patternBytes(150_000));
+  assert.throws(
+    () => reader.entries(),
+    (err: unknown) => err instanceof ArchiveError && err.code === 'ARCHIVE_UNSUPPORTED_FEATURE'
+  );
+});
+
+test('streaming TarReader rejects out-of-order, repeated, and stale opens', async () => {
+  const tar = await buildTar([
+    ['first.txt', encoder.encode('one')],
+    ['second.txt', encoder.encode('two')],
+    ['third.txt', encoder.encode('three')]
+  ]);
+  const reader = await TarReader.fromStream(chunkedStream(tar, 512), { isStreaming: true });
+  const iterator = reader.iterEntries();
+  const first = (await iterator.next()).value!;
+  const firstStream = await reader.open(first);
+  await assert.rejects(
+    () => reader.open(first),
+    (err: unknown) => err instanceof ArchiveError && err.code === 'ARCHIVE_UNSUPPORTED_FEATURE' && /already opened/.test(err.message)
+  );
+  const second = (await iterator.next()).value!;
+  await assert.rejects(() => collect(firstStream), /no longer readable/);
+  await assert.rejects(
+    () => reader.open(first),
+    (err: unknown) =>
+      err instanceof ArchiveError &&
+      err.code === 'ARCHIVE_UNSUPPORTED_FEATURE' &&
+      err.entryName === 'first.txt' &&
+      /out of order/.test(err.message)
+  );
+  assert.equal(decoder.decode(await collect(await reader.open(second))), 'two');
+  const third = (await iterator.next()).value!;
+  assert.equal(third.name, 'third.txt');
+  assert.equal((await iterator.next()).done, true);
+
+  await assert.rejects(async () => {
+    for await (const _entry of reader.iterEntries()) {
+      // A second pass is not possible over a forward-only source.
+    }
+  }, (err: unknown) => err instanceof ArchiveError && err.code === 'ARCHIVE_UNSUPPORTED_FEATURE');
+});
+
+test('streaming TarReader enforces maxTotalUncompressedBytes before reading past the offending header', async () => {
+  const tar = await buildTar([
+    ['small-1.bin', patternBytes(40)],
+    ['small-2.bin', patternBytes(40)],
+    ['huge.bin', patternBytes(400_000)],
+    ['tail.bin', patternBytes(10)]
+  ]);
+  let pulled = 0;
+  const source = chunkedStream(tar, 1024, (size) => {
+    pulled += size;
+  });
+  const reader = await TarReader.fromStream(source, {
+    isStreaming: true,
+    limits: { maxTotalUncompressedBytes: 1000 }
+  });
+  const names: string[] = [];
+  await assert.rejects(
+    async () => {
+      for await (const entry of reader.iterEntries()) {
+        names.push(entry.name);
+      }
+    },
+    (err: unknown) => err instanceof ArchiveError && err.code === 'ARCHIVE_LIMIT_EXCEEDED'
+  );
+  assert.deepEqual(names, ['small-1.bin', 'small-2.bin']);
+  assert.ok(pulled < tar.length / 10, `pulled ${pulled} of ${tar.length} bytes`);
+});
+
+test('streaming TarReader reports truncated payloads while reading', async () => {
+  const tar = await buildTar([['cut.bin', patternBytes(4096)]]);
+  const reader = await TarReader.fromStream(chunkedStream(tar.subarray(0, 512 + 1000), 300), { isStreaming: true });
+  await assert.rejects(
+    async () => {
+      for await (const entry of reader.iterEntries()) {
+        await collect(await reader.open(entry));
+      }
+    },
+    (err: unknown) => err instanceof ArchiveError && err.code === 'ARCHIVE_TRUNCATED'
+  );
+});
+
+test('openArchive streams tar.gz layers through the decompressor when tar.isStreaming is set', async () => {
+  const tar = await buildTar([
+    ['docs/readme.md', encoder.encode('# streamed')],
+    ['data.bin', patternBytes(70_000)]
+  ]);
+  const tgz = await collect(chunkedStream(tar, tar.length).pipeThrough(createCompressor({ algorithm: 'gzip' })));
+  const reader = await openArchive(tgz, { format: 'tgz', tar: { isStreaming: true } });
+  assert.equal(reader.format, 'tgz');
+  assert.ok(reader.detection?.notes.includes('TAR layer opened in forward-only streaming mode'));
+  const contents: Record<string, Uint8Array> = {};
+  for await (const entry of reader.entries()) {
+    contents[entry.name] = await collect(await entry.open());
+  }
+  assert.equal(decoder.decode(contents['docs/readme.md']!), '# streamed');
+  assert.deepEqual(contents['data.bin'], patternBytes(70_000));
+
+  const audited = await openArchive(tgz, { format: 'tgz', tar: { isStreaming: true } });
+  const report = await audited.audit();
+  assert.equal(report.ok, true);
+  assert.equal(report.summary.entries, 2);
+});
+
+test('openArchive decodes TAR stream inputs forward-only from a peeked prefix with tar.isStreaming', async () => {
+  const tar = await buildTar([
+    ['first.txt', encoder.encode('first')],
+    ['big.bin', patternBytes(600_000)]
+  ]);
+  let pulled = 0;
+  const reader = await openArchive(
+    chunkedStream(tar, 4096, (size) => {
+      pulled += size;
+    }),
+    { tar: { isStreaming: true } }
+  );
+  assert.equal(reader.format, 'tar');
+  assert.equal(reader.detection?.inputKind, 'stream');
+  assert.ok(reader.detection?.notes.includes('TAR layer opened in forward-only streaming mode'));
+  assert.ok(pulled < tar.length / 4, `pulled ${pulled} of ${tar.length} bytes before reading entries`);
+  const contents: Record<string, Uint8Array> = {};
+  for await (const entry of reader.entries()) {
+    contents[entry.name] = await collect(await entry.open());
+  }
+  assert.equal(decoder.decode(contents['first.txt']!), 'first');
+  assert.deepEqual(contents['big.bin'], patternBytes(600_000));
+
+  const tgz = await collect(chunkedStream(tar, tar.length).pipeThrough(createCompressor({ algorithm: 'gzip' })));
+  const layered = await openArchive(chunkedStream(tgz, 1000), { tar: { isStreaming: true } });
+  assert.equal(layered.format, 'tgz');
+  assert.deepEqual(layered.detection?.detected.layers, ['gzip', 'tar']);
+  assert.ok(layered.detection?.notes.includes('TAR layer detected inside gzip payload'));
+  assert.ok(layered.detection?.notes.includes('TAR layer opened in forward-only streaming mode'));
+  const report = await layered.audit();
+  assert.equal(report.ok, true);
+  assert.equal(report.summary.entries, 2);
+
+  for (const input of [() => chunkedStream(tgz, 1000), () => tgz]) {
+    const capped = await openArchive(input(), {
+      format: 'tgz',
+      tar: { isStreaming: true, limits: { maxEntries: 1 } }
+    });
+    await assert.rejects(
+      async () => {
+        for await (const _entry of capped.entries()) {
+          // The TAR passthrough limits apply to the compressed layer as well.
+        }
+      },
+      (err: unknown) => err instanceof ArchiveError && err.code === 'ARCHIVE_LIMIT_EXCEEDED'
+    );
+  }
+});
+
+test('openArchive buffers ZIP and single-file stream inputs and says so in detection notes', async () => {
+  const zipChunks: Uint8Array[] = [];
+  const zipWriter = ZipWriter.toWritable(
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        zipChunks.push(new Uint8Array(chunk));
+      }
+    })
+  );
+  await zipWriter.add('hello.txt', encoder.encode('zip payload'));
+  await zipWriter.close();
+  const zip = await openArchive(chunkedStream(concat(zipChunks), 64), { tar: { isStreaming: true } });
+  assert.equal(zip.format, 'zip');
+  assert.ok(zip.detection?.notes.includes('Stream input buffered: ZIP needs random access'));
+  for await (const entry of zip.entries()) {
+    assert.equal(decoder.decode(await collect(await entry.open())), 'zip payload');
+  }
+
+  const gz = await collect(
+    chunkedStream(encoder.encode('plain text'), 64).pipeThrough(createCompressor({ algorithm: 'gzip' }))
+  );
+  const single = await openArchive(chunkedStream(gz, 3), { filename: 'note.txt.gz', tar: { isStreaming: true } });
+  assert.equal(single.format, 'gz');
+  assert.ok(single.detection?.notes.includes('Stream input buffered: single-file payloads are held decompressed'));
+  const entries = [];
+  for await (const entry of single.entries()) entries.push(entry);
+  assert.equal(entries[0]?.name, 'note.txt');
+  assert.equal(decoder.decode(await collect(await entries[0]!.open())), 'plain text');
+
+  const limited = chunkedStream(patternBytes(4096), 512);
+  await assert.rejects(() => openArchive(limited, { limits: { maxInputBytes: 1024 } }), RangeError);
+});
+
+test('openArchive buffers TAR stream inputs by default so readers stay repeatable', async () => {
+  const tar = await buildTar([
+    ['first.txt', encoder.encode('first')],
+    ['second.txt', encoder.encode('second')]
+  ]);
+  const tgz = await collect(chunkedStream(tar, tar.length).pipeThrough(createCompressor({ algorithm: 'gzip' })));
+  for (const input of [tar, tgz]) {
+    const reader = await openArchive(chunkedStream(input, 100));
+    assert.ok(reader.detection?.notes.includes('Stream input buffered in memory'));
+    assert.ok(!reader.detection?.notes.includes('TAR layer opened in forward-only streaming mode'));
+    assert.equal((await reader.audit()).ok, true);
+    for (let pass = 0; pass < 2; pass += 1) {
+      const names: string[] = [];
+      for await (const entry of reader.entries()) names.push(entry.name);
+      assert.deepEqual(names, ['first.txt', 'second.txt']);
+    }
+    const normalized: Uint8Array[] = [];
+    await reader.normalizeToWritable!(
+      new WritableStream<Uint8Array>({
+        write(chunk) {
+          normalized.push(new Uint8Array(chunk));
+        }
+      }),
+      { isDeterministic: true }
+    );
+    assert.ok(normalized.length > 0);
+  }
+  const bytes = await openArchive(tar);
+  assert.ok(bytes.detection?.notes.includes('Bytes input opened in memory'));
+});
+
+test('openArchive streams non-ZIP Blob inputs under tar.isStreaming and reads ZIP Blobs by random access', async () => {
+  const tar = await buildTar([['blob.txt', encoder.encode('from a blob')]]);
+  const tgz = await collect(chunkedStream(tar, tar.length).pipeThrough(createCompressor({ algorithm: 'gzip' })));
+  const streamed = await openArchive(new Blob([blobPartFromBytes(tgz)]), { tar: { isStreaming: true } });
+  assert.equal(streamed.format, 'tgz');
+  assert.equal(streamed.detection?.inputKind, 'blob');
+  assert.ok(streamed.detection?.notes.includes('TAR layer opened in forward-only streaming mode'));
+  for await (const entry of streamed.entries()) {
+    assert.equal(decoder.decode(await collect(await entry.open())), 'from a blob');
+  }
+
+  const buffered = await openArchive(new Blob([blobPartFromBytes(tgz)]));
+  assert.ok(buffered.detection?.notes.includes('Blob input buffered in memory'));
+  assert.ok(!buffered.detection?.notes.includes('TAR layer opened in forward-only streaming mode'));
+
+  const zipChunks: Uint8Array[] = [];
+  const zipWriter = ZipWriter.toWritable(
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        zipChunks.push(new Uint8Array(chunk));
+      }
+    })
+  );
+  await zipWriter.add('hello.txt', encoder.encode('zip payload'));
+  await zipWriter.close();
+  const zip = await openArchive(new Blob([blobPartFromBytes(concat(zipChunks))]), { tar: { isStreaming: true } });
+  assert.equal(zip.format, 'zip');
+  assert.ok(zip.detection?.notes.includes('Blob input read through random access'));
+});
+
+async function buildTar(entries: Array<[string, Uint8Array]>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  const writer = TarWriter.toWritable(
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(new Uint8Array(chunk));
+      }
+    }),
+    { isDeterministic: true }
+  );
+  for (const [name, data] of entries) {
+    await writer.add(name, data);
+  }
+  await writer.close();
+  return concat(chunks);
+}
+
+function chunkedStream(
+  data: Uint8Array,
+  chunkSize: number,
+  onPull?: (size: number) => void
+): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>(
+    {
+      pull(controller) {
+        if (offset >= data.length) {
+          controller.close();
+          return;
+        }
+        const chunk = data.slice(offset, offset + chunkSize);
+        offset += chunk.length;
+        onPull?.(chunk.length);
+        controller.enqueue(chunk);
+      }
+    },
+    { highWaterMark: 0 }
+  );
+}
+
+function patternBytes(length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  for (let i = 0; i < length; i += 1) out[i] = (i * 31 + (i >> 8)) & 0xff;
+  return out;
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    if (value) chunks.push(value);
+  }
+  return concat(chunks);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+function blobPartFromBytes(bytes: Uint8Array): ArrayBuffer {
+  const owned = new Uint8Array(bytes.length);
+  owned.set(bytes);
+  return owned.buffer;
+}
@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createCompressor,
+  createDecompressor,
+  type XzCheck
+} from '@ismail-elkorchi/bytefold/compress';
+
+const encoder = new TextEncoder();
+
+test('xz compressor roundtrips empty, small, repetitive, and incompressible input', async () => {
+  const cases: Array<[string, Uint8Array]> = [
+    ['empty', new Uint8Array(0)],
+    ['small', encoder.encode('hello xz encoder')],
+    ['repetitive', encoder.encode('bytefold xz roundtrip. '.repeat(20000))],
+    ['random', pseudoRandomBytes(300_000, 0x1234)]
+  ];
+  for (const [name, data] of cases) {
+    const compressed = await compress(data, {}, 1021);
+    assert.deepEqual(compressed.subarray(0, 6), new Uint8Array([0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00]), name);
+    const restored = await decompress(compressed);
+    assert.deepEqual(restored, data, name);
+  }
+});
+
+test('xz compressor spans multiple LZMA2 chunks and stored chunks', async () => {
+  const data = new Uint8Array(3 * 1024 * 1024 + 17);
+  const noise = pseudoRandomBytes(data.length, 0xbeef);
+  for (let i = 0; i < data.length; i += 1) {
+    data[i] = (i >> 16) % 3 === 0 ? noise[i]! : (i % 251) ^ ((i >> 12) & 7);
+  }
+  const compressed = await compress(data, { level: 1 }, 65_537);
+  assert.ok(compressed.length < data.length);
+  assert.deepEqual(await decompress(compressed), data);
+});
+
+test('xz compressor writes the selected integrity check', async () => {
+  const data = encoder.encode('check selection '.repeat(64));
+  const checks: Array<[XzCheck, number]> = [
+    ['none', 0x00],
+    ['crc32', 0x01],
+    ['crc64', 0x04],
+    ['sha256', 0x0a]
+  ];
+  for (const [xzCheck, id] of checks) {
+    const compressed = await compress(data, { xzCheck });
+    assert.equal(compressed[7], id, xzCheck);
+    assert.equal(compressed[compressed.length - 3], id, xzCheck);
+    assert.deepEqual(await decompress(compressed), data, xzCheck);
+  }
+  const defaulted = await compress(data, {});
+  assert.equal(defaulted[7], 0x04);
+});
+
+test('xz compressor output is deterministic across levels and chunking', async () => {
+  const data = encoder.encode(Array.from({ length: 5000 }, (_, i) => `line ${i % 97} ${i}`).join('\n'));
+  for (const level of [0, 9]) {
+    const whole = await compress(data, { level });
+    const chunked = await compress(data, { level }, 7);
+    assert.deepEqual(chunked, whole);
+    assert.deepEqual(await decompress(whole), data);
+  }
+});
+
+test('xz compressor rejects out-of-range levels', () => {
+  for (const level of [-1, 1.5, 10, 12]) {
+    assert.throws(() => createCompressor({ algorithm: 'xz', level }), {
+      name: 'RangeError',
+      message: `LZMA preset level must be an integer between 0 and 9 (got ${level})`
+    });
+  }
+});
+
+async function compress(
+  data: Uint8Array,
+  options: { level?: number; xzCheck?: XzCheck },
+  chunkSize = 0
+): Promise<Uint8Array> {
+  const source = chunkSize > 0 ? chunkedStream(data, chunkSize) : chunkedStream(data, Math.max(1, data.length));
+  return collect(source.pipeThrough(createCompressor({ algorithm: 'xz', ...options })));
+}
+
+async function decompress(data: Uint8Array): Promise<Uint8Array> {
+  return collect(chunkedStream(data, Math.max(1, data.length)).pipeThrough(createDecompressor({ algorithm: 'xz' })));
+}
+
+function chunkedStream(data: Uint8Array, chunkSize: number): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let offset = 0; offset < data.length; offset += chunkSize) {
+        controller.enqueue(data.slice(offset, offset + chunkSize));
+      }
+      controller.close();
+    }
+  });
+}
+
+function pseudoRandomBytes(length: number, seed: number): Uint8Array {
+  const out = new Uint8Array(length);
+  let state = seed >>> 0;
+  for (let i = 0; i < length; i += 1) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    out[i] = state >>> 24;
+  }
+  return out;
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    if (!value) continue;
+    chunks.push(value);
+    total += value.length;
+  }
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
@@ -0,0 +1,408 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as zlib from 'node:zlib';
+import { listCompressionCodecs, ZipReader, ZipWriter, type ZipWriterOptions } from '@ismail-elkorchi/bytefold/node/zip';
+
+const encoder = new TextEncoder();
+
+test('bzip2, LZMA and XZ entries round-trip through ZipWriter and ZipReader', async () => {
+  const payload = samplePayload();
+  const zip = await writeZip(async (writer) => {
+    await writer.add('bzip2.bin', payload, { method: 12 });
+    await writer.add('lzma.bin', payload, { method: 14 });
+    await writer.add('xz.bin', payload, { method: 95 });
+    await writer.add('empty.lzma', new Uint8Array(0), { method: 14 });
+  });
+  const reader = await ZipReader.fromUint8Array(zip);
+  const entries = reader.entries();
+  assert.deepEqual(
+    entries.map((entry) => [entry.name, entry.method, entry.flags & 0x06]),
+    [
+      ['bzip2.bin', 12, 0],
+      ['lzma.bin', 14, 0x02],
+      ['xz.bin', 95, 0],
+      ['empty.lzma', 14, 0x02]
+    ]
+  );
+  for (const entry of entries) {
+    const expected = entry.name === 'empty.lzma' ? new Uint8Array(0) : payload;
+    assert.deepEqual(await readEntry(reader, entry.name), expected, entry.name);
+    assert.ok(entry.compressedSize < entry.uncompressedSize || entry.uncompressedSize === 0n);
+  }
+  assert.equal((await reader.audit()).ok, true);
+  const lzma = entries.find((entry) => entry.name === 'lzma.bin')!;
+  const local = Number(lzma.offset);
+  const header = zip.subarray(local + 30 + zip[local + 26]! + (zip[local + 28]! | (zip[local + 29]! << 8)));
+  assert.deepEqual([...header.subarray(2, 5)], [5, 0, 0x5d], 'LZMA properties header (size 5, lc3 lp0 pb2)');
+});
+
+test('LZMA entries without the end-marker flag are bounded by the recorded size', async () => {
+  const payload = samplePayload();
+  const zip = await writeZip(async (writer) => {
+    await writer.add('lzma.bin', payload, { method: 14 });
+  });
+  // Clear general-purpose bit 1 in the local and central headers; the trailing marker is then ignored.
+  const patched = zip.slice();
+  patched[6] = patched[6]! & ~0x02;
+  const central = findSignature(patched, 0x02014b50);
+  patched[central + 8] = patched[central + 8]! & ~0x02;
+  const reader = await ZipReader.fromUint8Array(patched);
+  assert.equal(reader.entries()[0]!.flags & 0x02, 0);
+  assert.deepEqual(await readEntry(reader, 'lzma.bin'), payload);
+});
+
+test('LZMA codec decodes input split into single bytes and rejects a missing end marker', async () => {
+  const codec = listCompressionCodecs().find((entry) => entry.methodId === 14);
+  assert.ok(codec?.createCompressStream);
+  assert.equal(codec.generalPurposeFlags?.(), 0x02);
+  const payload = samplePayload();
+  const compressed = await pipe([payload], await codec.createCompressStream());
+  const singleBytes = Array.from(compressed, (byte) => new Uint8Array([byte]));
+  const decoded = await pipe(singleBytes, await codec.createDecompressStream({ flags: 0x02 }));
+  assert.deepEqual(decoded, payload);
+
+  await assert.rejects(
+    async () => pipe([compressed.subarray(0, compressed.length - 6)], await codec.createDecompressStream({ flags: 0x02 })),
+    (err: unknown) => (err as { code?: string }).code === 'COMPRESSION_LZMA_BAD_DATA'
+  );
+});
+
+test('Deflate64 entries round-trip with long matches, distances past 32 KiB and chunked decoding', async () => {
+  const noise = samplePayload().subarray(-4096);
+  // A block repeated 40 KiB later needs a Deflate64 distance code; the zero run needs length code 285.
+  const block = new Uint8Array(40 * 1024);
+  for (let i = 0; i < block.length; i += 1) block[i] = noise[i % noise.length]! ^ (i >>> 12);
+  const payload = new Uint8Array(block.length * 2 + 65536);
+  payload.set(block, 0);
+  payload.set(block, block.length);
+  const zip = await writeZip(async (writer) => {
+    await writer.add('deflate64.bin', payload, { method: 9 });
+    await writer.add('empty.bin', new Uint8Array(0), { method: 9 });
+  });
+  const reader = await ZipReader.fromUint8Array(zip);
+  assert.deepEqual(
+    reader.entries().map((entry) => [entry.name, entry.method]),
+    [
+      ['deflate64.bin', 9],
+      ['empty.bin', 9]
+    ]
+  );
+  assert.deepEqual(await readEntry(reader, 'deflate64.bin'), payload);
+  assert.deepEqual(await readEntry(reader, 'empty.bin'), new Uint8Array(0));
+  assert.ok(reader.entries()[0]!.compressedSize < BigInt(block.length + 1024));
+
+  const codec = listCompressionCodecs().find((entry) => entry.methodId === 9);
+  assert.ok(codec?.createCompressStream);
+  const compressed = await pipe([payload], await codec.createCompressStream());
+  assert.deepEqual(await pipe([payload], await codec.createCompressStream()), compressed, 'deterministic output');
+  const singleBytes = Array.from(compressed, (byte) => new Uint8Array([byte]));
+  assert.deepEqual(await pipe(singleBytes, await codec.createDecompressStream()), payload);
+});
+
+test('codec options reach the compressor and deflate levels are recorded in flag bits 1-2', async () => {
+  const payload = samplePayload();
+  const zip = await writeZip(
+    async (writer) => {
+      await writer.add('default.bin', payload);
+      await writer.add('fast.bin', payload, { compression: { level: 2 } });
+      await writer.add('superfast.bin', payload, { compression: { level: 1 } });
+      await writer.add('normal.bin', payload, { compression: { level: 6 } });
+      await writer.add('huffman.bin', payload, { compression: { strategy: 'huffman-only' } });
+      await writer.add('bzip2.bin', payload, { method: 12, compression: { level: 1 } });
+      await writer.add('deflate64.bin', payload, { method: 9 });
+      await writer.add('deflate64-fast.bin', payload, { method: 9, compression: { level: 0 } });
+    },
+    { compression: { level: 9 } }
+  );
+  const reader = await ZipReader.fromUint8Array(zip);
+  const entries = reader.entries();
+  assert.deepEqual(
+    entries.map((entry) => [entry.name, entry.flags & 0x06]),
+    [
+      ['default.bin', 0x02],
+      ['fast.bin', 0x04],
+      ['superfast.bin', 0x06],
+      ['normal.bin', 0],
+      ['huffman.bin', 0x02],
+      ['bzip2.bin', 0],
+      ['deflate64.bin', 0x02],
+      ['deflate64-fast.bin', 0x06]
+    ]
+  );
+  for (const entry of entries) {
+    assert.deepEqual(await readEntry(reader, entry.name), payload, entry.name);
+  }
+  const size = (name: string) => entries.find((entry) => entry.name === name)!.compressedSize;
+  assert.ok(size('huffman.bin') > size('default.bin'), 'huffman-only skips string matching');
+  assert.ok(size('deflate64-fast.bin') > size('deflate64.bin'), 'Deflate64 level 0 emits literals only');
+  assert.equal(zip[6]! & 0x06, 0x02, 'local header carries the level bits');
+});
+
+test('zstd entries honor windowLog and a shared dictionary', async (t) => {
+  if (typeof zlib.createZstdCompress !== 'function') {
+    t.skip('zstd not available');
+    return;
+  }
+  const dictionary = encoder.encode('{"status":"ok","region":"eu-west","payload":"bytefold"}\n'.repeat(8));
+  const record = encoder.encode('{"status":"ok","region":"eu-west","payload":"bytefold"}\n');
+  const zip = await writeZip(async (writer) => {
+    await writer.add('plain.json', record, { method: 93, compression: { level: 19, windowLog: 10 } });
+    await writer.add('dict.json', record, { method: 93, compression: { dictionary } });
+  });
+  const reader = await ZipReader.fromUint8Array(zip);
+  const [plain, withDictionary] = reader.entries();
+  assert.deepEqual(await readEntry(reader, 'plain.json'), record);
+  assert.ok(withDictionary!.compressedSize < plain!.compressedSize);
+
+  const codec = listCompressionCodecs().find((entry) => entry.methodId === 93)!;
+  const raw = new Uint8Array(await new Response(await reader.openRaw(withDictionary!)).arrayBuffer());
+  assert.deepEqual(await pipe([raw], await codec.createDecompressStream({ dictionary })), record);
+  await assert.rejects(async () => readEntry(reader, 'dict.json'));
+
+  const opened = await reader.open(withDictionary!, { dictionary });
+  assert.deepEqual(new Uint8Array(await new Response(opened).arrayBuffer()), record);
+  const withDefault = await ZipReader.fromUint8Array(zip, { dictionary });
+  assert.deepEqual(await readEntry(withDefault, 'dict.json'), record);
+  assert.deepEqual(await readEntry(withDefault, 'plain.json'), record);
+});
+
+test('defaultMethod auto stores compressed or high-entropy entries and reports each decision', async () => {
+  const text = encoder.encode('bytefold zip method payload '.repeat(200));
+  const noise = samplePayload().subarray(-4096);
+  const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...text.subarray(0, 200)]);
+  const gz = new Uint8Array(zlib.gzipSync(text));
+  const chunks: Uint8Array[] = [];
+  const writer = ZipWriter.toWritable(
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(new Uint8Array(chunk));
+      }
+    }),
+    { defaultMethod: 'auto' }
+  );
+  await writer.add('notes.txt', text);
+  await writer.add('noise.bin', noise);
+  await writer.add('image.png', png);
+  await writer.add('notes.txt.gz', gz);
+  await writer.add('dir/', new Uint8Array(0));
+  await writer.add(
+    'streamed.txt',
+    (async function* () {
+      yield new Uint8Array(0);
+      yield text;
+    })()
+  );
+  await writer.add('forced.png', png, { method: 8 });
+  const summary = await writer.close();
+
+  assert.equal(summary.entries, 7);
+  assert.deepEqual(
+    summary.methodSelections.map(({ entryName, method, reason, signature }) => [entryName, method, reason, signature]),
+    [
+      ['notes.txt', 8, 'compressible', undefined],
+      ['noise.bin', 0, 'entropy', undefined],
+      ['image.png', 0, 'signature', 'png'],
+      ['notes.txt.gz', 0, 'signature', 'gz'],
+      ['dir/', 0, 'empty', undefined],
+      ['streamed.txt', 8, 'compressible', undefined]
+    ]
+  );
+  assert.ok(summary.methodSelections[1]!.entropy! > 7.5);
+  assert.ok(summary.methodSelections[0]!.entropy! < 5);
+
+  const reader = await ZipReader.fromUint8Array(concat(chunks));
+  assert.deepEqual(
+    reader.entries().map((entry) => entry.method),
+    [8, 0, 0, 0, 0, 8, 8]
+  );
+  assert.deepEqual(await readEntry(reader, 'streamed.txt'), text);
+  assert.deepEqual(await readEntry(reader, 'noise.bin'), noise);
+  assert.deepEqual(await readEntry(reader, 'image.png'), png);
+});
+
+test('concurrency compresses entries in parallel and writes the same bytes as a serial writer', async () => {
+  const payload = samplePayload();
+  const mtime = new Date('2024-01-02T03:04:05Z');
+  const large = new Uint8Array(33 * 1024 * 1024);
+  for (let i = 0; i < large.length; i += 4096) large.set(payload.subarray(0, 4096), i);
+  const fill = async (writer: ZipWriter) => {
+    await writer.add('deflate.bin', payload, { method: 8, mtime });
+    await writer.add('bzip2.bin', payload, { method: 12, mtime });
+    await writer.add('zstd.bin', payload, { method: 93, mtime });
+    await writer.add('stored.bin', payload, { method: 0, mtime });
+    await writer.add('large.bin', large, { method: 8, mtime });
+    await writer.add('empty.bin', new Uint8Array(0), { method: 8, mtime });
+    await writer.add('dir/', new Uint8Array(0), { mtime });
+    await writer.add(
+      'streamed.txt',
+      (async function* () {
+        yield payload.subarray(0, 1000);
+        yield payload.subarray(1000);
+      })(),
+      { method: 8, mtime }
+    );
+  };
+  const serial = await writeZip(fill);
+  const parallel = await writeZip(fill, { concurrency: 4 });
+  assert.deepEqual(parallel, serial);
+
+  const reader = await ZipReader.fromUint8Array(parallel);
+  assert.deepEqual(await readEntry(reader, 'zstd.bin'), payload);
+  assert.deepEqual(await readEntry(reader, 'streamed.txt'), payload);
+  assert.deepEqual(await readEntry(reader, 'large.bin'), large);
+});
+
+test('concurrency validates its value and surfaces entry failures from add or close', async () => {
+  const sink = () => new WritableStream<Uint8Array>();
+  assert.throws(() => ZipWriter.toWritable(sink(), { concurrency: 0 }), RangeError);
+  assert.throws(() => ZipWriter.toWritable(sink(), { concurrency: 1.5 }), RangeError);
+
+  const writer = ZipWriter.toWritable(sink(), { concurrency: 2 });
+  const failed = (async () => {
+    await writer.add('bad.bin', encoder.encode('payload'), { method: 77 });
+    await writer.add('ok.bin', encoder.encode('payload'));
+    await writer.add('ok2.bin', encoder.encode('payload'));
+    await writer.add('ok3.bin', encoder.encode('payload'));
+    await writer.close();
+  })();
+  await assert.rejects(failed, (err: unknown) => (err as { code?: string }).code === 'ZIP_UNSUPPORTED_METHOD');
+});
+
+test('addRaw copies compressed and encrypted members verbatim between archives', async () => {
+  const payload = samplePayload();
+  const mtime = new Date('2024-03-04T05:06:08Z');
+  const source = await ZipReader.fromUint8Array(
+    await writeZip(async (writer) => {
+      await writer.add('deflate.bin', payload, { method: 8, mtime });
+      await writer.add('bzip2.bin', payload, { method: 12, mtime, comment: 'kept comment' });
+      await writer.add('secret.txt', payload, { encryption: { type: 'aes', password: 'pw' }, mtime });
+      await writer.add('skip.txt', encoder.encode('filtered out'), { mtime });
+    })
+  );
+  const merged = await writeZip(async (writer) => {
+    await writer.add('fresh.txt', encoder.encode('fresh'), { mtime });
+    for (const entry of source.entries()) {
+      if (entry.name === 'skip.txt') continue;
+      await writer.addRaw(entry, await source.openRaw(entry), entry.name === 'deflate.bin' ? { name: 'renamed.bin' } : {});
+    }
+  });
+
+  const reader = await ZipReader.fromUint8Array(merged, { password: 'pw' });
+  const entries = reader.entries();
+  assert.deepEqual(
+    entries.map((entry) => [entry.name, entry.method, entry.encrypted, entry.flags & 0x08]),
+    [
+      ['fresh.txt', 8, false, 0x08],
+      ['renamed.bin', 8, false, 0],
+      ['bzip2.bin', 12, false, 0],
+      ['secret.txt', 99, true, 0]
+    ]
+  );
+  for (const name of ['renamed.bin', 'bzip2.bin', 'secret.txt']) {
+    const copied = entries.find((entry) => entry.name === name)!;
+    const original = source.entries().find((entry) => entry.name === (name === 'renamed.bin' ? 'deflate.bin' : name))!;
+    assert.equal(copied.compressedSize, original.compressedSize, name);
+    assert.equal(copied.crc32, original.crc32, name);
+    assert.deepEqual(await readEntry(reader, name), payload, name);
+  }
+  assert.equal(entries.find((entry) => entry.name === 'bzip2.bin')!.comment, 'kept comment');
+  assert.equal((await reader.audit()).ok, true);
+
+  const writer = ZipWriter.toWritable(new WritableStream<Uint8Array>());
+  await assert.rejects(writer.addRaw('bare.bin', new Uint8Array(4), { method: 8 }), {
+    code: 'ZIP_UNSUPPORTED_FEATURE'
+  });
+  await assert.rejects(
+    writer.addRaw('short.bin', new Uint8Array(4), { method: 0, crc32: 0, compressedSize: 5n, uncompressedSize: 5n }),
+    { code: 'ZIP_TRUNCATED' }
+  );
+});
+
+test('addRaw keeps the data descriptor and DOS time that ZipCrypto password checks rely on', async () => {
+  const payload = samplePayload();
+  const source = await ZipReader.fromUint8Array(
+    await writeZip(async (writer) => {
+      await writer.add('legacy.txt', payload, {
+        encryption: { type: 'zipcrypto', password: 'pw' },
+        mtime: new Date('2024-03-04T05:06:08Z')
+      });
+    })
+  );
+  const [original] = source.entries();
+  assert.equal(original!.flags & 0x09, 0x09);
+
+  // A different hour would change the check byte if the DOS time were re-derived from mtime.
+  const copied = await writeZip(async (writer) => {
+    await writer.addRaw(original!, await source.openRaw(original!), { mtime: new Date('2024-03-04T11:36:08Z') });
+  });
+  const reader = await ZipReader.fromUint8Array(copied, { password: 'pw' });
+  const [entry] = reader.entries();
+  assert.equal(entry!.flags & 0x09, 0x09);
+  assert.equal(entry!.compressedSize, original!.compressedSize);
+  assert.deepEqual(await readEntry(reader, 'legacy.txt'), payload);
+  assert.equal((await reader.audit()).ok, true);
+});
+
+function samplePayload(): Uint8Array {
+  const text = encoder.encode('bytefold zip method payload '.repeat(2000));
+  const noise = new Uint8Array(4096);
+  let seed = 0x1234;
+  for (let i = 0; i < noise.length; i += 1) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    noise[i] = seed >>> 24;
+  }
+  const out = new Uint8Array(text.length + noise.length);
+  out.set(text, 0);
+  out.set(noise, text.length);
+  return out;
+}
+
+async function writeZip(fill: (writer: ZipWriter) => Promise<void>, options?: ZipWriterOptions): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  const writer = ZipWriter.toWritable(
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(new Uint8Array(chunk));
+      }
+    }),
+    options
+  );
+  await fill(writer);
+  await writer.close();
+  return concat(chunks);
+}
+
+async function readEntry(reader: ZipReader, name: string): Promise<Uint8Array> {
+  const entry = reader.entries().find((candidate) => candidate.name === name);
+  assert.ok(entry, `missing entry ${name}`);
+  return new Uint8Array(await new Response(await reader.open(entry)).arrayBuffer());
+}
+
+async function pipe(chunks: Uint8Array[], transform: ReadableWritablePair<Uint8Array, Uint8Array>): Promise<Uint8Array> {
+  const source = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+      controller.close();
+    }
+  });
+  return new Uint8Array(await new Response(source.pipeThrough(transform)).arrayBuffer());
+}
+
+function findSignature(buffer: Uint8Array, signature: number): number {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  for (let i = buffer.length - 4; i >= 0; i -= 1) {
+    if (view.getUint32(i, true) === signature) return i;
+  }
+  throw new Error(`signature 0x${signature.toString(16)} not found`);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
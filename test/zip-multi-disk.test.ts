@@ -0,0 +1,157 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { ZipError, ZipReader } from '@ismail-elkorchi/bytefold/zip';
+import { ZipReader as NodeZipReader } from '@ismail-elkorchi/bytefold/node/zip';
+
+const FIXTURE_ROOT = new URL('../test/fixtures/thirdparty/zip/', import.meta.url);
+const SEGMENTS = ['split.z01', 'split.z02', 'split.zip'];
+const PAYLOAD_SHA256 = '1daa73ec7a4f409b0563bcc63e233c6ffc5b0e8a9f980069e5d43856069df134';
+
+test('fromRandomAccessSet stitches Info-ZIP split segments into one archive', async () => {
+  const segments = await readSegments();
+  const reader = await ZipReader.fromRandomAccessSet(segments.map((bytes) => new BytesAccess(bytes)));
+  const entries = reader.entries();
+  assert.deepEqual(
+    entries.map((entry) => entry.name),
+    ['notes.txt', 'payload.bin', 'tail.txt']
+  );
+  const contents = new Map<string, Uint8Array>();
+  for (const entry of entries) {
+    contents.set(entry.name, await collect(await reader.open(entry)));
+  }
+  assert.equal(new TextDecoder().decode(contents.get('notes.txt')), 'split archive notes\n');
+  assert.equal(sha256(contents.get('payload.bin')!), PAYLOAD_SHA256);
+  assert.equal(new TextDecoder().decode(contents.get('tail.txt')), 'tail on the last disk\n');
+
+  const tail = entries.find((entry) => entry.name === 'tail.txt')!;
+  assert.ok(tail.offset >= BigInt(segments[0]!.length + segments[1]!.length), 'offset is logical');
+
+  const report = await reader.audit();
+  assert.equal(report.ok, true, JSON.stringify(report.issues));
+  assert.equal(report.summary.entries, 3);
+});
+
+test('Node fromFiles reads split segments from disk', async () => {
+  const reader = await NodeZipReader.fromFiles(SEGMENTS.map((name) => new URL(name, FIXTURE_ROOT)));
+  try {
+    const payload = reader.entries().find((entry) => entry.name === 'payload.bin')!;
+    assert.equal(sha256(await collect(await reader.open(payload))), PAYLOAD_SHA256);
+    assert.equal((await reader.audit()).ok, true);
+  } finally {
+    await reader.close();
+  }
+});
+
+test('last split segment alone is still rejected as multi-disk', async () => {
+  const [, , last] = await readSegments();
+  await assert.rejects(
+    () => ZipReader.fromUint8Array(last!),
+    (err: unknown) => err instanceof ZipError && err.code === 'ZIP_UNSUPPORTED_FEATURE'
+  );
+});
+
+test('missing segments and inconsistent disk numbers are reported', async () => {
+  const [first, second, last] = await readSegments();
+  await assert.rejects(
+    () => ZipReader.fromRandomAccessSet([new BytesAccess(first!), new BytesAccess(last!)]),
+    (err: unknown) => err instanceof ZipError && err.code === 'ZIP_BAD_EOCD' && /missing disk/.test(err.message)
+  );
+
+  const patched = patchEocdDiskNumber(last!, 5);
+  const segments = () => [first!, second!, patched].map((bytes) => new BytesAccess(bytes));
+  await assert.rejects(
+    () => ZipReader.fromRandomAccessSet(segments()),
+    (err: unknown) => err instanceof ZipError && err.code === 'ZIP_BAD_EOCD'
+  );
+  const reader = await ZipReader.fromRandomAccessSet(segments(), { profile: 'compat' });
+  assert.ok(reader.warnings().some((warning) => warning.code === 'ZIP_DISK_MISMATCH'));
+  const strictReport = await reader.audit({ profile: 'strict' });
+  assert.equal(strictReport.ok, false);
+  assert.equal(strictReport.issues.find((issue) => issue.code === 'ZIP_DISK_MISMATCH')?.severity, 'error');
+
+  const badEntry = patchCentralDiskStart(last!, 'tail.txt', 7);
+  const badReader = await ZipReader.fromRandomAccessSet(
+    [first!, second!, badEntry].map((bytes) => new BytesAccess(bytes)),
+    { shouldStoreEntries: false }
+  );
+  const report = await badReader.audit();
+  assert.equal(report.ok, false);
+  const issue = report.issues.find((item) => item.code === 'ZIP_BAD_CENTRAL_DIRECTORY');
+  assert.equal(issue?.entryName, 'tail.txt');
+  assert.match(issue?.message ?? '', /missing disk 7/);
+});
+
+class BytesAccess {
+  constructor(private readonly data: Uint8Array) {}
+
+  async size(): Promise<bigint> {
+    return BigInt(this.data.length);
+  }
+
+  async read(offset: bigint, length: number): Promise<Uint8Array> {
+    const start = Number(offset);
+    return this.data.subarray(start, Math.min(this.data.length, start + length));
+  }
+
+  async close(): Promise<void> {}
+}
+
+async function readSegments(): Promise<Uint8Array[]> {
+  return Promise.all(SEGMENTS.map(async (name) => new Uint8Array(await readFile(new URL(name, FIXTURE_ROOT)))));
+}
+
+function patchEocdDiskNumber(segment: Uint8Array, diskNumber: number): Uint8Array {
+  const out = segment.slice();
+  const view = new DataView(out.buffer);
+  const eocd = lastIndexOfSignature(out, 0x06054b50);
+  view.setUint16(eocd + 4, diskNumber, true);
+  return out;
+}
+
+function patchCentralDiskStart(segment: Uint8Array, name: string, disk: number): Uint8Array {
+  const out = segment.slice();
+  const view = new DataView(out.buffer);
+  const encodedName = new TextEncoder().encode(name);
+  for (let i = 0; i + 46 <= out.length; i += 1) {
+    if (view.getUint32(i, true) !== 0x02014b50) continue;
+    const nameLength = view.getUint16(i + 28, true);
+    const candidate = out.subarray(i + 46, i + 46 + nameLength);
+    if (candidate.length === encodedName.length && candidate.every((byte, index) => byte === encodedName[index])) {
+      view.setUint16(i + 34, disk, true);
+      return out;
+    }
+  }
+  throw new Error(`central directory entry not found: ${name}`);
+}
+
+function lastIndexOfSignature(bytes: Uint8Array, signature: number): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let i = bytes.length - 4; i >= 0; i -= 1) {
+    if (view.getUint32(i, true) === signature) return i;
+  }
+  throw new Error('signature not found');
+}
+
+function sha256(bytes: Uint8Array): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    if (value) chunks.push(value);
+  }
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
@@ -0,0 +1,173 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ZipError, ZipReader, ZipWriter } from '@ismail-elkorchi/bytefold/zip';
+import {
+  ZipReader as NodeZipReader,
+  ZipWriter as NodeZipWriter,
+  type ZipSplitOptions
+} from '@ismail-elkorchi/bytefold/node/zip';
+
+const SEGMENT_BYTES = 64 * 1024;
+const encoder = new TextEncoder();
+
+test('toSplit writes spec-shaped segments that round-trip through fromRandomAccessSet', async () => {
+  const { split, segments } = collectSegments(SEGMENT_BYTES);
+  const writer = ZipWriter.toSplit({ split });
+  const big = patternBytes(200_000);
+  await writer.add('a.txt', encoder.encode('hello'));
+  await writer.add('big.bin', big, { method: 0 });
+  await writer.add('dir/', new Uint8Array(0));
+  await writer.add('deflated.txt', encoder.encode('x'.repeat(100_000)));
+  await writer.close('split comment');
+
+  const parts = segments.map(concat);
+  assert.ok(parts.length >= 4, `expected several segments, got ${parts.length}`);
+  assert.ok(parts.every((part) => part.length <= SEGMENT_BYTES));
+  assert.deepEqual(Array.from(parts[0]!.subarray(0, 4)), [0x50, 0x4b, 0x07, 0x08]);
+
+  const last = parts[parts.length - 1]!;
+  const eocd = findEocd(last);
+  assert.equal(eocd.disk, parts.length - 1);
+  assert.equal(eocd.totalEntries, 4);
+
+  const reader = await ZipReader.fromRandomAccessSet(parts.map((part) => new BytesAccess(part)));
+  const entries = reader.entries();
+  assert.deepEqual(
+    entries.map((entry) => entry.name),
+    ['a.txt', 'big.bin', 'dir/', 'deflated.txt']
+  );
+  assert.deepEqual(await collect(await reader.open(entries[1]!)), big);
+  assert.equal(new TextDecoder().decode(await collect(await reader.open(entries[3]!))), 'x'.repeat(100_000));
+  assert.equal((await reader.audit()).ok, true);
+
+  const starts = segmentStarts(parts);
+  for (const entry of entries) {
+    let disk = starts.length - 1;
+    while (starts[disk]! > entry.offset) disk -= 1;
+    const headerEnd = entry.offset + 30n + BigInt(entry.rawNameBytes.length);
+    assert.ok(headerEnd <= starts[disk]! + BigInt(parts[disk]!.length), `${entry.name} header straddles a segment`);
+  }
+});
+
+test('Node toSplit with forced ZIP64 records disk numbers in the ZIP64 EOCD and locator', async () => {
+  const { split, segments } = collectSegments(SEGMENT_BYTES);
+  const writer = NodeZipWriter.toSplit({ split, shouldForceZip64: true });
+  await writer.add('one.bin', patternBytes(90_000), { method: 0 });
+  await writer.add('two.txt', encoder.encode('second'));
+  await writer.close();
+
+  const parts = segments.map(concat);
+  const reader = await NodeZipReader.fromRandomAccessSet(
+    parts.map((part) => new BytesAccess(part)),
+    { isStrict: true }
+  );
+  assert.deepEqual(reader.warnings(), []);
+  const entries = reader.entries();
+  assert.equal(entries.every((entry) => entry.zip64), true);
+  assert.deepEqual(await collect(await reader.open(entries[0]!)), patternBytes(90_000));
+  assert.equal(new TextDecoder().decode(await collect(await reader.open(entries[1]!))), 'second');
+});
+
+test('split output validates segment size, factory, and oversized records', async () => {
+  assert.throws(
+    () => ZipWriter.toSplit({ split: { segmentBytes: 1024, openSegment: () => new WritableStream() } }),
+    RangeError
+  );
+  assert.throws(
+    () =>
+      ZipWriter.toWritable(new WritableStream(), {
+        split: { segmentBytes: SEGMENT_BYTES, openSegment: () => new WritableStream() }
+      }),
+    (err: unknown) => err instanceof ZipError && err.code === 'ZIP_UNSUPPORTED_FEATURE'
+  );
+
+  const { split } = collectSegments(SEGMENT_BYTES);
+  const writer = ZipWriter.toSplit({ split });
+  await assert.rejects(
+    () => writer.add('n'.repeat(65_535), encoder.encode('data')),
+    (err: unknown) => err instanceof ZipError && err.code === 'ZIP_LIMIT_EXCEEDED'
+  );
+});
+
+class BytesAccess {
+  constructor(private readonly data: Uint8Array) {}
+
+  async size(): Promise<bigint> {
+    return BigInt(this.data.length);
+  }
+
+  async read(offset: bigint, length: number): Promise<Uint8Array> {
+    const start = Number(offset);
+    return this.data.subarray(start, Math.min(this.data.length, start + length));
+  }
+
+  async close(): Promise<void> {}
+}
+
+function collectSegments(segmentBytes: number): { split: ZipSplitOptions; segments: Uint8Array[][] } {
+  const segments: Uint8Array[][] = [];
+  return {
+    segments,
+    split: {
+      segmentBytes,
+      openSegment(index) {
+        assert.equal(index, segments.length);
+        const chunks: Uint8Array[] = [];
+        segments.push(chunks);
+        return new WritableStream<Uint8Array>({
+          write(chunk) {
+            chunks.push(new Uint8Array(chunk));
+          }
+        });
+      }
+    }
+  };
+}
+
+function findEocd(bytes: Uint8Array): { disk: number; totalEntries: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let i = bytes.length - 22; i >= 0; i -= 1) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      return { disk: view.getUint16(i + 4, true), totalEntries: view.getUint16(i + 10, true) };
+    }
+  }
+  throw new Error('EOCD not found');
+}
+
+function segmentStarts(parts: Uint8Array[]): bigint[] {
+  const starts: bigint[] = [];
+  let total = 0n;
+  for (const part of parts) {
+    starts.push(total);
+    total += BigInt(part.length);
+  }
+  return starts;
+}
+
+function patternBytes(length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  for (let i = 0; i < length; i += 1) out[i] = (i * 31 + (i >> 8)) & 0xff;
+  return out;
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    if (value) chunks.push(value);
+  }
+  return concat(chunks);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
@@ -0,0 +1,216 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { ZipReader, ZipUpdater, ZipWriter } from '@ismail-elkorchi/bytefold/node/zip';
+
+const encoder = new TextEncoder();
+const mtime = new Date('2024-05-06T07:08:10Z');
+
+test('ZipUpdater appends, replaces, deletes and renames without moving kept records', async () => {
+  await withArchive(async (file) => {
+    const before = await readFile(file);
+    const original = await ZipReader.fromFile(file);
+    const keptOffset = original.entries().find((entry) => entry.name === 'keep.txt')!.offset;
+    const renamedOffset = original.entries().find((entry) => entry.name === 'rename-me.txt')!.offset;
+    await original.close();
+
+    const updater = await ZipUpdater.open(file);
+    updater.delete('drop.bin');
+    updater.rename('rename-me.txt', 'docs/renamed-é.txt');
+    await updater.add('added.txt', encoder.encode('appended payload'), { mtime });
+    await updater.add('replace.txt', encoder.encode('replacement'), { mtime });
+    assert.deepEqual(updater.names(), ['keep.txt', 'docs/renamed-é.txt', 'added.txt', 'replace.txt']);
+    const report = await updater.close();
+
+    assert.equal(report.entries, 4);
+    assert.equal(report.appendedEntries, 2);
+    assert.equal(report.deletedEntries, 2);
+    assert.equal(report.renamedEntries, 1);
+    assert.equal(report.reclaimedBytes, 0n);
+    assert.ok(report.deadBytes > 0n);
+    // The longer name no longer fits, so the renamed record moved behind the appended ones.
+    assert.deepEqual(
+      report.audit.issues.filter((issue) => issue.severity === 'error'),
+      [],
+      JSON.stringify(report.audit.issues)
+    );
+
+    const after = await readFile(file);
+    assert.deepEqual(after.subarray(0, Number(keptOffset) + 64), before.subarray(0, Number(keptOffset) + 64));
+    const reader = await ZipReader.fromFile(file);
+    try {
+      assert.deepEqual(
+        reader.entries().map((entry) => entry.name),
+        ['keep.txt', 'docs/renamed-é.txt', 'added.txt', 'replace.txt']
+      );
+      assert.equal(await readText(reader, 'keep.txt'), 'keep '.repeat(500));
+      assert.equal(await readText(reader, 'docs/renamed-é.txt'), 'rename me');
+      assert.equal(await readText(reader, 'added.txt'), 'appended payload');
+      assert.equal(await readText(reader, 'replace.txt'), 'replacement');
+      assert.equal(reader.entries().find((entry) => entry.name === 'keep.txt')!.offset, keptOffset);
+      assert.ok(reader.entries().find((entry) => entry.name === 'docs/renamed-é.txt')!.offset > renamedOffset);
+    } finally {
+      await reader.close();
+    }
+    assert.equal(new TextDecoder().decode(after.subarray(after.length - 'archive note'.length)), 'archive note');
+  });
+});
+
+test('ZipUpdater compaction moves live records over dead space and truncates the file', async () => {
+  await withArchive(async (file) => {
+    const sizeBefore = (await stat(file)).size;
+    const updater = await ZipUpdater.open(file);
+    updater.delete('drop.bin');
+    updater.rename('rename-me.txt', 'rename-it.txt');
+    await updater.add('replace.txt', encoder.encode('replacement'), { mtime });
+    const report = await updater.close(undefined, { shouldCompact: true });
+
+    assert.equal(report.deadBytes, 0n);
+    assert.ok(report.reclaimedBytes > 20_000n);
+    assert.equal(report.audit.ok, true, JSON.stringify(report.audit.issues));
+    assert.ok((await stat(file)).size < sizeBefore - 20_000);
+
+    const reader = await ZipReader.fromFile(file);
+    try {
+      const entries = reader.entries();
+      assert.deepEqual(
+        entries.map((entry) => [entry.name, entry.offset > 0n]),
+        [
+          ['keep.txt', false],
+          ['rename-it.txt', true],
+          ['replace.txt', true]
+        ]
+      );
+      assert.equal(await readText(reader, 'rename-it.txt'), 'rename me');
+      assert.equal(await readText(reader, 'replace.txt'), 'replacement');
+    } finally {
+      await reader.close();
+    }
+  });
+});
+
+test('ZipUpdater counts and compacts dead space left by earlier sessions', async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), 'bytefold-update-'));
+  try {
+    const file = path.join(dir, 'archive.zip');
+    // A non-seekable writer streams each entry, so every record ends in a data descriptor.
+    const chunks: Uint8Array[] = [];
+    const writer = ZipWriter.toWritable(
+      new WritableStream<Uint8Array>({
+        write(chunk) {
+          chunks.push(chunk.slice());
+        }
+      })
+    );
+    for (const name of ['first.txt', 'second.txt', 'third.txt']) {
+      await writer.add(name, new Blob([`${name} `.repeat(40)]).stream(), { mtime });
+    }
+    await writer.close();
+    await writeFile(file, Buffer.concat(chunks));
+    const original = await ZipReader.fromFile(file);
+    const offsets = new Map(original.entries().map((entry) => [entry.name, entry.offset]));
+    assert.ok(original.entries().every((entry) => (entry.flags & 0x08) !== 0));
+    await original.close();
+
+    const first = await ZipUpdater.open(file);
+    await first.add('first.txt', encoder.encode('replaced'), { mtime });
+    const firstReport = await first.close();
+    const firstRecord = offsets.get('second.txt')! - offsets.get('first.txt')!;
+    assert.equal(firstReport.deadBytes, firstRecord);
+
+    const appended = await ZipReader.fromFile(file);
+    const thirdEnd = appended.entries().find((entry) => entry.name === 'first.txt')!.offset;
+    await appended.close();
+    const second = await ZipUpdater.open(file);
+    second.delete('third.txt');
+    const secondReport = await second.close();
+    assert.equal(secondReport.deadBytes, firstRecord + thirdEnd - offsets.get('third.txt')!);
+
+    const sizeBefore = (await stat(file)).size;
+    const third = await ZipUpdater.open(file);
+    const thirdReport = await third.close(undefined, { shouldCompact: true });
+    assert.equal(thirdReport.reclaimedBytes, secondReport.deadBytes);
+    assert.equal(thirdReport.deadBytes, 0n);
+    // Streamed records already differ from the central directory in their extra fields; compaction adds no issues.
+    assert.deepEqual(
+      thirdReport.audit.issues.filter((issue) => issue.severity === 'error' && issue.code !== 'ZIP_HEADER_MISMATCH'),
+      [],
+      JSON.stringify(thirdReport.audit.issues)
+    );
+    assert.equal(BigInt(sizeBefore - (await stat(file)).size), thirdReport.reclaimedBytes);
+
+    const reader = await ZipReader.fromFile(file);
+    try {
+      assert.deepEqual(
+        reader.entries().map((entry) => [entry.name, entry.offset === 0n]),
+        [
+          ['second.txt', true],
+          ['first.txt', false]
+        ]
+      );
+      assert.equal(await readText(reader, 'second.txt'), 'second.txt '.repeat(40));
+      assert.equal(await readText(reader, 'first.txt'), 'replaced');
+    } finally {
+      await reader.close();
+    }
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('ZipUpdater rejects unknown entries and rename collisions', async () => {
+  await withArchive(async (file) => {
+    const updater = await ZipUpdater.open(file);
+    assert.throws(() => updater.delete('missing.txt'), { code: 'ZIP_UNSUPPORTED_FEATURE' });
+    assert.throws(() => updater.rename('missing.txt', 'x.txt'), { code: 'ZIP_UNSUPPORTED_FEATURE' });
+    assert.throws(() => updater.rename('keep.txt', 'drop.bin'), { code: 'ZIP_NAME_COLLISION' });
+    const report = await updater.close();
+    assert.equal(report.entries, 4);
+    assert.equal(report.deadBytes, 0n);
+    assert.equal(report.audit.ok, true);
+    assert.throws(() => updater.delete('keep.txt'), { code: 'ZIP_UNSUPPORTED_FEATURE' });
+  });
+});
+
+test('ZipUpdater refuses archives with overlapping entries before writing', async () => {
+  await withArchive(async (file) => {
+    // Point the central record of drop.bin at keep.txt's local header.
+    const bytes = await readFile(file);
+    const nameAt = bytes.lastIndexOf(Buffer.from('drop.bin'));
+    bytes.writeUInt32LE(0, nameAt - 46 + 42);
+    await writeFile(file, bytes);
+
+    await assert.rejects(ZipUpdater.open(file), { code: 'ZIP_AUDIT_FAILED', entryName: 'drop.bin' });
+    assert.deepEqual(await readFile(file), bytes);
+  });
+});
+
+async function withArchive(run: (file: string) => Promise<void>): Promise<void> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'bytefold-update-'));
+  try {
+    const file = path.join(dir, 'archive.zip');
+    const writer = await ZipWriter.toFile(file);
+    const noise = new Uint8Array(30_000);
+    let seed = 7;
+    for (let i = 0; i < noise.length; i += 1) {
+      seed = (seed * 1103515245 + 12345) >>> 0;
+      noise[i] = seed >>> 24;
+    }
+    await writer.add('keep.txt', encoder.encode('keep '.repeat(500)), { mtime });
+    await writer.add('drop.bin', noise, { method: 0, mtime });
+    await writer.add('rename-me.txt', encoder.encode('rename me'), { mtime });
+    await writer.add('replace.txt', encoder.encode('original'), { mtime });
+    await writer.close('archive note');
+    await run(file);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function readText(reader: ZipReader, name: string): Promise<string> {
+  const entry = reader.entries().find((candidate) => candidate.name === name);
+  assert.ok(entry, `missing entry ${name}`);
+  return new Response(await reader.open(entry)).text();
+}
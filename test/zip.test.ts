@@ -285,6 +285,130 @@ test('extractAll rejects existing destination symlinks', async () => {
   }
 });
 
+test('extractAll applies filter, mapPath, and onExisting hooks', async () => {
+  const encoder = new TextEncoder();
+  const zip = await writeZip([
+    { name: 'pkg/bin/tool', data: encoder.encode('tool-v2'), method: 0 },
+    { name: 'pkg/README', data: encoder.encode('readme'), method: 0 },
+    { name: 'pkg/docs/skip.md', data: encoder.encode('docs'), method: 0 },
+    { name: 'top-level', data: encoder.encode('dropped'), method: 0 }
+  ]);
+  const reader = await ZipReader.fromUint8Array(zip);
+  const dir = await makeTempDir();
+  await mkdir(path.join(dir, 'bin'), { recursive: true });
+  await writeFile(path.join(dir, 'bin', 'tool'), 'tool-v1', 'utf8');
+  await writeFile(path.join(dir, 'README'), 'local-readme', 'utf8');
+  const stripOne = (entry: { name: string }) => entry.name.split('/').slice(1).join('/') || null;
+
+  await reader.extractAll(dir, {
+    filter: (entry) => !entry.name.endsWith('.md'),
+    mapPath: stripOne,
+    onExisting: 'skip'
+  });
+  assert.equal(await readFile(path.join(dir, 'bin', 'tool'), 'utf8'), 'tool-v1');
+  assert.deepEqual((await readdir(dir)).sort(), ['README', 'bin']);
+
+  await reader.extractAll(dir, {
+    filter: (entry) => entry.name !== 'pkg/README',
+    mapPath: stripOne,
+    onExisting: 'overwrite'
+  });
+  assert.equal(await readFile(path.join(dir, 'bin', 'tool'), 'utf8'), 'tool-v2');
+  assert.equal(await readFile(path.join(dir, 'README'), 'utf8'), 'local-readme');
+  assert.equal(await readFile(path.join(dir, 'docs', 'skip.md'), 'utf8'), 'docs');
+
+  await assert.rejects(
+    () => reader.extractAll(dir, { mapPath: (entry) => `../escape/${entry.name}` }),
+    (err: unknown) => err instanceof ZipError && err.code === 'ZIP_PATH_TRAVERSAL'
+  );
+  await assert.rejects(
+    () => reader.extractAll(dir, { mapPath: () => 'same.txt' }),
+    (err: unknown) => err instanceof ZipError && err.code === 'ZIP_NAME_COLLISION'
+  );
+});
+
+test('extractAll preserve restores masked modes and mtimes', async () => {
+  const mtime = new Date('2021-05-06T07:08:10Z');
+  const chunks: Uint8Array[] = [];
+  const writer = ZipWriter.toWritable(
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(new Uint8Array(chunk));
+      }
+    })
+  );
+  const encoder = new TextEncoder();
+  await writer.add('bin/run', encoder.encode('#!/bin/sh\n'), { mtime, externalAttributes: (0o104775 << 16) >>> 0 });
+  await writer.add('data.txt', encoder.encode('data'), { mtime, externalAttributes: (0o100666 << 16) >>> 0 });
+  await writer.add('plain.txt', encoder.encode('plain'), { mtime });
+  await writer.close();
+  const reader = await ZipReader.fromUint8Array(concat(chunks));
+
+  const dir = await makeTempDir();
+  await reader.extractAll(dir, { preserve: { mode: true, times: true } });
+  assert.equal((await stat(path.join(dir, 'bin', 'run'))).mode & 0o7777, 0o755);
+  assert.equal((await stat(path.join(dir, 'data.txt'))).mode & 0o7777, 0o644);
+  assert.equal((await stat(path.join(dir, 'data.txt'))).mtime.getTime(), mtime.getTime());
+  assert.equal((await stat(path.join(dir, 'plain.txt'))).mtime.getTime(), mtime.getTime());
+
+  const keepDir = await makeTempDir();
+  await reader.extractAll(keepDir, { preserve: { mode: true, umask: 0, shouldKeepSpecialBits: true } });
+  assert.equal((await stat(path.join(keepDir, 'bin', 'run'))).mode & 0o7777, 0o4775);
+  assert.equal((await stat(path.join(keepDir, 'data.txt'))).mode & 0o7777, 0o666);
+
+  const badDir = await makeTempDir();
+  await assert.rejects(() => reader.extractAll(badDir, { preserve: { mode: true, umask: 0o1000 } }), RangeError);
+});
+
+test('add writes Unix mode, owner and symlink metadata that ZipEntry decodes', async () => {
+  const chunks: Uint8Array[] = [];
+  const writer = ZipWriter.toWritable(
+    new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(new Uint8Array(chunk));
+      }
+    })
+  );
+  const encoder = new TextEncoder();
+  await writer.add('bin/run', encoder.encode('#!/bin/sh\n'), { mode: 0o755, uid: 1000, gid: 100 });
+  await writer.add('bin', new Uint8Array(0), { type: 'directory', uid: 0, gid: 0 });
+  await writer.add('bin/link', new Uint8Array(0), { symlinkTarget: 'run', uid: 70_000, gid: 70_001 });
+  await writer.add('plain.txt', encoder.encode('plain'));
+  await assert.rejects(() => writer.add('bad', new Uint8Array(0), { mode: 0o10000 }), RangeError);
+  await assert.rejects(
+    () => writer.add('bad', new Uint8Array(0), { type: 'directory', symlinkTarget: 'x' }),
+    (err: unknown) => err instanceof ZipError && err.code === 'ZIP_UNSUPPORTED_FEATURE'
+  );
+  for (const owner of [{ uid: 1000 }, { gid: 100 }]) {
+    await assert.rejects(
+      () => writer.add('bad', new Uint8Array(0), owner),
+      (err: unknown) => err instanceof ZipError && err.code === 'ZIP_UNSUPPORTED_FEATURE' && err.entryName === 'bad'
+    );
+  }
+  await writer.close();
+  const reader = await ZipReader.fromUint8Array(concat(chunks));
+
+  assert.deepEqual(
+    reader.entries().map((entry) => [entry.name, entry.isDirectory, entry.isSymlink, entry.mode, entry.uid, entry.gid]),
+    [
+      ['bin/run', false, false, 0o755, 1000, 100],
+      ['bin/', true, false, 0o755, 0, 0],
+      ['bin/link', false, true, 0o777, 70_000, 70_001],
+      ['plain.txt', false, false, undefined, undefined, undefined]
+    ]
+  );
+  const link = reader.entries().find((entry) => entry.name === 'bin/link')!;
+  assert.equal(link.method, 0);
+  assert.equal(new TextDecoder().decode(await readEntryBytes(reader, 'bin/link')), 'run');
+  const audit = await reader.audit();
+  assert.equal(audit.ok, true, JSON.stringify(audit.issues));
+
+  const dir = await makeTempDir();
+  await reader.extractAll(dir, { shouldAllowSymlinks: true, preserve: { mode: true } });
+  assert.equal((await stat(path.join(dir, 'bin', 'run'))).mode & 0o7777, 0o755);
+  assert.equal(await readFile(path.join(dir, 'bin', 'link'), 'utf8'), '#!/bin/sh\n');
+});
+
 function findSequence(buffer: Uint8Array, needle: Uint8Array): number {
   outer: for (let i = 0; i <= buffer.length - needle.length; i += 1) {
     for (let j = 0; j < needle.length; j += 1) {